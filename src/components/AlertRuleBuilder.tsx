@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Layers } from 'lucide-react';
+import { alertService } from '../services/alertService';
+import { AlertRuleEngine, RuleCondition, RuleGroup, RuleNode, RULE_METRICS } from '../utils/alertRules';
+import { logger } from '../utils/logger';
+
+interface AlertRuleBuilderProps {
+  userId: string;
+  symbol: string;
+  onCreated?: () => void;
+  onCancel?: () => void;
+}
+
+const newCondition = (): RuleCondition => ({ metric: 'price', operator: 'below', value: 0 });
+
+// Replace the node at `path` (child indexes from the root group) with the updater's result
+const updateAt = (group: RuleGroup, path: number[], updater: (node: RuleNode) => RuleNode | null): RuleGroup => {
+  const [index, ...rest] = path;
+  const conditions = group.conditions
+    .map((child, i) => {
+      if (i !== index) return child;
+      if (rest.length === 0) return updater(child);
+      return AlertRuleEngine.isGroup(child) ? updateAt(child, rest, updater) : child;
+    })
+    .filter((child): child is RuleNode => child !== null);
+
+  return { ...group, conditions };
+};
+
+const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({ userId, symbol, onCreated, onCancel }) => {
+  const [rule, setRule] = useState<RuleGroup>({ operator: 'and', conditions: [newCondition()] });
+  const [conditionType, setConditionType] = useState<'crosses_above' | 'above'>('crosses_above');
+  const [severity, setSeverity] = useState<'low' | 'medium' | 'high'>('medium');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const errors = AlertRuleEngine.validate(rule);
+
+  const saveRule = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await alertService.createRuleAlert(userId, symbol, rule, { conditionType, severity });
+      logger.userAction('create_rule_alert', userId, { symbol, rule: AlertRuleEngine.describe(rule) });
+      setRule({ operator: 'and', conditions: [newCondition()] });
+      onCreated?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOperatorToggle = (group: RuleGroup, path: number[]) => (
+    <div className="flex bg-gray-700 rounded">
+      {(['and', 'or'] as const).map(operator => (
+        <button
+          key={operator}
+          onClick={() => setRule(prev =>
+            path.length === 0
+              ? { ...prev, operator }
+              : updateAt(prev, path, node => ({ ...(node as RuleGroup), operator }))
+          )}
+          className={`px-2 py-0.5 text-xs rounded ${
+            group.operator === operator ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {operator.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderCondition = (condition: RuleCondition, path: number[]) => (
+    <div key={path.join('-')} className="flex items-center space-x-2">
+      <select
+        value={condition.metric}
+        onChange={(e) => setRule(prev => updateAt(prev, path, node => ({
+          ...(node as RuleCondition),
+          metric: e.target.value as RuleCondition['metric']
+        })))}
+        className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+      >
+        {RULE_METRICS.map(metric => (
+          <option key={metric.id} value={metric.id}>{metric.label}</option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => setRule(prev => updateAt(prev, path, node => ({
+          ...(node as RuleCondition),
+          operator: e.target.value as RuleCondition['operator']
+        })))}
+        className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+      >
+        <option value="above">above</option>
+        <option value="below">below</option>
+      </select>
+      <input
+        type="number"
+        step="any"
+        value={Number.isFinite(condition.value) ? condition.value : ''}
+        onChange={(e) => setRule(prev => updateAt(prev, path, node => ({
+          ...(node as RuleCondition),
+          value: parseFloat(e.target.value)
+        })))}
+        className="w-24 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+      />
+      <button
+        onClick={() => setRule(prev => updateAt(prev, path, () => null))}
+        className="text-gray-400 hover:text-red-400"
+        title="Remove condition"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">New rule for {symbol}</span>
+        {renderOperatorToggle(rule, [])}
+      </div>
+
+      <div className="space-y-2">
+        {rule.conditions.map((node, index) =>
+          AlertRuleEngine.isGroup(node) ? (
+            <div key={index} className="border-l-2 border-purple-500 pl-3 space-y-2">
+              <div className="flex items-center justify-between">
+                {renderOperatorToggle(node, [index])}
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setRule(prev => updateAt(prev, [index], group => ({
+                      ...(group as RuleGroup),
+                      conditions: [...(group as RuleGroup).conditions, newCondition()]
+                    })))}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    + Condition
+                  </button>
+                  <button
+                    onClick={() => setRule(prev => updateAt(prev, [index], () => null))}
+                    className="text-gray-400 hover:text-red-400"
+                    title="Remove group"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              {node.conditions.map((child, childIndex) =>
+                renderCondition(child as RuleCondition, [index, childIndex])
+              )}
+            </div>
+          ) : (
+            renderCondition(node, [index])
+          )
+        )}
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <button
+          onClick={() => setRule(prev => ({ ...prev, conditions: [...prev.conditions, newCondition()] }))}
+          className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300"
+        >
+          <Plus className="h-3 w-3" />
+          <span>Condition</span>
+        </button>
+        <button
+          onClick={() => setRule(prev => ({
+            ...prev,
+            conditions: [...prev.conditions, { operator: prev.operator === 'and' ? 'or' : 'and', conditions: [newCondition()] }]
+          }))}
+          className="flex items-center space-x-1 text-xs text-purple-400 hover:text-purple-300"
+        >
+          <Layers className="h-3 w-3" />
+          <span>Group</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={conditionType}
+          onChange={(e) => setConditionType(e.target.value as 'crosses_above' | 'above')}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+        >
+          <option value="crosses_above">Once when rule becomes true</option>
+          <option value="above">Repeatedly while true</option>
+        </select>
+        <select
+          value={severity}
+          onChange={(e) => setSeverity(e.target.value as 'low' | 'medium' | 'high')}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+        >
+          <option value="low">Low severity</option>
+          <option value="medium">Medium severity</option>
+          <option value="high">High severity</option>
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {errors.length === 0 ? AlertRuleEngine.describe(rule) : errors[0]}
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1 text-sm text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={saveRule}
+          disabled={saving || errors.length > 0}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded"
+        >
+          {saving ? 'Saving...' : 'Create Alert'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRuleBuilder;
\ No newline at end of file
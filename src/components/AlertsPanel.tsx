@@ -1,21 +1,32 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, AlertTriangle, TrendingUp, Volume2, Activity } from 'lucide-react';
+import { X, AlertTriangle, TrendingUp, Volume2, Activity, Layers, Plus, Bell, Download } from 'lucide-react';
 import { Alert } from '../types';
 import { formatDistanceToNow } from 'date-fns';
+import { downloadCsv } from '../utils/csv';
+import { useAuth } from '../hooks/useAuth.tsx';
+import AlertRuleBuilder from './AlertRuleBuilder';
+import NotificationSettings from './NotificationSettings';
 
 interface AlertsPanelProps {
   alerts: Alert[];
   onDismiss: (alertId: string) => void;
+  symbol?: string;
+  onAlertCreated?: () => void;
 }
 
-const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, onDismiss }) => {
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, onDismiss, symbol, onAlertCreated }) => {
+  const { user } = useAuth();
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+
   const getAlertIcon = (type: string) => {
     switch (type) {
       case 'price': return <TrendingUp className="h-4 w-4" />;
       case 'volume': return <Volume2 className="h-4 w-4" />;
       case 'trend': return <Activity className="h-4 w-4" />;
       case 'volatility': return <AlertTriangle className="h-4 w-4" />;
+      case 'composite': return <Layers className="h-4 w-4" />;
       default: return <AlertTriangle className="h-4 w-4" />;
     }
   };
@@ -46,9 +57,61 @@ const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, onDismiss }) => {
     >
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-bold">Market Alerts</h3>
-        <span className="text-sm text-gray-400">{alerts.length} active</span>
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-400">{alerts.length} active</span>
+          {alerts.length > 0 && (
+            <button
+              onClick={() => downloadCsv('alerts.csv', alerts, [
+                { label: 'timestamp', value: a => a.timestamp },
+                { label: 'symbol', value: a => a.symbol },
+                { label: 'type', value: a => a.type },
+                { label: 'severity', value: a => a.severity },
+                { label: 'message', value: a => a.message },
+                { label: 'read', value: a => a.isRead }
+              ])}
+              className="text-gray-400 hover:text-white"
+              title="Export CSV"
+            >
+              <Download className="h-4 w-4" />
+            </button>
+          )}
+          {user && (
+            <button
+              onClick={() => setShowNotifications(!showNotifications)}
+              className="text-gray-400 hover:text-white"
+              title="Notification settings"
+            >
+              <Bell className="h-4 w-4" />
+            </button>
+          )}
+          {user && symbol && !showBuilder && (
+            <button
+              onClick={() => setShowBuilder(true)}
+              className="flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Rule</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {user && showNotifications && (
+        <NotificationSettings userId={user.id} onClose={() => setShowNotifications(false)} />
+      )}
+
+      {user && symbol && showBuilder && (
+        <AlertRuleBuilder
+          userId={user.id}
+          symbol={symbol}
+          onCreated={() => {
+            setShowBuilder(false);
+            onAlertCreated?.();
+          }}
+          onCancel={() => setShowBuilder(false)}
+        />
+      )}
+
       <div className="space-y-3 max-h-96 overflow-y-auto">
         <AnimatePresence>
           {alerts.map((alert) => (
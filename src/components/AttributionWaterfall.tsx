@@ -0,0 +1,81 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { PredictionAttribution, WaterfallStep, waterfallSteps } from '../utils/attribution';
+
+interface AttributionWaterfallProps {
+  attribution: PredictionAttribution;
+}
+
+const STEP_COLORS: Record<WaterfallStep['kind'], string> = {
+  baseline: '#6B7280',
+  increase: '#10B981',
+  decrease: '#EF4444',
+  total: '#8B5CF6'
+};
+
+const formatFeature = (feature: string) => feature.replace(/_/g, ' ');
+
+const AttributionWaterfall: React.FC<AttributionWaterfallProps> = ({ attribution }) => {
+  const steps = waterfallSteps(attribution);
+
+  // Prices sit far from zero, so the baseline and forecast bars rise from just below the lowest level
+  const levels = steps.flatMap(step => (step.kind === 'baseline' || step.kind === 'total' ? [step.end] : [step.start, step.end]));
+  const low = Math.min(...levels);
+  const high = Math.max(...levels);
+  const floor = low - (high - low || low * 0.01) * 0.5;
+
+  const data = steps.map(step => {
+    const start = step.kind === 'baseline' || step.kind === 'total' ? floor : step.start;
+    return {
+      ...step,
+      label: formatFeature(step.label),
+      offset: Math.min(start, step.end),
+      span: Math.abs(step.end - start),
+      change: step.end - step.start
+    };
+  });
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const step = payload[0].payload;
+      return (
+        <div className="bg-gray-800 border border-gray-600 rounded-lg p-3 shadow-lg">
+          <p className="text-sm text-gray-300 mb-1">{step.label}</p>
+          <p className="text-sm" style={{ color: STEP_COLORS[step.kind as WaterfallStep['kind']] }}>
+            {step.kind === 'baseline' || step.kind === 'total'
+              ? `$${step.end.toFixed(2)}`
+              : `${step.change >= 0 ? '+' : '-'}$${Math.abs(step.change).toFixed(2)}`}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="label" stroke="#9CA3AF" fontSize={11} interval={0} />
+          <YAxis
+            stroke="#9CA3AF"
+            fontSize={11}
+            domain={[floor, 'auto']}
+            allowDataOverflow
+            tickFormatter={value => `$${Number(value).toFixed(0)}`}
+          />
+          <Tooltip content={<CustomTooltip />} cursor={{ fill: '#37415133' }} />
+          <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="span" stackId="waterfall" isAnimationActive={false}>
+            {data.map((step, index) => (
+              <Cell key={index} fill={STEP_COLORS[step.kind]} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default AttributionWaterfall;
\ No newline at end of file
@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { History, Play, Save, TrendingDown, Percent, Activity, Target, AlertCircle } from 'lucide-react';
+import { backtestService } from '../services/backtestService';
+import { BacktestReport } from '../utils/backtestEngine';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { logger } from '../utils/logger';
+import LoadingSpinner from './LoadingSpinner';
+
+interface BacktestPanelProps {
+  symbol: string;
+}
+
+const STRATEGY_COLORS = ['#3B82F6', '#8B5CF6', '#10B981', '#F59E0B', '#EF4444'];
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ symbol }) => {
+  const { user } = useAuth();
+  const strategies = backtestService.getStrategies();
+  const [reports, setReports] = useState<BacktestReport[]>([]);
+  const [selectedStrategy, setSelectedStrategy] = useState<string>(strategies[0]?.id || '');
+  const [days, setDays] = useState(365);
+  const [allowShort, setAllowShort] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runComparison = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const results = await backtestService.compareStrategies(
+        symbol,
+        backtestService.getStrategies().map(strategy => strategy.id),
+        days,
+        { allowShort }
+      );
+      setReports(results);
+    } catch (err: any) {
+      logger.error('Error running backtests', err, 'Backtest');
+      setError(err.message || 'Failed to run backtests');
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol, days, allowShort]);
+
+  useEffect(() => {
+    runComparison();
+  }, [runComparison]);
+
+  const saveSelected = async () => {
+    const report = reports.find(r => r.strategyId === selectedStrategy);
+    if (!user || !report) return;
+
+    setSaving(true);
+    try {
+      await backtestService.saveBacktest(user.id, report);
+      logger.userAction('save_backtest', user.id, { symbol, strategy: selectedStrategy });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save backtest');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedReport = reports.find(r => r.strategyId === selectedStrategy);
+  const strategyName = (id: string) => strategies.find(s => s.id === id)?.name || id;
+
+  // Merge every strategy's equity curve into one series keyed by date
+  const chartData = (() => {
+    const byDate = new Map<string, Record<string, number | string>>();
+    reports.forEach(report => {
+      report.equityCurve.forEach(point => {
+        const row = byDate.get(point.date) || { date: point.date };
+        row[report.strategyId] = point.equity;
+        byDate.set(point.date, row);
+      });
+    });
+    return Array.from(byDate.values()).sort((a, b) =>
+      String(a.date).localeCompare(String(b.date))
+    );
+  })();
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-gray-800 border border-gray-600 rounded-lg p-3 shadow-lg">
+          <p className="text-sm text-gray-300 mb-2">{label}</p>
+          {payload.map((entry: any, index: number) => (
+            <p key={index} className="text-sm" style={{ color: entry.color }}>
+              {strategyName(entry.dataKey)}: ${entry.value.toFixed(2)}
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <History className="h-6 w-6 text-blue-400" />
+          <h2 className="text-2xl font-bold">{symbol} Strategy Backtests</h2>
+        </div>
+
+        <div className="flex items-center space-x-4">
+          <div className="flex bg-gray-700 rounded-lg">
+            {[90, 180, 365].map((period) => (
+              <button
+                key={period}
+                onClick={() => setDays(period)}
+                className={`px-3 py-1 text-sm rounded ${
+                  days === period
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {period}d
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => setAllowShort(!allowShort)}
+            className={`px-3 py-1 text-xs rounded ${
+              allowShort ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400'
+            }`}
+          >
+            Allow Shorts
+          </button>
+
+          <button
+            onClick={runComparison}
+            disabled={loading}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 text-white px-4 py-2 rounded-lg"
+          >
+            <Play className="h-4 w-4" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-400 bg-gray-800 rounded-lg p-4">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="bg-gray-800 rounded-lg p-6 h-96 flex items-center justify-center">
+          <LoadingSpinner size="lg" message="Replaying historical bars..." />
+        </div>
+      ) : (
+        <>
+          {/* Strategy Comparison */}
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h3 className="text-lg font-bold mb-4">Strategy Comparison</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-2 text-gray-400">Strategy</th>
+                    <th className="text-right py-2 text-gray-400">Return</th>
+                    <th className="text-right py-2 text-gray-400">Max Drawdown</th>
+                    <th className="text-right py-2 text-gray-400">Sharpe</th>
+                    <th className="text-right py-2 text-gray-400">Win Rate</th>
+                    <th className="text-right py-2 text-gray-400">Trades</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reports.map((report) => (
+                    <tr
+                      key={report.strategyId}
+                      onClick={() => setSelectedStrategy(report.strategyId)}
+                      className={`border-b border-gray-700/50 cursor-pointer ${
+                        selectedStrategy === report.strategyId ? 'bg-blue-500/10' : 'hover:bg-gray-700/50'
+                      }`}
+                    >
+                      <td className="py-2 font-medium">{strategyName(report.strategyId)}</td>
+                      <td className={`text-right py-2 ${
+                        report.metrics.totalReturn >= 0 ? 'text-green-400' : 'text-red-400'
+                      }`}>
+                        {formatPercent(report.metrics.totalReturn)}
+                      </td>
+                      <td className="text-right py-2 text-red-400">
+                        {formatPercent(report.metrics.maxDrawdown)}
+                      </td>
+                      <td className="text-right py-2 text-blue-400">
+                        {report.metrics.sharpeRatio.toFixed(2)}
+                      </td>
+                      <td className="text-right py-2 text-yellow-400">
+                        {formatPercent(report.metrics.winRate)}
+                      </td>
+                      <td className="text-right py-2 text-gray-300">
+                        {report.metrics.totalTrades}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Equity Curves */}
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h3 className="text-lg font-bold mb-4">Equity Curves</h3>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9CA3AF" fontSize={12} />
+                  <YAxis
+                    stroke="#9CA3AF"
+                    fontSize={12}
+                    domain={['auto', 'auto']}
+                    tickFormatter={(value) => `$${value.toFixed(0)}`}
+                  />
+                  <Tooltip content={<CustomTooltip />} />
+                  {reports.map((report, index) => (
+                    <Line
+                      key={report.strategyId}
+                      type="monotone"
+                      dataKey={report.strategyId}
+                      stroke={STRATEGY_COLORS[index % STRATEGY_COLORS.length]}
+                      strokeWidth={selectedStrategy === report.strategyId ? 3 : 1}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {selectedReport && (
+            <>
+              {/* Selected Strategy Metrics */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Percent className="h-4 w-4 text-green-400" />
+                    <span className="text-sm text-gray-400">Annualized Return</span>
+                  </div>
+                  <div className="text-xl font-bold text-green-400">
+                    {formatPercent(selectedReport.metrics.annualizedReturn)}
+                  </div>
+                </div>
+
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <TrendingDown className="h-4 w-4 text-red-400" />
+                    <span className="text-sm text-gray-400">Max Drawdown</span>
+                  </div>
+                  <div className="text-xl font-bold text-red-400">
+                    {formatPercent(selectedReport.metrics.maxDrawdown)}
+                  </div>
+                </div>
+
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Activity className="h-4 w-4 text-blue-400" />
+                    <span className="text-sm text-gray-400">Time in Market</span>
+                  </div>
+                  <div className="text-xl font-bold text-blue-400">
+                    {formatPercent(selectedReport.metrics.exposure)}
+                  </div>
+                </div>
+
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Target className="h-4 w-4 text-yellow-400" />
+                    <span className="text-sm text-gray-400">Avg Win / Loss</span>
+                  </div>
+                  <div className="text-xl font-bold text-yellow-400">
+                    {selectedReport.metrics.averageWin.toFixed(2)}% / {selectedReport.metrics.averageLoss.toFixed(2)}%
+                  </div>
+                </div>
+              </div>
+
+              {/* Trade Log */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-bold">
+                    Trade Log — {strategyName(selectedReport.strategyId)}
+                  </h3>
+                  {user && (
+                    <button
+                      onClick={saveSelected}
+                      disabled={saving}
+                      className="flex items-center space-x-2 text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500"
+                    >
+                      <Save className="h-4 w-4" />
+                      <span>{saving ? 'Saving...' : 'Save Result'}</span>
+                    </button>
+                  )}
+                </div>
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-700">
+                        <th className="text-left py-2 text-gray-400">Side</th>
+                        <th className="text-left py-2 text-gray-400">Entry</th>
+                        <th className="text-left py-2 text-gray-400">Exit</th>
+                        <th className="text-right py-2 text-gray-400">Entry Price</th>
+                        <th className="text-right py-2 text-gray-400">Exit Price</th>
+                        <th className="text-right py-2 text-gray-400">P&L</th>
+                        <th className="text-right py-2 text-gray-400">Exit Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedReport.trades.map((trade, index) => (
+                        <tr key={index} className="border-b border-gray-700/50" title={trade.reasoning}>
+                          <td className={`py-2 font-medium ${
+                            trade.signalType === 'buy' ? 'text-green-400' : 'text-red-400'
+                          }`}>
+                            {trade.signalType.toUpperCase()}
+                          </td>
+                          <td className="py-2 text-gray-300">{trade.entryDate}</td>
+                          <td className="py-2 text-gray-300">{trade.exitDate}</td>
+                          <td className="text-right py-2">${trade.entryPrice.toFixed(2)}</td>
+                          <td className="text-right py-2">${trade.exitPrice.toFixed(2)}</td>
+                          <td className={`text-right py-2 ${trade.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {trade.returnPercent.toFixed(2)}%
+                          </td>
+                          <td className="text-right py-2 text-gray-400">
+                            {trade.exitReason.replace(/_/g, ' ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {selectedReport.trades.length === 0 && (
+                    <div className="text-center text-gray-500 py-8">
+                      No trades were triggered in this period
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <div className="text-xs text-gray-500">
+        * Signals are evaluated on each daily close and filled at that close, with stop loss and target levels checked against subsequent highs and lows
+      </div>
+    </motion.div>
+  );
+};
+
+export default BacktestPanel;
\ No newline at end of file
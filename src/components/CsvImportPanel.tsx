@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvField,
+  CsvImportResult,
+  CSV_FIELDS,
+  guessColumnMapping,
+  parseCsv,
+  parseMarketDataCsv
+} from '../utils/csv';
+import { marketDataImportService, ImportSummary, ImportTarget } from '../services/marketDataImportService';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { logger } from '../utils/logger';
+
+const DATE_FORMATS: { value: CsvDateFormat; label: string }[] = [
+  { value: 'iso', label: 'ISO (2025-09-02)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'unix', label: 'Unix seconds' },
+  { value: 'unix_ms', label: 'Unix milliseconds' }
+];
+
+const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+// Rejected rows listed in the report; the rest are counted
+const REJECTED_SHOWN = 20;
+
+const CsvImportPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [delimiter, setDelimiter] = useState(',');
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('iso');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [symbol, setSymbol] = useState('');
+  const [target, setTarget] = useState<ImportTarget>('historical');
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readHeaders = (content: string, separator: string) => {
+    const [firstRow = []] = parseCsv(content.split(/\r?\n/, 1)[0] ?? '', separator === '\\t' ? '\t' : separator);
+    setHeaders(firstRow);
+    setMapping(guessColumnMapping(firstRow));
+    setResult(null);
+    setSummary(null);
+  };
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    setFileName(file.name);
+    setText(content);
+    setError(null);
+    readHeaders(content, delimiter);
+  };
+
+  const handleDelimiterChange = (value: string) => {
+    setDelimiter(value);
+    if (text) readHeaders(text, value);
+  };
+
+  const validate = () => {
+    setError(null);
+    setSummary(null);
+    try {
+      setResult(parseMarketDataCsv(text, { mapping, dateFormat, delimiter, symbol: symbol.trim() || undefined }));
+    } catch (err: any) {
+      setResult(null);
+      setError(err.message);
+    }
+  };
+
+  const runImport = async () => {
+    if (!result) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      setSummary(await marketDataImportService.importBars(result.bars, target));
+    } catch (err: any) {
+      logger.error('Error importing CSV', err);
+      setError(err.message || 'Failed to import');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const updateMapping = (field: CsvField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header || undefined }));
+    setResult(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gray-800 rounded-lg p-6"
+    >
+      <div className="flex items-center space-x-2 mb-6">
+        <Upload className="h-6 w-6 text-blue-400" />
+        <h3 className="text-xl font-bold">Import Price History</h3>
+      </div>
+
+      {!user ? (
+        <p className="text-gray-400 text-sm">Sign in to import market data.</p>
+      ) : !user.isAdmin ? (
+        <p className="text-gray-400 text-sm">Only administrators can import market data.</p>
+      ) : (
+        <div className="space-y-6">
+          {/* File and format */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="flex items-center justify-center space-x-2 border border-dashed border-gray-600 rounded-lg px-3 py-2 cursor-pointer hover:border-blue-500">
+              <FileText className="h-4 w-4 text-gray-400" />
+              <span className="text-sm truncate">{fileName ?? 'Choose CSV file'}</span>
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </label>
+            <select
+              value={delimiter}
+              onChange={(e) => handleDelimiterChange(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+            >
+              {DELIMITERS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={dateFormat}
+              onChange={(e) => { setDateFormat(e.target.value as CsvDateFormat); setResult(null); }}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+            >
+              {DATE_FORMATS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value as ImportTarget)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="historical">Daily bars (historical data)</option>
+              <option value="market">Ticks (market data)</option>
+            </select>
+          </div>
+
+          {/* Column mapping */}
+          {headers.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+              {CSV_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="block text-xs text-gray-400 mb-1 capitalize">{field}</label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+                  >
+                    <option value="">—</option>
+                    {headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {!mapping.symbol && (
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Symbol for all rows</label>
+                  <input
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                    placeholder="AAPL"
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={validate}
+              disabled={!text}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm"
+            >
+              Validate
+            </button>
+            <button
+              onClick={runImport}
+              disabled={!result || result.bars.length === 0 || importing}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm"
+            >
+              {importing ? 'Importing...' : `Import ${result?.bars.length ?? 0} rows`}
+            </button>
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 text-red-400 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {summary && (
+            <div className="flex items-center space-x-2 text-green-400 text-sm">
+              <CheckCircle className="h-4 w-4" />
+              <span>
+                Imported {summary.imported} rows
+                {summary.unknownSymbols.length > 0 && ` · unknown symbols skipped: ${summary.unknownSymbols.join(', ')}`}
+              </span>
+            </div>
+          )}
+
+          {/* Validation report */}
+          {result && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-300">
+                {result.bars.length} valid rows, {result.rejected.length} rejected
+              </div>
+              {result.rejected.length > 0 && (
+                <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700">
+                        <th className="text-left py-1">Line</th>
+                        <th className="text-left py-1">Reason</th>
+                        <th className="text-left py-1">Row</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.rejected.slice(0, REJECTED_SHOWN).map(row => (
+                        <tr key={row.line} className="border-b border-gray-700/50">
+                          <td className="py-1 pr-3">{row.line}</td>
+                          <td className="py-1 pr-3 text-red-400">{row.reason}</td>
+                          <td className="py-1 text-gray-500 font-mono truncate max-w-xs">{row.values.join(', ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {result.rejected.length > REJECTED_SHOWN && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      and {result.rejected.length - REJECTED_SHOWN} more
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default CsvImportPanel;
\ No newline at end of file
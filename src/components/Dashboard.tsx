@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { LogIn, TrendingUp, Brain, Target } from 'lucide-react';
+import { LogIn, TrendingUp, Brain, Target, History, Briefcase, Database } from 'lucide-react';
 import { MarketData, Alert, AnalysisResult } from '../types';
 import { dataService } from '../services/dataService';
 import { useAuth } from '../hooks/useAuth.tsx';
 import MarketOverview from './MarketOverview';
 import TrendChart from './TrendChart';
+import VolatilityConeChart from './VolatilityConeChart';
 import EnhancedPredictionChart from './EnhancedPredictionChart';
 import ValidationDashboard from './ValidationDashboard';
 import RealTimeValidator from './RealTimeValidator';
 import ManualPredictionPanel from './ManualPredictionPanel';
+import ScenarioPanel from './ScenarioPanel';
 import AlertsPanel from './AlertsPanel';
 import TechnicalAnalysis from './TechnicalAnalysis';
+import BacktestPanel from './BacktestPanel';
+import PortfolioPanel from './PortfolioPanel';
+import MarketDataStatus from './MarketDataStatus';
+import CsvImportPanel from './CsvImportPanel';
 import Header from './Header';
 import AuthModal from './AuthModal';
 
@@ -23,7 +29,7 @@ const Dashboard: React.FC = () => {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'overview' | 'predictions' | 'validation'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'predictions' | 'validation' | 'backtest' | 'portfolio' | 'data'>('overview');
 
   useEffect(() => {
     // Initialize data
@@ -98,6 +104,15 @@ const Dashboard: React.FC = () => {
     setAlerts(prev => prev.filter(alert => alert.id !== alertId));
   };
 
+  const refreshAlerts = async () => {
+    try {
+      const updatedAlerts = await dataService.getUserAlertsPublic();
+      setAlerts(Array.isArray(updatedAlerts) ? updatedAlerts : []);
+    } catch (error) {
+      console.error('Error updating alerts:', error);
+    }
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -161,7 +176,10 @@ const Dashboard: React.FC = () => {
             {[
               { id: 'overview', label: 'Market Overview', icon: TrendingUp },
               { id: 'predictions', label: 'AI Predictions', icon: Brain },
-              { id: 'validation', label: 'Model Validation', icon: Target }
+              { id: 'validation', label: 'Model Validation', icon: Target },
+              { id: 'backtest', label: 'Backtesting', icon: History },
+              { id: 'portfolio', label: 'Portfolio', icon: Briefcase },
+              { id: 'data', label: 'Data', icon: Database }
             ].map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
@@ -183,15 +201,19 @@ const Dashboard: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <div className="lg:col-span-2 space-y-8">
                 <TrendChart symbol={selectedSymbol} />
+                <VolatilityConeChart symbol={selectedSymbol} />
               </div>
               <div className="space-y-8">
                 <AlertsPanel 
                   alerts={alerts} 
                   onDismiss={handleAlertDismiss} 
+                  symbol={selectedSymbol}
+                  onAlertCreated={refreshAlerts}
                 />
                 {analysisResult && (
                   <TechnicalAnalysis analysis={analysisResult} />
                 )}
+                <MarketDataStatus />
               </div>
             </div>
           )}
@@ -203,6 +225,7 @@ const Dashboard: React.FC = () => {
                 symbol={selectedSymbol} 
                 currentPrice={marketData.find(d => d.symbol === selectedSymbol)?.price || 0}
               />
+              <ScenarioPanel symbols={marketData.map(d => d.symbol)} />
               <RealTimeValidator symbols={[selectedSymbol]} />
             </div>
           )}
@@ -210,6 +233,18 @@ const Dashboard: React.FC = () => {
           {activeTab === 'validation' && (
             <ValidationDashboard symbols={marketData.map(d => d.symbol)} />
           )}
+
+          {activeTab === 'backtest' && (
+            <BacktestPanel symbol={selectedSymbol} />
+          )}
+
+          {activeTab === 'portfolio' && (
+            <PortfolioPanel marketData={marketData} />
+          )}
+
+          {activeTab === 'data' && (
+            <CsvImportPanel />
+          )}
         </motion.div>
       </main>
       
@@ -12,10 +12,17 @@ import {
   Area,
   ComposedChart
 } from 'recharts';
-import { Brain, Target, TrendingUp, AlertCircle, CheckCircle, Activity } from 'lucide-react';
+import { Brain, Target, TrendingUp, AlertCircle, CheckCircle, Activity, Download } from 'lucide-react';
 import { predictionService, EnhancedPrediction, ValidationResult } from '../services/predictionService';
+import { predictionValidationService } from '../services/predictionValidationService';
+import { trendService, TrendOutlook } from '../services/trendService';
+import { CoverageReport } from '../utils/conformal';
+import { PredictionAttribution } from '../utils/attribution';
+import { downloadCsv } from '../utils/csv';
+import { ForecastGranularity, GRANULARITIES, horizonLabel } from '../utils/forecastHorizon';
 import { logger } from '../utils/logger';
 import LoadingSpinner from './LoadingSpinner';
+import AttributionWaterfall from './AttributionWaterfall';
 
 interface EnhancedPredictionChartProps {
   symbol: string;
@@ -28,35 +35,58 @@ interface ChartDataPoint {
   lowerBound: number;
   actual?: number;
   confidence: number;
+  calibrated?: boolean;
+  intervalCoverage?: number;
+  attribution?: PredictionAttribution;
 }
 
 const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbol }) => {
   const [predictions, setPredictions] = useState<EnhancedPrediction[]>([]);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [coverage, setCoverage] = useState<CoverageReport[]>([]);
+  const [trend, setTrend] = useState<TrendOutlook | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showConfidenceInterval, setShowConfidenceInterval] = useState(true);
   const [selectedModel, setSelectedModel] = useState<string>('ensemble');
+  const [granularity, setGranularity] = useState<ForecastGranularity>('1d');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const steps = GRANULARITIES[granularity].defaultSteps;
 
   useEffect(() => {
     fetchPredictionData();
-  }, [symbol, selectedModel]);
+  }, [symbol, selectedModel, granularity]);
 
   const fetchPredictionData = async () => {
     setLoading(true);
     setError(null);
     
     try {
-      logger.info(`Fetching prediction data for ${symbol}`, { model: selectedModel });
+      logger.info(`Fetching prediction data for ${symbol}`, { model: selectedModel, granularity });
       
       // Generate enhanced predictions
-      const predictionData = await predictionService.generateEnhancedPredictions(symbol, 7);
+      const predictionData = await predictionService.generateEnhancedPredictions(symbol, steps, granularity);
       setPredictions(predictionData);
+      setSelectedIndex(0);
 
       // Get validation results
       const validationData = await predictionService.validatePredictions(symbol);
       setValidation(validationData);
 
+      // How often this symbol's bands have held; the chart still renders without it
+      const coverageData = await predictionValidationService.getCoverageReport(symbol).catch(err => {
+        logger.warn(`Could not load interval coverage for ${symbol}`, err);
+        return [];
+      });
+      setCoverage(coverageData);
+
+      // Direction calls from the trend classifier, also optional
+      const trendData = await trendService.getTrendOutlook(symbol).catch(err => {
+        logger.warn(`Could not load trend calls for ${symbol}`, err);
+        return null;
+      });
+      setTrend(trendData);
+
       logger.info(`Successfully loaded predictions for ${symbol}`, {
         predictions: predictionData.length,
         accuracy: validationData.overallAccuracy
@@ -69,20 +99,31 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
     }
   };
 
+  // Intraday steps need the time of day; day-based steps only the date
+  const formatTimestamp = (timestamp: string) =>
+    GRANULARITIES[granularity].intraday
+      ? new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+      : new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
   const prepareChartData = (): ChartDataPoint[] => {
     return predictions.map(pred => ({
-      timestamp: new Date(pred.timestamp).toLocaleDateString('en-US', { 
-        month: 'short', 
-        day: 'numeric' 
-      }),
+      timestamp: formatTimestamp(pred.timestamp),
       predicted: pred.predicted,
       upperBound: pred.upperBound,
       lowerBound: pred.lowerBound,
       actual: pred.actual,
-      confidence: pred.confidence * 100
+      confidence: pred.confidence * 100,
+      calibrated: pred.calibrated,
+      intervalCoverage: pred.intervalCoverage,
+      attribution: pred.attribution
     }));
   };
 
+  const rangeLabel = (pred: { calibrated?: boolean; intervalCoverage?: number }) =>
+    pred.calibrated && pred.intervalCoverage !== undefined
+      ? `${(pred.intervalCoverage * 100).toFixed(0)}% conformal range`
+      : 'Range';
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
@@ -99,11 +140,23 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
               </p>
             )}
             <p className="text-sm text-green-400">
-              Confidence: {data.confidence.toFixed(1)}%
+              {data.calibrated ? 'Band held' : 'Confidence'}: {data.confidence.toFixed(1)}%
             </p>
             {showConfidenceInterval && (
               <div className="text-xs text-gray-400">
-                Range: ${data.lowerBound.toFixed(2)} - ${data.upperBound.toFixed(2)}
+                {rangeLabel(data)}: ${data.lowerBound.toFixed(2)} - ${data.upperBound.toFixed(2)}
+              </div>
+            )}
+            {data.attribution && (
+              <div className="text-xs text-gray-400 pt-1">
+                {data.attribution.contributions.slice(0, 3).map((item: PredictionAttribution['contributions'][number]) => (
+                  <div key={item.feature}>
+                    {item.feature.replace(/_/g, ' ')}:{' '}
+                    <span className={item.contribution >= 0 ? 'text-green-400' : 'text-red-400'}>
+                      {item.contribution >= 0 ? '+' : '-'}${Math.abs(item.contribution).toFixed(2)}
+                    </span>
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -155,6 +208,21 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
         </div>
         
         <div className="flex items-center space-x-4">
+          {/* Horizon Selector */}
+          <div className="flex bg-gray-700 rounded p-1">
+            {(Object.keys(GRANULARITIES) as ForecastGranularity[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-2 py-0.5 text-xs rounded ${
+                  granularity === option ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {GRANULARITIES[option].label}
+              </button>
+            ))}
+          </div>
+
           {/* Model Selector */}
           <select
             value={selectedModel}
@@ -177,6 +245,25 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
           >
             Confidence Bands
           </button>
+
+          <button
+            onClick={() => downloadCsv(`${symbol}-predictions-${granularity}.csv`, predictions, [
+              { label: 'timestamp', value: p => p.timestamp },
+              { label: 'predicted', value: p => p.predicted },
+              { label: 'lower_bound', value: p => p.lowerBound },
+              { label: 'upper_bound', value: p => p.upperBound },
+              { label: 'confidence', value: p => p.confidence },
+              { label: 'actual', value: p => p.actual },
+              { label: 'model', value: p => p.modelUsed },
+              { label: 'top_driver', value: p => p.attribution?.contributions[0]?.feature }
+            ])}
+            disabled={predictions.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 text-xs rounded bg-gray-700 text-gray-300 hover:text-white disabled:opacity-50"
+            title="Export CSV"
+          >
+            <Download className="h-3 w-3" />
+            <span>CSV</span>
+          </button>
         </div>
       </div>
 
@@ -205,7 +292,7 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
         <div className="bg-gray-700 rounded-lg p-4">
           <div className="flex items-center space-x-2 mb-2">
             <TrendingUp className="h-4 w-4 text-purple-400" />
-            <span className="text-sm text-gray-400">7-Day Target</span>
+            <span className="text-sm text-gray-400">Target ({horizonLabel(granularity, steps)})</span>
           </div>
           <div className="text-xl font-bold text-purple-400">
             ${predictions[predictions.length - 1]?.predicted.toFixed(2) || '0.00'}
@@ -223,6 +310,59 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
         </div>
       </div>
 
+      {/* Interval Calibration */}
+      <div className="bg-gray-700 rounded-lg p-4 mb-6">
+        <div className="text-sm text-gray-400 mb-2">Interval Calibration</div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {coverage.map(report => (
+            <div key={report.coverage} className="text-sm text-gray-300">
+              {report.sampleSize > 0 ? (
+                <>
+                  {(report.coverage * 100).toFixed(0)}% band contained actual{' '}
+                  <span className={Math.abs(report.empiricalCoverage - report.coverage) <= 0.05 ? 'text-green-400' : 'text-yellow-400'}>
+                    {(report.empiricalCoverage * 100).toFixed(0)}%
+                  </span>{' '}
+                  of the time <span className="text-gray-500">(n={report.sampleSize})</span>
+                </>
+              ) : (
+                <span className="text-gray-500">
+                  {(report.coverage * 100).toFixed(0)}% band: awaiting resolved predictions
+                </span>
+              )}
+            </div>
+          ))}
+          {coverage.length === 0 && (
+            <span className="text-sm text-gray-500">Coverage unavailable</span>
+          )}
+        </div>
+      </div>
+
+      {/* Trend Outlook */}
+      {trend && trend.calls.length > 0 && (
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <div className="text-sm text-gray-400 mb-2">
+            Trend Outlook
+            {trend.source === 'simulated' && <span className="text-yellow-400"> · simulated history</span>}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {trend.calls.map(call => (
+              <div key={call.horizonDays} className="text-sm text-gray-300">
+                {call.horizonDays} days:{' '}
+                <span className={
+                  call.direction === 'up' ? 'text-green-400' : call.direction === 'down' ? 'text-red-400' : 'text-yellow-400'
+                }>
+                  {call.direction.toUpperCase()}
+                </span>{' '}
+                <span className="text-gray-500">
+                  (up {(call.probabilities.up * 100).toFixed(0)}%, flat {(call.probabilities.flat * 100).toFixed(0)}%,
+                  down {(call.probabilities.down * 100).toFixed(0)}%; {(call.holdoutAccuracy * 100).toFixed(0)}% held-out hit rate)
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Chart */}
       <div className="h-80 mb-6">
         <ResponsiveContainer width="100%" height="100%">
@@ -289,27 +429,47 @@ const EnhancedPredictionChart: React.FC<EnhancedPredictionChartProps> = ({ symbo
         <h4 className="text-sm font-bold text-gray-400">Prediction Details</h4>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {predictions.slice(0, 4).map((pred, index) => (
-            <div key={index} className="bg-gray-700 rounded-lg p-3">
+            <div
+              key={index}
+              onClick={() => setSelectedIndex(index)}
+              className={`bg-gray-700 rounded-lg p-3 cursor-pointer border ${
+                index === selectedIndex ? 'border-purple-500' : 'border-transparent'
+              }`}
+            >
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm text-gray-400">
-                  {new Date(pred.timestamp).toLocaleDateString()}
+                  {formatTimestamp(pred.timestamp)}
                 </span>
                 <span className={`text-xs px-2 py-1 rounded ${
                   pred.confidence > 0.8 ? 'bg-green-600' :
                   pred.confidence > 0.6 ? 'bg-yellow-600' : 'bg-red-600'
                 }`}>
-                  {(pred.confidence * 100).toFixed(0)}% confidence
+                  {(pred.confidence * 100).toFixed(0)}% {pred.calibrated ? 'band held' : 'confidence'}
                 </span>
               </div>
               <div className="text-lg font-bold text-purple-400">
                 ${pred.predicted.toFixed(2)}
               </div>
               <div className="text-xs text-gray-400">
-                Range: ${pred.lowerBound.toFixed(2)} - ${pred.upperBound.toFixed(2)}
+                {rangeLabel(pred)}: ${pred.lowerBound.toFixed(2)} - ${pred.upperBound.toFixed(2)}
               </div>
             </div>
           ))}
         </div>
+
+        {/* Why the selected forecast moved away from the baseline */}
+        {predictions[selectedIndex]?.attribution && (
+          <div className="bg-gray-700 rounded-lg p-4">
+            <div className="text-sm text-gray-400 mb-2">
+              Drivers for {formatTimestamp(predictions[selectedIndex].timestamp)}
+              <span className="text-gray-500">
+                {' '}· baseline ${predictions[selectedIndex].attribution!.baseline.toFixed(2)} to forecast $
+                {predictions[selectedIndex].predicted.toFixed(2)}
+              </span>
+            </div>
+            <AttributionWaterfall attribution={predictions[selectedIndex].attribution!} />
+          </div>
+        )}
       </div>
 
       {/* Model Information */}
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Gauge } from 'lucide-react';
+import { apiClient } from '../utils/apiClient';
+import { QuotaUsage } from '../utils/rateLimiter';
+import { ProviderHealth } from '../utils/marketDataProviders';
+
+interface MarketDataStatusProps {
+  refreshInterval?: number;
+}
+
+const barClass = (remaining: number, total: number) => {
+  const share = total > 0 ? remaining / total : 0;
+  if (share > 0.5) return 'bg-green-500';
+  if (share > 0.2) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const QuotaBar: React.FC<{ label: string; remaining: number; total: number }> = ({ label, remaining, total }) => (
+  <div>
+    <div className="flex justify-between text-xs text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{remaining}/{total}</span>
+    </div>
+    <div className="w-full bg-gray-700 rounded-full h-1.5">
+      <div
+        className={`h-1.5 rounded-full ${barClass(remaining, total)}`}
+        style={{ width: `${total > 0 ? (remaining / total) * 100 : 0}%` }}
+      />
+    </div>
+  </div>
+);
+
+const MarketDataStatus: React.FC<MarketDataStatusProps> = ({ refreshInterval = 5000 }) => {
+  const [quotas, setQuotas] = useState<QuotaUsage[]>([]);
+  const [health, setHealth] = useState<ProviderHealth[]>([]);
+
+  useEffect(() => {
+    // Buckets refill continuously, so poll rather than wait for requests
+    const refresh = () => {
+      setQuotas(apiClient.getQuotaUsage());
+      setHealth(apiClient.getProviderHealth());
+    };
+
+    refresh();
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [refreshInterval]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gray-800 rounded-lg p-6"
+    >
+      <div className="flex items-center space-x-2 mb-4">
+        <Gauge className="h-5 w-5 text-blue-400" />
+        <h3 className="text-lg font-bold">Data Providers</h3>
+      </div>
+
+      <div className="space-y-4">
+        {quotas.map(quota => (
+          <div key={quota.provider} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{quota.provider}</span>
+              {quota.queued > 0 && (
+                <span className="text-xs text-yellow-400">{quota.queued} queued</span>
+              )}
+            </div>
+            <QuotaBar label="This minute" remaining={quota.minuteRemaining} total={quota.perMinute} />
+            {quota.perDay !== undefined && (
+              <QuotaBar label="Today" remaining={quota.dayRemaining ?? 0} total={quota.perDay} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {health.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-700 space-y-2">
+          {health.map(provider => (
+            <div key={provider.name} className="flex justify-between text-xs" title={provider.lastError}>
+              <span className={provider.available ? 'text-gray-300' : 'text-gray-500'}>{provider.name}</span>
+              <span className="text-gray-400">
+                {provider.available
+                  ? `${(provider.successRate * 100).toFixed(0)}% ok · ${provider.averageLatencyMs.toFixed(0)}ms`
+                  : 'no key'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default MarketDataStatus;
\ No newline at end of file
@@ -26,22 +26,29 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
   performance, 
   selectedModel 
 }) => {
-  const radarData = performance.map(model => ({
+  // Only models with resolved predictions have measured metrics to compare
+  const measured = performance.filter(model => model.sampleSize > 0);
+  const timed = performance.filter(model => model.predictionTime !== undefined);
+
+  const radarData = measured.map(model => ({
     model: model.modelId.toUpperCase(),
     accuracy: model.accuracy * 100,
-    precision: model.precision * 100,
-    recall: model.recall * 100,
-    f1Score: model.f1Score * 100
+    direction: (model.directionalAccuracy ?? 0) * 100
   }));
 
-  const performanceData = performance.map(model => ({
+  const performanceData = measured.map(model => ({
     model: model.modelId.toUpperCase(),
     accuracy: model.accuracy * 100,
-    mape: model.mape * 100,
-    rmse: model.rmse,
-    speed: 1000 / model.predictionTime // Predictions per second
+    mape: model.mape !== undefined ? model.mape * 100 : undefined,
+    rmse: model.rmse
   }));
 
+  const getAccuracyColor = (accuracy: number) => {
+    if (accuracy >= 0.8) return 'text-green-400';
+    if (accuracy >= 0.6) return 'text-yellow-400';
+    return 'text-red-400';
+  };
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -73,11 +80,11 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
             <span className="text-sm text-gray-400">Best Model</span>
           </div>
           <div className="text-lg font-bold text-purple-400">
-            {performance.length > 0 
-              ? performance.reduce((best, current) => 
+            {measured.length > 0 
+              ? measured.reduce((best, current) => 
                   current.accuracy > best.accuracy ? current : best
                 ).modelId.toUpperCase()
-              : 'ENSEMBLE'
+              : '—'
             }
           </div>
         </div>
@@ -88,9 +95,9 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
             <span className="text-sm text-gray-400">Peak Accuracy</span>
           </div>
           <div className="text-lg font-bold text-green-400">
-            {performance.length > 0 
-              ? (Math.max(...performance.map(p => p.accuracy)) * 100).toFixed(1)
-              : '91.2'}%
+            {measured.length > 0 
+              ? `${(Math.max(...measured.map(p => p.accuracy)) * 100).toFixed(1)}%`
+              : '—'}
           </div>
         </div>
 
@@ -100,11 +107,11 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
             <span className="text-sm text-gray-400">Fastest Model</span>
           </div>
           <div className="text-lg font-bold text-yellow-400">
-            {performance.length > 0 
-              ? performance.reduce((fastest, current) => 
-                  current.predictionTime < fastest.predictionTime ? current : fastest
+            {timed.length > 0 
+              ? timed.reduce((fastest, current) => 
+                  current.predictionTime! < fastest.predictionTime! ? current : fastest
                 ).modelId.toUpperCase()
-              : 'ARIMA'
+              : '—'
             }
           </div>
         </div>
@@ -115,9 +122,9 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
             <span className="text-sm text-gray-400">Avg Response</span>
           </div>
           <div className="text-lg font-bold text-blue-400">
-            {performance.length > 0 
-              ? (performance.reduce((sum, p) => sum + p.predictionTime, 0) / performance.length).toFixed(1)
-              : '5.2'}ms
+            {timed.length > 0 
+              ? `${(timed.reduce((sum, p) => sum + p.predictionTime!, 0) / timed.length).toFixed(1)}ms`
+              : '—'}
           </div>
         </div>
       </div>
@@ -146,8 +153,8 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
                   strokeWidth={2}
                 />
                 <Radar
-                  name="Precision"
-                  dataKey="precision"
+                  name="Direction"
+                  dataKey="direction"
                   stroke="#3B82F6"
                   fill="#3B82F6"
                   fillOpacity={0.2}
@@ -189,13 +196,16 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
             <thead>
               <tr className="border-b border-gray-700">
                 <th className="text-left py-3 text-gray-400">Model</th>
+                <th className="text-left py-3 text-gray-400">Status</th>
+                <th className="text-right py-3 text-gray-400">Samples</th>
                 <th className="text-right py-3 text-gray-400">Accuracy</th>
-                <th className="text-right py-3 text-gray-400">Precision</th>
-                <th className="text-right py-3 text-gray-400">Recall</th>
-                <th className="text-right py-3 text-gray-400">F1 Score</th>
+                <th className="text-right py-3 text-gray-400">Direction</th>
+                <th className="text-right py-3 text-gray-400" title="Precision / recall / F1 of direction calls">P / R / F1</th>
                 <th className="text-right py-3 text-gray-400">MAPE</th>
                 <th className="text-right py-3 text-gray-400">RMSE</th>
                 <th className="text-right py-3 text-gray-400">Speed (ms)</th>
+                <th className="text-right py-3 text-gray-400">Train Loss</th>
+                <th className="text-right py-3 text-gray-400">Train Time</th>
               </tr>
             </thead>
             <tbody>
@@ -206,27 +216,51 @@ const ModelPerformanceChart: React.FC<ModelPerformanceChartProps> = ({
                     selectedModel === model.modelId ? 'bg-blue-500/10' : ''
                   }`}
                 >
-                  <td className="py-3 font-medium">{model.modelId.toUpperCase()}</td>
-                  <td className={`text-right py-3 font-bold ${getAccuracyColor(model.accuracy)}`}>
-                    {(model.accuracy * 100).toFixed(1)}%
-                  </td>
-                  <td className="text-right py-3 text-blue-400">
-                    {(model.precision * 100).toFixed(1)}%
+                  <td className="py-3 font-medium" title={model.name}>{model.modelId.toUpperCase()}</td>
+                  <td className={`py-3 capitalize ${model.status === 'active' ? 'text-green-400' : 'text-gray-400'}`}>
+                    {model.status}
                   </td>
-                  <td className="text-right py-3 text-green-400">
-                    {(model.recall * 100).toFixed(1)}%
-                  </td>
-                  <td className="text-right py-3 text-purple-400">
-                    {(model.f1Score * 100).toFixed(1)}%
+                  <td className="text-right py-3 text-gray-300">
+                    {model.sampleSize}
                   </td>
-                  <td className="text-right py-3 text-yellow-400">
-                    {(model.mape * 100).toFixed(2)}%
+                  {model.sampleSize > 0 ? (
+                    <>
+                      <td className={`text-right py-3 font-bold ${getAccuracyColor(model.accuracy)}`}>
+                        {(model.accuracy * 100).toFixed(1)}%
+                      </td>
+                      <td className="text-right py-3 text-purple-400">
+                        {model.directionalAccuracy !== undefined
+                          ? `${(model.directionalAccuracy * 100).toFixed(1)}%`
+                          : '—'}
+                      </td>
+                      <td className="text-right py-3 text-blue-400">
+                        {model.precision !== undefined && model.recall !== undefined && model.f1Score !== undefined
+                          ? `${(model.precision * 100).toFixed(0)} / ${(model.recall * 100).toFixed(0)} / ${(model.f1Score * 100).toFixed(0)}%`
+                          : '—'}
+                      </td>
+                      <td className="text-right py-3 text-yellow-400">
+                        {model.mape !== undefined ? `${(model.mape * 100).toFixed(2)}%` : '—'}
+                      </td>
+                      <td className="text-right py-3 text-red-400">
+                        {model.rmse !== undefined ? model.rmse.toFixed(2) : '—'}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={5} className="text-right py-3 text-gray-500">
+                      Awaiting resolved predictions
+                    </td>
+                  )}
+                  <td className="text-right py-3 text-gray-300">
+                    {model.predictionTime !== undefined ? model.predictionTime.toFixed(1) : '—'}
                   </td>
-                  <td className="text-right py-3 text-red-400">
-                    {model.rmse.toFixed(2)}
+                  <td
+                    className="text-right py-3 text-gray-300"
+                    title={model.validationLoss !== undefined ? `Validation loss ${model.validationLoss.toFixed(3)}` : undefined}
+                  >
+                    {model.trainingLoss !== undefined ? model.trainingLoss.toFixed(3) : '—'}
                   </td>
                   <td className="text-right py-3 text-gray-300">
-                    {model.predictionTime.toFixed(1)}
+                    {model.trainingTime !== undefined ? `${(model.trainingTime / 1000).toFixed(1)}s` : '—'}
                   </td>
                 </tr>
               ))}
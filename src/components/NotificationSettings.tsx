@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Webhook, Bell, CheckCheck } from 'lucide-react';
+import {
+  notificationService,
+  NotificationPreferences,
+  InAppNotification,
+  DEFAULT_NOTIFICATION_PREFERENCES
+} from '../services/notificationService';
+import { logger } from '../utils/logger';
+
+interface NotificationSettingsProps {
+  userId: string;
+  onClose?: () => void;
+}
+
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ userId, onClose }) => {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [inbox, setInbox] = useState<InAppNotification[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [stored, unread] = await Promise.all([
+          notificationService.getPreferences(userId),
+          notificationService.getInbox(userId, true, 10)
+        ]);
+        setPreferences(stored);
+        setInbox(unread);
+      } catch (err: any) {
+        logger.error('Error loading notification settings', err, 'Notifications');
+        setError(err.message || 'Failed to load notification settings');
+      }
+    };
+
+    load();
+  }, [userId]);
+
+  const updateChannel = <K extends keyof NotificationPreferences['channels']>(
+    channel: K,
+    updates: Partial<NotificationPreferences['channels'][K]>
+  ) => {
+    setPreferences(prev => ({
+      ...prev,
+      channels: { ...prev.channels, [channel]: { ...prev.channels[channel], ...updates } }
+    }));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await notificationService.updatePreferences(userId, preferences);
+      logger.userAction('update_notification_preferences', userId);
+      onClose?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await notificationService.markRead(inbox.map(item => item.id));
+      setInbox([]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update notifications');
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white';
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-4 mb-4 space-y-3">
+      <span className="text-sm font-semibold">Notification channels</span>
+
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            checked={preferences.channels.in_app.enabled}
+            onChange={(e) => updateChannel('in_app', { enabled: e.target.checked })}
+          />
+          <Bell className="h-4 w-4 text-blue-400" />
+          <span>In-app inbox</span>
+        </label>
+
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            checked={preferences.channels.email.enabled}
+            onChange={(e) => updateChannel('email', { enabled: e.target.checked })}
+          />
+          <Mail className="h-4 w-4 text-green-400" />
+          <span>Email</span>
+        </label>
+        {preferences.channels.email.enabled && (
+          <input
+            type="email"
+            value={preferences.channels.email.address || ''}
+            onChange={(e) => updateChannel('email', { address: e.target.value || undefined })}
+            placeholder="Account email"
+            className={inputClass}
+          />
+        )}
+
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            checked={preferences.channels.webhook.enabled}
+            onChange={(e) => updateChannel('webhook', { enabled: e.target.checked })}
+          />
+          <Webhook className="h-4 w-4 text-purple-400" />
+          <span>Webhook</span>
+        </label>
+        {preferences.channels.webhook.enabled && (
+          <div className="space-y-2">
+            <input
+              type="url"
+              value={preferences.channels.webhook.url || ''}
+              onChange={(e) => updateChannel('webhook', { url: e.target.value })}
+              placeholder="https://example.com/hooks/alerts"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={preferences.channels.webhook.secret || ''}
+              onChange={(e) => updateChannel('webhook', { secret: e.target.value || undefined })}
+              placeholder="Signing secret (optional)"
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <select
+        value={preferences.minSeverity}
+        onChange={(e) => setPreferences(prev => ({
+          ...prev,
+          minSeverity: e.target.value as NotificationPreferences['minSeverity']
+        }))}
+        className={inputClass}
+      >
+        <option value="low">Notify for all alerts</option>
+        <option value="medium">Medium severity and above</option>
+        <option value="high">High severity only</option>
+      </select>
+
+      {inbox.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>{inbox.length} unread</span>
+            <button onClick={markAllRead} className="flex items-center space-x-1 hover:text-white">
+              <CheckCheck className="h-3 w-3" />
+              <span>Mark all read</span>
+            </button>
+          </div>
+          {inbox.map(item => (
+            <div key={item.id} className="text-xs bg-gray-700 rounded p-2">
+              <div className="font-medium">{item.title}</div>
+              <div className="text-gray-400">{item.body}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        {onClose && (
+          <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
\ No newline at end of file
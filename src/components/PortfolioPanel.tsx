@@ -0,0 +1,469 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
+import { Briefcase, Plus, Trash2, RefreshCw, DollarSign, TrendingUp, TrendingDown, AlertCircle } from 'lucide-react';
+import {
+  portfolioService,
+  Portfolio,
+  PortfolioSummary,
+  PortfolioTransaction
+} from '../services/portfolioService';
+import { MarketData } from '../types';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { logger } from '../utils/logger';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PortfolioPanelProps {
+  marketData: MarketData[];
+}
+
+const ALLOCATION_COLORS = ['#3B82F6', '#8B5CF6', '#10B981', '#F59E0B', '#EF4444', '#06B6D4', '#EC4899', '#84CC16'];
+
+const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ marketData }) => {
+  const { user } = useAuth();
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>('');
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([]);
+  const [newPortfolioName, setNewPortfolioName] = useState('');
+  const [tradeForm, setTradeForm] = useState({
+    symbol: marketData[0]?.symbol || 'AAPL',
+    type: 'buy' as 'buy' | 'sell',
+    quantity: '',
+    price: '',
+    fees: ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPortfolios = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const userPortfolios = await portfolioService.getPortfolios(user.id);
+      setPortfolios(userPortfolios);
+      setSelectedPortfolioId(current =>
+        userPortfolios.some(p => p.id === current) ? current : userPortfolios[0]?.id || ''
+      );
+    } catch (err: any) {
+      logger.error('Error loading portfolios', err, 'Portfolio');
+      setError(err.message || 'Failed to load portfolios');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadPortfolios();
+    }
+  }, [user, loadPortfolios]);
+
+  useEffect(() => {
+    if (selectedPortfolioId) {
+      loadSummary(selectedPortfolioId);
+    }
+  }, [selectedPortfolioId]);
+
+  const loadSummary = async (portfolioId: string, persist: boolean = false) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [portfolioSummary, history] = await Promise.all([
+        persist
+          ? portfolioService.refreshValuations(portfolioId)
+          : portfolioService.getPortfolioSummary(portfolioId),
+        portfolioService.getTransactions(portfolioId, 20)
+      ]);
+      setSummary(portfolioSummary);
+      setTransactions(history);
+    } catch (err: any) {
+      logger.error('Error loading portfolio', err, 'Portfolio');
+      setError(err.message || 'Failed to load portfolio');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createPortfolio = async () => {
+    if (!user || !newPortfolioName.trim()) return;
+
+    try {
+      const portfolio = await portfolioService.createPortfolio(user.id, {
+        name: newPortfolioName.trim(),
+        isDefault: portfolios.length === 0
+      });
+      setNewPortfolioName('');
+      setPortfolios(prev => [...prev, portfolio]);
+      setSelectedPortfolioId(portfolio.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create portfolio');
+    }
+  };
+
+  const deletePortfolio = async () => {
+    if (!selectedPortfolioId) return;
+
+    try {
+      await portfolioService.deletePortfolio(selectedPortfolioId);
+      const remaining = portfolios.filter(p => p.id !== selectedPortfolioId);
+      setPortfolios(remaining);
+      setSelectedPortfolioId(remaining[0]?.id || '');
+      setSummary(null);
+      setTransactions([]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete portfolio');
+    }
+  };
+
+  const submitTrade = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !selectedPortfolioId) return;
+
+    const marketPrice = marketData.find(d => d.symbol === tradeForm.symbol)?.price || 0;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await portfolioService.executeTransaction(selectedPortfolioId, {
+        symbol: tradeForm.symbol,
+        type: tradeForm.type,
+        quantity: parseFloat(tradeForm.quantity),
+        price: tradeForm.price ? parseFloat(tradeForm.price) : marketPrice,
+        fees: tradeForm.fees ? parseFloat(tradeForm.fees) : 0
+      });
+      logger.userAction(`portfolio_${tradeForm.type}`, user.id, { symbol: tradeForm.symbol });
+      setTradeForm(prev => ({ ...prev, quantity: '', price: '', fees: '' }));
+      await loadSummary(selectedPortfolioId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to record transaction');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const pnlColor = (value: number) => (value >= 0 ? 'text-green-400' : 'text-red-400');
+
+  if (!user) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-6 text-center text-gray-400">
+        Sign in to track portfolios and holdings
+      </div>
+    );
+  }
+
+  const allocationData = summary?.holdings.map(holding => ({
+    name: holding.symbol,
+    value: holding.currentValue,
+    allocation: holding.allocation
+  })) || [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Briefcase className="h-6 w-6 text-blue-400" />
+          <h2 className="text-2xl font-bold">Portfolio</h2>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={selectedPortfolioId}
+            onChange={(e) => setSelectedPortfolioId(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm"
+          >
+            {portfolios.length === 0 && <option value="">No portfolios</option>}
+            {portfolios.map(portfolio => (
+              <option key={portfolio.id} value={portfolio.id}>
+                {portfolio.name}{portfolio.isDefault ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newPortfolioName}
+            onChange={(e) => setNewPortfolioName(e.target.value)}
+            placeholder="New portfolio"
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm"
+          />
+          <button
+            onClick={createPortfolio}
+            className="p-2 bg-blue-600 hover:bg-blue-700 rounded-lg"
+            title="Create portfolio"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+          {selectedPortfolioId && (
+            <>
+              <button
+                onClick={() => loadSummary(selectedPortfolioId, true)}
+                className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+                title="Revalue at latest prices"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </button>
+              <button
+                onClick={deletePortfolio}
+                className="p-2 text-gray-400 hover:text-red-400"
+                title="Delete portfolio"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-400 bg-gray-800 rounded-lg p-4">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {selectedPortfolioId && (
+        <>
+          {/* Summary */}
+          {summary && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-gray-800 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <DollarSign className="h-4 w-4 text-blue-400" />
+                  <span className="text-sm text-gray-400">Market Value</span>
+                </div>
+                <div className="text-xl font-bold">{formatCurrency(summary.totalValue)}</div>
+              </div>
+
+              <div className="bg-gray-800 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <DollarSign className="h-4 w-4 text-gray-400" />
+                  <span className="text-sm text-gray-400">Cost Basis</span>
+                </div>
+                <div className="text-xl font-bold text-gray-300">{formatCurrency(summary.totalCost)}</div>
+              </div>
+
+              <div className="bg-gray-800 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  {summary.unrealizedPnl >= 0 ? (
+                    <TrendingUp className="h-4 w-4 text-green-400" />
+                  ) : (
+                    <TrendingDown className="h-4 w-4 text-red-400" />
+                  )}
+                  <span className="text-sm text-gray-400">Unrealized P&L</span>
+                </div>
+                <div className={`text-xl font-bold ${pnlColor(summary.unrealizedPnl)}`}>
+                  {formatCurrency(summary.unrealizedPnl)} ({summary.unrealizedPnlPercent.toFixed(2)}%)
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Holdings */}
+            <div className="lg:col-span-2 bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-bold mb-4">Holdings</h3>
+              {loading ? (
+                <div className="h-48 flex items-center justify-center">
+                  <LoadingSpinner message="Valuing holdings..." />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-700">
+                        <th className="text-left py-2 text-gray-400">Symbol</th>
+                        <th className="text-right py-2 text-gray-400">Quantity</th>
+                        <th className="text-right py-2 text-gray-400">Avg Cost</th>
+                        <th className="text-right py-2 text-gray-400">Price</th>
+                        <th className="text-right py-2 text-gray-400">Value</th>
+                        <th className="text-right py-2 text-gray-400">Unrealized P&L</th>
+                        <th className="text-right py-2 text-gray-400">Weight</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary?.holdings.map(holding => (
+                        <tr key={holding.id} className="border-b border-gray-700/50">
+                          <td className="py-2 font-medium" title={holding.name}>{holding.symbol}</td>
+                          <td className="text-right py-2">{holding.quantity}</td>
+                          <td className="text-right py-2">{formatCurrency(holding.averageCost)}</td>
+                          <td className="text-right py-2">{formatCurrency(holding.currentPrice)}</td>
+                          <td className="text-right py-2">{formatCurrency(holding.currentValue)}</td>
+                          <td className={`text-right py-2 ${pnlColor(holding.unrealizedPnl)}`}>
+                            {formatCurrency(holding.unrealizedPnl)} ({holding.unrealizedPnlPercent.toFixed(2)}%)
+                          </td>
+                          <td className="text-right py-2 text-gray-300">
+                            {(holding.allocation * 100).toFixed(1)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {summary && summary.holdings.length === 0 && (
+                    <div className="text-center text-gray-500 py-8">
+                      No holdings yet. Record a buy to get started.
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Allocation */}
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-bold mb-4">Allocation</h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={allocationData}
+                      dataKey="value"
+                      nameKey="name"
+                      innerRadius={50}
+                      outerRadius={90}
+                      paddingAngle={2}
+                    >
+                      {allocationData.map((_, index) => (
+                        <Cell key={index} fill={ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #4B5563' }}
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                    />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-1 mt-2">
+                {allocationData.map((entry, index) => (
+                  <div key={entry.name} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: ALLOCATION_COLORS[index % ALLOCATION_COLORS.length] }}
+                      />
+                      <span>{entry.name}</span>
+                    </div>
+                    <span className="text-gray-400">{(entry.allocation * 100).toFixed(1)}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Trade Form */}
+            <form onSubmit={submitTrade} className="bg-gray-800 rounded-lg p-6 space-y-4">
+              <h3 className="text-lg font-bold">Record Transaction</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <select
+                  value={tradeForm.symbol}
+                  onChange={(e) => setTradeForm(prev => ({ ...prev, symbol: e.target.value }))}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                >
+                  {marketData.map(item => (
+                    <option key={item.symbol} value={item.symbol}>{item.symbol}</option>
+                  ))}
+                </select>
+                <div className="flex bg-gray-700 rounded-lg">
+                  {(['buy', 'sell'] as const).map(type => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setTradeForm(prev => ({ ...prev, type }))}
+                      className={`flex-1 px-3 py-2 text-sm rounded-lg ${
+                        tradeForm.type === type
+                          ? type === 'buy' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                          : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {type.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  required
+                  value={tradeForm.quantity}
+                  onChange={(e) => setTradeForm(prev => ({ ...prev, quantity: e.target.value }))}
+                  placeholder="Quantity"
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={tradeForm.price}
+                  onChange={(e) => setTradeForm(prev => ({ ...prev, price: e.target.value }))}
+                  placeholder={`Price (market ${
+                    marketData.find(d => d.symbol === tradeForm.symbol)?.price.toFixed(2) || '-'
+                  })`}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={tradeForm.fees}
+                  onChange={(e) => setTradeForm(prev => ({ ...prev, fees: e.target.value }))}
+                  placeholder="Fees"
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                />
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 text-white px-4 py-2 rounded-lg"
+                >
+                  {submitting ? 'Recording...' : 'Record'}
+                </button>
+              </div>
+            </form>
+
+            {/* Recent Transactions */}
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-bold mb-4">Recent Transactions</h3>
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {transactions.map(transaction => (
+                  <div key={transaction.id} className="flex items-center justify-between text-sm bg-gray-700 rounded-lg p-3">
+                    <div>
+                      <span className={`font-medium ${
+                        transaction.type === 'buy' ? 'text-green-400' : 'text-red-400'
+                      }`}>
+                        {transaction.type.toUpperCase()}
+                      </span>
+                      <span className="ml-2">{transaction.quantity} {transaction.symbol}</span>
+                      <span className="ml-2 text-gray-400">@ {formatCurrency(transaction.price)}</span>
+                    </div>
+                    <div className="text-right">
+                      {transaction.realizedPnl !== undefined && (
+                        <div className={pnlColor(transaction.realizedPnl)}>
+                          {formatCurrency(transaction.realizedPnl)}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {new Date(transaction.executedAt).toLocaleString()}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {transactions.length === 0 && (
+                  <div className="text-center text-gray-500 py-8">No transactions recorded</div>
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default PortfolioPanel;
\ No newline at end of file
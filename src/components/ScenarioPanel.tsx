@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldAlert, Play, AlertCircle } from 'lucide-react';
+import { scenarioService, ScenarioResult, SCENARIO_HORIZON_DAYS } from '../services/scenarioService';
+import { portfolioService, Portfolio } from '../services/portfolioService';
+import { ScenarioShock, SCENARIO_PRESETS } from '../utils/scenarioEngine';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { logger } from '../utils/logger';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ScenarioPanelProps {
+  symbols: string[];
+}
+
+// Empty scope stresses the market symbols; otherwise the id of a portfolio
+const MARKET_SCOPE = '';
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const changeClass = (value: number) => (value >= 0 ? 'text-green-400' : 'text-red-400');
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ symbols }) => {
+  const { user } = useAuth();
+  const [shock, setShock] = useState<ScenarioShock>(SCENARIO_PRESETS[0]);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [scope, setScope] = useState<string>(MARKET_SCOPE);
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setPortfolios([]);
+      return;
+    }
+
+    portfolioService.getPortfolios(user.id)
+      .then(setPortfolios)
+      .catch(err => logger.warn('Could not load portfolios for scenarios', err));
+  }, [user]);
+
+  const handleShockChange = (field: keyof Omit<ScenarioShock, 'name'>, value: number) => {
+    setShock(prev => ({ ...prev, name: 'Custom', [field]: value }));
+  };
+
+  const runScenario = async () => {
+    setRunning(true);
+    setError(null);
+
+    try {
+      const scenario = scope === MARKET_SCOPE
+        ? await scenarioService.runScenario(symbols, shock)
+        : await scenarioService.runPortfolioScenario(scope, shock);
+      setResult(scenario);
+    } catch (err: any) {
+      logger.error('Error running scenario', err);
+      setError(err.message || 'Failed to run scenario');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const sliders: { field: keyof Omit<ScenarioShock, 'name'>; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+    { field: 'priceShock', label: 'Price Shock', min: -0.5, max: 0.5, step: 0.01, format: value => `${(value * 100).toFixed(0)}%` },
+    { field: 'volatilityMultiplier', label: 'Volatility Multiplier', min: 0.5, max: 4, step: 0.1, format: value => `${value.toFixed(1)}x` },
+    { field: 'sentimentShift', label: 'Sentiment Shift', min: -1, max: 1, step: 0.1, format: value => value.toFixed(1) },
+    { field: 'correlationBreak', label: 'Correlation Break', min: 0, max: 1, step: 0.05, format: value => `${(value * 100).toFixed(0)}% to 1` }
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gray-800 rounded-lg p-6"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <ShieldAlert className="h-6 w-6 text-orange-400" />
+          <h3 className="text-xl font-bold">Scenario Stress Test</h3>
+        </div>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          <option value={MARKET_SCOPE}>Market symbols ({symbols.length})</option>
+          {portfolios.map(portfolio => (
+            <option key={portfolio.id} value={portfolio.id}>Portfolio: {portfolio.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {SCENARIO_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => setShock(preset)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+              shock.name === preset.name ? 'bg-orange-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Shocks */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {sliders.map(({ field, label, min, max, step, format }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              {label}
+            </label>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={shock[field]}
+              onChange={(e) => handleShockChange(field, parseFloat(e.target.value))}
+              className="w-full"
+            />
+            <div className="text-center text-xs text-gray-400 mt-1 font-bold">
+              {format(shock[field])}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={runScenario}
+        disabled={running || (scope === MARKET_SCOPE && symbols.length === 0)}
+        className="flex items-center space-x-2 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-600 text-white px-4 py-2 rounded-lg mb-6"
+      >
+        <Play className="h-4 w-4" />
+        <span>Run {shock.name} over {SCENARIO_HORIZON_DAYS} days</span>
+      </button>
+
+      {running && (
+        <div className="h-32 flex items-center justify-center">
+          <LoadingSpinner size="md" message="Forecasting shocked inputs..." />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-400 mb-4">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {result && !running && (
+        <div className="space-y-4">
+          {/* Aggregate */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-700 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Current Value</div>
+              <div className="text-lg font-bold">{formatMoney(result.aggregate.currentValue)}</div>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-3">
+              <div className="text-xs text-gray-400">After Shock</div>
+              <div className={`text-lg font-bold ${changeClass(result.aggregate.shockedValue - result.aggregate.currentValue)}`}>
+                {formatMoney(result.aggregate.shockedValue)}
+              </div>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Projected ({result.horizonDays} days)</div>
+              <div className={`text-lg font-bold ${changeClass(result.aggregate.projectedPnl)}`}>
+                {formatMoney(result.aggregate.projectedValue)}
+              </div>
+              <div className={`text-xs ${changeClass(result.aggregate.projectedPnl)}`}>
+                {result.aggregate.projectedPnlPercent >= 0 ? '+' : ''}{result.aggregate.projectedPnlPercent.toFixed(2)}%
+              </div>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-3">
+              <div className="text-xs text-gray-400">95% Value at Risk</div>
+              <div className="text-lg font-bold text-red-400">{formatMoney(result.aggregate.valueAtRisk95)}</div>
+              <div className="text-xs text-gray-500">±{formatMoney(result.aggregate.valueVolatility)} spread</div>
+            </div>
+          </div>
+
+          {/* Per symbol */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2">Symbol</th>
+                  <th className="text-right py-2">Qty</th>
+                  <th className="text-right py-2">Current</th>
+                  <th className="text-right py-2">Shocked</th>
+                  <th className="text-right py-2">Projected</th>
+                  <th className="text-right py-2">Change</th>
+                  <th className="text-right py-2">Range</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.outcomes.map(outcome => (
+                  <tr key={outcome.symbol} className="border-b border-gray-700/50">
+                    <td className="py-2 font-medium">{outcome.symbol}</td>
+                    <td className="text-right">{outcome.quantity}</td>
+                    <td className="text-right">{formatMoney(outcome.currentPrice)}</td>
+                    <td className="text-right">{formatMoney(outcome.shockedPrice)}</td>
+                    <td className="text-right">{formatMoney(outcome.projectedPrice)}</td>
+                    <td className={`text-right ${changeClass(outcome.projectedChangePercent)}`}>
+                      {outcome.projectedChangePercent >= 0 ? '+' : ''}{outcome.projectedChangePercent.toFixed(2)}%
+                    </td>
+                    <td className="text-right text-gray-400">
+                      {formatMoney(outcome.lowerBound)} - {formatMoney(outcome.upperBound)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.skipped.length > 0 && (
+            <div className="text-xs text-yellow-400">
+              Not enough history to forecast: {result.skipped.join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ScenarioPanel;
\ No newline at end of file
@@ -1,7 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown, Minus, Target, Shield } from 'lucide-react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, AnalysisSignal } from '../types';
 
 interface TechnicalAnalysisProps {
   analysis: AnalysisResult;
@@ -32,6 +32,17 @@ const TechnicalAnalysis: React.FC<TechnicalAnalysisProps> = ({ analysis }) => {
     }
   };
 
+  const getSignalDot = (direction: AnalysisSignal['direction']) => {
+    switch (direction) {
+      case 'bullish': return 'bg-green-400';
+      case 'bearish': return 'bg-red-400';
+      default: return 'bg-gray-400';
+    }
+  };
+
+  const signalDetails: AnalysisSignal[] = analysis.signalDetails ||
+    analysis.signals.map(signal => ({ name: signal, direction: 'neutral', explanation: '' }));
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -103,19 +114,40 @@ const TechnicalAnalysis: React.FC<TechnicalAnalysisProps> = ({ analysis }) => {
         </div>
       </div>
 
+      {/* Support & Resistance */}
+      {(analysis.supportLevels?.length || analysis.resistanceLevels?.length) ? (
+        <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+          <div>
+            <div className="text-gray-400 mb-1">Support</div>
+            {(analysis.supportLevels || []).map((level, index) => (
+              <div key={index} className="text-green-400">${level.toFixed(2)}</div>
+            ))}
+          </div>
+          <div>
+            <div className="text-gray-400 mb-1">Resistance</div>
+            {(analysis.resistanceLevels || []).map((level, index) => (
+              <div key={index} className="text-red-400">${level.toFixed(2)}</div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
       {/* Trading Signals */}
       <div>
         <h4 className="text-sm font-bold text-gray-400 mb-2">Trading Signals</h4>
         <div className="space-y-2">
-          {analysis.signals.map((signal, index) => (
+          {signalDetails.map((signal, index) => (
             <div
               key={index}
               className="bg-gray-700 rounded p-2 text-sm"
             >
               <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
-                <span>{signal}</span>
+                <div className={`w-2 h-2 rounded-full ${getSignalDot(signal.direction)}`}></div>
+                <span>{signal.name}</span>
               </div>
+              {signal.explanation && (
+                <p className="text-xs text-gray-400 mt-1 ml-4">{signal.explanation}</p>
+              )}
             </div>
           ))}
         </div>
@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Download, AlertTriangle } from 'lucide-react';
 import { TrendData } from '../types';
 import { dataService } from '../services/dataService';
+import { marketSimulator } from '../utils/marketSimulator';
+import { downloadCsv } from '../utils/csv';
 import LoadingSpinner from './LoadingSpinner';
 
 interface TrendChartProps {
@@ -13,6 +16,7 @@ const TrendChart: React.FC<TrendChartProps> = ({ symbol }) => {
   const [data, setData] = useState<TrendData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [adjustmentError, setAdjustmentError] = useState<string | null>(null);
   const [timeframe, setTimeframe] = useState<'7d' | '30d' | '90d'>('30d');
   const [showIndicators, setShowIndicators] = useState({
     ma20: true,
@@ -24,6 +28,7 @@ const TrendChart: React.FC<TrendChartProps> = ({ symbol }) => {
     const fetchData = async () => {
       setLoading(true);
       setError(null);
+      setAdjustmentError(null);
       
       try {
         const days = timeframe === '7d' ? 7 : timeframe === '30d' ? 30 : 90;
@@ -31,7 +36,9 @@ const TrendChart: React.FC<TrendChartProps> = ({ symbol }) => {
         // Try to get real data first, fallback to mock data
         let historicalData: TrendData[];
         try {
-          historicalData = await dataService.getHistoricalDataAsync(symbol, days);
+          const series = await dataService.getHistoricalDataAsync(symbol, days);
+          historicalData = series.data;
+          setAdjustmentError(series.adjustmentError ?? null);
         } catch (err) {
           console.warn('Using fallback data generation:', err);
           historicalData = generateFallbackData(symbol, days);
@@ -58,52 +65,7 @@ const TrendChart: React.FC<TrendChartProps> = ({ symbol }) => {
   }, [symbol, timeframe]);
 
   const generateFallbackData = (symbol: string, days: number): TrendData[] => {
-    const data: TrendData[] = [];
-    const basePrice = getBasePrice(symbol);
-    let currentPrice = basePrice;
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      // Generate realistic price movement
-      const randomChange = (Math.random() - 0.5) * 0.02;
-      currentPrice = currentPrice * (1 + randomChange);
-      
-      const volume = Math.floor(Math.random() * 1000000) + 100000;
-      const ma20 = currentPrice * (0.98 + Math.random() * 0.04);
-      const ma50 = currentPrice * (0.95 + Math.random() * 0.1);
-      const rsi = Math.random() * 100;
-      const macd = (Math.random() - 0.5) * 10;
-      
-      data.push({
-        timestamp: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        price: currentPrice,
-        volume,
-        ma20,
-        ma50,
-        rsi,
-        macd
-      });
-    }
-    
-    return data;
-  };
-
-  const getBasePrice = (symbol: string): number => {
-    const prices: { [key: string]: number } = {
-      'AAPL': 235,
-      'GOOGL': 185,
-      'MSFT': 425,
-      'TSLA': 185,
-      'AMZN': 195,
-      'NVDA': 850,
-      'META': 580,
-      'BTC': 95000,
-      'ETH': 3800,
-      'SPY': 580
-    };
-    return prices[symbol] || 100;
+    return marketSimulator.trendData(symbol, days + 1);
   };
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -200,9 +162,34 @@ const TrendChart: React.FC<TrendChartProps> = ({ symbol }) => {
               MA50
             </button>
           </div>
+
+          <button
+            onClick={() => downloadCsv(`${symbol}-prices-${timeframe}.csv`, data, [
+              { label: 'timestamp', value: d => d.timestamp },
+              { label: 'price', value: d => d.price },
+              { label: 'volume', value: d => d.volume },
+              { label: 'ma20', value: d => d.ma20 },
+              { label: 'ma50', value: d => d.ma50 },
+              { label: 'rsi', value: d => d.rsi },
+              { label: 'macd', value: d => d.macd }
+            ])}
+            disabled={data.length === 0}
+            className="flex items-center space-x-1 px-2 py-1 text-xs rounded bg-gray-700 text-gray-300 hover:text-white disabled:opacity-50"
+            title="Export CSV"
+          >
+            <Download className="h-3 w-3" />
+            <span>CSV</span>
+          </button>
         </div>
       </div>
 
+      {adjustmentError && (
+        <div className="flex items-center space-x-2 text-yellow-400 text-sm mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <span>Prices are not adjusted for splits and dividends: {adjustmentError}</span>
+        </div>
+      )}
+
       <div className="h-96">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
@@ -7,9 +7,7 @@ import {
   YAxis, 
   CartesianGrid, 
   Tooltip, 
-  ResponsiveContainer,
-  LineChart,
-  Line
+  ResponsiveContainer
 } from 'recharts';
 import { 
   CheckCircle, 
@@ -17,19 +15,35 @@ import {
   TrendingUp, 
   Target, 
   Activity,
-  RefreshCw 
+  RefreshCw,
+  PlayCircle
 } from 'lucide-react';
-import { predictionService, ValidationResult, ModelPerformance } from '../services/predictionService';
+import {
+  predictionValidationService,
+  ModelScorecard,
+  ScorecardSummary,
+  SCORECARD_WINDOWS
+} from '../services/predictionValidationService';
+import { CoverageReport } from '../utils/conformal';
+import { predictionService, ModelPerformance } from '../services/predictionService';
+import ModelPerformanceChart from './ModelPerformanceChart';
 import { logger } from '../utils/logger';
 
 interface ValidationDashboardProps {
   symbols: string[];
 }
 
+interface SymbolSummary extends ScorecardSummary {
+  symbol: string;
+}
+
 const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) => {
-  const [validationResults, setValidationResults] = useState<ValidationResult[]>([]);
+  const [scorecards, setScorecards] = useState<ModelScorecard[]>([]);
   const [modelPerformance, setModelPerformance] = useState<ModelPerformance[]>([]);
+  const [coverage, setCoverage] = useState<CoverageReport[]>([]);
+  const [windowDays, setWindowDays] = useState<number>(SCORECARD_WINDOWS[0]);
   const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string>('');
 
   useEffect(() => {
@@ -38,43 +52,59 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
     // Auto-refresh every 5 minutes
     const interval = setInterval(loadValidationData, 5 * 60 * 1000);
     return () => clearInterval(interval);
-  }, [symbols]);
+  }, [symbols, windowDays]);
 
   const loadValidationData = async () => {
     setLoading(true);
     
     try {
-      logger.info('Loading validation data', { symbols });
-      
-      // Load validation results for all symbols
-      const results = await Promise.allSettled(
-        symbols.map(symbol => predictionService.validatePredictions(symbol))
-      );
-
-      const validResults = results
-        .filter((result): result is PromiseFulfilledResult<ValidationResult> => 
-          result.status === 'fulfilled')
-        .map(result => result.value);
-
-      setValidationResults(validResults);
+      logger.info('Loading model scorecards', { symbols, windowDays });
 
-      // Load model performance metrics
-      const performance = predictionService.getModelPerformance();
+      const [data, performance, coverageData] = await Promise.all([
+        predictionValidationService.getScorecards(windowDays),
+        predictionService.getModelPerformance(),
+        predictionValidationService.getCoverageReport()
+      ]);
+      setScorecards(data);
       setModelPerformance(performance);
+      setCoverage(coverageData);
 
-      setLastUpdated(new Date().toLocaleTimeString());
+      const computedAt = data.reduce((latest, card) => card.computedAt > latest ? card.computedAt : latest, '');
+      setLastUpdated(computedAt ? new Date(computedAt).toLocaleString() : 'never');
       
-      logger.info('Validation data loaded successfully', {
-        resultsCount: validResults.length,
-        avgAccuracy: validResults.reduce((sum, r) => sum + r.overallAccuracy, 0) / validResults.length
-      });
+      logger.info('Model scorecards loaded', { count: data.length });
     } catch (error) {
-      logger.error('Error loading validation data', error);
+      logger.error('Error loading model scorecards', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const runResolver = async () => {
+    setResolving(true);
+
+    try {
+      const run = await predictionValidationService.runResolver();
+      logger.info('Prediction resolver finished', run);
+      await loadValidationData();
+    } catch (error) {
+      logger.error('Error running prediction resolver', error);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  // Roll-up rows (no symbol) score each model and horizon across every symbol
+  const modelScorecards = scorecards.filter(card => !card.symbolId);
+  const overall = predictionValidationService.summarize(modelScorecards);
+
+  const symbolSummaries: SymbolSummary[] = symbols
+    .map(symbol => ({
+      symbol,
+      ...predictionValidationService.summarize(scorecards.filter(card => card.symbol === symbol))
+    }))
+    .filter(summary => summary.sampleSize > 0);
+
   const getAccuracyColor = (accuracy: number) => {
     if (accuracy >= 0.8) return 'text-green-400';
     if (accuracy >= 0.6) return 'text-yellow-400';
@@ -87,10 +117,6 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
     return <AlertTriangle className="h-4 w-4 text-red-400" />;
   };
 
-  const overallAccuracy = validationResults.length > 0 
-    ? validationResults.reduce((sum, r) => sum + r.overallAccuracy, 0) / validationResults.length
-    : 0;
-
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -105,6 +131,9 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
     return null;
   };
 
+  const formatPercent = (value: number | undefined, digits: number = 1) =>
+    value !== undefined ? `${(value * 100).toFixed(digits)}%` : '—';
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -120,8 +149,29 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
         
         <div className="flex items-center space-x-4">
           <span className="text-sm text-gray-400">
-            Last updated: {lastUpdated}
+            Scored: {lastUpdated}
           </span>
+          <div className="flex bg-gray-800 rounded-lg p-1">
+            {SCORECARD_WINDOWS.map(days => (
+              <button
+                key={days}
+                onClick={() => setWindowDays(days)}
+                className={`px-3 py-1 rounded text-sm ${
+                  windowDays === days ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {days}d
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={runResolver}
+            disabled={resolving}
+            className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white px-4 py-2 rounded-lg"
+          >
+            <PlayCircle className={`h-4 w-4 ${resolving ? 'animate-pulse' : ''}`} />
+            <span>Resolve Now</span>
+          </button>
           <button
             onClick={loadValidationData}
             disabled={loading}
@@ -140,101 +190,112 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
             <CheckCircle className="h-5 w-5 text-green-400" />
             <span className="text-sm text-gray-400">Overall Accuracy</span>
           </div>
-          <div className={`text-3xl font-bold ${getAccuracyColor(overallAccuracy)}`}>
-            {(overallAccuracy * 100).toFixed(1)}%
+          <div className={`text-3xl font-bold ${getAccuracyColor(overall.meanAccuracy)}`}>
+            {overall.sampleSize > 0 ? formatPercent(overall.meanAccuracy) : '—'}
           </div>
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6">
           <div className="flex items-center space-x-2 mb-2">
             <Activity className="h-5 w-5 text-blue-400" />
-            <span className="text-sm text-gray-400">Avg MAPE</span>
+            <span className="text-sm text-gray-400">MAPE</span>
           </div>
           <div className="text-3xl font-bold text-blue-400">
-            {validationResults.length > 0 
-              ? (validationResults.reduce((sum, r) => sum + r.mape, 0) / validationResults.length * 100).toFixed(2)
-              : '2.15'}%
+            {overall.sampleSize > 0 ? formatPercent(overall.mape, 2) : '—'}
           </div>
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6">
           <div className="flex items-center space-x-2 mb-2">
             <TrendingUp className="h-5 w-5 text-purple-400" />
-            <span className="text-sm text-gray-400">Symbols Tracked</span>
+            <span className="text-sm text-gray-400">Directional Accuracy</span>
           </div>
           <div className="text-3xl font-bold text-purple-400">
-            {validationResults.length}
+            {formatPercent(overall.directionalAccuracy)}
           </div>
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6">
           <div className="flex items-center space-x-2 mb-2">
             <Target className="h-5 w-5 text-yellow-400" />
-            <span className="text-sm text-gray-400">Avg RMSE</span>
+            <span className="text-sm text-gray-400">Resolved Predictions</span>
           </div>
           <div className="text-3xl font-bold text-yellow-400">
-            {validationResults.length > 0 
-              ? (validationResults.reduce((sum, r) => sum + r.rmse, 0) / validationResults.length).toFixed(2)
-              : '1.85'}
+            {overall.sampleSize}
           </div>
         </div>
       </div>
 
+      {!loading && scorecards.length === 0 && (
+        <div className="bg-gray-800 rounded-lg p-6 text-center text-gray-400">
+          No predictions have reached their target date in the last {windowDays} days yet.
+        </div>
+      )}
+
       {/* Accuracy by Symbol Chart */}
-      <div className="bg-gray-800 rounded-lg p-6">
-        <h3 className="text-lg font-bold mb-4">Accuracy by Symbol</h3>
-        <div className="h-64">
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={validationResults.map(r => ({
-              symbol: r.symbol,
-              accuracy: r.overallAccuracy,
-              mape: r.mape
-            }))}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey="symbol" stroke="#9CA3AF" fontSize={12} />
-              <YAxis stroke="#9CA3AF" fontSize={12} />
-              <Tooltip content={<CustomTooltip />} />
-              <Bar dataKey="accuracy" fill="#8B5CF6" radius={[4, 4, 0, 0]} />
-            </BarChart>
-          </ResponsiveContainer>
+      {symbolSummaries.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h3 className="text-lg font-bold mb-4">Accuracy by Symbol</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={symbolSummaries.map(summary => ({
+                symbol: summary.symbol,
+                accuracy: summary.meanAccuracy,
+                mape: summary.mape
+              }))}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="symbol" stroke="#9CA3AF" fontSize={12} />
+                <YAxis stroke="#9CA3AF" fontSize={12} />
+                <Tooltip content={<CustomTooltip />} />
+                <Bar dataKey="accuracy" fill="#8B5CF6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Symbol Details */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {validationResults.map((result) => (
-          <div key={result.symbol} className="bg-gray-800 rounded-lg p-4">
+        {symbolSummaries.map((summary) => (
+          <div key={summary.symbol} className="bg-gray-800 rounded-lg p-4">
             <div className="flex items-center justify-between mb-3">
-              <h4 className="font-bold text-lg">{result.symbol}</h4>
-              {getAccuracyIcon(result.overallAccuracy)}
+              <h4 className="font-bold text-lg">{summary.symbol}</h4>
+              {getAccuracyIcon(summary.meanAccuracy)}
             </div>
             
             <div className="space-y-2">
               <div className="flex justify-between">
                 <span className="text-sm text-gray-400">Accuracy:</span>
-                <span className={`text-sm font-bold ${getAccuracyColor(result.overallAccuracy)}`}>
-                  {(result.overallAccuracy * 100).toFixed(1)}%
+                <span className={`text-sm font-bold ${getAccuracyColor(summary.meanAccuracy)}`}>
+                  {formatPercent(summary.meanAccuracy)}
                 </span>
               </div>
               
               <div className="flex justify-between">
                 <span className="text-sm text-gray-400">MAPE:</span>
                 <span className="text-sm text-blue-400">
-                  {(result.mape * 100).toFixed(2)}%
+                  {formatPercent(summary.mape, 2)}
                 </span>
               </div>
               
               <div className="flex justify-between">
                 <span className="text-sm text-gray-400">RMSE:</span>
                 <span className="text-sm text-yellow-400">
-                  {result.rmse.toFixed(2)}
+                  {summary.rmse.toFixed(2)}
+                </span>
+              </div>
+
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-400">Direction:</span>
+                <span className="text-sm text-purple-400">
+                  {formatPercent(summary.directionalAccuracy)}
                 </span>
               </div>
               
               <div className="flex justify-between">
                 <span className="text-sm text-gray-400">Predictions:</span>
                 <span className="text-sm text-gray-300">
-                  {result.predictions.length}
+                  {summary.sampleSize}
                 </span>
               </div>
             </div>
@@ -244,10 +305,10 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
               <div className="w-full bg-gray-700 rounded-full h-2">
                 <div
                   className={`h-2 rounded-full ${
-                    result.overallAccuracy >= 0.8 ? 'bg-green-400' :
-                    result.overallAccuracy >= 0.6 ? 'bg-yellow-400' : 'bg-red-400'
+                    summary.meanAccuracy >= 0.8 ? 'bg-green-400' :
+                    summary.meanAccuracy >= 0.6 ? 'bg-yellow-400' : 'bg-red-400'
                   }`}
-                  style={{ width: `${result.overallAccuracy * 100}%` }}
+                  style={{ width: `${summary.meanAccuracy * 100}%` }}
                 />
               </div>
             </div>
@@ -255,35 +316,43 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
         ))}
       </div>
 
-      {/* Model Performance Comparison */}
+      {/* Model Scorecards by Horizon */}
       <div className="bg-gray-800 rounded-lg p-6">
-        <h3 className="text-lg font-bold mb-4">Model Performance Comparison</h3>
+        <h3 className="text-lg font-bold mb-4">Model Scorecards by Horizon</h3>
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
               <tr className="border-b border-gray-700">
                 <th className="text-left py-2 text-gray-400">Model</th>
+                <th className="text-right py-2 text-gray-400">Horizon</th>
+                <th className="text-right py-2 text-gray-400">Samples</th>
                 <th className="text-right py-2 text-gray-400">Accuracy</th>
                 <th className="text-right py-2 text-gray-400">MAPE</th>
                 <th className="text-right py-2 text-gray-400">RMSE</th>
-                <th className="text-right py-2 text-gray-400">Prediction Time</th>
+                <th className="text-right py-2 text-gray-400">Direction</th>
               </tr>
             </thead>
             <tbody>
-              {modelPerformance.map((model) => (
-                <tr key={model.modelId} className="border-b border-gray-700/50">
-                  <td className="py-2 font-medium">{model.modelId.toUpperCase()}</td>
-                  <td className={`text-right py-2 ${getAccuracyColor(model.accuracy)}`}>
-                    {(model.accuracy * 100).toFixed(1)}%
+              {modelScorecards.map((card) => (
+                <tr key={`${card.modelVersion}-${card.horizonDays}`} className="border-b border-gray-700/50">
+                  <td className="py-2 font-medium">{card.modelVersion}</td>
+                  <td className="text-right py-2 text-gray-300">
+                    {card.horizonDays}d
+                  </td>
+                  <td className="text-right py-2 text-gray-300">
+                    {card.sampleSize}
+                  </td>
+                  <td className={`text-right py-2 ${getAccuracyColor(card.meanAccuracy)}`}>
+                    {formatPercent(card.meanAccuracy)}
                   </td>
                   <td className="text-right py-2 text-blue-400">
-                    {(model.mape * 100).toFixed(2)}%
+                    {formatPercent(card.mape, 2)}
                   </td>
                   <td className="text-right py-2 text-yellow-400">
-                    {model.rmse.toFixed(2)}
+                    {card.rmse.toFixed(2)}
                   </td>
-                  <td className="text-right py-2 text-gray-300">
-                    {model.predictionTime.toFixed(1)}ms
+                  <td className="text-right py-2 text-purple-400">
+                    {formatPercent(card.directionalAccuracy)}
                   </td>
                 </tr>
               ))}
@@ -292,8 +361,57 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ symbols }) =>
         </div>
       </div>
 
+      {/* Interval Calibration */}
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h3 className="text-lg font-bold mb-4">Interval Calibration</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {coverage.map(report => {
+            const nominal = formatPercent(report.coverage, 0);
+            const onTarget = Math.abs(report.empiricalCoverage - report.coverage) <= 0.05;
+
+            return (
+              <div key={report.coverage} className="bg-gray-700 rounded-lg p-4">
+                <div className="flex justify-between mb-2">
+                  <span className="text-sm text-gray-400">{nominal} conformal band</span>
+                  <span className="text-sm text-gray-400">n={report.sampleSize}</span>
+                </div>
+                {report.sampleSize > 0 ? (
+                  <>
+                    <div className="text-sm text-gray-300 mb-3">
+                      Contained the actual price{' '}
+                      <span className={`font-bold ${onTarget ? 'text-green-400' : 'text-yellow-400'}`}>
+                        {formatPercent(report.empiricalCoverage)}
+                      </span>{' '}
+                      of the time, mean width {formatPercent(report.meanWidth)} of price
+                    </div>
+                    <div className="relative w-full bg-gray-600 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${onTarget ? 'bg-green-400' : 'bg-yellow-400'}`}
+                        style={{ width: `${report.empiricalCoverage * 100}%` }}
+                      />
+                      <div
+                        className="absolute top-0 h-2 w-0.5 bg-white"
+                        style={{ left: `${report.coverage * 100}%` }}
+                        title={`Nominal ${nominal}`}
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-gray-500">Awaiting resolved predictions</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Model Registry */}
+      {modelPerformance.length > 0 && (
+        <ModelPerformanceChart performance={modelPerformance} />
+      )}
+
       <div className="text-xs text-gray-500">
-        * Validation compares AI predictions against actual market prices from multiple data sources
+        * Scorecards are walk-forward: each prediction is scored against the close on its target date once that date has passed, over a rolling {windowDays}-day window. Interval coverage checks each resolved forecast against the band calibrated on the errors resolved before it.
       </div>
     </motion.div>
   );
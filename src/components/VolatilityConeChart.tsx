@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Activity } from 'lucide-react';
+import { volatilityService, VolatilityOutlook, ResolvedVolatilityForecast } from '../services/volatilityService';
+import { logger } from '../utils/logger';
+import LoadingSpinner from './LoadingSpinner';
+
+interface VolatilityConeChartProps {
+  symbol: string;
+}
+
+const CONE_LINES = [
+  { key: 'max', name: 'Max', color: '#6B7280', dashed: true },
+  { key: 'p75', name: '75th pct', color: '#60A5FA', dashed: true },
+  { key: 'median', name: 'Median', color: '#3B82F6', dashed: false },
+  { key: 'p25', name: '25th pct', color: '#60A5FA', dashed: true },
+  { key: 'min', name: 'Min', color: '#6B7280', dashed: true },
+  { key: 'current', name: 'Current', color: '#F59E0B', dashed: false },
+  { key: 'forecast', name: 'Forecast', color: '#8B5CF6', dashed: false }
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const VolatilityConeChart: React.FC<VolatilityConeChartProps> = ({ symbol }) => {
+  const [outlook, setOutlook] = useState<VolatilityOutlook | null>(null);
+  const [resolved, setResolved] = useState<ResolvedVolatilityForecast[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [outlookData, resolvedData] = await Promise.all([
+          volatilityService.getVolatilityOutlook(symbol),
+          volatilityService.getResolvedForecasts(symbol, 5)
+        ]);
+        setOutlook(outlookData);
+        setResolved(resolvedData);
+      } catch (err: any) {
+        logger.error('Error fetching volatility forecast', err);
+        setError(err.message || 'Failed to load volatility forecast');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [symbol]);
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-gray-800 border border-gray-600 rounded-lg p-3 shadow-lg">
+          <p className="text-sm text-gray-300 mb-2">{label} window</p>
+          {payload.map((entry: any, index: number) => (
+            <p key={index} className="text-sm" style={{ color: entry.color }}>
+              {entry.name}: {formatPercent(entry.value)}
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  if (loading) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="bg-gray-800 rounded-lg p-6 h-96 flex items-center justify-center"
+      >
+        <LoadingSpinner size="lg" message="Fitting volatility model..." />
+      </motion.div>
+    );
+  }
+
+  if (error || !outlook) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="bg-gray-800 rounded-lg p-6 flex items-center justify-center"
+      >
+        <p className="text-red-400">{error || 'Volatility forecast unavailable'}</p>
+      </motion.div>
+    );
+  }
+
+  const chartData = outlook.cone.map(point => ({ ...point, label: `${point.window}d` }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-gray-800 rounded-lg p-6"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Activity className="h-6 w-6 text-purple-400" />
+          <h3 className="text-xl font-bold">{symbol} Volatility Cone</h3>
+        </div>
+        <div className="text-sm text-gray-400">
+          {outlook.variant.toUpperCase()}(1,1) · persistence {outlook.persistence.toFixed(3)}
+          {outlook.source === 'simulated' && <span className="text-yellow-400"> · simulated history</span>}
+        </div>
+      </div>
+
+      {/* Horizon Forecasts */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {outlook.forecasts.map(forecast => (
+          <div key={forecast.horizonDays} className="bg-gray-700 rounded-lg p-4">
+            <div className="text-sm text-gray-400 mb-2">{forecast.horizonDays}-day volatility</div>
+            <div className="text-xl font-bold text-purple-400">{formatPercent(forecast.volatility)}</div>
+            <div className="text-xs text-gray-500">
+              {formatPercent(forecast.lowerBound)} – {formatPercent(forecast.upperBound)} annualized
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Cone */}
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="label" stroke="#9CA3AF" fontSize={12} />
+            <YAxis stroke="#9CA3AF" fontSize={12} tickFormatter={(value) => `${(value * 100).toFixed(0)}%`} />
+            <Tooltip content={<CustomTooltip />} />
+            {CONE_LINES.map(line => (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={line.key}
+                name={line.name}
+                stroke={line.color}
+                strokeWidth={line.dashed ? 1 : 2}
+                strokeDasharray={line.dashed ? '5 5' : undefined}
+                dot={!line.dashed}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Realized vs Forecast */}
+      <div className="mt-6 bg-gray-700 rounded-lg p-4">
+        <div className="text-sm text-gray-400 mb-2">Recent Forecasts vs Realized</div>
+        {resolved.length > 0 ? (
+          <div className="space-y-1">
+            {resolved.map((forecast, index) => (
+              <div key={index} className="flex justify-between text-sm text-gray-300">
+                <span>
+                  {new Date(forecast.targetDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}{' '}
+                  <span className="text-gray-500">({forecast.timeHorizon})</span>
+                </span>
+                <span>
+                  {formatPercent(forecast.predicted)} forecast, {formatPercent(forecast.actual)} realized{' '}
+                  <span className={forecast.accuracy >= 0.8 ? 'text-green-400' : 'text-yellow-400'}>
+                    ({(forecast.accuracy * 100).toFixed(0)}%)
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <span className="text-sm text-gray-500">Awaiting resolved volatility forecasts</span>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default VolatilityConeChart;
\ No newline at end of file
@@ -180,7 +180,7 @@ export interface Database {
           id: string
           user_id: string
           symbol_id: string
-          alert_type: 'price' | 'volume' | 'trend' | 'volatility'
+          alert_type: 'price' | 'volume' | 'trend' | 'volatility' | 'composite'
           condition_type: 'above' | 'below' | 'crosses_above' | 'crosses_below'
           target_value: number
           current_value: number | null
@@ -189,13 +189,17 @@ export interface Database {
           message: string | null
           severity: 'low' | 'medium' | 'high'
           triggered_at: string | null
+          last_observed_value: number | null
+          last_evaluated_at: string | null
+          cooldown_minutes: number
+          rule: Json | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
           symbol_id: string
-          alert_type: 'price' | 'volume' | 'trend' | 'volatility'
+          alert_type: 'price' | 'volume' | 'trend' | 'volatility' | 'composite'
           condition_type: 'above' | 'below' | 'crosses_above' | 'crosses_below'
           target_value: number
           current_value?: number | null
@@ -204,13 +208,17 @@ export interface Database {
           message?: string | null
           severity?: 'low' | 'medium' | 'high'
           triggered_at?: string | null
+          last_observed_value?: number | null
+          last_evaluated_at?: string | null
+          cooldown_minutes?: number
+          rule?: Json | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           symbol_id?: string
-          alert_type?: 'price' | 'volume' | 'trend' | 'volatility'
+          alert_type?: 'price' | 'volume' | 'trend' | 'volatility' | 'composite'
           condition_type?: 'above' | 'below' | 'crosses_above' | 'crosses_below'
           target_value?: number
           current_value?: number | null
@@ -219,6 +227,10 @@ export interface Database {
           message?: string | null
           severity?: 'low' | 'medium' | 'high'
           triggered_at?: string | null
+          last_observed_value?: number | null
+          last_evaluated_at?: string | null
+          cooldown_minutes?: number
+          rule?: Json | null
           created_at?: string
         }
       }
@@ -234,6 +246,9 @@ export interface Database {
           features_used: Json
           actual_value: number | null
           accuracy_score: number | null
+          base_value: number | null
+          resolved_at: string | null
+          unresolvable_at: string | null
           created_at: string
           target_date: string
         }
@@ -248,6 +263,9 @@ export interface Database {
           features_used?: Json
           actual_value?: number | null
           accuracy_score?: number | null
+          base_value?: number | null
+          resolved_at?: string | null
+          unresolvable_at?: string | null
           created_at?: string
           target_date: string
         }
@@ -262,6 +280,9 @@ export interface Database {
           features_used?: Json
           actual_value?: number | null
           accuracy_score?: number | null
+          base_value?: number | null
+          resolved_at?: string | null
+          unresolvable_at?: string | null
           created_at?: string
           target_date?: string
         }
@@ -453,17 +474,555 @@ export interface Database {
           expires_at?: string | null
         }
       }
+      backtest_results: {
+        Row: {
+          id: string
+          user_id: string
+          symbol_id: string
+          strategy_id: string
+          parameters: Json
+          start_date: string
+          end_date: string
+          initial_capital: number
+          final_equity: number
+          total_return: number
+          max_drawdown: number
+          sharpe_ratio: number
+          win_rate: number
+          total_trades: number
+          metrics: Json
+          equity_curve: Json
+          trades: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          symbol_id: string
+          strategy_id: string
+          parameters?: Json
+          start_date: string
+          end_date: string
+          initial_capital: number
+          final_equity: number
+          total_return: number
+          max_drawdown: number
+          sharpe_ratio?: number
+          win_rate: number
+          total_trades?: number
+          metrics?: Json
+          equity_curve?: Json
+          trades?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          symbol_id?: string
+          strategy_id?: string
+          parameters?: Json
+          start_date?: string
+          end_date?: string
+          initial_capital?: number
+          final_equity?: number
+          total_return?: number
+          max_drawdown?: number
+          sharpe_ratio?: number
+          win_rate?: number
+          total_trades?: number
+          metrics?: Json
+          equity_curve?: Json
+          trades?: Json
+          created_at?: string
+        }
+      }
+      portfolio_transactions: {
+        Row: {
+          id: string
+          portfolio_id: string
+          symbol_id: string
+          transaction_type: 'buy' | 'sell'
+          quantity: number
+          price: number
+          fees: number
+          realized_pnl: number | null
+          executed_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          portfolio_id: string
+          symbol_id: string
+          transaction_type: 'buy' | 'sell'
+          quantity: number
+          price: number
+          fees?: number
+          realized_pnl?: number | null
+          executed_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          portfolio_id?: string
+          symbol_id?: string
+          transaction_type?: 'buy' | 'sell'
+          quantity?: number
+          price?: number
+          fees?: number
+          realized_pnl?: number | null
+          executed_at?: string
+          created_at?: string
+        }
+      }
+      alert_history: {
+        Row: {
+          id: string
+          alert_id: string
+          user_id: string
+          symbol_id: string
+          condition_type: 'above' | 'below' | 'crosses_above' | 'crosses_below'
+          target_value: number
+          previous_value: number | null
+          observed_value: number
+          message: string | null
+          severity: 'low' | 'medium' | 'high'
+          triggered_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          user_id: string
+          symbol_id: string
+          condition_type: 'above' | 'below' | 'crosses_above' | 'crosses_below'
+          target_value: number
+          previous_value?: number | null
+          observed_value: number
+          message?: string | null
+          severity?: 'low' | 'medium' | 'high'
+          triggered_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          user_id?: string
+          symbol_id?: string
+          condition_type?: 'above' | 'below' | 'crosses_above' | 'crosses_below'
+          target_value?: number
+          previous_value?: number | null
+          observed_value?: number
+          message?: string | null
+          severity?: 'low' | 'medium' | 'high'
+          triggered_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          alert_id: string | null
+          title: string
+          body: string
+          severity: 'low' | 'medium' | 'high'
+          is_read: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          alert_id?: string | null
+          title: string
+          body: string
+          severity?: 'low' | 'medium' | 'high'
+          is_read?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          alert_id?: string | null
+          title?: string
+          body?: string
+          severity?: 'low' | 'medium' | 'high'
+          is_read?: boolean
+          created_at?: string
+        }
+      }
+      notification_deliveries: {
+        Row: {
+          id: string
+          user_id: string
+          alert_id: string | null
+          channel: 'email' | 'webhook' | 'in_app'
+          attempt: number
+          status: 'sent' | 'failed'
+          error: string | null
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          alert_id?: string | null
+          channel: 'email' | 'webhook' | 'in_app'
+          attempt: number
+          status: 'sent' | 'failed'
+          error?: string | null
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          alert_id?: string | null
+          channel?: 'email' | 'webhook' | 'in_app'
+          attempt?: number
+          status?: 'sent' | 'failed'
+          error?: string | null
+          attempted_at?: string
+        }
+      }
+      model_scorecards: {
+        Row: {
+          id: string
+          model_version: string
+          symbol_id: string | null
+          horizon_days: number
+          window_days: number
+          sample_size: number
+          mape: number
+          rmse: number
+          directional_accuracy: number | null
+          mean_accuracy: number
+          computed_at: string
+        }
+        Insert: {
+          id?: string
+          model_version: string
+          symbol_id?: string | null
+          horizon_days: number
+          window_days: number
+          sample_size?: number
+          mape?: number
+          rmse?: number
+          directional_accuracy?: number | null
+          mean_accuracy?: number
+          computed_at?: string
+        }
+        Update: {
+          id?: string
+          model_version?: string
+          symbol_id?: string | null
+          horizon_days?: number
+          window_days?: number
+          sample_size?: number
+          mape?: number
+          rmse?: number
+          directional_accuracy?: number | null
+          mean_accuracy?: number
+          computed_at?: string
+        }
+      }
+      model_registry: {
+        Row: {
+          id: string
+          model_key: string
+          name: string
+          model_type: 'lstm' | 'arima' | 'ensemble' | 'transformer'
+          version: string
+          model_version: string
+          status: 'candidate' | 'active' | 'retired'
+          hyperparameters: Json
+          training_window_start: string | null
+          training_window_end: string | null
+          metrics: Json
+          metrics_updated_at: string | null
+          last_trained: string | null
+          promoted_at: string | null
+          retired_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          model_key: string
+          name: string
+          model_type: 'lstm' | 'arima' | 'ensemble' | 'transformer'
+          version: string
+          status?: 'candidate' | 'active' | 'retired'
+          hyperparameters?: Json
+          training_window_start?: string | null
+          training_window_end?: string | null
+          metrics?: Json
+          metrics_updated_at?: string | null
+          last_trained?: string | null
+          promoted_at?: string | null
+          retired_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          model_key?: string
+          name?: string
+          model_type?: 'lstm' | 'arima' | 'ensemble' | 'transformer'
+          version?: string
+          status?: 'candidate' | 'active' | 'retired'
+          hyperparameters?: Json
+          training_window_start?: string | null
+          training_window_end?: string | null
+          metrics?: Json
+          metrics_updated_at?: string | null
+          last_trained?: string | null
+          promoted_at?: string | null
+          retired_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      model_weights: {
+        Row: {
+          id: string
+          symbol_id: string
+          model_version: string
+          weights: Json
+          trained_through: string
+          training_loss: number
+          validation_loss: number
+          training_ms: number
+          epochs: number
+          samples: number
+          trained_at: string
+          granularity: string
+          user_id: string | null
+        }
+        Insert: {
+          id?: string
+          symbol_id: string
+          model_version: string
+          weights: Json
+          trained_through: string
+          training_loss: number
+          validation_loss: number
+          training_ms: number
+          epochs: number
+          samples: number
+          trained_at?: string
+          granularity?: string
+          user_id?: string | null
+        }
+        Update: {
+          id?: string
+          symbol_id?: string
+          model_version?: string
+          weights?: Json
+          trained_through?: string
+          training_loss?: number
+          validation_loss?: number
+          training_ms?: number
+          epochs?: number
+          samples?: number
+          trained_at?: string
+          granularity?: string
+          user_id?: string | null
+        }
+      }
+      intraday_bars: {
+        Row: {
+          id: string
+          symbol_id: string
+          interval: string
+          bucket_start: string
+          open_price: number
+          high_price: number
+          low_price: number
+          close_price: number
+          volume: number
+          tick_count: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          symbol_id: string
+          interval: string
+          bucket_start: string
+          open_price: number
+          high_price: number
+          low_price: number
+          close_price: number
+          volume?: number
+          tick_count?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          symbol_id?: string
+          interval?: string
+          bucket_start?: string
+          open_price?: number
+          high_price?: number
+          low_price?: number
+          close_price?: number
+          volume?: number
+          tick_count?: number
+          updated_at?: string
+        }
+      }
+      feature_vectors: {
+        Row: {
+          id: string
+          symbol_id: string
+          date: string
+          schema_version: number
+          close_price: number
+          log_return: number
+          rsi: number
+          macd_histogram: number
+          sma20_gap: number
+          atr: number
+          volatility: number
+          volume_zscore: number
+          sentiment: number | null
+          computed_at: string
+        }
+        Insert: {
+          id?: string
+          symbol_id: string
+          date: string
+          schema_version?: number
+          close_price: number
+          log_return: number
+          rsi: number
+          macd_histogram: number
+          sma20_gap: number
+          atr: number
+          volatility: number
+          volume_zscore: number
+          sentiment?: number | null
+          computed_at?: string
+        }
+        Update: {
+          id?: string
+          symbol_id?: string
+          date?: string
+          schema_version?: number
+          close_price?: number
+          log_return?: number
+          rsi?: number
+          macd_histogram?: number
+          sma20_gap?: number
+          atr?: number
+          volatility?: number
+          volume_zscore?: number
+          sentiment?: number | null
+          computed_at?: string
+        }
+      }
+      historical_period_bars: {
+        Row: {
+          id: string
+          symbol_id: string
+          period: 'weekly' | 'monthly'
+          date: string
+          open_price: number
+          high_price: number
+          low_price: number
+          close_price: number
+          volume: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          symbol_id: string
+          period: 'weekly' | 'monthly'
+          date: string
+          open_price: number
+          high_price: number
+          low_price: number
+          close_price: number
+          volume?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          symbol_id?: string
+          period?: 'weekly' | 'monthly'
+          date?: string
+          open_price?: number
+          high_price?: number
+          low_price?: number
+          close_price?: number
+          volume?: number
+          updated_at?: string
+        }
+      }
+      historical_unfillable_dates: {
+        Row: {
+          id: string
+          symbol_id: string
+          date: string
+          recorded_at: string
+        }
+        Insert: {
+          id?: string
+          symbol_id: string
+          date: string
+          recorded_at?: string
+        }
+        Update: {
+          id?: string
+          symbol_id?: string
+          date?: string
+          recorded_at?: string
+        }
+      }
+      corporate_actions: {
+        Row: {
+          id: string
+          symbol_id: string
+          action_type: 'split' | 'dividend'
+          ex_date: string
+          ratio: number | null
+          amount: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          symbol_id: string
+          action_type: 'split' | 'dividend'
+          ex_date: string
+          ratio?: number | null
+          amount?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          symbol_id?: string
+          action_type?: 'split' | 'dividend'
+          ex_date?: string
+          ratio?: number | null
+          amount?: number | null
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      execute_portfolio_transaction: {
+        Args: {
+          p_portfolio_id: string
+          p_symbol_id: string
+          p_transaction_type: 'buy' | 'sell'
+          p_quantity: number
+          p_price: number
+          p_fees?: number
+        }
+        Returns: Database['public']['Tables']['portfolio_transactions']['Row']
+      }
     }
     Enums: {
       subscription_tier: 'free' | 'premium' | 'enterprise'
       symbol_type: 'stock' | 'crypto' | 'forex' | 'commodity'
-      alert_type: 'price' | 'volume' | 'trend' | 'volatility'
+      alert_type: 'price' | 'volume' | 'trend' | 'volatility' | 'composite'
       condition_type: 'above' | 'below' | 'crosses_above' | 'crosses_below'
       severity_level: 'low' | 'medium' | 'high'
       prediction_type: 'price' | 'trend' | 'volatility'
@@ -471,6 +1030,10 @@ export interface Database {
       trend_direction: 'bullish' | 'bearish' | 'neutral'
       sentiment_label: 'positive' | 'negative' | 'neutral'
       signal_type: 'buy' | 'sell' | 'hold'
+      transaction_type: 'buy' | 'sell'
+      notification_channel: 'email' | 'webhook' | 'in_app'
+      delivery_status: 'sent' | 'failed'
+      model_status: 'candidate' | 'active' | 'retired'
     }
   }
 }
\ No newline at end of file
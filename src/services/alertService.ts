@@ -1,19 +1,24 @@
 import { supabase, handleSupabaseError } from '../lib/supabase';
-import { Alert } from '../types';
+import { Alert, HistoricalDataPoint } from '../types';
+import { AlertEvaluator, AlertMetricContext, ALERT_METRIC_WINDOW } from '../utils/alertEvaluator';
+import { AlertRuleEngine, RuleGroup, INDICATOR_METRICS } from '../utils/alertRules';
 
 export interface CreateAlertData {
   symbolId: string;
-  alertType: 'price' | 'volume' | 'trend' | 'volatility';
+  alertType: 'price' | 'volume' | 'trend' | 'volatility' | 'composite';
   conditionType: 'above' | 'below' | 'crosses_above' | 'crosses_below';
   targetValue: number;
   severity?: 'low' | 'medium' | 'high';
+  cooldownMinutes?: number;
+  // Required for composite alerts, which trigger on the rule evaluating true
+  rule?: RuleGroup;
 }
 
 export interface UserAlert {
   id: string;
   symbolId: string;
   symbol: string;
-  alertType: 'price' | 'volume' | 'trend' | 'volatility';
+  alertType: 'price' | 'volume' | 'trend' | 'volatility' | 'composite';
   conditionType: 'above' | 'below' | 'crosses_above' | 'crosses_below';
   targetValue: number;
   currentValue?: number;
@@ -22,9 +27,25 @@ export interface UserAlert {
   message?: string;
   severity: 'low' | 'medium' | 'high';
   triggeredAt?: string;
+  lastObservedValue?: number;
+  cooldownMinutes: number;
+  rule?: RuleGroup;
   createdAt: string;
 }
 
+export interface AlertHistoryEntry {
+  id: string;
+  alertId: string;
+  symbol: string;
+  conditionType: 'above' | 'below' | 'crosses_above' | 'crosses_below';
+  targetValue: number;
+  previousValue?: number;
+  observedValue: number;
+  message?: string;
+  severity: 'low' | 'medium' | 'high';
+  triggeredAt: string;
+}
+
 class AlertService {
   async createAlert(userId: string, alertData: CreateAlertData): Promise<UserAlert> {
     try {
@@ -37,6 +58,8 @@ class AlertService {
           condition_type: alertData.conditionType,
           target_value: alertData.targetValue,
           severity: alertData.severity || 'medium',
+          cooldown_minutes: alertData.cooldownMinutes ?? 60,
+          rule: alertData.rule ?? null,
           message: this.generateAlertMessage(alertData)
         })
         .select(`
@@ -54,6 +77,48 @@ class AlertService {
     }
   }
 
+  /**
+   * Composite alerts observe 1 while the rule holds and 0 otherwise, so
+   * crosses_above fires once when the rule becomes true and above keeps
+   * firing after each cooldown while it stays true
+   */
+  async createRuleAlert(
+    userId: string,
+    symbol: string,
+    rule: RuleGroup,
+    options: {
+      conditionType?: 'above' | 'crosses_above';
+      severity?: 'low' | 'medium' | 'high';
+      cooldownMinutes?: number;
+    } = {}
+  ): Promise<UserAlert> {
+    const errors = AlertRuleEngine.validate(rule);
+    if (errors.length > 0) {
+      throw new Error(`Invalid alert rule: ${errors.join('; ')}`);
+    }
+
+    const { data, error } = await supabase
+      .from('market_symbols')
+      .select('id')
+      .eq('symbol', symbol)
+      .single();
+
+    if (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+
+    return this.createAlert(userId, {
+      symbolId: data.id,
+      alertType: 'composite',
+      conditionType: options.conditionType || 'crosses_above',
+      targetValue: 0.5,
+      severity: options.severity,
+      cooldownMinutes: options.cooldownMinutes,
+      rule
+    });
+  }
+
   async getUserAlerts(userId: string): Promise<UserAlert[]> {
     try {
       const { data, error } = await supabase
@@ -80,8 +145,14 @@ class AlertService {
       const { data, error } = await supabase
         .from('user_alerts')
         .update({
-          ...updates,
-          target_value: updates.targetValue
+          alert_type: updates.alertType,
+          condition_type: updates.conditionType,
+          target_value: updates.targetValue,
+          severity: updates.severity,
+          cooldown_minutes: updates.cooldownMinutes,
+          rule: updates.rule,
+          // The previous observation is in the old type's units
+          ...(updates.alertType ? { last_observed_value: null } : {})
         })
         .eq('id', alertId)
         .select(`
@@ -113,64 +184,118 @@ class AlertService {
     }
   }
 
-  async triggerAlert(alertId: string, currentValue: number): Promise<void> {
+  /**
+   * Mark an alert as triggered and record the firing in alert_history
+   */
+  async triggerAlert(
+    alertId: string,
+    currentValue: number,
+    previousValue: number | null = null,
+    message?: string
+  ): Promise<void> {
     try {
-      const { error } = await supabase
+      const triggeredAt = new Date().toISOString();
+
+      const { data, error } = await supabase
         .from('user_alerts')
         .update({
           is_triggered: true,
           current_value: currentValue,
-          triggered_at: new Date().toISOString()
+          triggered_at: triggeredAt
         })
-        .eq('id', alertId);
+        .eq('id', alertId)
+        .select('*')
+        .single();
 
       if (error) throw error;
+
+      const { error: historyError } = await supabase
+        .from('alert_history')
+        .insert({
+          alert_id: data.id,
+          user_id: data.user_id,
+          symbol_id: data.symbol_id,
+          condition_type: data.condition_type,
+          target_value: data.target_value,
+          previous_value: previousValue,
+          observed_value: currentValue,
+          message: message || data.message,
+          severity: data.severity,
+          triggered_at: triggeredAt
+        });
+
+      if (historyError) throw historyError;
     } catch (error) {
       handleSupabaseError(error);
       throw error;
     }
   }
 
+  /**
+   * Evaluate every active alert against the metric for its type. Crossing alerts
+   * compare with the value seen on the previous run, and triggered alerts re-arm
+   * once their cooldown has elapsed.
+   */
   async checkAndTriggerAlerts(): Promise<void> {
     try {
-      // Get all active alerts
       const { data: alerts, error: alertsError } = await supabase
         .from('user_alerts')
         .select(`
           *,
-          market_symbols!inner(symbol),
-          market_data!inner(price)
+          market_symbols!inner(symbol)
         `)
-        .eq('is_active', true)
-        .eq('is_triggered', false);
+        .eq('is_active', true);
 
       if (alertsError) throw alertsError;
 
-      // Check each alert against current market data
+      const contexts = await this.loadMetricContexts(alerts);
+      const now = new Date();
+
       for (const alert of alerts) {
-        const currentPrice = parseFloat(alert.market_data.price);
-        const targetValue = parseFloat(alert.target_value);
-        let shouldTrigger = false;
-
-        switch (alert.condition_type) {
-          case 'above':
-            shouldTrigger = currentPrice > targetValue;
-            break;
-          case 'below':
-            shouldTrigger = currentPrice < targetValue;
-            break;
-          case 'crosses_above':
-            // This would require historical comparison
-            shouldTrigger = currentPrice > targetValue;
-            break;
-          case 'crosses_below':
-            // This would require historical comparison
-            shouldTrigger = currentPrice < targetValue;
-            break;
-        }
+        const context = contexts.get(alert.symbol_id);
+        if (!context) continue;
+
+        const currentValue = alert.alert_type === 'composite'
+          ? (alert.rule && AlertRuleEngine.evaluate(alert.rule, context) ? 1 : 0)
+          : AlertEvaluator.computeMetric(alert.alert_type, context);
+        if (currentValue === null) continue;
 
-        if (shouldTrigger) {
-          await this.triggerAlert(alert.id, currentPrice);
+        const previousValue = alert.last_observed_value != null
+          ? parseFloat(alert.last_observed_value)
+          : null;
+
+        const evaluation = AlertEvaluator.evaluate(
+          alert.condition_type,
+          parseFloat(alert.target_value),
+          currentValue,
+          {
+            previousValue,
+            isTriggered: alert.is_triggered,
+            triggeredAt: alert.triggered_at,
+            cooldownMinutes: alert.cooldown_minutes ?? 60
+          },
+          now
+        );
+
+        const { error: stateError } = await supabase
+          .from('user_alerts')
+          .update({
+            last_observed_value: currentValue,
+            last_evaluated_at: now.toISOString(),
+            ...(evaluation.rearmed ? { is_triggered: false } : {})
+          })
+          .eq('id', alert.id);
+
+        if (stateError) throw stateError;
+
+        if (evaluation.shouldTrigger) {
+          const observed = AlertEvaluator.formatMetric(alert.alert_type, currentValue);
+          await this.triggerAlert(
+            alert.id,
+            currentValue,
+            previousValue,
+            `${alert.market_symbols.symbol}: ${alert.message} (now ${observed})`
+          );
         }
       }
     } catch (error) {
@@ -178,6 +303,38 @@ class AlertService {
     }
   }
 
+  async getAlertHistory(userId: string, limit: number = 50): Promise<AlertHistoryEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('alert_history')
+        .select(`
+          *,
+          market_symbols!inner(symbol)
+        `)
+        .eq('user_id', userId)
+        .order('triggered_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data.map(entry => ({
+        id: entry.id,
+        alertId: entry.alert_id,
+        symbol: entry.market_symbols.symbol,
+        conditionType: entry.condition_type,
+        targetValue: parseFloat(entry.target_value),
+        previousValue: entry.previous_value != null ? parseFloat(entry.previous_value) : undefined,
+        observedValue: parseFloat(entry.observed_value),
+        message: entry.message || undefined,
+        severity: entry.severity,
+        triggeredAt: entry.triggered_at
+      }));
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
   // Convert database alerts to frontend format
   async getAlertsForFrontend(userId: string): Promise<Alert[]> {
     try {
@@ -192,7 +349,8 @@ class AlertService {
           symbolId: alert.symbolId,
           alertType: alert.alertType,
           conditionType: alert.conditionType,
-          targetValue: alert.targetValue
+          targetValue: alert.targetValue,
+          rule: alert.rule
         }),
         timestamp: alert.createdAt,
         isRead: alert.isTriggered
@@ -217,12 +375,142 @@ class AlertService {
       message: data.message,
       severity: data.severity,
       triggeredAt: data.triggered_at,
+      lastObservedValue: data.last_observed_value != null ? parseFloat(data.last_observed_value) : undefined,
+      cooldownMinutes: data.cooldown_minutes ?? 60,
+      rule: data.rule || undefined,
       createdAt: data.created_at
     };
   }
 
+  /**
+   * Latest price and volume per symbol, plus the daily history and stored
+   * analysis needed by volume, trend and volatility alerts
+   */
+  private async loadMetricContexts(alerts: any[]): Promise<Map<string, AlertMetricContext>> {
+    const contexts = new Map<string, AlertMetricContext>();
+    const symbolIds = Array.from(new Set(alerts.map(alert => alert.symbol_id as string)));
+    if (symbolIds.length === 0) return contexts;
+
+    // One latest tick per symbol, so busy symbols cannot crowd others out of the row cap
+    const results = await Promise.all(symbolIds.map(symbolId =>
+      supabase
+        .from('market_data')
+        .select('symbol_id, price, volume, timestamp')
+        .eq('symbol_id', symbolId)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+    ));
+
+    results.forEach(({ data: latest, error }) => {
+      if (error) throw error;
+      const [row] = latest || [];
+      if (row) {
+        contexts.set(row.symbol_id, {
+          price: parseFloat(row.price),
+          volume: row.volume != null ? parseInt(row.volume) : undefined,
+          history: []
+        });
+      }
+    });
+
+    for (const symbolId of symbolIds) {
+      const context = contexts.get(symbolId);
+      if (!context) continue;
+
+      const types = new Set<string>();
+      alerts
+        .filter(alert => alert.symbol_id === symbolId)
+        .forEach(alert => this.getRequiredInputs(alert).forEach(input => types.add(input)));
+
+      if (types.has('volume') || types.has('trend') || types.has('volatility')) {
+        context.history = await this.getRecentBars(symbolId, types.has('trend') ? 50 : ALERT_METRIC_WINDOW + 1);
+      }
+
+      if (types.has('trend')) {
+        const { data: analysis, error: analysisError } = await supabase
+          .from('market_analysis')
+          .select('trend_direction, strength_score')
+          .eq('symbol_id', symbolId)
+          .eq('analysis_type', 'technical')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (analysisError) throw analysisError;
+
+        context.analysis = analysis
+          ? { trendDirection: analysis.trend_direction, strength: parseFloat(analysis.strength_score) }
+          : null;
+      }
+
+      if (types.has('indicators')) {
+        const { data: indicators, error: indicatorsError } = await supabase
+          .from('technical_indicators')
+          .select('*')
+          .eq('symbol_id', symbolId)
+          .order('timestamp', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (indicatorsError) throw indicatorsError;
+
+        context.indicators = indicators
+          ? Object.fromEntries(INDICATOR_METRICS.map(metric => [
+              metric,
+              indicators[metric] != null ? parseFloat(indicators[metric]) : null
+            ]))
+          : null;
+      }
+    }
+
+    return contexts;
+  }
+
+  /**
+   * Data an alert needs beyond the latest quote: the metric types it
+   * evaluates, plus 'indicators' for rules on technical_indicators columns
+   */
+  private getRequiredInputs(alert: any): string[] {
+    if (alert.alert_type !== 'composite') {
+      return [alert.alert_type];
+    }
+    if (!alert.rule) return [];
+
+    return Array.from(AlertRuleEngine.collectMetrics(alert.rule)).map(metric => {
+      if (metric === 'volume_ratio') return 'volume';
+      if (metric === 'price' || metric === 'trend' || metric === 'volatility') return metric;
+      return 'indicators';
+    });
+  }
+
+  private async getRecentBars(symbolId: string, days: number): Promise<HistoricalDataPoint[]> {
+    const { data, error } = await supabase
+      .from('historical_data')
+      .select('*')
+      .eq('symbol_id', symbolId)
+      .order('date', { ascending: false })
+      .limit(days);
+
+    if (error) throw error;
+
+    return data
+      .map(row => ({
+        date: row.date,
+        open: parseFloat(row.open_price),
+        high: parseFloat(row.high_price),
+        low: parseFloat(row.low_price),
+        close: parseFloat(row.close_price),
+        volume: parseInt(row.volume)
+      }))
+      .reverse();
+  }
+
   private generateAlertMessage(alertData: CreateAlertData): string {
     const { alertType, conditionType, targetValue } = alertData;
+
+    if (alertType === 'composite' && alertData.rule) {
+      return `Alert when ${AlertRuleEngine.describe(alertData.rule)}`;
+    }
     
     const conditionText = {
       above: 'rises above',
@@ -234,11 +522,12 @@ class AlertService {
     const typeText = {
       price: 'price',
       volume: 'volume',
-      trend: 'trend',
-      volatility: 'volatility'
+      trend: 'trend score',
+      volatility: 'volatility',
+      composite: 'rule'
     }[alertType];
 
-    return `Alert when ${typeText} ${conditionText} ${targetValue}`;
+    return `Alert when ${typeText} ${conditionText} ${AlertEvaluator.formatMetric(alertType, targetValue)}`;
   }
 }
 
@@ -1,5 +1,11 @@
 import { supabase, handleSupabaseError } from '../lib/supabase';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, AnalysisSignal, HistoricalDataPoint } from '../types';
+import { BacktestEngine } from '../utils/backtestEngine';
+import { marketSimulator } from '../utils/marketSimulator';
+import { TechnicalAnalyzer, ANALYSIS_LOOKBACK } from '../utils/technicalAnalyzer';
+
+// Fewer stored bars than this and MA50-based signals are meaningless
+const MIN_ANALYSIS_BARS = 60;
 
 export interface TechnicalAnalysisData {
   id: string;
@@ -113,13 +119,13 @@ class AnalysisService {
   async generateTradingSignal(symbolId: string, symbol: string): Promise<TradingSignal> {
     try {
       // Get current market data and technical indicators
-      const analysis = await this.generateTechnicalAnalysis(symbolId, symbol);
+      const bars = await this.getAnalysisBars(symbolId, symbol);
+      const analysis = await this.generateTechnicalAnalysis(symbolId, symbol, bars);
       
-      // Generate signal based on analysis
-      const signalType = analysis.trend === 'bullish' ? 'buy' : 
-                        analysis.trend === 'bearish' ? 'sell' : 'hold';
+      // Generate signal based on analysis (shared with the backtest engine)
+      const signalType = BacktestEngine.signalFromAnalysis(analysis);
       
-      const currentPrice = this.getBasePrice(symbol);
+      const currentPrice = bars[bars.length - 1].close;
       const strength = analysis.strength / 100;
       const confidence = analysis.confidence;
       
@@ -131,7 +137,10 @@ class AnalysisService {
         entry_price: currentPrice,
         target_price: analysis.nextTarget,
         stop_loss_price: analysis.stopLoss,
-        reasoning: `Generated based on ${analysis.signals.join(', ')}`,
+        reasoning: (analysis.signalDetails || [])
+          .filter(signal => signal.direction !== 'neutral')
+          .map(signal => `${signal.name}: ${signal.explanation}`)
+          .join('; ') || `Generated based on ${analysis.signals.join(', ')}`,
         expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
       };
 
@@ -163,36 +172,50 @@ class AnalysisService {
     }
   }
 
-  private async generateTechnicalAnalysis(symbolId: string, symbol: string): Promise<AnalysisResult> {
-    // This would typically involve complex technical analysis algorithms
-    // For now, we'll generate realistic mock data
-    
-    const signals = [];
-    const trend = Math.random() > 0.6 ? 'bullish' : Math.random() > 0.3 ? 'bearish' : 'neutral';
-    const strength = Math.random() * 100;
-    const confidence = 0.7 + Math.random() * 0.3;
-    
-    if (trend === 'bullish') {
-      signals.push('Golden Cross detected', 'RSI oversold bounce', 'Volume breakout');
-    } else if (trend === 'bearish') {
-      signals.push('Death Cross forming', 'RSI overbought', 'Support level broken');
-    } else {
-      signals.push('Sideways consolidation', 'Low volatility');
+  /**
+   * Indicator-driven analysis of the stored daily bars, persisted to market_analysis
+   */
+  private async generateTechnicalAnalysis(
+    symbolId: string,
+    symbol: string,
+    bars?: HistoricalDataPoint[]
+  ): Promise<AnalysisResult> {
+    const history = bars || await this.getAnalysisBars(symbolId, symbol);
+    const analysis = TechnicalAnalyzer.analyze(symbol, history);
+
+    await this.storeAnalysis(symbolId, analysis);
+
+    return analysis;
+  }
+
+  /**
+   * Daily bars from historical_data, oldest first. Throws when too little history
+   * is stored rather than analyzing (and persisting) simulated bars.
+   */
+  private async getAnalysisBars(symbolId: string, symbol: string): Promise<HistoricalDataPoint[]> {
+    const { data, error } = await supabase
+      .from('historical_data')
+      .select('*')
+      .eq('symbol_id', symbolId)
+      .order('date', { ascending: false })
+      .limit(ANALYSIS_LOOKBACK);
+
+    if (error) throw error;
+
+    if (data.length < MIN_ANALYSIS_BARS) {
+      throw new Error(`Only ${data.length} bars stored for ${symbol}; technical analysis needs at least ${MIN_ANALYSIS_BARS}`);
     }
-    
-    const basePrice = this.getBasePrice(symbol);
-    const nextTarget = trend === 'bullish' ? basePrice * 1.1 : basePrice * 0.9;
-    const stopLoss = trend === 'bullish' ? basePrice * 0.95 : basePrice * 1.05;
-    
-    return {
-      symbol,
-      trend: trend as 'bullish' | 'bearish' | 'neutral',
-      strength,
-      confidence,
-      signals,
-      nextTarget,
-      stopLoss
-    };
+
+    return data
+      .map(row => ({
+        date: row.date,
+        open: parseFloat(row.open_price),
+        high: parseFloat(row.high_price),
+        low: parseFloat(row.low_price),
+        close: parseFloat(row.close_price),
+        volume: parseInt(row.volume)
+      }))
+      .reverse();
   }
 
   private async storeAnalysis(symbolId: string, analysis: AnalysisResult): Promise<void> {
@@ -205,9 +228,9 @@ class AnalysisService {
           trend_direction: analysis.trend,
           strength_score: analysis.strength / 100,
           confidence_score: analysis.confidence,
-          signals: analysis.signals,
-          support_levels: [],
-          resistance_levels: [],
+          signals: analysis.signalDetails || analysis.signals,
+          support_levels: analysis.supportLevels || [],
+          resistance_levels: analysis.resistanceLevels || [],
           next_target: analysis.nextTarget,
           stop_loss: analysis.stopLoss
         });
@@ -217,60 +240,26 @@ class AnalysisService {
   }
 
   private mapToAnalysisResult(symbol: string, data: any): AnalysisResult {
+    // Older rows store plain signal names, newer ones { name, direction, explanation }
+    const stored: (string | AnalysisSignal)[] = Array.isArray(data.signals) ? data.signals : [];
+    const signalDetails = stored.filter((signal): signal is AnalysisSignal => typeof signal === 'object');
+
     return {
       symbol,
       trend: data.trend_direction,
       strength: parseFloat(data.strength_score) * 100,
       confidence: parseFloat(data.confidence_score),
-      signals: Array.isArray(data.signals) ? data.signals : [],
+      signals: stored.map(signal => typeof signal === 'string' ? signal : signal.name),
       nextTarget: data.next_target ? parseFloat(data.next_target) : 0,
-      stopLoss: data.stop_loss ? parseFloat(data.stop_loss) : 0
+      stopLoss: data.stop_loss ? parseFloat(data.stop_loss) : 0,
+      signalDetails: signalDetails.length > 0 ? signalDetails : undefined,
+      supportLevels: (data.support_levels || []).map(Number),
+      resistanceLevels: (data.resistance_levels || []).map(Number)
     };
   }
 
   private generateMockAnalysis(symbol: string): AnalysisResult {
-    const signals = [];
-    const trend = Math.random() > 0.6 ? 'bullish' : Math.random() > 0.3 ? 'bearish' : 'neutral';
-    const strength = Math.random() * 100;
-    const confidence = 0.7 + Math.random() * 0.3;
-    
-    if (trend === 'bullish') {
-      signals.push('Golden Cross detected', 'RSI oversold bounce', 'Volume breakout');
-    } else if (trend === 'bearish') {
-      signals.push('Death Cross forming', 'RSI overbought', 'Support level broken');
-    } else {
-      signals.push('Sideways consolidation', 'Low volatility');
-    }
-    
-    const basePrice = this.getBasePrice(symbol);
-    const nextTarget = trend === 'bullish' ? basePrice * 1.1 : basePrice * 0.9;
-    const stopLoss = trend === 'bullish' ? basePrice * 0.95 : basePrice * 1.05;
-    
-    return {
-      symbol,
-      trend: trend as 'bullish' | 'bearish' | 'neutral',
-      strength,
-      confidence,
-      signals,
-      nextTarget,
-      stopLoss
-    };
-  }
-
-  private getBasePrice(symbol: string): number {
-    const prices: { [key: string]: number } = {
-      'AAPL': 175,
-      'GOOGL': 135,
-      'MSFT': 350,
-      'TSLA': 220,
-      'AMZN': 145,
-      'NVDA': 450,
-      'META': 310,
-      'BTC': 43000,
-      'ETH': 2500,
-      'SPY': 450
-    };
-    return prices[symbol] || 100;
+    return marketSimulator.analyze(symbol);
   }
 
   private generateAlertMessage(alertData: CreateAlertData): string {
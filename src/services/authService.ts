@@ -8,6 +8,8 @@ export interface AuthUser {
   avatarUrl?: string;
   subscriptionTier: 'free' | 'premium' | 'enterprise';
   preferences: Record<string, any>;
+  /** Set through app_metadata.role, which only the service role can change */
+  isAdmin: boolean;
 }
 
 export interface SignUpData {
@@ -101,7 +103,8 @@ class AuthService {
         fullName: profile.full_name || undefined,
         avatarUrl: profile.avatar_url || undefined,
         subscriptionTier: profile.subscription_tier,
-        preferences: profile.preferences as Record<string, any>
+        preferences: profile.preferences as Record<string, any>,
+        isAdmin: user.app_metadata?.role === 'admin'
       };
 
       return this.currentUser;
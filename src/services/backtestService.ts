@@ -0,0 +1,234 @@
+/**
+ * Backtest Service
+ * Loads historical bars, runs strategy backtests and persists the results
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { HistoricalDataPoint } from '../types';
+import {
+  BacktestEngine,
+  BacktestOptions,
+  BacktestReport,
+  BacktestStrategy,
+  BACKTEST_STRATEGIES
+} from '../utils/backtestEngine';
+import { logger, PerformanceMonitor } from '../utils/logger';
+
+export interface BacktestResult extends BacktestReport {
+  id: string;
+  createdAt: string;
+}
+
+class BacktestService {
+  private strategies: Map<string, BacktestStrategy> = new Map();
+
+  constructor() {
+    BACKTEST_STRATEGIES.forEach(strategy => this.registerStrategy(strategy));
+  }
+
+  /**
+   * Register a strategy so it can be selected for backtests
+   */
+  registerStrategy(strategy: BacktestStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  getStrategies(): BacktestStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  /**
+   * Backtest a single strategy against a symbol's stored history
+   */
+  async runBacktest(
+    symbol: string,
+    strategyId: string,
+    days: number = 365,
+    options: BacktestOptions = {}
+  ): Promise<BacktestReport> {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) {
+      throw new Error(`Unknown backtest strategy: ${strategyId}`);
+    }
+
+    const bars = await this.getBars(symbol, days + strategy.lookback);
+
+    return PerformanceMonitor.measure(`backtest:${symbol}:${strategyId}`, () =>
+      BacktestEngine.run(symbol, bars, strategy, options)
+    );
+  }
+
+  /**
+   * Backtest several strategies over the same bars so their results are comparable
+   */
+  async compareStrategies(
+    symbol: string,
+    strategyIds: string[] = Array.from(this.strategies.keys()),
+    days: number = 365,
+    options: BacktestOptions = {}
+  ): Promise<BacktestReport[]> {
+    const strategies = strategyIds
+      .map(id => this.strategies.get(id))
+      .filter((strategy): strategy is BacktestStrategy => strategy !== undefined);
+
+    const maxLookback = Math.max(0, ...strategies.map(strategy => strategy.lookback));
+    const bars = await this.getBars(symbol, days + maxLookback);
+
+    const reports: BacktestReport[] = [];
+    for (const strategy of strategies) {
+      try {
+        reports.push(BacktestEngine.run(symbol, bars, strategy, options));
+      } catch (error) {
+        logger.warn(`Backtest failed for ${strategy.id}`, error, 'Backtest');
+      }
+    }
+
+    return reports;
+  }
+
+  async saveBacktest(userId: string, report: BacktestReport): Promise<BacktestResult> {
+    try {
+      const symbolId = await this.getSymbolId(report.symbol);
+
+      const { data, error } = await supabase
+        .from('backtest_results')
+        .insert({
+          user_id: userId,
+          symbol_id: symbolId,
+          strategy_id: report.strategyId,
+          parameters: report.options,
+          start_date: report.startDate,
+          end_date: report.endDate,
+          initial_capital: report.initialCapital,
+          final_equity: report.finalEquity,
+          total_return: report.metrics.totalReturn,
+          max_drawdown: report.metrics.maxDrawdown,
+          sharpe_ratio: report.metrics.sharpeRatio,
+          win_rate: report.metrics.winRate,
+          total_trades: report.metrics.totalTrades,
+          metrics: report.metrics,
+          equity_curve: report.equityCurve,
+          trades: report.trades
+        })
+        .select(`
+          *,
+          market_symbols!inner(symbol)
+        `)
+        .single();
+
+      if (error) throw error;
+
+      return this.mapToBacktestResult(data);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async getBacktestHistory(userId: string, symbol?: string): Promise<BacktestResult[]> {
+    try {
+      let query = supabase
+        .from('backtest_results')
+        .select(`
+          *,
+          market_symbols!inner(symbol)
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (symbol) {
+        query = query.eq('market_symbols.symbol', symbol);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return data.map(this.mapToBacktestResult);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async deleteBacktest(backtestId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('backtest_results')
+        .delete()
+        .eq('id', backtestId);
+
+      if (error) throw error;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load daily bars from historical_data, oldest first. Backtests only run on stored
+   * history, so a symbol without any fails rather than falling back to simulated bars.
+   */
+  private async getBars(symbol: string, days: number): Promise<HistoricalDataPoint[]> {
+    const symbolId = await this.getSymbolId(symbol);
+
+    const { data, error } = await supabase
+      .from('historical_data')
+      .select('*')
+      .eq('symbol_id', symbolId)
+      .order('date', { ascending: false })
+      .limit(days);
+
+    if (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(`No historical data for ${symbol} to backtest`);
+    }
+
+    return data
+      .map(row => ({
+        date: row.date,
+        open: parseFloat(row.open_price),
+        high: parseFloat(row.high_price),
+        low: parseFloat(row.low_price),
+        close: parseFloat(row.close_price),
+        volume: parseInt(row.volume)
+      }))
+      .reverse();
+  }
+
+  private async getSymbolId(symbol: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('market_symbols')
+      .select('id')
+      .eq('symbol', symbol)
+      .single();
+
+    if (error) throw error;
+
+    return data.id;
+  }
+
+  private mapToBacktestResult(data: any): BacktestResult {
+    return {
+      id: data.id,
+      symbol: data.market_symbols.symbol,
+      strategyId: data.strategy_id,
+      startDate: data.start_date,
+      endDate: data.end_date,
+      initialCapital: parseFloat(data.initial_capital),
+      finalEquity: parseFloat(data.final_equity),
+      options: data.parameters,
+      metrics: data.metrics,
+      equityCurve: data.equity_curve || [],
+      trades: data.trades || [],
+      createdAt: data.created_at
+    };
+  }
+}
+
+export const backtestService = new BacktestService();
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Corporate Action Service
+ * Reads the splits and dividends in corporate_actions that price history is adjusted
+ * for.
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { CorporateAction } from '../utils/corporateActions';
+
+class CorporateActionService {
+  /**
+   * The symbol's actions, oldest first; empty when none are recorded. Throws when they
+   * cannot be read, so callers never pass off traded prices as adjusted ones.
+   */
+  async getActions(symbolId: string): Promise<CorporateAction[]> {
+    try {
+      const { data, error } = await supabase
+        .from('corporate_actions')
+        .select('action_type, ex_date, ratio, amount')
+        .eq('symbol_id', symbolId)
+        .order('ex_date', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        type: row.action_type,
+        exDate: row.ex_date,
+        ratio: row.ratio === null ? undefined : Number(row.ratio),
+        amount: row.amount === null ? undefined : Number(row.amount)
+      }));
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+}
+
+export const corporateActionService = new CorporateActionService();
\ No newline at end of file
@@ -1,9 +1,10 @@
-import { MarketData, TrendData, PredictionData, Alert, AnalysisResult } from '../types';
+import { MarketData, PredictionData, Alert, AnalysisResult, HistoricalSeries } from '../types';
 import { marketDataService } from './marketDataService';
 import { alertService } from './alertService';
 import { analysisService } from './analysisService';
 import { authService } from './authService';
 import { predictionService } from './predictionService';
+import { marketSimulator } from '../utils/marketSimulator';
 
 class DataService {
   private wsConnection: WebSocket | null = null;
@@ -20,23 +21,7 @@ class DataService {
       return this.getLatestMarketData();
     }
     
-    const symbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'NVDA', 'META', 'BTC', 'ETH', 'SPY'];
-    
-    return symbols.map(symbol => {
-      const basePrice = this.getBasePrice(symbol);
-      const change = (Math.random() - 0.5) * basePrice * 0.05;
-      const changePercent = (change / basePrice) * 100;
-      
-      return {
-        symbol,
-        price: basePrice + change,
-        change,
-        changePercent,
-        volume: Math.floor(Math.random() * 1000000) + 100000,
-        marketCap: basePrice * 1000000000,
-        timestamp: new Date().toISOString()
-      };
-    });
+    return marketSimulator.quotes();
   }
 
   async getLatestMarketData(): Promise<MarketData[]> {
@@ -44,54 +29,16 @@ class DataService {
       return await marketDataService.getLatestMarketData();
     } catch (error) {
       console.error('Error fetching real market data, falling back to mock:', error);
-      return this.generateMockMarketData();
-    }
-  }
-
-  generateHistoricalData(symbol: string, days: number = 30): TrendData[] {
-    // Try to use real data first
-    if (this.isUsingRealData) {
-      return this.getHistoricalData(symbol, days);
-    }
-    
-    const data: TrendData[] = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      // Simulate price movement with some trend
-      const randomChange = (Math.random() - 0.5) * 0.02;
-      currentPrice = currentPrice * (1 + randomChange);
-      
-      const volume = Math.floor(Math.random() * 1000000) + 100000;
-      const ma20 = currentPrice * (0.98 + Math.random() * 0.04);
-      const ma50 = currentPrice * (0.95 + Math.random() * 0.1);
-      const rsi = Math.random() * 100;
-      const macd = (Math.random() - 0.5) * 10;
-      
-      data.push({
-        timestamp: date.toISOString().split('T')[0],
-        price: currentPrice,
-        volume,
-        ma20,
-        ma50,
-        rsi,
-        macd
-      });
+      return marketSimulator.quotes();
     }
-    
-    return data;
   }
 
-  async getHistoricalData(symbol: string, days: number = 30): Promise<TrendData[]> {
+  async getHistoricalData(symbol: string, days: number = 30, adjusted: boolean = true): Promise<HistoricalSeries> {
     try {
-      return await marketDataService.getHistoricalData(symbol, days);
+      return await marketDataService.getHistoricalData(symbol, days, adjusted);
     } catch (error) {
       console.error('Error fetching real historical data, falling back to mock:', error);
-      return this.generateHistoricalData(symbol, days);
+      return { data: marketSimulator.trendData(symbol, days + 1) };
     }
   }
 
@@ -101,27 +48,12 @@ class DataService {
       return this.getPredictions(symbol);
     }
     
-    const predictions: PredictionData[] = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
-    
-    for (let i = 1; i <= 7; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
-      
-      // Simulate AI prediction with decreasing confidence over time
-      const trendFactor = Math.random() > 0.5 ? 1.005 : 0.995;
-      currentPrice = currentPrice * trendFactor;
-      const confidence = Math.max(0.6, 0.95 - (i * 0.05));
-      
-      predictions.push({
-        timestamp: date.toISOString().split('T')[0],
-        predicted: currentPrice,
-        confidence
-      });
-    }
-    
-    return predictions;
+    // Drift-only projection with decreasing confidence over time
+    return marketSimulator.projectCloses(symbol, 7).map((point, index) => ({
+      timestamp: point.date,
+      predicted: point.price,
+      confidence: Math.max(0.6, 0.95 - ((index + 1) * 0.05))
+    }));
   }
 
   async getPredictions(symbol: string): Promise<PredictionData[]> {
@@ -150,8 +82,8 @@ class DataService {
   }
 
   // Public method for historical data
-  async getHistoricalDataAsync(symbol: string, days: number = 30): Promise<TrendData[]> {
-    return this.getHistoricalData(symbol, days);
+  async getHistoricalDataAsync(symbol: string, days: number = 30, adjusted: boolean = true): Promise<HistoricalSeries> {
+    return this.getHistoricalData(symbol, days, adjusted);
   }
 
   // Public method for user alerts
@@ -176,14 +108,15 @@ class DataService {
     }
     
     const alerts: Alert[] = [];
+    const rng = marketSimulator.random('alerts', new Date().toISOString().split('T')[0]);
     const symbols = ['AAPL', 'GOOGL', 'TSLA', 'BTC'];
     const alertTypes = ['price', 'volume', 'trend', 'volatility'] as const;
     const severities = ['low', 'medium', 'high'] as const;
     
     for (let i = 0; i < 5; i++) {
-      const symbol = symbols[Math.floor(Math.random() * symbols.length)];
-      const type = alertTypes[Math.floor(Math.random() * alertTypes.length)];
-      const severity = severities[Math.floor(Math.random() * severities.length)];
+      const symbol = rng.pick(symbols);
+      const type = rng.pick(alertTypes);
+      const severity = rng.pick(severities);
       
       alerts.push({
         id: `alert-${i}`,
@@ -192,7 +125,7 @@ class DataService {
         severity,
         message: this.generateAlertMessage(symbol, type, severity),
         timestamp: new Date().toISOString(),
-        isRead: Math.random() > 0.7
+        isRead: rng.next() > 0.7
       });
     }
     
@@ -217,33 +150,7 @@ class DataService {
       return this.getRealAnalysis(symbol);
     }
     
-    const signals = [];
-    const trend = Math.random() > 0.6 ? 'bullish' : Math.random() > 0.3 ? 'bearish' : 'neutral';
-    const strength = Math.random() * 100;
-    const confidence = 0.7 + Math.random() * 0.3;
-    
-    // Generate realistic trading signals
-    if (trend === 'bullish') {
-      signals.push('Golden Cross detected', 'RSI oversold bounce', 'Volume breakout');
-    } else if (trend === 'bearish') {
-      signals.push('Death Cross forming', 'RSI overbought', 'Support level broken');
-    } else {
-      signals.push('Sideways consolidation', 'Low volatility');
-    }
-    
-    const basePrice = this.getBasePrice(symbol);
-    const nextTarget = trend === 'bullish' ? basePrice * 1.1 : basePrice * 0.9;
-    const stopLoss = trend === 'bullish' ? basePrice * 0.95 : basePrice * 1.05;
-    
-    return {
-      symbol,
-      trend,
-      strength,
-      confidence,
-      signals,
-      nextTarget,
-      stopLoss
-    };
+    return marketSimulator.analyze(symbol);
   }
 
   async getRealAnalysis(symbol: string): Promise<AnalysisResult> {
@@ -255,71 +162,6 @@ class DataService {
     }
   }
 
-  private getBasePrice(symbol: string): number {
-    const prices: { [key: string]: number } = {
-      'AAPL': 235,
-      'GOOGL': 185,
-      'MSFT': 425,
-      'TSLA': 185,
-      'AMZN': 195,
-      'NVDA': 850,
-      'META': 580,
-      'BTC': 95000,
-      'ETH': 3800,
-      'SPY': 580
-    };
-    return prices[symbol] || 100;
-  }
-
-  private getSymbolVolatility(symbol: string): number {
-    const volatilities: { [key: string]: number } = {
-      'AAPL': 0.025,
-      'GOOGL': 0.03,
-      'MSFT': 0.02,
-      'TSLA': 0.08,  // Higher volatility for Tesla
-      'AMZN': 0.035,
-      'NVDA': 0.06,  // Higher volatility for NVIDIA
-      'META': 0.04,
-      'BTC': 0.15,   // Very high volatility for crypto
-      'ETH': 0.12,
-      'SPY': 0.015   // Lower volatility for index
-    };
-    return volatilities[symbol] || 0.03;
-  }
-
-  private getRealisticVolume(symbol: string): number {
-    const baseVolumes: { [key: string]: number } = {
-      'AAPL': 45000000,
-      'GOOGL': 25000000,
-      'MSFT': 35000000,
-      'TSLA': 85000000,
-      'AMZN': 30000000,
-      'NVDA': 55000000,
-      'META': 20000000,
-      'BTC': 15000000,
-      'ETH': 8000000,
-      'SPY': 75000000
-    };
-    const baseVolume = baseVolumes[symbol] || 1000000;
-    return Math.floor(baseVolume * (0.7 + Math.random() * 0.6));
-  }
-
-  private getMarketCap(symbol: string): number {
-    const marketCaps: { [key: string]: number } = {
-      'AAPL': 3600000000000,    // $3.6T
-      'GOOGL': 2200000000000,   // $2.2T
-      'MSFT': 3200000000000,    // $3.2T
-      'TSLA': 580000000000,     // $580B
-      'AMZN': 1800000000000,    // $1.8T
-      'NVDA': 2100000000000,    // $2.1T
-      'META': 1500000000000,    // $1.5T
-      'BTC': 1900000000000,     // $1.9T
-      'ETH': 450000000000,      // $450B
-      'SPY': 0                  // ETF doesn't have market cap
-    };
-    return marketCaps[symbol] || 100000000000;
-  }
-
   private generateAlertMessage(symbol: string, type: string, severity: string): string {
     const messages = {
       price: `${symbol} price moved ${severity === 'high' ? 'significantly' : 'notably'}`,
@@ -0,0 +1,62 @@
+/**
+ * Feature Store Service
+ * Reads the engineered prediction features the market-data-processor keeps in
+ * feature_vectors, so forecasters train and predict from the same stored inputs.
+ */
+
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { FeatureVector } from '../types';
+
+// Must match FEATURE_SCHEMA_VERSION in supabase/functions/_shared/featureVectors.ts
+export const FEATURE_SCHEMA_VERSION = 1;
+
+class FeatureStoreService {
+  /**
+   * The symbol's latest `count` vectors, oldest first; empty when none are stored
+   */
+  async getFeatureVectors(symbol: string, count: number): Promise<FeatureVector[]> {
+    try {
+      const { data, error } = await supabase
+        .from('feature_vectors')
+        .select(`
+          date,
+          close_price,
+          log_return,
+          rsi,
+          macd_histogram,
+          sma20_gap,
+          atr,
+          volatility,
+          volume_zscore,
+          sentiment,
+          market_symbols!inner(symbol)
+        `)
+        .eq('market_symbols.symbol', symbol)
+        .eq('schema_version', FEATURE_SCHEMA_VERSION)
+        .order('date', { ascending: false })
+        .limit(count);
+
+      if (error) throw error;
+
+      // Latest rows are fetched first; models expect oldest first
+      return (data || []).reverse().map(row => ({
+        date: row.date,
+        close: parseFloat(row.close_price),
+        logReturn: parseFloat(row.log_return),
+        rsi: parseFloat(row.rsi),
+        macdHistogram: parseFloat(row.macd_histogram),
+        sma20Gap: parseFloat(row.sma20_gap),
+        atr: parseFloat(row.atr),
+        volatility: parseFloat(row.volatility),
+        volumeZScore: parseFloat(row.volume_zscore),
+        sentiment: row.sentiment === null ? null : parseFloat(row.sentiment)
+      }));
+    } catch (error) {
+      logger.warn(`Could not load feature vectors for ${symbol}`, error, 'Prediction');
+      return [];
+    }
+  }
+}
+
+export const featureStoreService = new FeatureStoreService();
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * Historical Backfill Service
+ * Triggers the historical-backfill function, which fills historical_data with daily
+ * OHLCV bars (and optionally weekly and monthly bars) from each symbol's latest stored
+ * session, refilling trading days missing against the exchange calendar.
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { BarInterval, DateGap } from '../types';
+
+export interface BackfillResult {
+  symbol: string;
+  interval: BarInterval;
+  /** First day requested from the provider */
+  from?: string;
+  upserted: number;
+  /** Trading days still missing after the run */
+  gaps: DateGap[];
+  /** Trading days recorded as missing at the provider, which later runs skip */
+  unfillable: number;
+  error?: string;
+}
+
+export interface BackfillRun {
+  results: BackfillResult[];
+  /** Symbols left for the next run once the provider's quota ran out */
+  deferred: string[];
+}
+
+class HistoricalBackfillService {
+  /**
+   * Backfill the given symbols, or every active one
+   */
+  async runBackfill(symbols?: string[], intervals: BarInterval[] = ['daily']): Promise<BackfillRun> {
+    try {
+      const { data, error } = await supabase.functions.invoke('historical-backfill', {
+        method: 'POST',
+        body: { symbols, intervals }
+      });
+
+      if (error) throw error;
+
+      const run: BackfillRun = { results: data.results, deferred: data.deferred };
+      logger.info('Historical backfill finished', {
+        upserted: run.results.reduce((sum, result) => sum + result.upserted, 0),
+        gaps: run.results.reduce((sum, result) => sum + result.gaps.length, 0),
+        deferred: run.deferred.length
+      }, 'Backfill');
+
+      return run;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+}
+
+export const historicalBackfillService = new HistoricalBackfillService();
\ No newline at end of file
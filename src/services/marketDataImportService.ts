@@ -0,0 +1,49 @@
+/**
+ * Market Data Import Service
+ * Sends validated CSV bars to the market-data-import function, which writes them into
+ * historical_data (one bar per symbol and day) or market_data (one tick per symbol and
+ * timestamp). Both tables are shared, so the function only accepts admins.
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { ImportedBar } from '../utils/csv';
+
+export type ImportTarget = 'historical' | 'market';
+
+export interface ImportSummary {
+  imported: number;
+  /** Symbols not in market_symbols, whose rows were skipped */
+  unknownSymbols: string[];
+}
+
+// Rows per request, within the function's limit
+const IMPORT_CHUNK_SIZE = 1000;
+
+class MarketDataImportService {
+  async importBars(bars: ImportedBar[], target: ImportTarget): Promise<ImportSummary> {
+    const summary: ImportSummary = { imported: 0, unknownSymbols: [] };
+
+    try {
+      for (let start = 0; start < bars.length; start += IMPORT_CHUNK_SIZE) {
+        const { data, error } = await supabase.functions.invoke('market-data-import', {
+          method: 'POST',
+          body: { target, bars: bars.slice(start, start + IMPORT_CHUNK_SIZE) }
+        });
+
+        if (error) throw error;
+
+        summary.imported += data.imported;
+        summary.unknownSymbols = Array.from(new Set([...summary.unknownSymbols, ...data.unknownSymbols]));
+      }
+
+      logger.info('Imported market data from CSV', { target, ...summary }, 'Import');
+      return summary;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+}
+
+export const marketDataImportService = new MarketDataImportService();
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { supabase, handleSupabaseError } from '../lib/supabase';
-import { MarketData, TrendData, PredictionData } from '../types';
+import { MarketData, TrendData, PredictionData, HistoricalSeries } from '../types';
+import { marketSimulator } from '../utils/marketSimulator';
+import { CorporateAction, adjustmentFactors } from '../utils/corporateActions';
+import { corporateActionService } from './corporateActionService';
 
 export interface MarketSymbol {
   id: string;
@@ -10,15 +13,6 @@ export interface MarketSymbol {
   isActive: boolean;
 }
 
-export interface HistoricalDataPoint {
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
 class MarketDataService {
   private realtimeSubscription: any = null;
 
@@ -83,7 +77,13 @@ class MarketDataService {
     }
   }
 
-  async getHistoricalData(symbol: string, days: number = 30): Promise<TrendData[]> {
+  /**
+   * Daily history over the last `days`, oldest first. Adjusted history scales the
+   * sessions before each split or dividend so they compare with later prices; raw
+   * history keeps the prices as traded. When the actions cannot be read the traded
+   * prices are returned with the reason, so callers can show they are unadjusted.
+   */
+  async getHistoricalData(symbol: string, days: number = 30, adjusted: boolean = true): Promise<HistoricalSeries> {
     try {
       // Get symbol ID
       const { data: symbolData, error: symbolError } = await supabase
@@ -131,22 +131,43 @@ class MarketDataService {
         });
       }
 
-      return historicalData.map(item => {
+      let actions: CorporateAction[] = [];
+      let adjustmentError: string | undefined;
+      if (adjusted) {
+        try {
+          actions = await corporateActionService.getActions(symbolData.id);
+        } catch (error) {
+          adjustmentError = error instanceof Error ? error.message : 'Could not load corporate actions';
+        }
+      }
+
+      const factors = adjustmentFactors(
+        historicalData.map(item => ({ date: item.date, close_price: parseFloat(item.close_price) })),
+        actions
+      );
+
+      // Stored indicators are in traded prices too, so they scale with the session's
+      // prices; RSI is a ratio and needs no adjustment
+      const data = historicalData.map((item, i) => {
         const tech = technicalMap.get(item.date);
+        const { price, volume } = factors[i];
+        const close = parseFloat(item.close_price) * price;
         return {
         timestamp: item.date,
-        price: parseFloat(item.close_price),
-        volume: parseInt(item.volume),
-        ma20: tech?.ma_20 ? parseFloat(tech.ma_20) : parseFloat(item.close_price),
-        ma50: tech?.ma_50 ? parseFloat(tech.ma_50) : parseFloat(item.close_price),
+        price: close,
+        volume: Math.round(parseInt(item.volume) * volume),
+        ma20: tech?.ma_20 ? parseFloat(tech.ma_20) * price : close,
+        ma50: tech?.ma_50 ? parseFloat(tech.ma_50) * price : close,
         rsi: tech?.rsi ? parseFloat(tech.rsi) : 50,
-        macd: tech?.macd ? parseFloat(tech.macd) : 0
+        macd: tech?.macd ? parseFloat(tech.macd) * price : 0
         };
       });
+
+      return { data, adjustmentError };
     } catch (error) {
       console.error('Error fetching historical data:', error);
       // Fallback to mock data if database query fails
-      return this.generateMockHistoricalData(symbol, days);
+      return { data: this.generateMockHistoricalData(symbol, days) };
     }
   }
 
@@ -226,15 +247,11 @@ class MarketDataService {
 
   private async generateAndStorePredictions(symbolId: string, symbol: string): Promise<PredictionData[]> {
     const predictions: PredictionData[] = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
-
-    for (let i = 1; i <= 7; i++) {
-      const targetDate = new Date();
-      targetDate.setDate(targetDate.getDate() + i);
-      
-      const trendFactor = Math.random() > 0.5 ? 1.005 : 0.995;
-      currentPrice = currentPrice * trendFactor;
+    const projection = marketSimulator.projectCloses(symbol, 7);
+
+    for (let i = 1; i <= projection.length; i++) {
+      const targetDate = new Date(`${projection[i - 1].date}T00:00:00Z`);
+      const currentPrice = projection[i - 1].price;
       const confidence = Math.max(0.6, 0.95 - (i * 0.05));
 
       const predictionData = {
@@ -283,93 +300,19 @@ class MarketDataService {
   }
 
   private generateMockUpdates(): MarketData[] {
-    const symbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'NVDA', 'META', 'BTC', 'ETH', 'SPY'];
-    
-    return symbols.map(symbol => {
-      const basePrice = this.getBasePrice(symbol);
-      const change = (Math.random() - 0.5) * basePrice * 0.02; // Smaller changes for updates
-      const changePercent = (change / basePrice) * 100;
-      
-      return {
-        symbol,
-        price: basePrice + change,
-        change,
-        changePercent,
-        volume: Math.floor(Math.random() * 1000000) + 100000,
-        marketCap: basePrice * 1000000000,
-        timestamp: new Date().toISOString()
-      };
-    });
+    return marketSimulator.quotes();
   }
+
   private generateMockHistoricalData(symbol: string, days: number): TrendData[] {
-    const data: TrendData[] = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      const randomChange = (Math.random() - 0.5) * 0.02;
-      currentPrice = currentPrice * (1 + randomChange);
-      
-      const volume = Math.floor(Math.random() * 1000000) + 100000;
-      const ma20 = currentPrice * (0.98 + Math.random() * 0.04);
-      const ma50 = currentPrice * (0.95 + Math.random() * 0.1);
-      const rsi = Math.random() * 100;
-      const macd = (Math.random() - 0.5) * 10;
-      
-      data.push({
-        timestamp: date.toISOString().split('T')[0],
-        price: currentPrice,
-        volume,
-        ma20,
-        ma50,
-        rsi,
-        macd
-      });
-    }
-    
-    return data;
+    return marketSimulator.trendData(symbol, days + 1);
   }
 
   private generateMockPredictions(symbol: string): PredictionData[] {
-    const predictions: PredictionData[] = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
-    
-    for (let i = 1; i <= 7; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
-      
-      const trendFactor = Math.random() > 0.5 ? 1.005 : 0.995;
-      currentPrice = currentPrice * trendFactor;
-      const confidence = Math.max(0.6, 0.95 - (i * 0.05));
-      
-      predictions.push({
-        timestamp: date.toISOString().split('T')[0],
-        predicted: currentPrice,
-        confidence
-      });
-    }
-    
-    return predictions;
-  }
-
-  private getBasePrice(symbol: string): number {
-    const prices: { [key: string]: number } = {
-      'AAPL': 235,
-      'GOOGL': 185,
-      'MSFT': 425,
-      'TSLA': 185,
-      'AMZN': 195,
-      'NVDA': 850,
-      'META': 580,
-      'BTC': 95000,
-      'ETH': 3800,
-      'SPY': 580
-    };
-    return prices[symbol] || 100;
+    return marketSimulator.projectCloses(symbol, 7).map((point, index) => ({
+      timestamp: point.date,
+      predicted: point.price,
+      confidence: Math.max(0.6, 0.95 - ((index + 1) * 0.05))
+    }));
   }
 }
 
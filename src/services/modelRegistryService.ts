@@ -0,0 +1,168 @@
+/**
+ * Model Registry Service
+ * Registered prediction models with their hyperparameters, training window and the
+ * metrics the prediction-resolver measures from resolved predictions.
+ * Register, promote and retire go through the model-registry edge function, which
+ * writes with the service role and only accepts administrators.
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+
+export type ModelType = 'lstm' | 'arima' | 'ensemble' | 'transformer' | 'garch' | 'classifier';
+
+export type ModelStatus = 'candidate' | 'active' | 'retired';
+
+export interface ModelMetrics {
+  windowDays: number;
+  sampleSize: number;
+  // Error metrics of value forecasts; classifiers report precision and recall instead
+  mape?: number;
+  rmse?: number;
+  directionalAccuracy?: number;
+  meanAccuracy: number;
+  precision?: number;
+  recall?: number;
+  f1Score?: number;
+}
+
+export interface PredictionModel {
+  id: string;
+  key: string;
+  name: string;
+  type: ModelType;
+  version: string;
+  // Recorded on each prediction in ai_predictions.model_version
+  modelVersion: string;
+  status: ModelStatus;
+  hyperparameters: Record<string, unknown>;
+  trainingWindow?: { start: string; end: string };
+  metrics?: ModelMetrics;
+  metricsUpdatedAt?: string;
+  lastTrained?: string;
+  promotedAt?: string;
+  retiredAt?: string;
+}
+
+export interface ModelRegistration {
+  key: string;
+  name: string;
+  type: ModelType;
+  version: string;
+  hyperparameters?: Record<string, unknown>;
+  trainingWindow?: { start: string; end: string };
+  lastTrained?: string;
+}
+
+class ModelRegistryService {
+  async listModels(includeRetired: boolean = false): Promise<PredictionModel[]> {
+    try {
+      let query = supabase
+        .from('model_registry')
+        .select('*')
+        .order('model_key', { ascending: true })
+        .order('created_at', { ascending: false });
+
+      if (!includeRetired) {
+        query = query.neq('status', 'retired');
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return data.map(row => this.mapToModel(row));
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async getActiveModel(key: string): Promise<PredictionModel | null> {
+    try {
+      const { data, error } = await supabase
+        .from('model_registry')
+        .select('*')
+        .eq('model_key', key)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? this.mapToModel(data) : null;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * New models start as candidates; promote one to start serving it
+   */
+  async register(registration: ModelRegistration): Promise<PredictionModel> {
+    return this.invokeRegistry({ action: 'register', registration });
+  }
+
+  /**
+   * Make a model the active one for its family; the database retires the previous one
+   */
+  async promote(modelId: string): Promise<PredictionModel> {
+    return this.invokeRegistry({ action: 'promote', modelId });
+  }
+
+  async retire(modelId: string): Promise<PredictionModel> {
+    return this.invokeRegistry({ action: 'retire', modelId });
+  }
+
+  private async invokeRegistry(
+    body: { action: 'register'; registration: ModelRegistration } | { action: 'promote' | 'retire'; modelId: string }
+  ): Promise<PredictionModel> {
+    try {
+      const { data, error } = await supabase.functions.invoke('model-registry', {
+        method: 'POST',
+        body
+      });
+
+      if (error) throw error;
+
+      return this.mapToModel(data.model);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  private mapToModel(row: any): PredictionModel {
+    const metrics = row.metrics && row.metrics.sampleSize !== undefined ? row.metrics : undefined;
+
+    return {
+      id: row.id,
+      key: row.model_key,
+      name: row.name,
+      type: row.model_type,
+      version: row.version,
+      modelVersion: row.model_version,
+      status: row.status,
+      hyperparameters: row.hyperparameters || {},
+      trainingWindow: row.training_window_start && row.training_window_end
+        ? { start: row.training_window_start, end: row.training_window_end }
+        : undefined,
+      metrics: metrics && {
+        windowDays: metrics.windowDays,
+        sampleSize: metrics.sampleSize,
+        mape: metrics.mape ?? undefined,
+        rmse: metrics.rmse ?? undefined,
+        directionalAccuracy: metrics.directionalAccuracy ?? undefined,
+        meanAccuracy: metrics.meanAccuracy,
+        precision: metrics.precision ?? undefined,
+        recall: metrics.recall ?? undefined,
+        f1Score: metrics.f1Score ?? undefined
+      },
+      metricsUpdatedAt: row.metrics_updated_at || undefined,
+      lastTrained: row.last_trained || undefined,
+      promotedAt: row.promoted_at || undefined,
+      retiredAt: row.retired_at || undefined
+    };
+  }
+}
+
+export const modelRegistryService = new ModelRegistryService();
\ No newline at end of file
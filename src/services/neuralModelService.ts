@@ -0,0 +1,236 @@
+/**
+ * Neural Model Service
+ * Trains the neural forecaster per symbol and bar granularity, keeps the signed-in
+ * user's weights in model_weights and folds newly stored bars in with short incremental runs instead of
+ * retraining from scratch.
+ */
+
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import {
+  NeuralForecaster,
+  ForecastFeatures,
+  TrainingReport,
+  SerializedForecaster,
+  DEFAULT_FORECASTER_CONFIG
+} from '../utils/neuralForecaster';
+import { ForecastGranularity } from '../utils/forecastHorizon';
+
+// Registry entry the weights belong to
+export const NEURAL_MODEL_VERSION = 'lstm-v2.0';
+
+const FULL_TRAINING_EPOCHS = 200;
+const INCREMENTAL_EPOCHS = 30;
+
+export interface NeuralForecast {
+  /** Cumulative log return for each day ahead */
+  returns: number[];
+  /** Residual spread of those returns */
+  std: number[];
+  /** Each input's contribution to each day's return, from the training mean */
+  attributions: number[][];
+  trainedThrough: string;
+  /** Set when this call trained the model */
+  training?: TrainingReport;
+}
+
+export interface NeuralTrainingStats {
+  symbols: number;
+  trainingLoss: number;
+  validationLoss: number;
+  trainingMs: number;
+  lastTrainedAt?: string;
+}
+
+interface TrainedModel {
+  forecaster: NeuralForecaster;
+  trainedThrough: string;
+  report: TrainingReport;
+  trainedAt: string;
+}
+
+class NeuralModelService {
+  private models: Map<string, TrainedModel> = new Map();
+
+  /**
+   * Forecast from the symbol's stored weights for this granularity, training first when
+   * there are none and fine-tuning when history has moved past what they were trained on.
+   * With `train` off (what-if inputs) the weights are used as they are, or not at all.
+   */
+  async forecast(
+    symbol: string,
+    features: ForecastFeatures,
+    latestDate: string,
+    horizon: number,
+    granularity: ForecastGranularity = '1d',
+    { train = true }: { train?: boolean } = {}
+  ): Promise<NeuralForecast> {
+    const cacheKey = `${symbol}|${granularity}`;
+    let model = this.models.get(cacheKey) || await this.loadWeights(symbol, granularity);
+    const modelHorizon = Math.max(horizon, model?.forecaster.config.horizon ?? DEFAULT_FORECASTER_CONFIG.horizon);
+    const dataset = NeuralForecaster.buildDataset(features, DEFAULT_FORECASTER_CONFIG.lags, modelHorizon);
+
+    // Stored weights for a shorter horizon or another input layout cannot be reused
+    if (model && (model.forecaster.config.horizon < horizon || model.forecaster.inputSize !== dataset.latest.length)) {
+      model = null;
+    }
+
+    let training: TrainingReport | undefined;
+    if (!train) {
+      if (!model) throw new Error(`No trained neural forecaster fits the ${symbol} (${granularity}) inputs`);
+    } else {
+      if (!model) {
+        const forecaster = NeuralForecaster.create(dataset, { horizon: modelHorizon });
+        training = forecaster.train(dataset, FULL_TRAINING_EPOCHS);
+        model = { forecaster, trainedThrough: latestDate, report: training, trainedAt: new Date().toISOString() };
+      } else if (Date.parse(model.trainedThrough) < Date.parse(latestDate)) {
+        training = model.forecaster.train(dataset, INCREMENTAL_EPOCHS);
+        model = { ...model, trainedThrough: latestDate, report: training, trainedAt: new Date().toISOString() };
+      }
+
+      this.models.set(cacheKey, model);
+
+      if (training) {
+        logger.info(`Trained neural forecaster for ${symbol} (${granularity})`, training, 'Prediction');
+        await this.saveWeights(symbol, granularity, model);
+      }
+    }
+
+    const { returns, std } = model.forecaster.predict(dataset.latest);
+    const { contributions } = model.forecaster.attribute(dataset.latest);
+
+    return {
+      returns: returns.slice(0, horizon),
+      std: std.slice(0, horizon),
+      attributions: contributions.slice(0, horizon),
+      trainedThrough: model.trainedThrough,
+      training
+    };
+  }
+
+  /**
+   * Average training loss and time across symbols with stored weights. Falls back to
+   * the models trained in this session when storage is unavailable.
+   */
+  async getTrainingStats(modelVersion: string = NEURAL_MODEL_VERSION): Promise<NeuralTrainingStats | null> {
+    let rows: { trainingLoss: number; validationLoss: number; trainingMs: number; trainedAt: string }[] = [];
+
+    try {
+      const { data, error } = await supabase
+        .from('model_weights')
+        .select('training_loss, validation_loss, training_ms, trained_at')
+        .eq('model_version', modelVersion);
+
+      if (error) throw error;
+
+      rows = (data || []).map(row => ({
+        trainingLoss: parseFloat(row.training_loss),
+        validationLoss: parseFloat(row.validation_loss),
+        trainingMs: parseFloat(row.training_ms),
+        trainedAt: row.trained_at
+      }));
+    } catch (error) {
+      logger.warn('Could not load neural training stats', error);
+    }
+
+    if (rows.length === 0 && modelVersion === NEURAL_MODEL_VERSION) {
+      rows = Array.from(this.models.values()).map(model => ({
+        trainingLoss: model.report.trainingLoss,
+        validationLoss: model.report.validationLoss,
+        trainingMs: model.report.durationMs,
+        trainedAt: model.trainedAt
+      }));
+    }
+
+    if (rows.length === 0) return null;
+
+    const average = (value: (row: typeof rows[number]) => number) =>
+      rows.reduce((sum, row) => sum + value(row), 0) / rows.length;
+
+    return {
+      symbols: rows.length,
+      trainingLoss: average(row => row.trainingLoss),
+      validationLoss: average(row => row.validationLoss),
+      trainingMs: average(row => row.trainingMs),
+      lastTrainedAt: rows.reduce((latest, row) => (row.trainedAt > latest ? row.trainedAt : latest), rows[0].trainedAt)
+    };
+  }
+
+  private async loadWeights(symbol: string, granularity: ForecastGranularity): Promise<TrainedModel | null> {
+    try {
+      const { data, error } = await supabase
+        .from('model_weights')
+        .select(`
+          *,
+          market_symbols!inner(symbol)
+        `)
+        .eq('market_symbols.symbol', symbol)
+        .eq('model_version', NEURAL_MODEL_VERSION)
+        .eq('granularity', granularity)
+        // The user's own weights first, then the shared ones
+        .order('user_id', { ascending: true, nullsFirst: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        forecaster: NeuralForecaster.deserialize(data.weights as SerializedForecaster),
+        trainedThrough: data.trained_through,
+        report: {
+          epochs: data.epochs,
+          samples: data.samples,
+          trainingLoss: parseFloat(data.training_loss),
+          validationLoss: parseFloat(data.validation_loss),
+          durationMs: parseFloat(data.training_ms)
+        },
+        trainedAt: data.trained_at
+      };
+    } catch (error) {
+      logger.warn(`Could not load neural weights for ${symbol}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Weights stay cached in memory when they cannot be stored (e.g. signed out)
+   */
+  private async saveWeights(symbol: string, granularity: ForecastGranularity, model: TrainedModel): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: symbolData, error: symbolError } = await supabase
+        .from('market_symbols')
+        .select('id')
+        .eq('symbol', symbol)
+        .single();
+
+      if (symbolError) throw symbolError;
+
+      const { error } = await supabase
+        .from('model_weights')
+        .upsert({
+          symbol_id: symbolData.id,
+          user_id: user.id,
+          model_version: NEURAL_MODEL_VERSION,
+          granularity,
+          weights: model.forecaster.serialize(),
+          trained_through: model.trainedThrough,
+          training_loss: model.report.trainingLoss,
+          validation_loss: model.report.validationLoss,
+          training_ms: model.report.durationMs,
+          epochs: model.report.epochs,
+          samples: model.report.samples,
+          trained_at: model.trainedAt
+        }, { onConflict: 'symbol_id,model_version,granularity,user_id' });
+
+      if (error) throw error;
+    } catch (error) {
+      logger.warn(`Could not store neural weights for ${symbol}`, error);
+    }
+  }
+}
+
+export const neuralModelService = new NeuralModelService();
\ No newline at end of file
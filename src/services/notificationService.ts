@@ -0,0 +1,177 @@
+/**
+ * Notification Service
+ * Channel preferences, the in-app inbox and the delivery log for triggered alerts.
+ * Delivery itself happens in the alert-processor edge function.
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { resolvePreferences, webhookUrlError } from '../../supabase/functions/_shared/notifications';
+
+export type NotificationChannelType = 'email' | 'webhook' | 'in_app';
+
+export interface NotificationPreferences {
+  minSeverity: 'low' | 'medium' | 'high';
+  channels: {
+    email: { enabled: boolean; address?: string };
+    webhook: { enabled: boolean; url?: string; secret?: string };
+    in_app: { enabled: boolean };
+  };
+}
+
+export interface InAppNotification {
+  id: string;
+  alertId?: string;
+  title: string;
+  body: string;
+  severity: 'low' | 'medium' | 'high';
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  alertId?: string;
+  channel: NotificationChannelType;
+  attempt: number;
+  status: 'sent' | 'failed';
+  error?: string;
+  attemptedAt: string;
+}
+
+// Must match DEFAULT_NOTIFICATION_PREFERENCES in supabase/functions/_shared/notifications.ts
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  minSeverity: 'low',
+  channels: {
+    email: { enabled: false },
+    webhook: { enabled: false },
+    in_app: { enabled: true }
+  }
+};
+
+class NotificationService {
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('preferences')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+
+      return resolvePreferences(data.preferences);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored under preferences.notifications, leaving other preference keys untouched.
+   * Webhook URLs the alert-processor would refuse are rejected here already.
+   */
+  async updatePreferences(userId: string, preferences: NotificationPreferences): Promise<void> {
+    const { webhook } = preferences.channels;
+    const urlError = webhook.enabled && webhook.url ? webhookUrlError(webhook.url) : null;
+    if (urlError) throw new Error(urlError);
+
+    try {
+      const { data, error: readError } = await supabase
+        .from('user_profiles')
+        .select('preferences')
+        .eq('id', userId)
+        .single();
+
+      if (readError) throw readError;
+
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({
+          preferences: { ...(data.preferences || {}), notifications: preferences },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId);
+
+      if (error) throw error;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async getInbox(userId: string, unreadOnly: boolean = false, limit: number = 50): Promise<InAppNotification[]> {
+    try {
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (unreadOnly) {
+        query = query.eq('is_read', false);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return data.map(row => ({
+        id: row.id,
+        alertId: row.alert_id || undefined,
+        title: row.title,
+        body: row.body,
+        severity: row.severity,
+        isRead: row.is_read,
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async markRead(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true })
+        .in('id', notificationIds);
+
+      if (error) throw error;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async getDeliveryLog(userId: string, limit: number = 50): Promise<NotificationDelivery[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_deliveries')
+        .select('*')
+        .eq('user_id', userId)
+        .order('attempted_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data.map(row => ({
+        id: row.id,
+        alertId: row.alert_id || undefined,
+        channel: row.channel,
+        attempt: row.attempt,
+        status: row.status,
+        error: row.error || undefined,
+        attemptedAt: row.attempted_at
+      }));
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
\ No newline at end of file
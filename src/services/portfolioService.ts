@@ -0,0 +1,421 @@
+/**
+ * Portfolio Service
+ * Portfolio and holding CRUD, buy/sell transactions and live valuation from market_data
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { PortfolioCalculator } from '../utils/portfolioCalculator';
+import { logger } from '../utils/logger';
+
+export interface Portfolio {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  totalValue: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePortfolioData {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+}
+
+export interface PortfolioHolding {
+  id: string;
+  portfolioId: string;
+  symbolId: string;
+  symbol: string;
+  name: string;
+  quantity: number;
+  averageCost: number;
+  currentPrice: number;
+  currentValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  allocation: number;
+  lastUpdated: string;
+}
+
+export interface PortfolioSummary {
+  portfolio: Portfolio;
+  holdings: PortfolioHolding[];
+  totalValue: number;
+  totalCost: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export interface TransactionData {
+  symbol: string;
+  type: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fees?: number;
+}
+
+export interface PortfolioTransaction {
+  id: string;
+  portfolioId: string;
+  symbol: string;
+  type: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fees: number;
+  realizedPnl?: number;
+  executedAt: string;
+}
+
+class PortfolioService {
+  async getPortfolios(userId: string): Promise<Portfolio[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_portfolios')
+        .select('*')
+        .eq('user_id', userId)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return data.map(this.mapToPortfolio);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async createPortfolio(userId: string, portfolioData: CreatePortfolioData): Promise<Portfolio> {
+    try {
+      if (portfolioData.isDefault) {
+        await this.clearDefault(userId);
+      }
+
+      const { data, error } = await supabase
+        .from('user_portfolios')
+        .insert({
+          user_id: userId,
+          name: portfolioData.name,
+          description: portfolioData.description || null,
+          is_default: portfolioData.isDefault || false
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.mapToPortfolio(data);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async updatePortfolio(
+    userId: string,
+    portfolioId: string,
+    updates: Partial<CreatePortfolioData>
+  ): Promise<Portfolio> {
+    try {
+      if (updates.isDefault) {
+        await this.clearDefault(userId);
+      }
+
+      const { data, error } = await supabase
+        .from('user_portfolios')
+        .update({
+          name: updates.name,
+          description: updates.description,
+          is_default: updates.isDefault,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', portfolioId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.mapToPortfolio(data);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async deletePortfolio(portfolioId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('user_portfolios')
+        .delete()
+        .eq('id', portfolioId);
+
+      if (error) throw error;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Holdings valued at the latest market_data price, with allocation and unrealized P&L
+   */
+  async getPortfolioSummary(portfolioId: string): Promise<PortfolioSummary> {
+    try {
+      const { data: portfolioRow, error: portfolioError } = await supabase
+        .from('user_portfolios')
+        .select('*')
+        .eq('id', portfolioId)
+        .single();
+
+      if (portfolioError) throw portfolioError;
+
+      const { data, error } = await supabase
+        .from('portfolio_holdings')
+        .select(`
+          *,
+          market_symbols!inner(symbol, name)
+        `)
+        .eq('portfolio_id', portfolioId)
+        .gt('quantity', 0);
+
+      if (error) throw error;
+
+      const prices = await this.getLatestPrices(data.map(row => row.symbol_id));
+
+      const holdings: PortfolioHolding[] = data.map(row => {
+        const position = {
+          quantity: parseFloat(row.quantity),
+          averageCost: parseFloat(row.average_cost)
+        };
+        // Fall back to cost when the symbol has no market data yet
+        const currentPrice = prices.get(row.symbol_id) ?? position.averageCost;
+        const valuation = PortfolioCalculator.valuePosition(position, currentPrice);
+
+        return {
+          id: row.id,
+          portfolioId: row.portfolio_id,
+          symbolId: row.symbol_id,
+          symbol: row.market_symbols.symbol,
+          name: row.market_symbols.name,
+          quantity: position.quantity,
+          averageCost: position.averageCost,
+          currentPrice,
+          currentValue: valuation.marketValue,
+          costBasis: valuation.costBasis,
+          unrealizedPnl: valuation.unrealizedPnl,
+          unrealizedPnlPercent: valuation.unrealizedPnlPercent,
+          allocation: 0,
+          lastUpdated: row.last_updated
+        };
+      });
+
+      const allocation = PortfolioCalculator.calculateAllocation(
+        Object.fromEntries(holdings.map(holding => [holding.id, holding.currentValue]))
+      );
+      holdings.forEach(holding => {
+        holding.allocation = allocation[holding.id];
+      });
+      holdings.sort((a, b) => b.currentValue - a.currentValue);
+
+      const totalValue = holdings.reduce((sum, holding) => sum + holding.currentValue, 0);
+      const totalCost = holdings.reduce((sum, holding) => sum + holding.costBasis, 0);
+      const unrealizedPnl = totalValue - totalCost;
+
+      return {
+        portfolio: { ...this.mapToPortfolio(portfolioRow), totalValue },
+        holdings,
+        totalValue,
+        totalCost,
+        unrealizedPnl,
+        unrealizedPnlPercent: totalCost > 0 ? (unrealizedPnl / totalCost) * 100 : 0
+      };
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute and persist current_value per holding and total_value for the portfolio
+   */
+  async refreshValuations(portfolioId: string): Promise<PortfolioSummary> {
+    const summary = await this.getPortfolioSummary(portfolioId);
+    const now = new Date().toISOString();
+
+    try {
+      for (const holding of summary.holdings) {
+        const { error } = await supabase
+          .from('portfolio_holdings')
+          .update({ current_value: holding.currentValue, last_updated: now })
+          .eq('id', holding.id);
+
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('user_portfolios')
+        .update({ total_value: summary.totalValue, updated_at: now })
+        .eq('id', portfolioId);
+
+      if (error) throw error;
+
+      return summary;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a buy or sell and update the holding's quantity and average cost in one
+   * database transaction (execute_portfolio_transaction), then revalue
+   */
+  async executeTransaction(portfolioId: string, transaction: TransactionData): Promise<PortfolioTransaction> {
+    try {
+      const symbolId = await this.getSymbolId(transaction.symbol);
+
+      // The holding update and the transaction log commit together, with the holding
+      // locked so concurrent trades apply one after another
+      const { data, error } = await supabase.rpc('execute_portfolio_transaction', {
+        p_portfolio_id: portfolioId,
+        p_symbol_id: symbolId,
+        p_transaction_type: transaction.type,
+        p_quantity: transaction.quantity,
+        p_price: transaction.price,
+        p_fees: transaction.fees || 0
+      });
+
+      if (error) throw error;
+
+      await this.refreshValuations(portfolioId);
+
+      logger.info(
+        `${transaction.type} ${transaction.quantity} ${transaction.symbol} @ ${transaction.price}`,
+        { portfolioId },
+        'Portfolio'
+      );
+
+      return this.mapToTransaction({ ...data, market_symbols: { symbol: transaction.symbol } });
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async getTransactions(portfolioId: string, limit: number = 50): Promise<PortfolioTransaction[]> {
+    try {
+      const { data, error } = await supabase
+        .from('portfolio_transactions')
+        .select(`
+          *,
+          market_symbols!inner(symbol)
+        `)
+        .eq('portfolio_id', portfolioId)
+        .order('executed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data.map(this.mapToTransaction);
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  async removeHolding(holdingId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('portfolio_holdings')
+        .delete()
+        .eq('id', holdingId);
+
+      if (error) throw error;
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Latest market_data price per symbol id
+   */
+  private async getLatestPrices(symbolIds: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (symbolIds.length === 0) return prices;
+
+    // One latest row per symbol, so busy symbols cannot crowd others out of the row cap
+    const results = await Promise.all(symbolIds.map(symbolId =>
+      supabase
+        .from('market_data')
+        .select('symbol_id, price, timestamp')
+        .eq('symbol_id', symbolId)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+    ));
+
+    results.forEach(({ data, error }) => {
+      if (error) throw error;
+      const [row] = data || [];
+      if (row) prices.set(row.symbol_id, parseFloat(row.price));
+    });
+
+    return prices;
+  }
+
+  private async clearDefault(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_portfolios')
+      .update({ is_default: false })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+
+    if (error) throw error;
+  }
+
+  private async getSymbolId(symbol: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('market_symbols')
+      .select('id')
+      .eq('symbol', symbol)
+      .single();
+
+    if (error) throw error;
+
+    return data.id;
+  }
+
+  private mapToPortfolio(data: any): Portfolio {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      name: data.name,
+      description: data.description || undefined,
+      isDefault: data.is_default,
+      totalValue: parseFloat(data.total_value),
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    };
+  }
+
+  private mapToTransaction(data: any): PortfolioTransaction {
+    return {
+      id: data.id,
+      portfolioId: data.portfolio_id,
+      symbol: data.market_symbols.symbol,
+      type: data.transaction_type,
+      quantity: parseFloat(data.quantity),
+      price: parseFloat(data.price),
+      fees: parseFloat(data.fees),
+      realizedPnl: data.realized_pnl != null ? parseFloat(data.realized_pnl) : undefined,
+      executedAt: data.executed_at
+    };
+  }
+}
+
+export const portfolioService = new PortfolioService();
\ No newline at end of file
@@ -5,15 +5,32 @@
 
 import { supabase, handleSupabaseError } from '../lib/supabase';
 import { TechnicalIndicators } from '../utils/technicalIndicators';
+import { ForecastFeatures } from '../utils/neuralForecaster';
 import { logger, PerformanceMonitor } from '../utils/logger';
-
-export interface PredictionModel {
-  id: string;
-  name: string;
-  type: 'lstm' | 'arima' | 'ensemble' | 'transformer';
-  accuracy: number;
-  lastTrained: string;
-}
+import { marketSimulator } from '../utils/marketSimulator';
+import { apiClient } from '../utils/apiClient';
+import { ArimaModel } from '../utils/arima';
+import { StackedEnsemble, MemberError, ENSEMBLE_METHOD } from '../utils/stackedEnsemble';
+import { ConformalCalibrator } from '../utils/conformal';
+import { PredictionAttribution, priceAttribution, combineAttributions } from '../utils/attribution';
+import { ScenarioEngine, ScenarioShock } from '../utils/scenarioEngine';
+import { adjustBars } from '../utils/corporateActions';
+import {
+  ForecastGranularity,
+  GRANULARITIES,
+  PriceBar,
+  aggregateWeeklyBars,
+  horizonDays,
+  horizonLabel,
+  stepTimestamp
+} from '../utils/forecastHorizon';
+import { neuralModelService } from './neuralModelService';
+import { featureStoreService } from './featureStoreService';
+import { corporateActionService } from './corporateActionService';
+import { modelRegistryService, PredictionModel, ModelStatus } from './modelRegistryService';
+import { predictionValidationService, CALIBRATION_SIZE } from './predictionValidationService';
+
+export type { PredictionModel } from './modelRegistryService';
 
 export interface EnhancedPrediction {
   timestamp: string;
@@ -25,6 +42,45 @@ export interface EnhancedPrediction {
   accuracy?: number;
   modelUsed: string;
   features: string[];
+  // Member weights by model version, set on ensemble forecasts
+  ensembleWeights?: Record<string, number>;
+  // Set when the bounds are a conformal band calibrated on resolved errors
+  calibrated?: boolean;
+  intervalCoverage?: number;
+  // Baseline price plus per-feature contributions that add up to the prediction
+  attribution?: PredictionAttribution;
+}
+
+export interface PredictionFeatures extends ForecastFeatures {
+  highs: number[];
+  lows: number[];
+  // Standard deviation of simple returns over the bars
+  volatility: number;
+  momentum: number;
+  seasonality: { dayOfWeek: number[]; monthOfYear: number[] };
+  marketRegime: 'bull' | 'bear' | 'sideways';
+}
+
+export interface ForecastContext {
+  symbol: string;
+  features: PredictionFeatures;
+  granularity: ForecastGranularity;
+  // Date (or intraday bar start) of the latest bar the features end on
+  latestDate: string;
+  steps: number;
+  // Set for what-if inputs, which members must not train on
+  scenario?: boolean;
+}
+
+export type EnsembleMember = (context: ForecastContext) => EnhancedPrediction[] | Promise<EnhancedPrediction[]>;
+
+export interface ScenarioForecast {
+  symbol: string;
+  // Latest close before the shock
+  currentPrice: number;
+  // Daily closes before the shock, oldest first
+  closes: { date: string; close: number }[];
+  predictions: EnhancedPrediction[];
 }
 
 export interface ValidationResult {
@@ -38,61 +94,150 @@ export interface ValidationResult {
 
 export interface ModelPerformance {
   modelId: string;
+  name: string;
+  status: ModelStatus;
+  // Measured from resolved predictions; zero samples until the resolver scores some
+  sampleSize: number;
   accuracy: number;
-  precision: number;
-  recall: number;
-  f1Score: number;
-  mape: number;
-  rmse: number;
-  trainingTime: number;
-  predictionTime: number;
+  directionalAccuracy?: number;
+  mape?: number;
+  rmse?: number;
+  // Classifiers only: macro-averaged over the directions called
+  precision?: number;
+  recall?: number;
+  f1Score?: number;
+  // Average wall time of this session's runs, in milliseconds
+  predictionTime?: number;
+  // Trainable models only: average per-symbol training run and its standardized losses
+  trainingTime?: number;
+  trainingLoss?: number;
+  validationLoss?: number;
+  lastTrained?: string;
 }
 
+// Two-sided 95% normal quantile
+const PREDICTION_INTERVAL_Z = 1.96;
+
+// Nominal coverage of the conformal band shown with each forecast
+const PREDICTION_COVERAGE = 0.8;
+
+// Scorecard window the ensemble learns member weights from
+const ENSEMBLE_WINDOW_DAYS = 30;
+
+// Bars the models are fitted on, at any granularity
+const PREDICTION_LOOKBACK = 100;
+
+// Trading sessions per week, for the daily rows behind weekly bars
+const SESSIONS_PER_WEEK = 5;
+
+// Relative gap between a bar's close and its stored vector's close that marks the bar as adjusted
+const ADJUSTED_CLOSE_TOLERANCE = 1e-6;
+
 class PredictionService {
-  private models: Map<string, PredictionModel> = new Map();
   private validationCache: Map<string, ValidationResult> = new Map();
-
-  constructor() {
-    this.initializeModels();
-  }
+  private predictionTimes: Map<string, { totalMs: number; runs: number }> = new Map();
+  private ensembleMembers: Map<string, EnsembleMember> = new Map<string, EnsembleMember>([
+    ['lstm', context => this.generateNeuralPredictions(context)],
+    ['arima', context => this.generateARIMAPredictions(context)]
+  ]);
 
   /**
-   * Generate enhanced predictions with confidence intervals
+   * Generate enhanced predictions with confidence intervals, one per step of the
+   * granularity (15-minute and hourly steps run on intraday bars). Daily and weekly
+   * models train on split- and dividend-adjusted bars unless `adjusted` is off.
    */
-  async generateEnhancedPredictions(symbol: string, days: number = 7): Promise<EnhancedPrediction[]> {
+  async generateEnhancedPredictions(
+    symbol: string,
+    steps: number = GRANULARITIES['1d'].defaultSteps,
+    granularity: ForecastGranularity = '1d',
+    adjusted: boolean = true
+  ): Promise<EnhancedPrediction[]> {
     try {
-      logger.info(`Generating enhanced predictions for ${symbol}`, { days }, 'Prediction');
+      logger.info(`Generating enhanced predictions for ${symbol}`, { steps, granularity, adjusted }, 'Prediction');
       
-      return await PerformanceMonitor.measureAsync(`prediction:${symbol}`, async () => {
+      return await PerformanceMonitor.measureAsync(`prediction:${symbol}:${granularity}`, async () => {
         // Get historical data for feature engineering
-        const historicalData = await this.getHistoricalDataForPrediction(symbol, 100);
+        const historicalData = await this.getBarsForPrediction(symbol, granularity, PREDICTION_LOOKBACK, adjusted);
         
         if (historicalData.length < 30) {
-          logger.warn(`Insufficient data for ${symbol}, using mock predictions`);
-          return this.generateMockPredictions(symbol, days);
+          logger.warn(`Insufficient ${granularity} data for ${symbol}, using mock predictions`);
+          return this.generateMockPredictions(symbol, steps, granularity);
         }
 
         // Extract features
         const features = this.extractFeatures(historicalData);
+        const latestDate = historicalData[historicalData.length - 1].date;
+
+        // Daily forecasts read the feature store, so training and inference share inputs
+        if (granularity === '1d') {
+          features.vectors = await this.getStoredFeatures(symbol, historicalData);
+        }
         
-        // Generate predictions using ensemble of models
-        const lstmPredictions = this.generateLSTMPredictions(features, days);
-        const arimaPredictions = this.generateARIMAPredictions(features, days);
-        const ensemblePredictions = this.combineModelPredictions([lstmPredictions, arimaPredictions]);
+        const context: ForecastContext = {
+          symbol,
+          features,
+          granularity,
+          latestDate,
+          steps
+        };
+        const activeVersions = await this.getActiveModelVersions();
+        const memberPredictions = await this.runMembers(context, activeVersions);
+
+        if (Object.keys(memberPredictions).length === 0) {
+          logger.warn(`No model could forecast ${symbol}, using mock predictions`);
+          return this.generateMockPredictions(symbol, steps, granularity);
+        }
+
+        // Scorecards only cover day-based horizons, so intraday members weigh equally
+        const memberErrors = GRANULARITIES[granularity].intraday
+          ? new Map<number, Record<string, MemberError>>()
+          : await this.loadMemberErrors(symbol, Object.keys(memberPredictions));
+        const ensemblePredictions = await this.timeModel('ensemble', () =>
+          this.combineModelPredictions(memberPredictions, memberErrors, granularity));
 
         // Add confidence intervals
-        const enhancedPredictions = this.addConfidenceIntervals(ensemblePredictions, features);
+        const calibration = await this.loadCalibration(symbol);
+        const enhancedPredictions = this.addConfidenceIntervals(ensemblePredictions, features, calibration, granularity);
 
         // Store predictions for validation
-        await this.storePredictions(symbol, enhancedPredictions);
+        await this.storePredictions(symbol, enhancedPredictions, memberPredictions, granularity, activeVersions?.get('ensemble'));
 
         logger.info(`Generated ${enhancedPredictions.length} predictions for ${symbol}`);
         return enhancedPredictions;
       });
     } catch (error) {
       logger.error('Error generating enhanced predictions', error, 'Prediction');
-      return this.generateMockPredictions(symbol, days);
+      return this.generateMockPredictions(symbol, steps, granularity);
+    }
+  }
+
+  /**
+   * Daily forecast from shocked inputs, for stress testing. Members forecast from their
+   * current weights without training, nothing is stored and the bands are the members'
+   * own. Null when the symbol has too little history or no member can forecast it.
+   */
+  async forecastScenario(symbol: string, shock: ScenarioShock, steps: number): Promise<ScenarioForecast | null> {
+    const bars = await this.getBarsForPrediction(symbol, '1d', PREDICTION_LOOKBACK);
+    if (bars.length < 30) return null;
+
+    const latestDate = bars[bars.length - 1].date;
+    const features = this.extractFeatures(ScenarioEngine.shockBars(bars, shock));
+    const vectors = await this.getStoredFeatures(symbol, bars);
+    if (vectors) {
+      features.vectors = ScenarioEngine.shockVectors(vectors, shock);
     }
+
+    const context: ForecastContext = { symbol, features, granularity: '1d', latestDate, steps, scenario: true };
+    const memberPredictions = await this.runMembers(context, await this.getActiveModelVersions());
+    if (Object.keys(memberPredictions).length === 0) return null;
+
+    const memberErrors = await this.loadMemberErrors(symbol, Object.keys(memberPredictions));
+    return {
+      symbol,
+      currentPrice: bars[bars.length - 1].close_price,
+      closes: bars.map(bar => ({ date: bar.date, close: bar.close_price })),
+      predictions: this.combineModelPredictions(memberPredictions, memberErrors, '1d')
+    };
   }
 
   /**
@@ -118,6 +263,8 @@ class PredictionService {
         .select('*')
         .eq('symbol_id', symbolData.id)
         .eq('prediction_type', 'price')
+        // Member model rows are scored by the resolver; validate what users were shown
+        .like('model_version', 'ensemble-%')
         .gte('target_date', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
         .order('target_date', { ascending: true });
 
@@ -164,25 +311,11 @@ class PredictionService {
     try {
       logger.info(`Fetching 2025 real-time data for ${symbol}`, {}, 'RealTime');
       
-      // Try Yahoo Finance first (most reliable free source)
-      const yahooData = await this.fetchFromYahooFinance(symbol);
-      if (yahooData) {
-        logger.info(`Got real-time data from Yahoo Finance for ${symbol}`, { price: yahooData.price });
-        return yahooData;
-      }
-
-      // Try Finnhub as backup
-      const finnhubData = await this.fetchFromFinnhub(symbol);
-      if (finnhubData) {
-        logger.info(`Got real-time data from Finnhub for ${symbol}`, { price: finnhubData.price });
-        return finnhubData;
-      }
-
-      // Try Alpha Vantage as last resort
-      const alphaData = await this.fetchFromAlphaVantage(symbol);
-      if (alphaData) {
-        logger.info(`Got real-time data from Alpha Vantage for ${symbol}`, { price: alphaData.price });
-        return alphaData;
+      // The router fails over between providers by their recent health
+      const quote = await apiClient.fetchQuote(symbol);
+      if (quote) {
+        logger.info(`Got real-time data from ${quote.source} for ${symbol}`, { price: quote.price });
+        return { price: quote.price, timestamp: quote.timestamp };
       }
 
       logger.warn(`All real-time sources failed for ${symbol}, using enhanced mock data`);
@@ -196,54 +329,21 @@ class PredictionService {
   }
 
   /**
-   * Generate enhanced 2025 mock data with realistic market movements
+   * Generate enhanced 2025 mock data from the simulated intraday session
    */
   private generateEnhanced2025MockData(symbol: string): { price: number; timestamp: string } {
-    const basePrice = this.getBasePrice(symbol);
-    const volatility = this.getSymbolVolatility(symbol);
-    
-    // Add intraday movement pattern
-    const hour = new Date().getHours();
-    const marketOpenEffect = this.getMarketOpenEffect(hour);
-    
-    // Generate realistic price with market timing effects
-    const randomMovement = (Math.random() - 0.5) * volatility * 2;
-    const price = basePrice * (1 + randomMovement + marketOpenEffect);
-    
-    return {
-      price: Math.round(price * 100) / 100,
-      timestamp: new Date().toISOString()
-    };
-  }
+    const quote = marketSimulator.quote(symbol);
 
-  private getSymbolVolatility(symbol: string): number {
-    const volatilities: { [key: string]: number } = {
-      'AAPL': 0.025,
-      'GOOGL': 0.03,
-      'MSFT': 0.02,
-      'TSLA': 0.08,
-      'AMZN': 0.035,
-      'NVDA': 0.06,
-      'META': 0.04,
-      'BTC': 0.15,
-      'ETH': 0.12,
-      'SPY': 0.015
+    return {
+      price: Math.round(quote.price * 100) / 100,
+      timestamp: quote.timestamp
     };
-    return volatilities[symbol] || 0.03;
-  }
-
-  private getMarketOpenEffect(hour: number): number {
-    // Simulate market opening effects (9:30 AM - 4:00 PM EST)
-    if (hour >= 9 && hour <= 10) return 0.002;  // Opening volatility
-    if (hour >= 15 && hour <= 16) return 0.001; // Closing activity
-    if (hour >= 11 && hour <= 14) return -0.0005; // Midday lull
-    return 0; // After hours
   }
 
   /**
    * Enhanced feature engineering
    */
-  private extractFeatures(data: any[]): any {
+  private extractFeatures(data: any[]): PredictionFeatures {
     const prices = data.map(d => d.close_price || d.price);
     const volumes = data.map(d => d.volume);
     const highs = data.map(d => d.high_price || d.price);
@@ -263,111 +363,151 @@ class PredictionService {
   }
 
   /**
-   * LSTM-based predictions
+   * Stored feature vectors for the daily bars, or none when the store has not caught
+   * up with the latest bar yet. The store is built from traded prices, so it is also
+   * skipped when a split or dividend has moved the bars' adjusted closes off them.
    */
-  private generateLSTMPredictions(features: any, days: number): EnhancedPrediction[] {
-    const predictions: EnhancedPrediction[] = [];
-    const { prices, technicalIndicators } = features;
-    
-    // Simulate LSTM model predictions
-    let currentPrice = prices[prices.length - 1];
-    const rsi = technicalIndicators.rsi?.[technicalIndicators.rsi.length - 1] || 50;
-    const macd = technicalIndicators.macd?.macd?.[technicalIndicators.macd.macd.length - 1] || 0;
-
-    for (let i = 1; i <= days; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
-
-      // LSTM-inspired prediction logic
-      const trendFactor = this.calculateTrendFactor(rsi, macd, i);
-      const volatilityAdjustment = features.volatility * Math.random() * 0.5;
-      
-      currentPrice = currentPrice * (1 + trendFactor + volatilityAdjustment);
-      const confidence = Math.max(0.6, 0.95 - (i * 0.05));
-
-      predictions.push({
-        timestamp: date.toISOString().split('T')[0],
-        predicted: currentPrice,
-        confidence,
-        upperBound: currentPrice * 1.05,
-        lowerBound: currentPrice * 0.95,
-        modelUsed: 'LSTM',
-        features: ['price_history', 'rsi', 'macd', 'volume', 'volatility']
-      });
+  private async getStoredFeatures(symbol: string, bars: PriceBar[]): Promise<PredictionFeatures['vectors']> {
+    const vectors = await featureStoreService.getFeatureVectors(symbol, PREDICTION_LOOKBACK);
+    if (vectors.length === 0 || vectors[vectors.length - 1].date !== bars[bars.length - 1].date) {
+      return undefined;
     }
 
-    return predictions;
+    const closes = new Map(bars.map(bar => [bar.date, bar.close_price]));
+    const adjusted = vectors.some(vector => {
+      const close = closes.get(vector.date);
+      return close !== undefined && Math.abs(close / vector.close - 1) > ADJUSTED_CLOSE_TOLERANCE;
+    });
+    return adjusted ? undefined : vectors;
   }
 
   /**
-   * ARIMA-based predictions
+   * Neural network predictions from the symbol's trained forecaster. Bounds are the 95%
+   * band of its out-of-sample residuals around the predicted cumulative return.
    */
-  private generateARIMAPredictions(features: any, days: number): EnhancedPrediction[] {
-    const predictions: EnhancedPrediction[] = [];
+  private async generateNeuralPredictions(context: ForecastContext): Promise<EnhancedPrediction[]> {
+    const { symbol, features, granularity, latestDate, steps } = context;
     const { prices } = features;
-    
-    // Simulate ARIMA model predictions
-    const returns = this.calculateReturns(prices);
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const volatility = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length);
+    const currentPrice = prices[prices.length - 1];
+    const { returns, std, attributions } = await neuralModelService.forecast(
+      symbol, features, latestDate, steps, granularity, { train: !context.scenario }
+    );
+    const inputs = ['log_returns', 'rsi', 'macd_histogram', 'ma20_distance', 'volatility', 'relative_volume'];
+    if (features.vectors) inputs.push('sentiment');
+
+    // The lagged returns lead the input row; each remaining input is one feature
+    const lags = attributions[0].length - (inputs.length - 1);
+    const byFeature = (contributions: number[]): Record<string, number> => {
+      const grouped: Record<string, number> = {
+        log_returns: contributions.slice(0, lags).reduce((sum, value) => sum + value, 0)
+      };
+      inputs.slice(1).forEach((name, i) => { grouped[name] = contributions[lags + i]; });
+      return grouped;
+    };
+
+    return returns.map((logReturn, index) => {
+      const spread = PREDICTION_INTERVAL_Z * std[index];
+      const predicted = currentPrice * Math.exp(logReturn);
+      const upperBound = currentPrice * Math.exp(logReturn + spread);
+      const lowerBound = currentPrice * Math.exp(logReturn - spread);
 
-    let currentPrice = prices[prices.length - 1];
+      return {
+        timestamp: stepTimestamp(granularity, latestDate, index + 1),
+        predicted,
+        confidence: this.intervalConfidence(predicted, upperBound, lowerBound),
+        upperBound,
+        lowerBound,
+        modelUsed: 'Neural Network',
+        features: inputs,
+        attribution: priceAttribution(predicted, byFeature(attributions[index]))
+      };
+    });
+  }
 
-    for (let i = 1; i <= days; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
+  /**
+   * ARIMA predictions on log prices. The order is chosen by AIC and the bounds are the
+   * 95% interval from the analytic forecast variance, mapped back to prices.
+   */
+  private generateARIMAPredictions(context: ForecastContext): EnhancedPrediction[] {
+    const { features, granularity, latestDate, steps } = context;
+    const { prices } = features;
 
-      // ARIMA-inspired prediction
-      const randomShock = (Math.random() - 0.5) * volatility * 2;
-      const meanReversion = avgReturn * 0.5;
-      
-      currentPrice = currentPrice * (1 + meanReversion + randomShock);
-      const confidence = Math.max(0.5, 0.9 - (i * 0.08));
+    const model = ArimaModel.autoFit(prices.map((price: number) => Math.log(price)), { maxP: 2, maxQ: 2 });
+    const { mean, variance } = model.forecast(steps);
+    // Linear in its inputs, so the baseline is the last price and the parts are exact
+    const parts = model.decompose(steps);
 
-      predictions.push({
-        timestamp: date.toISOString().split('T')[0],
-        predicted: currentPrice,
-        confidence,
-        upperBound: currentPrice * 1.08,
-        lowerBound: currentPrice * 0.92,
-        modelUsed: 'ARIMA',
-        features: ['price_returns', 'volatility', 'mean_reversion']
-      });
-    }
+    return mean.map((logPrice, index) => {
+      const spread = PREDICTION_INTERVAL_Z * Math.sqrt(variance[index]);
+      const predicted = Math.exp(logPrice);
+      const upperBound = Math.exp(logPrice + spread);
+      const lowerBound = Math.exp(logPrice - spread);
 
-    return predictions;
+      return {
+        timestamp: stepTimestamp(granularity, latestDate, index + 1),
+        predicted,
+        confidence: this.intervalConfidence(predicted, upperBound, lowerBound),
+        upperBound,
+        lowerBound,
+        modelUsed: model.label,
+        features: ['log_price', 'differencing', 'autoregressive_terms', 'moving_average_terms'],
+        attribution: priceAttribution(predicted, {
+          drift: parts.drift[index],
+          autoregressive_terms: parts.autoregressive[index],
+          moving_average_terms: parts.movingAverage[index]
+        })
+      };
+    });
   }
 
   /**
-   * Combine multiple model predictions using ensemble methods
+   * Narrower intervals mean more confidence, kept within the range the ensemble expects
    */
-  private combineModelPredictions(modelPredictions: EnhancedPrediction[][]): EnhancedPrediction[] {
-    if (modelPredictions.length === 0) return [];
-    
+  private intervalConfidence(predicted: number, upperBound: number, lowerBound: number): number {
+    return Math.min(0.95, Math.max(0.5, 1 - (upperBound - lowerBound) / predicted));
+  }
+
+  /**
+   * Combine member predictions with weights learned from each member's recent
+   * out-of-sample errors for this symbol and horizon
+   */
+  private combineModelPredictions(
+    memberPredictions: Record<string, EnhancedPrediction[]>,
+    memberErrors: Map<number, Record<string, MemberError>>,
+    granularity: ForecastGranularity
+  ): EnhancedPrediction[] {
+    const members = Object.keys(memberPredictions);
+    if (members.length === 0) return [];
+
     const combinedPredictions: EnhancedPrediction[] = [];
-    const numDays = modelPredictions[0].length;
+    const numSteps = Math.max(...members.map(key => memberPredictions[key].length));
 
-    for (let day = 0; day < numDays; day++) {
-      const dayPredictions = modelPredictions.map(model => model[day]).filter(Boolean);
-      
-      if (dayPredictions.length === 0) continue;
+    for (let step = 0; step < numSteps; step++) {
+      const stepPredictions: Record<string, EnhancedPrediction> = {};
+      members.forEach(key => {
+        if (memberPredictions[key][step]) stepPredictions[key] = memberPredictions[key][step];
+      });
 
-      // Weighted average based on model confidence
-      const totalWeight = dayPredictions.reduce((sum, pred) => sum + pred.confidence, 0);
-      const weightedPrice = dayPredictions.reduce((sum, pred) => 
-        sum + (pred.predicted * pred.confidence), 0) / totalWeight;
-      
-      const avgConfidence = dayPredictions.reduce((sum, pred) => sum + pred.confidence, 0) / dayPredictions.length;
-      const allFeatures = [...new Set(dayPredictions.flatMap(pred => pred.features))];
+      const available = Object.keys(stepPredictions);
+      if (available.length === 0) continue;
+
+      const days = horizonDays(granularity, step + 1);
+      const weights = StackedEnsemble.weigh(available, (days !== null && memberErrors.get(days)) || {});
+      const combined = StackedEnsemble.combine(stepPredictions, weights);
 
       combinedPredictions.push({
-        timestamp: dayPredictions[0].timestamp,
-        predicted: weightedPrice,
-        confidence: avgConfidence,
-        upperBound: Math.max(...dayPredictions.map(p => p.upperBound)),
-        lowerBound: Math.min(...dayPredictions.map(p => p.lowerBound)),
+        timestamp: stepPredictions[available[0]].timestamp,
+        predicted: combined.predicted,
+        confidence: combined.confidence,
+        upperBound: combined.upperBound,
+        lowerBound: combined.lowerBound,
         modelUsed: 'Ensemble',
-        features: allFeatures
+        features: [...new Set(available.flatMap(key => stepPredictions[key].features))],
+        ensembleWeights: combined.weights,
+        attribution: combineAttributions(
+          Object.fromEntries(available.map(key => [key, stepPredictions[key].attribution])),
+          combined.weights
+        )
       });
     }
 
@@ -375,23 +515,61 @@ class PredictionService {
   }
 
   /**
-   * Add confidence intervals to predictions
+   * Conformal band around each forecast from the symbol's resolved errors at that
+   * horizon. Confidence becomes how often that band has held the actual price.
+   * Horizons without enough history fall back to a volatility-scaled band.
    */
-  private addConfidenceIntervals(predictions: EnhancedPrediction[], features: any): EnhancedPrediction[] {
+  private addConfidenceIntervals(
+    predictions: EnhancedPrediction[],
+    features: PredictionFeatures,
+    calibration: Map<string, number[]>,
+    granularity: ForecastGranularity
+  ): EnhancedPrediction[] {
     const volatility = features.volatility || 0.02;
-    
-    return predictions.map(pred => {
+
+    return predictions.map((pred, index) => {
+      const scores = calibration.get(horizonLabel(granularity, index + 1)) || [];
+      const interval = ConformalCalibrator.interval(pred.predicted, scores.slice(-CALIBRATION_SIZE), PREDICTION_COVERAGE);
+
+      if (interval) {
+        const report = ConformalCalibrator.coverageReport(scores, PREDICTION_COVERAGE, CALIBRATION_SIZE);
+
+        return {
+          ...pred,
+          upperBound: interval.upperBound,
+          lowerBound: interval.lowerBound,
+          confidence: report.sampleSize > 0 ? report.empiricalCoverage : PREDICTION_COVERAGE,
+          calibrated: true,
+          intervalCoverage: PREDICTION_COVERAGE
+        };
+      }
+
       const confidenceMultiplier = (1 - pred.confidence) * 2 + 1;
-      const interval = pred.predicted * volatility * confidenceMultiplier;
-      
+      const spread = pred.predicted * volatility * confidenceMultiplier;
+
+      // Never narrower than the bounds the models produced themselves
       return {
         ...pred,
-        upperBound: pred.predicted + interval,
-        lowerBound: pred.predicted - interval
+        upperBound: Math.max(pred.upperBound, pred.predicted + spread),
+        lowerBound: Math.min(pred.lowerBound, pred.predicted - spread),
+        calibrated: false
       };
     });
   }
 
+  /**
+   * Resolved ensemble errors for the symbol by stored horizon; empty when unavailable
+   */
+  private async loadCalibration(symbol: string): Promise<Map<string, number[]>> {
+    try {
+      const series = await predictionValidationService.getCalibrationSeries(symbol);
+      return new Map(series.map(entry => [entry.horizon, entry.scores]));
+    } catch (error) {
+      logger.warn(`Could not load interval calibration for ${symbol}`, error, 'Prediction');
+      return new Map();
+    }
+  }
+
   /**
    * Fetch actual market data for validation
    */
@@ -432,109 +610,6 @@ class PredictionService {
     }
   }
 
-  /**
-   * Fetch from Alpha Vantage API
-   */
-  private async fetchFromAlphaVantage(symbol: string): Promise<{ price: number; timestamp: string } | null> {
-    const apiKey = import.meta.env.VITE_ALPHA_VANTAGE_API_KEY;
-    if (!apiKey) return null;
-
-    try {
-      const response = await fetch(
-        `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${apiKey}`
-      );
-      
-      const data = await response.json();
-      const quote = data['Global Quote'];
-      
-      if (quote && quote['05. price']) {
-        return {
-          price: parseFloat(quote['05. price']),
-          timestamp: new Date().toISOString()
-        };
-      }
-    } catch (error) {
-      logger.warn('Alpha Vantage API failed', error);
-    }
-    
-    return null;
-  }
-
-  /**
-   * Fetch from Yahoo Finance (free alternative)
-   */
-  private async fetchFromYahooFinance(symbol: string): Promise<{ price: number; timestamp: string } | null> {
-    try {
-      // Using Yahoo Finance API with 2025 real-time data
-      const response = await fetch(
-        `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1m&range=1d&includePrePost=true`,
-        {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        }
-      );
-      
-      const data = await response.json();
-      const result = data.chart?.result?.[0];
-      
-      if (result && result.meta?.regularMarketPrice) {
-        return {
-          price: result.meta.regularMarketPrice,
-          timestamp: new Date().toISOString()
-        };
-      }
-      
-      // Try to get from latest quote data
-      if (result && result.indicators?.quote?.[0]?.close) {
-        const closes = result.indicators.quote[0].close;
-        const latestPrice = closes[closes.length - 1];
-        if (latestPrice) {
-          return {
-            price: latestPrice,
-            timestamp: new Date().toISOString()
-          };
-        }
-      }
-    } catch (error) {
-      logger.warn('Yahoo Finance API failed', error);
-    }
-    
-    return null;
-  }
-
-  /**
-   * Fetch from Finnhub API
-   */
-  private async fetchFromFinnhub(symbol: string): Promise<{ price: number; timestamp: string } | null> {
-    const apiKey = import.meta.env.VITE_FINNHUB_API_KEY;
-    if (!apiKey) return null;
-
-    try {
-      const response = await fetch(
-        `https://finnhub.io/api/v1/quote?symbol=${symbol}&token=${apiKey}`,
-        {
-          headers: {
-            'X-Finnhub-Token': apiKey
-          }
-        }
-      );
-      
-      const data = await response.json();
-      
-      if (data && data.c) {
-        return {
-          price: data.c,
-          timestamp: new Date().toISOString()
-        };
-      }
-    } catch (error) {
-      logger.warn('Finnhub API failed', error);
-    }
-    
-    return null;
-  }
-
   /**
    * Calculate comprehensive accuracy metrics
    */
@@ -546,10 +621,13 @@ class PredictionService {
 
     return predictions.map(pred => {
       const targetDate = pred.target_date.split('T')[0];
-      const actualPrice = actualMap.get(targetDate);
+
+      // Prefer the actual the prediction-resolver already stored
+      const resolved = pred.actual_value != null;
+      const actualPrice = resolved ? parseFloat(pred.actual_value) : actualMap.get(targetDate);
       
-      let accuracy = undefined;
-      if (actualPrice) {
+      let accuracy = resolved && pred.accuracy_score != null ? parseFloat(pred.accuracy_score) : undefined;
+      if (accuracy === undefined && actualPrice) {
         const error = Math.abs(pred.predicted_value - actualPrice) / actualPrice;
         accuracy = Math.max(0, 1 - error);
       }
@@ -563,7 +641,10 @@ class PredictionService {
         actual: actualPrice,
         accuracy,
         modelUsed: pred.model_version || 'Unknown',
-        features: pred.features_used ? Object.keys(pred.features_used) : []
+        features: Array.isArray(pred.features_used?.features)
+          ? pred.features_used.features
+          : pred.features_used ? Object.keys(pred.features_used) : [],
+        attribution: pred.features_used?.attribution
       };
     });
   }
@@ -607,7 +688,13 @@ class PredictionService {
   /**
    * Store predictions in database
    */
-  private async storePredictions(symbol: string, predictions: EnhancedPrediction[]): Promise<void> {
+  private async storePredictions(
+    symbol: string,
+    predictions: EnhancedPrediction[],
+    memberPredictions: Record<string, EnhancedPrediction[]>,
+    granularity: ForecastGranularity,
+    ensembleVersion?: string
+  ): Promise<void> {
     try {
       const { data: symbolData } = await supabase
         .from('market_symbols')
@@ -617,18 +704,108 @@ class PredictionService {
 
       if (!symbolData) return;
 
-      // Note: Only store if we have service role access
-      // For now, we'll skip storing to avoid RLS violations
-      logger.info(`Would store ${predictions.length} predictions for ${symbol}`);
+      const toRow = (prediction: EnhancedPrediction, steps: number, modelVersion: string | undefined, featuresUsed: Record<string, unknown>) => ({
+        symbol_id: symbolData.id,
+        prediction_type: 'price' as const,
+        predicted_value: prediction.predicted,
+        confidence_score: prediction.confidence,
+        time_horizon: horizonLabel(granularity, steps),
+        target_date: prediction.timestamp,
+        // Unset falls back to the column default, the current ensemble version
+        ...(modelVersion ? { model_version: modelVersion } : {}),
+        features_used: featuresUsed
+      });
+
+      // Member forecasts are stored too so the resolver scores each member separately
+      const rows = [
+        ...predictions.map((prediction, index) => toRow(prediction, index + 1, ensembleVersion, {
+          features: prediction.features,
+          attribution: prediction.attribution,
+          ensemble: { method: ENSEMBLE_METHOD, windowDays: ENSEMBLE_WINDOW_DAYS, weights: prediction.ensembleWeights }
+        })),
+        ...Object.entries(memberPredictions).flatMap(([modelVersion, member]) =>
+          member.map((prediction, index) => toRow(prediction, index + 1, modelVersion, {
+            features: prediction.features,
+            attribution: prediction.attribution
+          })))
+      ];
+
+      const { error } = await supabase
+        .from('ai_predictions')
+        .insert(rows);
+
+      if (error) throw error;
+
+      logger.info(`Stored ${rows.length} predictions for ${symbol}`);
     } catch (error) {
       logger.warn('Could not store predictions', error);
     }
   }
 
   /**
-   * Get historical data for prediction model training
+   * Bars at the requested granularity, oldest first. Weekly bars roll up the daily
+   * history; 15-minute and hourly bars come from intraday_bars, which are never adjusted.
+   */
+  private async getBarsForPrediction(
+    symbol: string,
+    granularity: ForecastGranularity,
+    count: number,
+    adjusted: boolean = true
+  ): Promise<PriceBar[]> {
+    if (granularity === '1w') {
+      return aggregateWeeklyBars(await this.getHistoricalDataForPrediction(symbol, count * SESSIONS_PER_WEEK, adjusted));
+    }
+
+    if (GRANULARITIES[granularity].intraday) {
+      return this.getIntradayBarsForPrediction(symbol, granularity, count);
+    }
+
+    return this.getHistoricalDataForPrediction(symbol, count, adjusted);
+  }
+
+  private async getIntradayBarsForPrediction(symbol: string, granularity: ForecastGranularity, count: number): Promise<PriceBar[]> {
+    try {
+      const { data, error } = await supabase
+        .from('intraday_bars')
+        .select(`
+          bucket_start,
+          open_price,
+          high_price,
+          low_price,
+          close_price,
+          volume,
+          market_symbols!inner(symbol)
+        `)
+        .eq('market_symbols.symbol', symbol)
+        .eq('interval', granularity)
+        .order('bucket_start', { ascending: false })
+        .limit(count);
+
+      if (error) throw error;
+
+      // Latest bars are fetched first; models expect oldest first
+      return (data || []).reverse().map(row => ({
+        date: row.bucket_start,
+        open_price: parseFloat(row.open_price),
+        high_price: parseFloat(row.high_price),
+        low_price: parseFloat(row.low_price),
+        close_price: parseFloat(row.close_price),
+        volume: Number(row.volume) || 0
+      }));
+    } catch (error) {
+      logger.warn(`Could not fetch ${granularity} bars for prediction`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Daily bars for prediction model training, oldest first; adjusted for splits and
+   * dividends unless raw prices are asked for. Throws when the adjustment cannot be
+   * made rather than training on traded prices.
    */
-  private async getHistoricalDataForPrediction(symbol: string, days: number): Promise<any[]> {
+  private async getHistoricalDataForPrediction(symbol: string, days: number, adjusted: boolean = true): Promise<PriceBar[]> {
+    let symbolId: string;
+    let bars: PriceBar[];
     try {
       const { data: symbolData } = await supabase
         .from('market_symbols')
@@ -637,6 +814,7 @@ class PredictionService {
         .single();
 
       if (!symbolData) return [];
+      symbolId = symbolData.id;
 
       const { data } = await supabase
         .from('historical_data')
@@ -645,40 +823,21 @@ class PredictionService {
         .order('date', { ascending: false })
         .limit(days);
 
-      return data || [];
+      // Latest rows are fetched first; models expect oldest first
+      bars = (data || []).reverse().map(row => ({
+        date: row.date,
+        open_price: parseFloat(row.open_price),
+        high_price: parseFloat(row.high_price),
+        low_price: parseFloat(row.low_price),
+        close_price: parseFloat(row.close_price),
+        volume: Number(row.volume) || 0
+      }));
     } catch (error) {
       logger.warn('Could not fetch historical data for prediction', error);
       return [];
     }
-  }
-
-  /**
-   * Initialize prediction models
-   */
-  private initializeModels(): void {
-    this.models.set('lstm', {
-      id: 'lstm',
-      name: 'LSTM Neural Network',
-      type: 'lstm',
-      accuracy: 0.87,
-      lastTrained: new Date().toISOString()
-    });
-
-    this.models.set('arima', {
-      id: 'arima',
-      name: 'ARIMA Time Series',
-      type: 'arima',
-      accuracy: 0.82,
-      lastTrained: new Date().toISOString()
-    });
 
-    this.models.set('ensemble', {
-      id: 'ensemble',
-      name: 'Ensemble Model',
-      type: 'ensemble',
-      accuracy: 0.91,
-      lastTrained: new Date().toISOString()
-    });
+    return adjusted ? adjustBars(bars, await corporateActionService.getActions(symbolId)) : bars;
   }
 
   /**
@@ -708,7 +867,7 @@ class PredictionService {
     return returns;
   }
 
-  private extractSeasonality(data: any[]): any {
+  private extractSeasonality(data: any[]): PredictionFeatures['seasonality'] {
     // Extract day of week, month patterns
     const patterns = {
       dayOfWeek: new Array(7).fill(0),
@@ -735,23 +894,6 @@ class PredictionService {
     return 'sideways';
   }
 
-  private calculateTrendFactor(rsi: number, macd: number, dayAhead: number): number {
-    let factor = 0;
-    
-    // RSI influence
-    if (rsi > 70) factor -= 0.001; // Overbought
-    if (rsi < 30) factor += 0.001; // Oversold
-    
-    // MACD influence
-    if (macd > 0) factor += 0.0005;
-    if (macd < 0) factor -= 0.0005;
-    
-    // Decay confidence over time
-    factor *= Math.pow(0.95, dayAhead - 1);
-    
-    return factor;
-  }
-
   private async fetchExternalMarketData(symbol: string, days: number): Promise<{ date: string; price: number }[]> {
     // This would implement actual external API calls
     // For now, return mock data
@@ -759,98 +901,218 @@ class PredictionService {
   }
 
   private generateMockActualData(symbol: string, days: number): { date: string; price: number }[] {
-    const data = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
+    return marketSimulator.dailyBars(symbol, days + 1).map(bar => ({
+      date: bar.date,
+      price: bar.close
+    }));
+  }
 
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      currentPrice *= (0.998 + Math.random() * 0.004);
-      
-      data.push({
-        date: date.toISOString().split('T')[0],
-        price: currentPrice
-      });
-    }
+  private generateMockPredictions(symbol: string, steps: number, granularity: ForecastGranularity = '1d'): EnhancedPrediction[] {
+    if (granularity !== '1d') {
+      // Flat from the latest simulated close, widening with the square root of time
+      const [latest] = marketSimulator.dailyBars(symbol, 1);
+      const stepDays = GRANULARITIES[granularity].stepMinutes / (24 * 60);
 
-    return data;
-  }
+      return Array.from({ length: steps }, (_, index) => {
+        const i = index + 1;
+        const interval = latest.close * 0.03 * Math.sqrt(i * stepDays);
 
-  private generateMockPredictions(symbol: string, days: number): EnhancedPrediction[] {
-    const predictions: EnhancedPrediction[] = [];
-    const basePrice = this.getBasePrice(symbol);
-    let currentPrice = basePrice;
+        return {
+          timestamp: stepTimestamp(granularity, new Date().toISOString(), i),
+          predicted: latest.close,
+          confidence: Math.max(0.6, 0.95 - 0.05 * Math.sqrt(i * stepDays)),
+          upperBound: latest.close + interval,
+          lowerBound: latest.close - interval,
+          modelUsed: 'Mock Ensemble',
+          features: ['price_history', 'technical_indicators', 'volume']
+        };
+      });
+    }
 
-    for (let i = 1; i <= days; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
-      
-      currentPrice *= (0.999 + Math.random() * 0.002);
+    return marketSimulator.projectCloses(symbol, steps).map((point, index) => {
+      const i = index + 1;
       const confidence = Math.max(0.6, 0.95 - (i * 0.05));
-      const interval = currentPrice * 0.03 * i;
+      const interval = point.price * 0.03 * i;
 
-      predictions.push({
-        timestamp: date.toISOString().split('T')[0],
-        predicted: currentPrice,
+      return {
+        timestamp: point.date,
+        predicted: point.price,
         confidence,
-        upperBound: currentPrice + interval,
-        lowerBound: currentPrice - interval,
+        upperBound: point.price + interval,
+        lowerBound: point.price - interval,
         modelUsed: 'Mock Ensemble',
         features: ['price_history', 'technical_indicators', 'volume']
-      });
-    }
-
-    return predictions;
+      };
+    });
   }
 
   private generateMockValidation(symbol: string): ValidationResult {
     const predictions = this.generateMockPredictions(symbol, 7);
+    const rng = marketSimulator.random(symbol, `validation:${new Date().toISOString().split('T')[0]}`);
     
     return {
       symbol,
       predictions,
-      overallAccuracy: 0.85 + Math.random() * 0.1,
-      mape: 0.02 + Math.random() * 0.03,
-      rmse: 1.5 + Math.random() * 2,
+      overallAccuracy: rng.between(0.85, 0.95),
+      mape: rng.between(0.02, 0.05),
+      rmse: rng.between(1.5, 3.5),
       lastValidated: new Date().toISOString()
     };
   }
 
-  private getBasePrice(symbol: string): number {
-    const prices: { [key: string]: number } = {
-      'AAPL': 235,
-      'GOOGL': 185,
-      'MSFT': 425,
-      'TSLA': 185,
-      'AMZN': 195,
-      'NVDA': 850,
-      'META': 580,
-      'BTC': 95000,
-      'ETH': 3800,
-      'SPY': 580
-    };
-    return prices[symbol] || 100;
+  /**
+   * Add or replace an ensemble member under its registry key. A member only runs
+   * while the registry has an active model for its key.
+   */
+  addEnsembleMember(key: string, forecast: EnsembleMember): void {
+    this.ensembleMembers.set(key, forecast);
+  }
+
+  removeEnsembleMember(key: string): boolean {
+    return this.ensembleMembers.delete(key);
+  }
+
+  getEnsembleMembers(): string[] {
+    return Array.from(this.ensembleMembers.keys());
+  }
+
+  /**
+   * Registered models that are active or awaiting promotion
+   */
+  async getModels(): Promise<PredictionModel[]> {
+    return modelRegistryService.listModels();
+  }
+
+  /**
+   * Model version of each active registry key, or null when the registry cannot be
+   * read (every member then runs under its bare key)
+   */
+  private async getActiveModelVersions(): Promise<Map<string, string> | null> {
+    try {
+      const models = await modelRegistryService.listModels();
+      return new Map(models.filter(model => model.status === 'active').map(model => [model.key, model.modelVersion]));
+    } catch (error) {
+      logger.warn('Could not load active models, running every ensemble member', error, 'Prediction');
+      return null;
+    }
+  }
+
+  /**
+   * Each member's squared error over the scorecard window, by horizon in days.
+   * Members without a scorecard are weighted equally.
+   */
+  private async loadMemberErrors(symbol: string, modelVersions: string[]): Promise<Map<number, Record<string, MemberError>>> {
+    const errors = new Map<number, Record<string, MemberError>>();
+
+    try {
+      const { data, error } = await supabase
+        .from('model_scorecards')
+        .select(`
+          model_version,
+          horizon_days,
+          sample_size,
+          rmse,
+          market_symbols!inner(symbol)
+        `)
+        .eq('market_symbols.symbol', symbol)
+        .eq('window_days', ENSEMBLE_WINDOW_DAYS)
+        .in('model_version', modelVersions);
+
+      if (error) throw error;
+
+      (data || []).forEach(row => {
+        const horizon = errors.get(row.horizon_days) || {};
+        horizon[row.model_version] = { mse: parseFloat(row.rmse) ** 2, sampleSize: row.sample_size };
+        errors.set(row.horizon_days, horizon);
+      });
+    } catch (error) {
+      logger.warn(`Could not load member errors for ${symbol}`, error, 'Prediction');
+    }
+
+    return errors;
   }
 
   /**
-   * Get model performance metrics
+   * Get model performance metrics as measured from resolved predictions
    */
-  getModelPerformance(): ModelPerformance[] {
-    return Array.from(this.models.values()).map(model => ({
-      modelId: model.id,
-      accuracy: model.accuracy,
-      precision: model.accuracy * 0.95,
-      recall: model.accuracy * 0.98,
-      f1Score: model.accuracy * 0.96,
-      mape: (1 - model.accuracy) * 0.1,
-      rmse: (1 - model.accuracy) * 5,
-      trainingTime: Math.random() * 300 + 60, // seconds
-      predictionTime: Math.random() * 10 + 1 // milliseconds
+  async getModelPerformance(): Promise<ModelPerformance[]> {
+    const models = await modelRegistryService.listModels();
+
+    return Promise.all(models.map(async model => {
+      const timing = model.status === 'active' ? this.predictionTimes.get(model.key) : undefined;
+      const training = model.type === 'lstm' ? await neuralModelService.getTrainingStats(model.modelVersion) : null;
+
+      return {
+        modelId: model.modelVersion,
+        name: model.name,
+        status: model.status,
+        sampleSize: model.metrics?.sampleSize ?? 0,
+        accuracy: model.metrics?.meanAccuracy ?? 0,
+        directionalAccuracy: model.metrics?.directionalAccuracy,
+        mape: model.metrics?.mape,
+        rmse: model.metrics?.rmse,
+        precision: model.metrics?.precision,
+        recall: model.metrics?.recall,
+        f1Score: model.metrics?.f1Score,
+        predictionTime: timing ? timing.totalMs / timing.runs : undefined,
+        trainingTime: training?.trainingMs,
+        trainingLoss: training?.trainingLoss,
+        validationLoss: training?.validationLoss,
+        lastTrained: training?.lastTrainedAt ?? model.lastTrained
+      };
     }));
   }
 
+  /**
+   * Run one model and record how long it took under its registry key
+   */
+  private async timeModel<T>(key: string, run: () => T | Promise<T>): Promise<T> {
+    const start = performance.now();
+    const result = await run();
+    const timing = this.predictionTimes.get(key) || { totalMs: 0, runs: 0 };
+
+    this.predictionTimes.set(key, {
+      totalMs: timing.totalMs + performance.now() - start,
+      runs: timing.runs + 1
+    });
+
+    return result;
+  }
+
+  /**
+   * Run each member the registry serves, keyed by model version; a model that fails
+   * sits this run out
+   */
+  private async runMembers(
+    context: ForecastContext,
+    activeVersions: Map<string, string> | null
+  ): Promise<Record<string, EnhancedPrediction[]>> {
+    const memberPredictions: Record<string, EnhancedPrediction[]> = {};
+    for (const [key, forecast] of this.ensembleMembers) {
+      if (activeVersions && !activeVersions.has(key)) continue;
+      const predictions = await this.runModel(key, () => forecast(context));
+      if (predictions.length > 0) {
+        memberPredictions[activeVersions?.get(key) ?? key] = predictions;
+      }
+    }
+    return memberPredictions;
+  }
+
+  /**
+   * Timed model run that yields no predictions instead of failing the whole ensemble
+   */
+  private async runModel(
+    key: string,
+    run: () => EnhancedPrediction[] | Promise<EnhancedPrediction[]>
+  ): Promise<EnhancedPrediction[]> {
+    try {
+      return await this.timeModel(key, run);
+    } catch (error) {
+      logger.warn(`${key} model failed, leaving it out of the ensemble`, error, 'Prediction');
+      return [];
+    }
+  }
+
   /**
    * Get cached validation results
    */
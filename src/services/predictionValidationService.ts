@@ -0,0 +1,198 @@
+/**
+ * Prediction Validation Service
+ * Reads the rolling model scorecards kept by the prediction-resolver edge function,
+ * which backfills actuals on ai_predictions once their target dates pass and
+ * refreshes the measured metrics in the model registry. Also calibrates conformal
+ * prediction bands from the resolved errors and reports how often they held.
+ */
+
+import { supabase, handleSupabaseError } from '../lib/supabase';
+import { ConformalCalibrator, CoverageReport, CONFORMAL_LEVELS } from '../utils/conformal';
+
+export interface ModelScorecard {
+  modelVersion: string;
+  // Unset on the roll-up across every symbol
+  symbolId?: string;
+  symbol?: string;
+  horizonDays: number;
+  windowDays: number;
+  sampleSize: number;
+  mape: number;
+  rmse: number;
+  directionalAccuracy?: number;
+  meanAccuracy: number;
+  computedAt: string;
+}
+
+export interface ScorecardSummary {
+  sampleSize: number;
+  mape: number;
+  rmse: number;
+  directionalAccuracy?: number;
+  meanAccuracy: number;
+}
+
+export interface ResolverRun {
+  resolved: number;
+  scorecards: number;
+  models: number;
+}
+
+export interface CalibrationSeries {
+  symbol: string;
+  // Stored time_horizon, e.g. "3 days" or "30 minutes"
+  horizon: string;
+  // Absolute log errors of resolved ensemble forecasts, oldest first
+  scores: number[];
+}
+
+// Most recent resolved errors a conformal band is calibrated on
+export const CALIBRATION_SIZE = 250;
+
+// Must match SCORECARD_WINDOWS in supabase/functions/_shared/predictionScoring.ts
+export const SCORECARD_WINDOWS = [30, 90];
+
+class PredictionValidationService {
+  /**
+   * Scorecards for one rolling window, per symbol and rolled up across symbols
+   */
+  async getScorecards(windowDays: number = SCORECARD_WINDOWS[0]): Promise<ModelScorecard[]> {
+    try {
+      const { data, error } = await supabase
+        .from('model_scorecards')
+        .select(`
+          *,
+          market_symbols(symbol)
+        `)
+        .eq('window_days', windowDays)
+        .order('model_version', { ascending: true })
+        .order('horizon_days', { ascending: true });
+
+      if (error) throw error;
+
+      return data.map(row => ({
+        modelVersion: row.model_version,
+        symbolId: row.symbol_id || undefined,
+        symbol: row.market_symbols?.symbol,
+        horizonDays: row.horizon_days,
+        windowDays: row.window_days,
+        sampleSize: row.sample_size,
+        mape: parseFloat(row.mape),
+        rmse: parseFloat(row.rmse),
+        directionalAccuracy: row.directional_accuracy != null ? parseFloat(row.directional_accuracy) : undefined,
+        meanAccuracy: parseFloat(row.mean_accuracy),
+        computedAt: row.computed_at
+      }));
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolved errors of the ensemble forecasts users were shown, per symbol and horizon
+   */
+  async getCalibrationSeries(symbol?: string): Promise<CalibrationSeries[]> {
+    try {
+      let query = supabase
+        .from('ai_predictions')
+        .select(`
+          predicted_value,
+          actual_value,
+          time_horizon,
+          target_date,
+          market_symbols!inner(symbol)
+        `)
+        .eq('prediction_type', 'price')
+        .like('model_version', 'ensemble-%')
+        .not('actual_value', 'is', null)
+        .order('target_date', { ascending: false })
+        .limit(5000);
+
+      if (symbol) {
+        query = query.eq('market_symbols.symbol', symbol);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const series = new Map<string, CalibrationSeries>();
+      // Newest first from the query, so prepend to keep each series chronological
+      data.forEach(row => {
+        const horizon = row.time_horizon.trim();
+        const predicted = parseFloat(row.predicted_value);
+        const actual = parseFloat(row.actual_value);
+        if (!(predicted > 0) || !(actual > 0)) return;
+
+        const key = `${row.market_symbols.symbol}|${horizon}`;
+        const entry: CalibrationSeries = series.get(key) || { symbol: row.market_symbols.symbol, horizon, scores: [] };
+        entry.scores.unshift(ConformalCalibrator.nonconformity(predicted, actual));
+        series.set(key, entry);
+      });
+
+      return Array.from(series.values());
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Walk-forward coverage of the conformal bands at each level, pooled over symbols
+   * and horizons (or for one symbol)
+   */
+  async getCoverageReport(symbol?: string, levels: number[] = CONFORMAL_LEVELS): Promise<CoverageReport[]> {
+    const series = await this.getCalibrationSeries(symbol);
+
+    return levels.map(level => ConformalCalibrator.combineReports(
+      series.map(entry => ConformalCalibrator.coverageReport(entry.scores, level, CALIBRATION_SIZE)),
+      level
+    ));
+  }
+
+  /**
+   * Resolve due predictions and refresh scorecards now instead of waiting for the schedule
+   */
+  async runResolver(): Promise<ResolverRun> {
+    try {
+      const { data, error } = await supabase.functions.invoke('prediction-resolver', { method: 'POST' });
+
+      if (error) throw error;
+
+      return { resolved: data.resolved, scorecards: data.scorecards, models: data.models };
+    } catch (error) {
+      handleSupabaseError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Combine scorecards weighted by sample size. RMSE is pooled over squared errors and
+   * directional accuracy only over scorecards that have it.
+   */
+  summarize(scorecards: ModelScorecard[]): ScorecardSummary {
+    const sampleSize = scorecards.reduce((sum, card) => sum + card.sampleSize, 0);
+    if (sampleSize === 0) {
+      return { sampleSize: 0, mape: 0, rmse: 0, meanAccuracy: 0 };
+    }
+
+    const weighted = (value: (card: ModelScorecard) => number) =>
+      scorecards.reduce((sum, card) => sum + value(card) * card.sampleSize, 0) / sampleSize;
+
+    const directional = scorecards.filter(card => card.directionalAccuracy !== undefined);
+    const directionalSamples = directional.reduce((sum, card) => sum + card.sampleSize, 0);
+
+    return {
+      sampleSize,
+      mape: weighted(card => card.mape),
+      rmse: Math.sqrt(weighted(card => card.rmse * card.rmse)),
+      directionalAccuracy: directionalSamples > 0
+        ? directional.reduce((sum, card) => sum + card.directionalAccuracy! * card.sampleSize, 0) / directionalSamples
+        : undefined,
+      meanAccuracy: weighted(card => card.meanAccuracy)
+    };
+  }
+}
+
+export const predictionValidationService = new PredictionValidationService();
\ No newline at end of file
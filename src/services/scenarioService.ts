@@ -0,0 +1,138 @@
+/**
+ * Scenario Service
+ * Stress tests across symbols and portfolio holdings: each symbol is forecast from
+ * shocked inputs and the projections are rolled up with volatilities and correlations
+ * stressed the same way.
+ */
+
+import { logger } from '../utils/logger';
+import { ScenarioEngine, ScenarioShock, ScenarioAggregate, ScenarioPosition } from '../utils/scenarioEngine';
+import { predictionService } from './predictionService';
+import { portfolioService } from './portfolioService';
+
+export const SCENARIO_HORIZON_DAYS = 7;
+
+export interface ScenarioSymbolOutcome {
+  symbol: string;
+  quantity: number;
+  currentPrice: number;
+  /** Price straight after the shock */
+  shockedPrice: number;
+  projectedPrice: number;
+  projectedChangePercent: number;
+  /** Per-session volatility of log returns under the scenario */
+  volatility: number;
+  upperBound: number;
+  lowerBound: number;
+}
+
+export interface ScenarioResult {
+  shock: ScenarioShock;
+  horizonDays: number;
+  outcomes: ScenarioSymbolOutcome[];
+  /** Symbols that could not be forecast */
+  skipped: string[];
+  aggregate: ScenarioAggregate;
+}
+
+const std = (values: number[]) => {
+  const m = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+};
+
+class ScenarioService {
+  /**
+   * Stress one unit of each symbol. Symbols that cannot be forecast are skipped.
+   */
+  async runScenario(
+    symbols: string[],
+    shock: ScenarioShock,
+    horizonDays: number = SCENARIO_HORIZON_DAYS
+  ): Promise<ScenarioResult> {
+    return this.run(symbols.map(symbol => ({ symbol, quantity: 1 })), shock, horizonDays);
+  }
+
+  /**
+   * Stress a portfolio's holdings at their quantities
+   */
+  async runPortfolioScenario(
+    portfolioId: string,
+    shock: ScenarioShock,
+    horizonDays: number = SCENARIO_HORIZON_DAYS
+  ): Promise<ScenarioResult> {
+    const summary = await portfolioService.getPortfolioSummary(portfolioId);
+    return this.run(
+      summary.holdings.map(holding => ({ symbol: holding.symbol, quantity: holding.quantity })),
+      shock,
+      horizonDays
+    );
+  }
+
+  private async run(
+    holdings: { symbol: string; quantity: number }[],
+    shock: ScenarioShock,
+    horizonDays: number
+  ): Promise<ScenarioResult> {
+    ScenarioEngine.assertShock(shock);
+    logger.info(`Running scenario ${shock.name}`, { symbols: holdings.length, horizonDays }, 'Prediction');
+
+    const outcomes: ScenarioSymbolOutcome[] = [];
+    const returnsByDate: Map<string, number>[] = [];
+    const skipped: string[] = [];
+
+    for (const { symbol, quantity } of holdings) {
+      const forecast = await predictionService.forecastScenario(symbol, shock, horizonDays).catch(error => {
+        logger.warn(`Could not run the scenario for ${symbol}`, error, 'Prediction');
+        return null;
+      });
+      const final = forecast?.predictions[forecast.predictions.length - 1];
+      if (!forecast || !final) {
+        skipped.push(symbol);
+        continue;
+      }
+
+      const { closes } = forecast;
+      const returns = new Map<string, number>();
+      closes.slice(1).forEach((point, i) => returns.set(point.date, Math.log(point.close / closes[i].close)));
+
+      outcomes.push({
+        symbol,
+        quantity,
+        currentPrice: forecast.currentPrice,
+        shockedPrice: forecast.currentPrice * (1 + shock.priceShock),
+        projectedPrice: final.predicted,
+        projectedChangePercent: (final.predicted / forecast.currentPrice - 1) * 100,
+        volatility: std(Array.from(returns.values())) * shock.volatilityMultiplier,
+        upperBound: final.upperBound,
+        lowerBound: final.lowerBound
+      });
+      returnsByDate.push(returns);
+    }
+
+    // Correlations over the sessions every symbol traded
+    const commonDates = returnsByDate.length > 0
+      ? Array.from(returnsByDate[0].keys()).filter(date => returnsByDate.every(returns => returns.has(date)))
+      : [];
+    const correlations = commonDates.length > 2
+      ? ScenarioEngine.correlationMatrix(returnsByDate.map(returns => commonDates.map(date => returns.get(date)!)))
+      : outcomes.map((_, i) => outcomes.map((__, j) => (i === j ? 1 : 0)));
+
+    const positions: ScenarioPosition[] = outcomes.map(outcome => ({
+      symbol: outcome.symbol,
+      quantity: outcome.quantity,
+      price: outcome.currentPrice,
+      projectedPrice: outcome.projectedPrice,
+      volatility: outcome.volatility
+    }));
+
+    return {
+      shock,
+      horizonDays,
+      outcomes,
+      skipped,
+      aggregate: ScenarioEngine.aggregate(positions, correlations, horizonDays, shock)
+    };
+  }
+}
+
+export const scenarioService = new ScenarioService();
\ No newline at end of file
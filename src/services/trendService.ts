@@ -0,0 +1,233 @@
+/**
+ * Trend Service
+ * Direction calls (up, down or flat) from the trend classifier, trained on the
+ * symbol's historical_data bars and stored in ai_predictions as trend predictions for
+ * the prediction-resolver to score with precision, recall and F1.
+ */
+
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { marketSimulator, PERIODS_PER_YEAR } from '../utils/marketSimulator';
+import { stepTimestamp } from '../utils/forecastHorizon';
+import {
+  TrendClassifier,
+  TrendDirection,
+  TrendProbabilities,
+  directionValue,
+  flatThreshold
+} from '../utils/trendClassifier';
+
+// Registry entry used when the registry cannot be read
+const DEFAULT_TREND_VERSION = 'trend-v1.0';
+const TREND_MODEL_KEY = 'trend';
+
+export const TREND_HORIZONS_DAYS = [7, 30];
+
+// Two years of daily sessions
+const TREND_LOOKBACK = 504;
+
+// Labelled examples needed before a call is worth storing
+const MIN_TREND_EXAMPLES = 100;
+
+// Indicator warm-up, the longest horizon and the examples above
+const MIN_TREND_BARS = 200;
+
+// Share of the examples held out, most recent last, to measure the call rate
+const HOLDOUT_FRACTION = 0.2;
+
+export interface TrendCall {
+  horizonDays: number;
+  /** Sessions the horizon spans */
+  sessions: number;
+  direction: TrendDirection;
+  probabilities: TrendProbabilities;
+  /** Absolute log return within which the move counts as flat */
+  flatThreshold: number;
+  /** Share of held-out examples called correctly */
+  holdoutAccuracy: number;
+  targetDate: string;
+}
+
+export interface TrendOutlook {
+  symbol: string;
+  modelVersion: string;
+  calls: TrendCall[];
+  source: 'historical' | 'simulated';
+}
+
+interface Bars {
+  highs: number[];
+  lows: number[];
+  closes: number[];
+}
+
+class TrendService {
+  /**
+   * Train the classifier for each horizon and call the latest bar. Calls from stored
+   * history are saved as trend predictions once a day; symbols without enough history
+   * are called from simulated sessions and not saved.
+   */
+  async getTrendOutlook(symbol: string): Promise<TrendOutlook> {
+    const annualization = PERIODS_PER_YEAR[marketSimulator.getProfile(symbol).assetClass];
+    const history = await this.getBarsForTrend(symbol);
+
+    let source: TrendOutlook['source'] = 'historical';
+    let bars: Bars = history.bars;
+    if (history.bars.closes.length < MIN_TREND_BARS) {
+      const simulated = marketSimulator.dailyBars(symbol, TREND_LOOKBACK);
+      source = 'simulated';
+      bars = {
+        highs: simulated.map(bar => bar.high),
+        lows: simulated.map(bar => bar.low),
+        closes: simulated.map(bar => bar.close)
+      };
+    }
+
+    const returns = bars.closes.slice(1).map((close, i) => Math.log(close / bars.closes[i]));
+    const calls: TrendCall[] = [];
+
+    for (const horizonDays of TREND_HORIZONS_DAYS) {
+      const sessions = Math.max(1, Math.round(horizonDays * annualization / 365));
+      const threshold = flatThreshold(returns, sessions);
+      const { examples, latest } = TrendClassifier.buildDataset(bars.highs, bars.lows, bars.closes, sessions, threshold);
+      if (!latest || examples.length < MIN_TREND_EXAMPLES) continue;
+
+      const split = Math.floor(examples.length * (1 - HOLDOUT_FRACTION));
+      const holdout = examples.slice(split);
+      const evaluation = TrendClassifier.train(examples.slice(0, split));
+      const hits = holdout.filter(example => evaluation.classify(example.features) === example.label).length;
+
+      // The live call uses every labelled example
+      const classifier = TrendClassifier.train(examples);
+
+      calls.push({
+        horizonDays,
+        sessions,
+        direction: classifier.classify(latest),
+        probabilities: classifier.predict(latest),
+        flatThreshold: threshold,
+        holdoutAccuracy: holdout.length > 0 ? hits / holdout.length : 0,
+        targetDate: stepTimestamp('1d', '', horizonDays)
+      });
+    }
+
+    const outlook: TrendOutlook = {
+      symbol,
+      modelVersion: await this.getActiveModelVersion(),
+      calls,
+      source
+    };
+
+    if (source === 'historical' && history.symbolId && calls.length > 0) {
+      await this.storeCalls(history.symbolId, outlook);
+    }
+
+    return outlook;
+  }
+
+  private async getActiveModelVersion(): Promise<string> {
+    try {
+      const { data, error } = await supabase
+        .from('model_registry')
+        .select('model_version')
+        .eq('model_key', TREND_MODEL_KEY)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data?.model_version ?? DEFAULT_TREND_VERSION;
+    } catch (error) {
+      logger.warn('Could not read the active trend model, using the default version', error, 'Prediction');
+      return DEFAULT_TREND_VERSION;
+    }
+  }
+
+  /**
+   * Daily bars for the symbol, oldest first
+   */
+  private async getBarsForTrend(symbol: string): Promise<{ symbolId: string | null; bars: Bars }> {
+    const empty = { highs: [], lows: [], closes: [] };
+
+    try {
+      const { data: symbolData } = await supabase
+        .from('market_symbols')
+        .select('id')
+        .eq('symbol', symbol)
+        .single();
+
+      if (!symbolData) return { symbolId: null, bars: empty };
+
+      const { data, error } = await supabase
+        .from('historical_data')
+        .select('date, high_price, low_price, close_price')
+        .eq('symbol_id', symbolData.id)
+        .order('date', { ascending: false })
+        .limit(TREND_LOOKBACK);
+
+      if (error) throw error;
+
+      // Latest rows are fetched first; indicators expect oldest first
+      const rows = (data || []).reverse();
+      return {
+        symbolId: symbolData.id,
+        bars: {
+          highs: rows.map(row => parseFloat(row.high_price)),
+          lows: rows.map(row => parseFloat(row.low_price)),
+          closes: rows.map(row => parseFloat(row.close_price))
+        }
+      };
+    } catch (error) {
+      logger.warn('Could not fetch historical data for trend calls', error, 'Prediction');
+      return { symbolId: null, bars: empty };
+    }
+  }
+
+  /**
+   * Save the calls as trend predictions, at most once a day per model version
+   */
+  private async storeCalls(symbolId: string, outlook: TrendOutlook): Promise<void> {
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const { count, error: countError } = await supabase
+        .from('ai_predictions')
+        .select('id', { count: 'exact', head: true })
+        .eq('symbol_id', symbolId)
+        .eq('prediction_type', 'trend')
+        .eq('model_version', outlook.modelVersion)
+        .gte('created_at', today);
+
+      if (countError) throw countError;
+      if (count && count > 0) return;
+
+      const rows = outlook.calls.map(call => ({
+        symbol_id: symbolId,
+        prediction_type: 'trend' as const,
+        predicted_value: directionValue(call.direction),
+        confidence_score: call.probabilities[call.direction],
+        time_horizon: `${call.horizonDays} days`,
+        target_date: call.targetDate,
+        model_version: outlook.modelVersion,
+        features_used: {
+          probabilities: call.probabilities,
+          // The resolver labels the realized move with the same threshold
+          flatThreshold: call.flatThreshold,
+          sessions: call.sessions,
+          holdoutAccuracy: call.holdoutAccuracy
+        }
+      }));
+
+      const { error } = await supabase
+        .from('ai_predictions')
+        .insert(rows);
+
+      if (error) throw error;
+
+      logger.info(`Stored ${rows.length} trend predictions for ${outlook.symbol}`);
+    } catch (error) {
+      logger.warn('Could not store trend predictions', error, 'Prediction');
+    }
+  }
+}
+
+export const trendService = new TrendService();
\ No newline at end of file
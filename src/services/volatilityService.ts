@@ -0,0 +1,288 @@
+/**
+ * Volatility Service
+ * GARCH-family volatility forecasts fitted on historical_data returns, stored in
+ * ai_predictions as volatility predictions for the prediction-resolver to settle against
+ * realized volatility, and the realized volatility cone they are read against.
+ */
+
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { marketSimulator, PERIODS_PER_YEAR } from '../utils/marketSimulator';
+import { stepTimestamp } from '../utils/forecastHorizon';
+import {
+  GarchModel,
+  GarchParameters,
+  GarchVariant,
+  VolatilityConePoint,
+  MIN_GARCH_RETURNS,
+  logReturns,
+  volatilityCone
+} from '../utils/garch';
+
+// Registry entry used when the registry cannot be read
+const DEFAULT_VOLATILITY_VERSION = 'garch-v1.0';
+const VOLATILITY_MODEL_KEY = 'garch';
+
+export const VOLATILITY_HORIZONS_DAYS = [7, 30, 90];
+
+// Cone windows in sessions: a week, two weeks, a month, a quarter and half a year
+export const CONE_WINDOWS = [5, 10, 21, 63, 126];
+
+// Two years of daily sessions
+const VOLATILITY_LOOKBACK = 504;
+
+const INTERVAL_Z = 1.96;
+
+export interface VolatilityForecast {
+  horizonDays: number;
+  /** Sessions the horizon spans */
+  sessions: number;
+  /** Annualized volatility expected over the horizon */
+  volatility: number;
+  /** Range the realized volatility over that many sessions is likely to fall in */
+  lowerBound: number;
+  upperBound: number;
+  confidence: number;
+  targetDate: string;
+}
+
+export interface VolatilityConeBand extends VolatilityConePoint {
+  /** Annualized model forecast over the same window */
+  forecast: number;
+}
+
+export interface VolatilityOutlook {
+  symbol: string;
+  modelVersion: string;
+  variant: GarchVariant;
+  params: GarchParameters;
+  persistence: number;
+  /** Sessions per year the volatilities are annualized with */
+  annualization: number;
+  forecasts: VolatilityForecast[];
+  /** Annualized realized volatility distribution per window */
+  cone: VolatilityConeBand[];
+  source: 'historical' | 'simulated';
+}
+
+export interface ResolvedVolatilityForecast {
+  timeHorizon: string;
+  targetDate: string;
+  /** Annualized forecast and realized volatility */
+  predicted: number;
+  actual: number;
+  accuracy: number;
+}
+
+class VolatilityService {
+  /**
+   * Fit the volatility models on the symbol's daily returns and forecast each horizon.
+   * Forecasts from stored history are saved as volatility predictions once a day;
+   * symbols without enough history are forecast from simulated sessions and not saved.
+   */
+  async getVolatilityOutlook(symbol: string): Promise<VolatilityOutlook> {
+    const annualization = PERIODS_PER_YEAR[marketSimulator.getProfile(symbol).assetClass];
+    const history = await this.getClosesForVolatility(symbol);
+
+    const source = history.closes.length > MIN_GARCH_RETURNS ? 'historical' : 'simulated';
+    const closes = source === 'historical'
+      ? history.closes
+      : marketSimulator.dailyBars(symbol, VOLATILITY_LOOKBACK).map(bar => bar.close);
+
+    const returns = logReturns(closes);
+    const model = GarchModel.autoFit(returns);
+    const modelVersion = await this.getActiveModelVersion();
+    const annualize = (volatility: number) => volatility * Math.sqrt(annualization);
+
+    const forecasts = VOLATILITY_HORIZONS_DAYS.map(horizonDays => {
+      const sessions = Math.max(1, Math.round(horizonDays * annualization / 365));
+      const volatility = model.horizonVolatility(sessions);
+      // Realized volatility over n sessions scatters around the forecast by about 1/sqrt(2n)
+      const halfWidth = INTERVAL_Z / Math.sqrt(2 * sessions);
+
+      return {
+        horizonDays,
+        sessions,
+        volatility: annualize(volatility),
+        lowerBound: annualize(volatility * Math.max(0, 1 - halfWidth)),
+        upperBound: annualize(volatility * (1 + halfWidth)),
+        confidence: Math.min(0.95, Math.max(0.5, 1 - 2 * halfWidth)),
+        targetDate: stepTimestamp('1d', history.latestDate ?? '', horizonDays)
+      };
+    });
+
+    const cone = volatilityCone(returns, CONE_WINDOWS).map(point => ({
+      window: point.window,
+      min: annualize(point.min),
+      p25: annualize(point.p25),
+      median: annualize(point.median),
+      p75: annualize(point.p75),
+      max: annualize(point.max),
+      current: annualize(point.current),
+      forecast: annualize(model.horizonVolatility(point.window))
+    }));
+
+    const outlook: VolatilityOutlook = {
+      symbol,
+      modelVersion,
+      variant: model.variant,
+      params: model.params,
+      persistence: model.persistence,
+      annualization,
+      forecasts,
+      cone,
+      source
+    };
+
+    if (source === 'historical' && history.symbolId) {
+      await this.storeForecasts(history.symbolId, outlook);
+    }
+
+    return outlook;
+  }
+
+  /**
+   * Recently settled volatility forecasts for a symbol, newest first
+   */
+  async getResolvedForecasts(symbol: string, limit: number = 10): Promise<ResolvedVolatilityForecast[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ai_predictions')
+        .select(`
+          time_horizon,
+          target_date,
+          predicted_value,
+          actual_value,
+          accuracy_score,
+          features_used,
+          market_symbols!inner(symbol)
+        `)
+        .eq('market_symbols.symbol', symbol)
+        .eq('prediction_type', 'volatility')
+        .not('actual_value', 'is', null)
+        .order('target_date', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const fallback = PERIODS_PER_YEAR[marketSimulator.getProfile(symbol).assetClass];
+      return (data || []).map(row => {
+        const annualization = Number(row.features_used?.annualization) || fallback;
+        return {
+          timeHorizon: row.time_horizon,
+          targetDate: row.target_date,
+          predicted: parseFloat(row.predicted_value) * Math.sqrt(annualization),
+          actual: parseFloat(row.actual_value) * Math.sqrt(annualization),
+          accuracy: parseFloat(row.accuracy_score ?? 0)
+        };
+      });
+    } catch (error) {
+      logger.warn('Could not load resolved volatility forecasts', error, 'Prediction');
+      return [];
+    }
+  }
+
+  private async getActiveModelVersion(): Promise<string> {
+    try {
+      const { data, error } = await supabase
+        .from('model_registry')
+        .select('model_version')
+        .eq('model_key', VOLATILITY_MODEL_KEY)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data?.model_version ?? DEFAULT_VOLATILITY_VERSION;
+    } catch (error) {
+      logger.warn('Could not read the active volatility model, using the default version', error, 'Prediction');
+      return DEFAULT_VOLATILITY_VERSION;
+    }
+  }
+
+  /**
+   * Daily closes for the symbol, oldest first
+   */
+  private async getClosesForVolatility(symbol: string): Promise<{ symbolId: string | null; closes: number[]; latestDate: string | null }> {
+    try {
+      const { data: symbolData } = await supabase
+        .from('market_symbols')
+        .select('id')
+        .eq('symbol', symbol)
+        .single();
+
+      if (!symbolData) return { symbolId: null, closes: [], latestDate: null };
+
+      const { data, error } = await supabase
+        .from('historical_data')
+        .select('date, close_price')
+        .eq('symbol_id', symbolData.id)
+        .order('date', { ascending: false })
+        .limit(VOLATILITY_LOOKBACK + 1);
+
+      if (error) throw error;
+
+      // Latest rows are fetched first; returns are taken oldest first
+      const rows = (data || []).reverse();
+      return {
+        symbolId: symbolData.id,
+        closes: rows.map(row => parseFloat(row.close_price)),
+        latestDate: rows.length > 0 ? rows[rows.length - 1].date : null
+      };
+    } catch (error) {
+      logger.warn('Could not fetch historical data for volatility', error, 'Prediction');
+      return { symbolId: null, closes: [], latestDate: null };
+    }
+  }
+
+  /**
+   * Save the horizon forecasts as volatility predictions, at most once a day per model
+   * version so reopening the chart does not stack duplicates for the resolver
+   */
+  private async storeForecasts(symbolId: string, outlook: VolatilityOutlook): Promise<void> {
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const { count, error: countError } = await supabase
+        .from('ai_predictions')
+        .select('id', { count: 'exact', head: true })
+        .eq('symbol_id', symbolId)
+        .eq('prediction_type', 'volatility')
+        .eq('model_version', outlook.modelVersion)
+        .gte('created_at', today);
+
+      if (countError) throw countError;
+      if (count && count > 0) return;
+
+      const perSession = Math.sqrt(outlook.annualization);
+      const rows = outlook.forecasts.map(forecast => ({
+        symbol_id: symbolId,
+        prediction_type: 'volatility' as const,
+        // Stored per session so the resolver can settle it without knowing the asset class
+        predicted_value: forecast.volatility / perSession,
+        confidence_score: forecast.confidence,
+        time_horizon: `${forecast.horizonDays} days`,
+        target_date: forecast.targetDate,
+        model_version: outlook.modelVersion,
+        features_used: {
+          variant: outlook.variant,
+          params: outlook.params,
+          persistence: outlook.persistence,
+          sessions: forecast.sessions,
+          annualization: outlook.annualization
+        }
+      }));
+
+      const { error } = await supabase
+        .from('ai_predictions')
+        .insert(rows);
+
+      if (error) throw error;
+
+      logger.info(`Stored ${rows.length} volatility predictions for ${outlook.symbol}`);
+    } catch (error) {
+      logger.warn('Could not store volatility predictions', error, 'Prediction');
+    }
+  }
+}
+
+export const volatilityService = new VolatilityService();
\ No newline at end of file
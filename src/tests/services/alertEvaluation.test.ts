@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MetricContext,
+  RuleNode,
+  computeMetric,
+  evaluateRule,
+  formatMetric,
+  getRequiredInputs,
+  isConditionMet,
+  isCoolingDown
+} from '../../../supabase/functions/_shared/alertEvaluation';
+import { AlertEvaluator } from '../../utils/alertEvaluator';
+
+const context = (overrides: Partial<MetricContext> = {}): MetricContext => ({
+  price: 110,
+  volume: 3000,
+  closes: Array.from({ length: 50 }, (_, i) => 100 + i * 0.1),
+  volumes: Array.from({ length: 20 }, () => 1000),
+  analysis: null,
+  indicators: null,
+  ...overrides
+});
+
+describe('isConditionMet', () => {
+  it('should need the previous value on the other side for crossings', () => {
+    expect(isConditionMet('above', 100, 101, null)).toBe(true);
+    expect(isConditionMet('crosses_above', 100, 101, null)).toBe(false);
+    expect(isConditionMet('crosses_above', 100, 101, 99)).toBe(true);
+    expect(isConditionMet('crosses_below', 100, 99, 101)).toBe(true);
+    expect(isConditionMet('crosses_below', 100, 99, 98)).toBe(false);
+  });
+});
+
+describe('isCoolingDown', () => {
+  it('should hold triggered alerts until the cooldown elapses', () => {
+    const alert = { is_triggered: true, triggered_at: '2025-09-02T10:00:00Z', cooldown_minutes: 30 };
+
+    expect(isCoolingDown(alert, new Date('2025-09-02T10:20:00Z'))).toBe(true);
+    expect(isCoolingDown(alert, new Date('2025-09-02T10:31:00Z'))).toBe(false);
+    expect(isCoolingDown({ ...alert, is_triggered: false }, new Date('2025-09-02T10:20:00Z'))).toBe(false);
+  });
+});
+
+describe('computeMetric', () => {
+  it('should compute volume as a multiple of its average and trend from stored analysis', () => {
+    expect(computeMetric('volume', context())).toBe(3);
+    expect(computeMetric('volume', context({ volume: null }))).toBeNull();
+    expect(computeMetric('trend', context({ analysis: { trend_direction: 'bearish', strength_score: '0.4' } }))).toBe(-0.4);
+  });
+
+  it('should need a full window for volatility', () => {
+    expect(computeMetric('volatility', context({ closes: [100, 101] }))).toBeNull();
+    expect(computeMetric('volatility', context())).toBeGreaterThan(0);
+  });
+});
+
+describe('evaluateRule and getRequiredInputs', () => {
+  const rule: RuleNode = {
+    operator: 'and',
+    conditions: [
+      { metric: 'price', operator: 'above', value: 100 },
+      { operator: 'or', conditions: [{ metric: 'rsi', operator: 'below', value: 30 }, { metric: 'volume_ratio', operator: 'above', value: 2 }] }
+    ]
+  };
+
+  it('should evaluate nested groups and treat missing indicators as not met', () => {
+    expect(evaluateRule(rule, context())).toBe(true);
+    expect(evaluateRule(rule, context({ volume: 1000 }))).toBe(false);
+    expect(evaluateRule(rule, context({ volume: 1000, indicators: { rsi: '25' } }))).toBe(true);
+  });
+
+  it('should list the inputs a rule reads', () => {
+    expect(getRequiredInputs({ alert_type: 'composite', rule })).toEqual(['price', 'indicators', 'volume']);
+    expect(getRequiredInputs({ alert_type: 'volatility' })).toEqual(['volatility']);
+  });
+});
+
+describe('formatMetric', () => {
+  it('should match the client formatting for every alert type', () => {
+    const cases: [Parameters<typeof AlertEvaluator.formatMetric>[0], number][] = [
+      ['price', 101.234], ['volume', 2.5], ['trend', -0.42], ['volatility', 31.27], ['composite', 1]
+    ];
+
+    cases.forEach(([type, value]) => {
+      expect(formatMetric(type, value)).toBe(AlertEvaluator.formatMetric(type, value));
+    });
+  });
+});
\ No newline at end of file
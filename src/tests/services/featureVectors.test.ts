@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FEATURE_WINDOW,
+  FeatureBar,
+  computeFeatureVectors,
+  dailySentiment,
+  featureVector
+} from '../../../supabase/functions/_shared/featureVectors';
+import { TechnicalIndicators } from '../../utils/technicalIndicators';
+import { SeededRandom } from '../../utils/marketSimulator';
+
+const buildBars = (count: number, seed: number): FeatureBar[] => {
+  const rng = new SeededRandom(seed);
+  const bars: FeatureBar[] = [];
+  let close = 100;
+  for (let t = 0; t < count; t++) {
+    close *= Math.exp(0.01 * rng.normal());
+    bars.push({
+      date: new Date(Date.UTC(2025, 0, 1 + t)).toISOString().split('T')[0],
+      high: close * 1.01,
+      low: close * 0.99,
+      close,
+      volume: 1000000 * (1 + 0.3 * rng.next())
+    });
+  }
+  return bars;
+};
+
+describe('featureVector', () => {
+  it('should match the technical indicators over its window', () => {
+    const bars = buildBars(FEATURE_WINDOW, 41);
+    const closes = bars.map(bar => bar.close);
+    const vector = featureVector(bars);
+
+    const rsi = TechnicalIndicators.calculateRSI(closes);
+    const { histogram } = TechnicalIndicators.calculateMACD(closes);
+    const sma20 = TechnicalIndicators.calculateSMA(closes, 20);
+    const atr = TechnicalIndicators.calculateATR(bars.map(bar => bar.high), bars.map(bar => bar.low), closes);
+
+    expect(vector.date).toBe(bars[bars.length - 1].date);
+    expect(vector.logReturn).toBeCloseTo(Math.log(closes[59] / closes[58]), 12);
+    expect(vector.rsi).toBeCloseTo(rsi[rsi.length - 1], 10);
+    expect(vector.macdHistogram).toBeCloseTo(histogram[histogram.length - 1], 10);
+    expect(vector.sma20Gap).toBeCloseTo(closes[59] / sma20[sma20.length - 1] - 1, 12);
+    expect(vector.atr).toBeCloseTo(atr[atr.length - 1], 10);
+    expect(vector.sentiment).toBeNull();
+  });
+
+  it('should refuse a window shorter than FEATURE_WINDOW', () => {
+    expect(() => featureVector(buildBars(FEATURE_WINDOW - 1, 42))).toThrow(/need 60 bars/);
+  });
+});
+
+describe('computeFeatureVectors', () => {
+  it('should give the same vectors incrementally as in a full rebuild', () => {
+    const bars = buildBars(120, 43);
+    const full = computeFeatureVectors(bars);
+
+    // Extend the store from day 100 with just the window the new days need
+    const since = bars[100].date;
+    const incremental = computeFeatureVectors(bars.slice(100 - FEATURE_WINDOW + 1), {}, since);
+
+    expect(full).toHaveLength(120 - FEATURE_WINDOW + 1);
+    expect(incremental).toEqual(full.filter(vector => vector.date >= since));
+  });
+
+  it('should attach the mean sentiment of the day', () => {
+    const bars = buildBars(FEATURE_WINDOW, 44);
+    const lastDay = bars[bars.length - 1].date;
+    const sentiment = dailySentiment([
+      { publishedAt: `${lastDay}T09:00:00Z`, score: 0.6 },
+      { publishedAt: `${lastDay}T15:30:00Z`, score: -0.2 },
+      { publishedAt: '2024-12-31T12:00:00Z', score: 1 }
+    ]);
+
+    expect(sentiment[lastDay]).toBeCloseTo(0.2, 12);
+    expect(computeFeatureVectors(bars, sentiment)[0].sentiment).toBeCloseTo(0.2, 12);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alphaVantageQuery,
+  findGaps,
+  isTradingDay,
+  nyseHolidays,
+  outputSize,
+  parseAlphaVantageSeries,
+  parseIntervals,
+  resumeFrom,
+  tradingDays,
+  unfillableDays
+} from '../../../supabase/functions/_shared/historicalBackfill';
+
+describe('nyseHolidays', () => {
+  it('should list the 2025 exchange holidays', () => {
+    expect(Array.from(nyseHolidays(2025)).sort()).toEqual([
+      '2025-01-01',
+      '2025-01-20',
+      '2025-02-17',
+      '2025-04-18',
+      '2025-05-26',
+      '2025-06-19',
+      '2025-07-04',
+      '2025-09-01',
+      '2025-11-27',
+      '2025-12-25'
+    ]);
+  });
+
+  it('should observe weekend holidays on the nearest weekday', () => {
+    // July 4th 2026 is a Saturday, Christmas 2022 a Sunday
+    expect(nyseHolidays(2026).has('2026-07-03')).toBe(true);
+    expect(nyseHolidays(2022).has('2022-12-26')).toBe(true);
+    // New Year's Day 2022 fell on a Saturday and the previous Friday still traded
+    expect(nyseHolidays(2022).has('2021-12-31')).toBe(false);
+  });
+});
+
+describe('tradingDays', () => {
+  it('should skip weekends and holidays for equities only', () => {
+    expect(tradingDays('2025-07-03', '2025-07-08', 'equity')).toEqual(['2025-07-03', '2025-07-07', '2025-07-08']);
+    expect(tradingDays('2025-07-03', '2025-07-08', 'continuous')).toHaveLength(6);
+    expect(isTradingDay('2025-04-18', 'equity')).toBe(false);
+  });
+});
+
+describe('findGaps', () => {
+  it('should group missing trading days into runs', () => {
+    const stored = ['2025-09-02', '2025-09-03', '2025-09-08', '2025-09-12'];
+
+    expect(findGaps(stored, '2025-09-02', '2025-09-12', 'equity')).toEqual([
+      { from: '2025-09-04', to: '2025-09-05', sessions: 2 },
+      { from: '2025-09-09', to: '2025-09-11', sessions: 3 }
+    ]);
+  });
+
+  it('should not report weekends or holidays as gaps', () => {
+    // Labor Day 2025 is Monday September 1st
+    expect(findGaps(['2025-08-29', '2025-09-02'], '2025-08-29', '2025-09-02', 'equity')).toEqual([]);
+  });
+});
+
+describe('unfillableDays', () => {
+  it('should list gap sessions up to the provider\'s latest bar only', () => {
+    const gaps = [
+      { from: '2025-09-04', to: '2025-09-05', sessions: 2 },
+      { from: '2025-09-10', to: '2025-09-12', sessions: 3 }
+    ];
+
+    expect(unfillableDays(gaps, '2025-09-11', 'equity')).toEqual(['2025-09-04', '2025-09-05', '2025-09-10', '2025-09-11']);
+    expect(unfillableDays(gaps, '2025-09-03', 'equity')).toEqual([]);
+  });
+});
+
+describe('parseIntervals', () => {
+  it('should default to daily and reject unsupported intervals', () => {
+    expect(parseIntervals(undefined)).toEqual(['daily']);
+    expect(parseIntervals([])).toEqual(['daily']);
+    expect(parseIntervals(['weekly', 'daily', 'weekly'])).toEqual(['weekly', 'daily']);
+    expect(parseIntervals(['hourly'])).toBeNull();
+    expect(parseIntervals(['daily', 1])).toBeNull();
+    expect(parseIntervals('daily')).toBeNull();
+  });
+});
+
+describe('resumeFrom and outputSize', () => {
+  it('should resume from the latest stored day and size the request to reach it', () => {
+    expect(resumeFrom('2025-09-10', '2025-09-15')).toBe('2025-09-10');
+    expect(resumeFrom(null, '2025-09-15')).toBe('2023-09-16');
+    expect(outputSize('2025-09-10', '2025-09-15', 'equity')).toBe('compact');
+    expect(outputSize('2023-09-16', '2025-09-15', 'equity')).toBe('full');
+  });
+
+  it('should query digital currency series for continuous markets', () => {
+    expect(alphaVantageQuery('BTC', 'continuous', 'weekly', 'full')).toEqual({
+      function: 'DIGITAL_CURRENCY_WEEKLY', symbol: 'BTC', market: 'USD'
+    });
+    expect(alphaVantageQuery('AAPL', 'equity', 'daily', 'compact')).toEqual({
+      function: 'TIME_SERIES_DAILY', symbol: 'AAPL', outputsize: 'compact'
+    });
+  });
+});
+
+describe('parseAlphaVantageSeries', () => {
+  it('should parse stock series oldest first and drop invalid bars', () => {
+    const bars = parseAlphaVantageSeries({
+      'Meta Data': {},
+      'Time Series (Daily)': {
+        '2025-09-03': { '1. open': '101', '2. high': '103', '3. low': '100', '4. close': '102', '5. volume': '1200' },
+        '2025-09-02': { '1. open': '99', '2. high': '101', '3. low': '98', '4. close': '100', '5. volume': '1000' },
+        '2025-09-01': { '1. open': '0', '2. high': '0', '3. low': '0', '4. close': '0', '5. volume': '0' }
+      }
+    });
+
+    expect(bars).toEqual([
+      { date: '2025-09-02', open: 99, high: 101, low: 98, close: 100, volume: 1000 },
+      { date: '2025-09-03', open: 101, high: 103, low: 100, close: 102, volume: 1200 }
+    ]);
+  });
+
+  it('should read digital currency fields by their number', () => {
+    const bars = parseAlphaVantageSeries({
+      'Time Series (Digital Currency Daily)': {
+        '2025-09-02': {
+          '1a. open (USD)': '60000',
+          '2a. high (USD)': '61000',
+          '3a. low (USD)': '59000',
+          '4a. close (USD)': '60500',
+          '5. volume': '1234.5'
+        }
+      }
+    });
+
+    expect(bars[0]).toEqual({ date: '2025-09-02', open: 60000, high: 61000, low: 59000, close: 60500, volume: 1235 });
+  });
+
+  it('should throw on errors and rate-limit notices', () => {
+    expect(() => parseAlphaVantageSeries({ 'Error Message': 'Invalid API call' })).toThrow('Invalid API call');
+    expect(() => parseAlphaVantageSeries({
+      Note: 'Thank you for using Alpha Vantage! Our standard API call frequency is 5 calls per minute.'
+    })).toThrow('rate limit');
+  });
+});
\ No newline at end of file
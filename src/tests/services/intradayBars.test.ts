@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateTicks, bucketStart } from '../../../supabase/functions/_shared/intradayBars';
+
+describe('bucketStart', () => {
+  it('should align timestamps to UTC bucket boundaries', () => {
+    expect(bucketStart('2025-09-02T14:29:59.999Z', '15m')).toBe('2025-09-02T14:15:00.000Z');
+    expect(bucketStart('2025-09-02T14:30:00Z', '15m')).toBe('2025-09-02T14:30:00.000Z');
+    expect(bucketStart('2025-09-02T14:59:00+00:00', '1h')).toBe('2025-09-02T14:00:00.000Z');
+  });
+});
+
+describe('aggregateTicks', () => {
+  const ticks = [
+    { timestamp: '2025-09-02T14:05:00Z', price: 100, volume: 10 },
+    { timestamp: '2025-09-02T14:20:00Z', price: 103, volume: 5 },
+    { timestamp: '2025-09-02T14:01:00Z', price: 99, volume: 20 },
+    { timestamp: '2025-09-02T14:10:00Z', price: 101, volume: 15 },
+    { timestamp: '2025-09-02T15:02:00Z', price: 104, volume: 1 }
+  ];
+
+  it('should build OHLCV bars in tick time order', () => {
+    const bars = aggregateTicks(ticks, '15m');
+
+    expect(bars.map(bar => bar.bucketStart)).toEqual([
+      '2025-09-02T14:00:00.000Z',
+      '2025-09-02T14:15:00.000Z',
+      '2025-09-02T15:00:00.000Z'
+    ]);
+    expect(bars[0]).toEqual({
+      interval: '15m',
+      bucketStart: '2025-09-02T14:00:00.000Z',
+      open: 99,
+      high: 101,
+      low: 99,
+      close: 101,
+      volume: 45,
+      tickCount: 3
+    });
+  });
+
+  it('should roll the same ticks into hourly bars', () => {
+    const bars = aggregateTicks(ticks, '1h');
+
+    expect(bars).toHaveLength(2);
+    expect(bars[0]).toMatchObject({ open: 99, high: 103, low: 99, close: 103, volume: 50, tickCount: 4 });
+  });
+
+  it('should skip ticks without a usable price or time', () => {
+    const bars = aggregateTicks([
+      { timestamp: 'not a time', price: 100, volume: 1 },
+      { timestamp: '2025-09-02T14:05:00Z', price: 0, volume: 1 }
+    ], '15m');
+
+    expect(bars).toEqual([]);
+  });
+});
\ No newline at end of file
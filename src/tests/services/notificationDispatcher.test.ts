@@ -0,0 +1,226 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  NotificationDispatcher,
+  AlertNotification,
+  DeliveryAttempt,
+  MailTransport,
+  createEmailChannel,
+  createWebhookChannel,
+  createInAppChannel,
+  isPrivateAddress,
+  resolvePreferences,
+  signPayload,
+  webhookUrlError
+} from '../../../supabase/functions/_shared/notifications';
+
+const notification: AlertNotification = {
+  alertId: 'alert-1',
+  userId: 'user-1',
+  symbol: 'AAPL',
+  message: 'AAPL: Alert when price falls below $220.00 (now 219.50)',
+  severity: 'high',
+  observedValue: 219.5,
+  triggeredAt: '2025-09-05T14:30:00Z'
+};
+
+const noSleep = () => Promise.resolve();
+
+// In-memory stand-in for an SMTP transport
+const createMailbox = (failures: number = 0) => {
+  const sent: { to: string; subject: string; text: string }[] = [];
+  let remainingFailures = failures;
+  const transport: MailTransport = {
+    async sendMail(message) {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        throw new Error('SMTP connection refused');
+      }
+      sent.push(message);
+    }
+  };
+  return { sent, transport };
+};
+
+describe('NotificationDispatcher', () => {
+  // Webhook stand-in that records requests and answers with the next queued status
+  const webhookUrl = 'https://hooks.example.com/alerts';
+  const received: { headers: Record<string, string>; body: string; init: RequestInit }[] = [];
+  const statuses: number[] = [];
+  const webhookFetch = (async (_url: string, init: RequestInit) => {
+    received.push({ headers: init.headers as Record<string, string>, body: init.body as string, init });
+    return new Response(null, { status: statuses.shift() ?? 200 });
+  }) as typeof fetch;
+
+  it('should deliver only to channels the user enabled', async () => {
+    const mailbox = createMailbox();
+    const inbox: unknown[] = [];
+    const dispatcher = new NotificationDispatcher([
+      createEmailChannel(mailbox.transport, 'alerts@test.local'),
+      createInAppChannel(async row => { inbox.push(row); })
+    ], { sleep: noSleep });
+
+    const preferences = resolvePreferences({
+      notifications: { channels: { email: { enabled: true } } }
+    });
+    const results = await dispatcher.dispatch(notification, preferences, { userId: 'user-1', email: 'trader@test.local' });
+
+    expect(results.map(result => result.channel).sort()).toEqual(['email', 'in_app']);
+    expect(mailbox.sent[0].to).toBe('trader@test.local');
+    expect(mailbox.sent[0].subject).toContain('AAPL');
+    expect(inbox).toHaveLength(1);
+  });
+
+  it('should skip alerts below the minimum severity', async () => {
+    const inbox: unknown[] = [];
+    const dispatcher = new NotificationDispatcher([createInAppChannel(async row => { inbox.push(row); })]);
+
+    const preferences = resolvePreferences({ notifications: { minSeverity: 'high' } });
+    const results = await dispatcher.dispatch({ ...notification, severity: 'medium' }, preferences, { userId: 'user-1' });
+
+    expect(results).toEqual([]);
+    expect(inbox).toHaveLength(0);
+  });
+
+  it('should retry with exponential backoff and log every attempt', async () => {
+    const mailbox = createMailbox(2);
+    const delays: number[] = [];
+    const attempts: DeliveryAttempt[] = [];
+    const dispatcher = new NotificationDispatcher([createEmailChannel(mailbox.transport, 'alerts@test.local')], {
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      sleep: async ms => { delays.push(ms); },
+      onAttempt: attempt => { attempts.push(attempt); }
+    });
+
+    const preferences = resolvePreferences({
+      notifications: { channels: { email: { enabled: true }, in_app: { enabled: false } } }
+    });
+    const [result] = await dispatcher.dispatch(notification, preferences, { userId: 'user-1', email: 'trader@test.local' });
+
+    expect(result).toEqual({ channel: 'email', delivered: true, attempts: 3 });
+    expect(delays).toEqual([100, 200]);
+    expect(attempts.map(attempt => attempt.status)).toEqual(['failed', 'failed', 'sent']);
+    expect(attempts[0].error).toBe('SMTP connection refused');
+  });
+
+  it('should report failure once attempts are exhausted', async () => {
+    const dispatcher = new NotificationDispatcher([createEmailChannel(createMailbox(5).transport, 'alerts@test.local')], {
+      maxAttempts: 2,
+      sleep: noSleep
+    });
+
+    const preferences = resolvePreferences({
+      notifications: { channels: { email: { enabled: true }, in_app: { enabled: false } } }
+    });
+    const [result] = await dispatcher.dispatch(notification, preferences, { userId: 'user-1', email: 'trader@test.local' });
+
+    expect(result.delivered).toBe(false);
+    expect(result.attempts).toBe(2);
+    expect(result.error).toBe('SMTP connection refused');
+  });
+
+  it('should POST a signed payload to the webhook', async () => {
+    received.length = 0;
+    const dispatcher = new NotificationDispatcher([createWebhookChannel(webhookFetch)], { sleep: noSleep });
+
+    const preferences = resolvePreferences({
+      notifications: {
+        channels: { webhook: { enabled: true, url: webhookUrl, secret: 'shh' }, in_app: { enabled: false } }
+      }
+    });
+    const [result] = await dispatcher.dispatch(notification, preferences, { userId: 'user-1' });
+
+    expect(result.delivered).toBe(true);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    const expected = await signPayload('shh', headers['X-Alert-Timestamp'], body);
+    expect(headers['X-Alert-Signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body).data.alertId).toBe('alert-1');
+  });
+
+  it('should retry webhooks that answer with an error status', async () => {
+    received.length = 0;
+    statuses.push(503);
+    const dispatcher = new NotificationDispatcher([createWebhookChannel(webhookFetch)], { sleep: noSleep });
+
+    const preferences = resolvePreferences({
+      notifications: { channels: { webhook: { enabled: true, url: webhookUrl }, in_app: { enabled: false } } }
+    });
+    const [result] = await dispatcher.dispatch(notification, preferences, { userId: 'user-1' });
+
+    expect(result).toEqual({ channel: 'webhook', delivered: true, attempts: 2 });
+    expect(received[0].headers['X-Alert-Signature']).toBeUndefined();
+    expect(received[0].init.redirect).toBe('manual');
+  });
+
+  it('should give up on webhooks that do not answer within the timeout', async () => {
+    const hanging = ((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('Webhook timed out')));
+    })) as typeof fetch;
+    const dispatcher = new NotificationDispatcher([createWebhookChannel(hanging, { timeoutMs: 20 })], {
+      sleep: noSleep,
+      maxAttempts: 1
+    });
+
+    const preferences = resolvePreferences({
+      notifications: { channels: { webhook: { enabled: true, url: webhookUrl }, in_app: { enabled: false } } }
+    });
+    const [result] = await dispatcher.dispatch(notification, preferences, { userId: 'user-1' });
+
+    expect(result).toEqual({ channel: 'webhook', delivered: false, attempts: 1, error: 'Webhook timed out' });
+  });
+
+  it('should refuse webhook hosts that are or resolve to private addresses', async () => {
+    received.length = 0;
+    const resolveHost = async (hostname: string) => (hostname === 'internal.example.com' ? ['10.0.0.5'] : ['93.184.216.34']);
+    const dispatcher = new NotificationDispatcher([createWebhookChannel(webhookFetch, { resolveHost })], {
+      sleep: noSleep,
+      maxAttempts: 1
+    });
+
+    const send = (url: string) => dispatcher.dispatch(
+      notification,
+      resolvePreferences({ notifications: { channels: { webhook: { enabled: true, url }, in_app: { enabled: false } } } }),
+      { userId: 'user-1' }
+    );
+
+    expect((await send('https://internal.example.com/hook'))[0].error).toBe('Webhook URL must point to a public host');
+    expect((await send('http://hooks.example.com/hook'))[0].error).toBe('Webhook URL must use https');
+    expect(received).toHaveLength(0);
+    expect((await send(webhookUrl))[0].delivered).toBe(true);
+  });
+});
+
+describe('webhookUrlError', () => {
+  it('should accept https URLs to public hosts only', () => {
+    expect(webhookUrlError('https://hooks.example.com/alerts')).toBeNull();
+    expect(webhookUrlError('ftp://hooks.example.com')).toBe('Webhook URL must use https');
+    expect(webhookUrlError('not a url')).toBe('Webhook URL is not a valid URL');
+
+    ['https://localhost/hook', 'https://127.0.0.1/hook', 'https://2130706433/hook', 'https://[::1]/hook',
+      'https://169.254.169.254/latest', 'https://192.168.1.10', 'https://[::ffff:10.0.0.1]/hook', 'https://[fe80::1]/hook']
+      .forEach(url => expect(webhookUrlError(url)).toBe('Webhook URL must point to a public host'));
+  });
+
+  it('should classify addresses by range', () => {
+    expect(isPrivateAddress('172.16.0.1')).toBe(true);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('100.64.0.1')).toBe(true);
+    expect(isPrivateAddress('fd12:3456::1')).toBe(true);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+  });
+});
+
+describe('resolvePreferences', () => {
+  it('should default to the in-app inbox only', () => {
+    const preferences = resolvePreferences({});
+
+    expect(preferences.minSeverity).toBe('low');
+    expect(preferences.channels.in_app.enabled).toBe(true);
+    expect(preferences.channels.email.enabled).toBe(false);
+    expect(preferences.channels.webhook.enabled).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,335 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DailyClose,
+  IntradayClose,
+  ResolvedForecast,
+  accuracyScore,
+  buildScorecards,
+  isIntradayHorizon,
+  isUnresolvable,
+  parseHorizonDays,
+  resolveIntradayPrediction,
+  resolvePrediction,
+  resolveTrendPrediction,
+  resolveVolatilityPrediction,
+  scoreClassifications,
+  scoreForecasts,
+  summarizeClassifiers,
+  summarizeModels,
+  trendCall
+} from '../../../supabase/functions/_shared/predictionScoring';
+
+// Mon 1 Sep to Fri 5 Sep, then Mon 8 Sep
+const closes: DailyClose[] = [
+  { date: '2025-09-01', close: 100 },
+  { date: '2025-09-02', close: 102 },
+  { date: '2025-09-03', close: 101 },
+  { date: '2025-09-04', close: 104 },
+  { date: '2025-09-05', close: 105 },
+  { date: '2025-09-08', close: 103 }
+];
+
+const forecast = (overrides: Partial<ResolvedForecast>): ResolvedForecast => ({
+  symbolId: 'sym-a',
+  modelVersion: 'v1.0',
+  horizonDays: 1,
+  predicted: 100,
+  actual: 100,
+  baseValue: null,
+  targetDate: '2025-09-05T00:00:00Z',
+  ...overrides
+});
+
+describe('parseHorizonDays', () => {
+  it('should read stored horizon strings', () => {
+    expect(parseHorizonDays('1 day')).toBe(1);
+    expect(parseHorizonDays('7 days')).toBe(7);
+    expect(parseHorizonDays('2 weeks')).toBe(14);
+    expect(parseHorizonDays('5d')).toBe(5);
+    expect(parseHorizonDays('4 hours')).toBe(1);
+    expect(parseHorizonDays('45 minutes')).toBe(1);
+  });
+
+  it('should reject unreadable horizons', () => {
+    expect(parseHorizonDays('soon')).toBeNull();
+    expect(parseHorizonDays('3 fortnights')).toBeNull();
+  });
+});
+
+describe('resolvePrediction', () => {
+  it('should settle on the target close and take the base from the day before', () => {
+    const resolution = resolvePrediction({
+      id: 'p1',
+      symbolId: 'sym-a',
+      predictedValue: 103,
+      createdAt: '2025-09-02T15:00:00Z',
+      targetDate: '2025-09-04T00:00:00Z'
+    }, closes);
+
+    expect(resolution).toEqual({
+      id: 'p1',
+      actualValue: 104,
+      accuracyScore: accuracyScore(103, 104),
+      baseValue: 100
+    });
+  });
+
+  it('should settle weekend targets on the last session before them', () => {
+    const resolution = resolvePrediction({
+      id: 'p2',
+      symbolId: 'sym-a',
+      predictedValue: 104,
+      createdAt: '2025-09-03T15:00:00Z',
+      targetDate: '2025-09-07T00:00:00Z'
+    }, closes);
+
+    expect(resolution?.actualValue).toBe(105);
+  });
+
+  it('should wait until a close after the prediction exists', () => {
+    const resolution = resolvePrediction({
+      id: 'p3',
+      symbolId: 'sym-a',
+      predictedValue: 106,
+      createdAt: '2025-09-08T15:00:00Z',
+      targetDate: '2025-09-09T00:00:00Z'
+    }, closes);
+
+    expect(resolution).toBeNull();
+  });
+});
+
+describe('isUnresolvable', () => {
+  it('should give up on predictions without bars once the grace period has passed', () => {
+    const prediction = {
+      id: 'p4',
+      symbolId: 'sym-without-history',
+      predictedValue: 50,
+      createdAt: '2025-09-01T15:00:00Z',
+      targetDate: '2025-09-02T00:00:00Z'
+    };
+
+    expect(resolvePrediction(prediction, [])).toBeNull();
+    expect(isUnresolvable(prediction, new Date('2025-09-05T00:00:00Z'))).toBe(false);
+    expect(isUnresolvable(prediction, new Date('2025-09-10T00:00:00Z'))).toBe(true);
+  });
+});
+
+describe('isIntradayHorizon', () => {
+  it('should flag horizons shorter than a day', () => {
+    expect(isIntradayHorizon('15 minutes')).toBe(true);
+    expect(isIntradayHorizon('8 hours')).toBe(true);
+    expect(isIntradayHorizon('24 hours')).toBe(false);
+    expect(isIntradayHorizon('1 days')).toBe(false);
+    expect(isIntradayHorizon('2 weeks')).toBe(false);
+    expect(isIntradayHorizon('soon')).toBe(false);
+  });
+});
+
+describe('resolveIntradayPrediction', () => {
+  // 15-minute bars from 14:00 to 15:00
+  const bars: IntradayClose[] = [
+    { start: '2025-09-02T14:00:00.000Z', close: 100 },
+    { start: '2025-09-02T14:15:00.000Z', close: 101 },
+    { start: '2025-09-02T14:30:00.000Z', close: 99 },
+    { start: '2025-09-02T14:45:00.000Z', close: 102 }
+  ];
+
+  it('should settle on the bar ending at the target and take the base from the bar in progress', () => {
+    const resolution = resolveIntradayPrediction({
+      id: 'i1',
+      symbolId: 'sym-a',
+      predictedValue: 100,
+      createdAt: '2025-09-02T14:20:00Z',
+      targetDate: '2025-09-02T14:45:00Z'
+    }, bars);
+
+    expect(resolution).toEqual({
+      id: 'i1',
+      actualValue: 99,
+      accuracyScore: accuracyScore(100, 99),
+      baseValue: 101
+    });
+  });
+
+  it('should wait for a bar that started after the prediction', () => {
+    const resolution = resolveIntradayPrediction({
+      id: 'i2',
+      symbolId: 'sym-a',
+      predictedValue: 102,
+      createdAt: '2025-09-02T14:50:00Z',
+      targetDate: '2025-09-02T15:15:00Z'
+    }, bars);
+
+    expect(resolution).toBeNull();
+  });
+});
+
+describe('resolveVolatilityPrediction', () => {
+  it('should compare against the realized volatility from the base close to the target', () => {
+    // Made on Wed 3 Sep: base is the 2 Sep close, target settles on Fri 5 Sep
+    const resolution = resolveVolatilityPrediction({
+      id: 'v1',
+      symbolId: 'sym-a',
+      predictedValue: 0.02,
+      createdAt: '2025-09-03T12:00:00Z',
+      targetDate: '2025-09-06T00:00:00Z'
+    }, closes);
+
+    const returns = [Math.log(101 / 102), Math.log(104 / 101), Math.log(105 / 104)];
+    const realized = Math.sqrt(returns.reduce((sum, r) => sum + r * r, 0) / returns.length);
+
+    expect(resolution?.actualValue).toBeCloseTo(realized, 12);
+    expect(resolution?.accuracyScore).toBeCloseTo(accuracyScore(0.02, realized), 12);
+    expect(resolution?.baseValue).toBeNull();
+  });
+
+  it('should wait for a close after the prediction and need a base close', () => {
+    expect(resolveVolatilityPrediction({
+      id: 'v2',
+      symbolId: 'sym-a',
+      predictedValue: 0.02,
+      createdAt: '2025-09-08T12:00:00Z',
+      targetDate: '2025-09-15T00:00:00Z'
+    }, closes)).toBeNull();
+
+    expect(resolveVolatilityPrediction({
+      id: 'v3',
+      symbolId: 'sym-a',
+      predictedValue: 0.02,
+      createdAt: '2025-09-01T12:00:00Z',
+      targetDate: '2025-09-05T00:00:00Z'
+    }, closes)).toBeNull();
+  });
+});
+
+describe('scoreForecasts', () => {
+  it('should compute MAPE, RMSE and directional accuracy', () => {
+    const score = scoreForecasts([
+      forecast({ predicted: 110, actual: 100, baseValue: 95 }), // called up, went up
+      forecast({ predicted: 90, actual: 100, baseValue: 95 }), // called down, went up
+      forecast({ predicted: 102, actual: 100, baseValue: null }) // no base, no direction
+    ]);
+
+    expect(score.sampleSize).toBe(3);
+    expect(score.mape).toBeCloseTo((0.1 + 0.1 + 0.02) / 3, 10);
+    expect(score.rmse).toBeCloseTo(Math.sqrt((100 + 100 + 4) / 3), 10);
+    expect(score.directionalAccuracy).toBe(0.5);
+    expect(score.meanAccuracy).toBeCloseTo((0.9 + 0.9 + 0.98) / 3, 10);
+  });
+
+  it('should leave direction unset without any base', () => {
+    expect(scoreForecasts([forecast({})]).directionalAccuracy).toBeNull();
+    expect(scoreForecasts([]).sampleSize).toBe(0);
+  });
+});
+
+describe('buildScorecards', () => {
+  const asOf = new Date('2025-09-30T00:00:00Z');
+
+  it('should score each symbol and horizon plus a roll-up across symbols', () => {
+    const scorecards = buildScorecards([
+      forecast({ symbolId: 'sym-a', predicted: 110 }),
+      forecast({ symbolId: 'sym-b', predicted: 95 }),
+      forecast({ symbolId: 'sym-a', horizonDays: 5, predicted: 100 })
+    ], asOf, [30]);
+
+    expect(scorecards).toHaveLength(5);
+
+    const rollUp = scorecards.find(card => card.symbolId === null && card.horizonDays === 1);
+    expect(rollUp?.sampleSize).toBe(2);
+    expect(rollUp?.mape).toBeCloseTo(0.075, 10);
+    expect(rollUp?.windowDays).toBe(30);
+    expect(rollUp?.computedAt).toBe(asOf.toISOString());
+
+    const symbolA = scorecards.find(card => card.symbolId === 'sym-a' && card.horizonDays === 1);
+    expect(symbolA?.mape).toBeCloseTo(0.1, 10);
+  });
+
+  it('should only count targets inside each rolling window', () => {
+    const scorecards = buildScorecards([
+      forecast({ targetDate: '2025-09-20T00:00:00Z' }),
+      forecast({ targetDate: '2025-07-15T00:00:00Z' }),
+      forecast({ targetDate: '2025-10-02T00:00:00Z' }) // not due yet
+    ], asOf, [30, 90]);
+
+    const rollUps = scorecards.filter(card => card.symbolId === null);
+    expect(rollUps.find(card => card.windowDays === 30)?.sampleSize).toBe(1);
+    expect(rollUps.find(card => card.windowDays === 90)?.sampleSize).toBe(2);
+  });
+});
+
+describe('summarizeModels', () => {
+  it('should score each model across symbols and horizons within the window', () => {
+    const summaries = summarizeModels([
+      forecast({ modelVersion: 'lstm-v1.0', symbolId: 'sym-a', predicted: 110 }),
+      forecast({ modelVersion: 'lstm-v1.0', symbolId: 'sym-b', horizonDays: 5, predicted: 90 }),
+      forecast({ modelVersion: 'arima-v1.0', predicted: 101 }),
+      forecast({ modelVersion: 'arima-v1.0', targetDate: '2025-06-01T00:00:00Z' })
+    ], new Date('2025-09-30T00:00:00Z'), 30);
+
+    expect(summaries.get('lstm-v1.0')?.sampleSize).toBe(2);
+    expect(summaries.get('lstm-v1.0')?.mape).toBeCloseTo(0.1, 10);
+    expect(summaries.get('arima-v1.0')?.sampleSize).toBe(1);
+  });
+});
+
+describe('resolveTrendPrediction', () => {
+  it('should settle on the realized direction from the base close', () => {
+    // Base is the 2 Sep close (102), target settles on the 5 Sep close (105)
+    const pending = {
+      id: 't1',
+      symbolId: 'sym-a',
+      predictedValue: 1,
+      createdAt: '2025-09-03T12:00:00Z',
+      targetDate: '2025-09-06T00:00:00Z'
+    };
+
+    expect(resolveTrendPrediction(pending, closes, 0.01)).toEqual({
+      id: 't1',
+      actualValue: 1,
+      accuracyScore: 1,
+      baseValue: 102
+    });
+    // A wider flat band turns the same move into a flat outcome
+    expect(resolveTrendPrediction(pending, closes, 0.05)?.actualValue).toBe(0);
+    expect(resolveTrendPrediction(pending, closes, 0.05)?.accuracyScore).toBe(0);
+  });
+
+  it('should call moves inside the threshold flat', () => {
+    expect(trendCall(0.004, 0.005)).toBe(0);
+    expect(trendCall(-0.02, 0.005)).toBe(-1);
+  });
+});
+
+describe('scoreClassifications', () => {
+  const call = (predicted: number, actual: number, overrides: Partial<{ modelVersion: string; targetDate: string }> = {}) => ({
+    modelVersion: 'trend-v1.0',
+    predicted,
+    actual,
+    targetDate: '2025-09-20T00:00:00Z',
+    ...overrides
+  });
+
+  it('should macro-average precision, recall and F1 over the directions seen', () => {
+    const score = scoreClassifications([call(1, 1), call(1, -1), call(-1, -1), call(0, 1)]);
+
+    // up: precision 1/2, recall 1/2; down: precision 1, recall 1/2; flat: precision 0, recall 0
+    expect(score.sampleSize).toBe(4);
+    expect(score.accuracy).toBeCloseTo(0.5, 10);
+    expect(score.precision).toBeCloseTo((0.5 + 1 + 0) / 3, 10);
+    expect(score.recall).toBeCloseTo((0.5 + 0.5 + 0) / 3, 10);
+    expect(score.f1Score).toBeCloseTo((0.5 + 2 / 3 + 0) / 3, 10);
+  });
+
+  it('should summarize each trend model within the window', () => {
+    const summaries = summarizeClassifiers([
+      call(1, 1),
+      call(-1, 1),
+      call(1, 1, { targetDate: '2025-06-01T00:00:00Z' })
+    ], new Date('2025-09-30T00:00:00Z'), 30);
+
+    expect(summaries.get('trend-v1.0')?.sampleSize).toBe(2);
+    expect(summaries.get('trend-v1.0')?.accuracy).toBeCloseTo(0.5, 10);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { AlertEvaluator, AlertState } from '../../utils/alertEvaluator';
+import { HistoricalDataPoint } from '../../types';
+
+const armed = (previousValue: number | null): AlertState => ({
+  previousValue,
+  isTriggered: false,
+  triggeredAt: null,
+  cooldownMinutes: 60
+});
+
+const buildBars = (closes: number[], volume: number = 1000): HistoricalDataPoint[] =>
+  closes.map((close, index) => ({
+    date: new Date(Date.UTC(2025, 0, 1 + index)).toISOString().split('T')[0],
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume
+  }));
+
+describe('AlertEvaluator', () => {
+  describe('isConditionMet', () => {
+    it('should evaluate level conditions without history', () => {
+      expect(AlertEvaluator.isConditionMet('above', 100, 101, null)).toBe(true);
+      expect(AlertEvaluator.isConditionMet('below', 100, 101, null)).toBe(false);
+    });
+
+    it('should only report crossings when the previous value was on the other side', () => {
+      expect(AlertEvaluator.isConditionMet('crosses_above', 100, 101, 99)).toBe(true);
+      expect(AlertEvaluator.isConditionMet('crosses_above', 100, 102, 101)).toBe(false);
+      expect(AlertEvaluator.isConditionMet('crosses_below', 100, 99, 100)).toBe(true);
+      expect(AlertEvaluator.isConditionMet('crosses_below', 100, 98, 99)).toBe(false);
+    });
+
+    it('should not report a crossing on the first observation', () => {
+      expect(AlertEvaluator.isConditionMet('crosses_above', 100, 150, null)).toBe(false);
+      expect(AlertEvaluator.isConditionMet('crosses_below', 100, 50, null)).toBe(false);
+    });
+  });
+
+  describe('evaluate', () => {
+    const now = new Date('2025-09-03T12:00:00Z');
+
+    it('should trigger an armed alert when the condition is met', () => {
+      const result = AlertEvaluator.evaluate('crosses_above', 100, 101, armed(99), now);
+
+      expect(result.shouldTrigger).toBe(true);
+      expect(result.rearmed).toBe(false);
+    });
+
+    it('should suppress firing during the cooldown', () => {
+      const result = AlertEvaluator.evaluate('above', 100, 105, {
+        previousValue: 104,
+        isTriggered: true,
+        triggeredAt: '2025-09-03T11:30:00Z',
+        cooldownMinutes: 60
+      }, now);
+
+      expect(result.conditionMet).toBe(true);
+      expect(result.shouldTrigger).toBe(false);
+      expect(result.rearmed).toBe(false);
+    });
+
+    it('should re-arm once the cooldown has elapsed', () => {
+      const state: AlertState = {
+        previousValue: 99,
+        isTriggered: true,
+        triggeredAt: '2025-09-03T10:00:00Z',
+        cooldownMinutes: 60
+      };
+
+      const quiet = AlertEvaluator.evaluate('crosses_above', 100, 98, state, now);
+      expect(quiet.rearmed).toBe(true);
+      expect(quiet.shouldTrigger).toBe(false);
+
+      const crossed = AlertEvaluator.evaluate('crosses_above', 100, 101, state, now);
+      expect(crossed.shouldTrigger).toBe(true);
+    });
+  });
+
+  describe('computeMetric', () => {
+    it('should use the latest price for price alerts', () => {
+      expect(AlertEvaluator.computeMetric('price', { price: 123, history: [] })).toBe(123);
+    });
+
+    it('should express volume as a multiple of the rolling average', () => {
+      const context = { price: 100, volume: 3000, history: buildBars(Array(20).fill(100), 1000) };
+      expect(AlertEvaluator.computeMetric('volume', context)).toBeCloseTo(3, 6);
+    });
+
+    it('should score the trend from stored analysis when available', () => {
+      const context = {
+        price: 100,
+        history: [],
+        analysis: { trendDirection: 'bearish' as const, strength: 0.6 }
+      };
+      expect(AlertEvaluator.computeMetric('trend', context)).toBeCloseTo(-0.6, 6);
+    });
+
+    it('should fall back to the moving average spread for trend', () => {
+      const rising = buildBars(Array.from({ length: 60 }, (_, i) => 100 + i));
+      expect(AlertEvaluator.computeMetric('trend', { price: 160, history: rising })).toBeGreaterThan(0);
+      expect(AlertEvaluator.computeMetric('trend', { price: 100, history: [] })).toBeNull();
+    });
+
+    it('should report zero volatility for a flat series', () => {
+      const flat = buildBars(Array(30).fill(100));
+      expect(AlertEvaluator.computeMetric('volatility', { price: 100, history: flat })).toBe(0);
+    });
+  });
+});
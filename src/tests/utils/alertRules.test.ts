@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { AlertRuleEngine, RuleGroup } from '../../utils/alertRules';
+import { AlertMetricContext } from '../../utils/alertEvaluator';
+import { HistoricalDataPoint } from '../../types';
+
+const history: HistoricalDataPoint[] = Array.from({ length: 20 }, (_, index) => ({
+  date: new Date(Date.UTC(2025, 0, 1 + index)).toISOString().split('T')[0],
+  open: 225,
+  high: 225,
+  low: 225,
+  close: 225,
+  volume: 1000
+}));
+
+const context: AlertMetricContext = {
+  price: 215,
+  volume: 2500,
+  history,
+  indicators: { rsi: 27, macd: -1.2, macd_signal: -0.8, ma_50: 230 }
+};
+
+// "price below 220 AND RSI under 30 AND volume 2x average"
+const oversoldRule: RuleGroup = {
+  operator: 'and',
+  conditions: [
+    { metric: 'price', operator: 'below', value: 220 },
+    { metric: 'rsi', operator: 'below', value: 30 },
+    { metric: 'volume_ratio', operator: 'above', value: 2 }
+  ]
+};
+
+describe('AlertRuleEngine', () => {
+  describe('evaluate', () => {
+    it('should require every condition in an AND group', () => {
+      expect(AlertRuleEngine.evaluate(oversoldRule, context)).toBe(true);
+      expect(AlertRuleEngine.evaluate(oversoldRule, { ...context, price: 221 })).toBe(false);
+    });
+
+    it('should require any condition in an OR group', () => {
+      const rule: RuleGroup = {
+        operator: 'or',
+        conditions: [
+          { metric: 'price', operator: 'above', value: 300 },
+          { metric: 'macd', operator: 'below', value: 0 }
+        ]
+      };
+      expect(AlertRuleEngine.evaluate(rule, context)).toBe(true);
+    });
+
+    it('should evaluate nested groups', () => {
+      const rule: RuleGroup = {
+        operator: 'and',
+        conditions: [
+          { metric: 'price', operator: 'below', value: 220 },
+          {
+            operator: 'or',
+            conditions: [
+              { metric: 'rsi', operator: 'above', value: 70 },
+              { metric: 'ma_50', operator: 'above', value: 225 }
+            ]
+          }
+        ]
+      };
+      expect(AlertRuleEngine.evaluate(rule, context)).toBe(true);
+    });
+
+    it('should treat unavailable metrics as not met', () => {
+      const rule: RuleGroup = { operator: 'and', conditions: [{ metric: 'ma_200', operator: 'below', value: 1000 }] };
+      expect(AlertRuleEngine.evaluate(rule, context)).toBe(false);
+      expect(AlertRuleEngine.evaluate(rule, { ...context, indicators: null })).toBe(false);
+    });
+  });
+
+  describe('collectMetrics', () => {
+    it('should list every metric used by the rule', () => {
+      expect(Array.from(AlertRuleEngine.collectMetrics(oversoldRule)).sort()).toEqual(['price', 'rsi', 'volume_ratio']);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a well formed rule', () => {
+      expect(AlertRuleEngine.validate(oversoldRule)).toEqual([]);
+    });
+
+    it('should reject empty groups and non-numeric values', () => {
+      const rule: RuleGroup = {
+        operator: 'and',
+        conditions: [
+          { operator: 'or', conditions: [] },
+          { metric: 'rsi', operator: 'below', value: NaN }
+        ]
+      };
+      expect(AlertRuleEngine.validate(rule)).toHaveLength(2);
+    });
+  });
+
+  describe('describe', () => {
+    it('should render a readable rule', () => {
+      expect(AlertRuleEngine.describe(oversoldRule)).toBe('Price below 220 AND RSI below 30 AND Volume (x avg) above 2');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { ArimaModel, isStationary } from '../../utils/arima';
+import { SeededRandom } from '../../utils/marketSimulator';
+
+const simulateArma = (n: number, ar: number[], ma: number[], seed: number, sigma: number = 1) => {
+  const rng = new SeededRandom(seed);
+  const x: number[] = [];
+  const e: number[] = [];
+  for (let t = 0; t < n + 100; t++) {
+    const shock = sigma * rng.normal();
+    let value = shock;
+    ar.forEach((c, i) => { value += c * (x[t - 1 - i] ?? 0); });
+    ma.forEach((c, j) => { value += c * (e[t - 1 - j] ?? 0); });
+    x.push(value);
+    e.push(shock);
+  }
+  // Drop the burn-in
+  return x.slice(100);
+};
+
+const randomWalk = (n: number, drift: number, sigma: number, seed: number) => {
+  const rng = new SeededRandom(seed);
+  const path = [100];
+  for (let t = 1; t < n; t++) path.push(path[t - 1] + drift + sigma * rng.normal());
+  return path;
+};
+
+describe('isStationary', () => {
+  it('should accept stationary AR polynomials and reject unit roots', () => {
+    expect(isStationary([0.5])).toBe(true);
+    expect(isStationary([0.5, 0.3])).toBe(true);
+    expect(isStationary([1])).toBe(false);
+    expect(isStationary([0.7, 0.5])).toBe(false);
+    expect(isStationary([])).toBe(true);
+  });
+});
+
+describe('ArimaModel', () => {
+  describe('fit', () => {
+    it('should recover AR(1) and MA(1) coefficients', () => {
+      const ar = ArimaModel.fit(simulateArma(600, [0.6], [], 11), { p: 1, d: 0, q: 0 });
+      const ma = ArimaModel.fit(simulateArma(600, [], [0.5], 12), { p: 0, d: 0, q: 1 });
+
+      // Within about two standard errors for 600 points
+      expect(Math.abs(ar.ar[0] - 0.6)).toBeLessThan(0.07);
+      expect(Math.abs(ma.ma[0] - 0.5)).toBeLessThan(0.07);
+      expect(ar.sigma2).toBeCloseTo(1, 0);
+    });
+
+    it('should reject series too short for the order', () => {
+      expect(() => ArimaModel.fit([1, 2, 3, 4, 5], { p: 2, d: 1, q: 1 })).toThrow('too short');
+    });
+  });
+
+  describe('autoFit', () => {
+    it('should prefer the true order over white noise by AIC', () => {
+      const series = simulateArma(500, [0.7], [], 21);
+      const model = ArimaModel.autoFit(series, { maxD: 0 });
+      const whiteNoise = ArimaModel.fit(series, { p: 0, d: 0, q: 0 });
+
+      expect(model.aic).toBeLessThan(whiteNoise.aic);
+      expect(model.order.p + model.order.q).toBeGreaterThan(0);
+    });
+
+    it('should difference a random walk once', () => {
+      expect(ArimaModel.selectDifferencing(randomWalk(300, 0.1, 1, 3))).toBe(1);
+      expect(ArimaModel.selectDifferencing(simulateArma(300, [0.2], [], 4))).toBe(0);
+    });
+  });
+
+  describe('forecast', () => {
+    it('should give AR(1) variances from the psi weights', () => {
+      const model = ArimaModel.fit(simulateArma(600, [0.6], [], 31), { p: 1, d: 0, q: 0 });
+      const { variance } = model.forecast(3);
+      const phi = model.ar[0];
+
+      expect(variance[0]).toBeCloseTo(model.sigma2, 10);
+      expect(variance[1]).toBeCloseTo(model.sigma2 * (1 + phi ** 2), 10);
+      expect(variance[2]).toBeCloseTo(model.sigma2 * (1 + phi ** 2 + phi ** 4), 10);
+    });
+
+    it('should extend a drifting random walk with linearly growing variance', () => {
+      const series = randomWalk(400, 0.5, 1, 41);
+      const model = ArimaModel.fit(series, { p: 0, d: 1, q: 0 });
+      const { mean, variance } = model.forecast(5);
+      const last = series[series.length - 1];
+
+      expect(model.mean).toBeCloseTo(0.5, 0);
+      expect(mean[0]).toBeCloseTo(last + model.mean, 10);
+      expect(mean[4] - mean[3]).toBeCloseTo(model.mean, 10);
+      expect(variance[4]).toBeCloseTo(5 * model.sigma2, 10);
+    });
+
+    it('should carry a seasonal pattern forward with seasonal differencing', () => {
+      const pattern = [0, 2, 4, 1, -3];
+      const rng = new SeededRandom(51);
+      const series = Array.from({ length: 200 }, (_, t) => 50 + pattern[t % 5] + 0.1 * rng.normal());
+      const model = ArimaModel.fit(series, { p: 0, d: 0, q: 0 }, { P: 0, D: 1, Q: 1, period: 5 });
+      const { mean } = model.forecast(5);
+
+      expect(model.label).toBe('SARIMA(0,0,0)(0,1,1)5');
+      mean.forEach((value, h) => {
+        expect(value).toBeCloseTo(50 + pattern[(200 + h) % 5], 0);
+      });
+    });
+  });
+
+  describe('decompose', () => {
+    it('should split the forecast into parts that add back up to it', () => {
+      const model = ArimaModel.fit(randomWalk(300, 0.2, 1, 61), { p: 1, d: 1, q: 1 });
+      const { mean } = model.forecast(4);
+      const { level, drift, autoregressive, movingAverage } = model.decompose(4);
+
+      mean.forEach((value, h) => {
+        expect(level + drift[h] + autoregressive[h] + movingAverage[h]).toBeCloseTo(value, 9);
+      });
+      // The drift compounds step by step
+      expect(drift[3]).toBeGreaterThan(drift[0]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { priceAttribution, combineAttributions, waterfallSteps } from '../../utils/attribution';
+
+const total = (contributions: { contribution: number }[]) =>
+  contributions.reduce((sum, item) => sum + item.contribution, 0);
+
+describe('priceAttribution', () => {
+  it('should add up to the predicted price with the largest contribution first', () => {
+    const attribution = priceAttribution(110, { rsi: 0.02, volatility: -0.005, log_returns: 0.07 });
+
+    expect(attribution.baseline).toBeCloseTo(110 * Math.exp(-0.085), 10);
+    expect(attribution.baseline + total(attribution.contributions)).toBeCloseTo(110, 10);
+    expect(attribution.contributions.map(item => item.feature)).toEqual(['log_returns', 'rsi', 'volatility']);
+    expect(attribution.contributions[2].contribution).toBeLessThan(0);
+  });
+
+  it('should stay finite when the contributions cancel out', () => {
+    const attribution = priceAttribution(100, { rsi: 0.01, sentiment: -0.01 });
+
+    expect(attribution.baseline).toBeCloseTo(100, 10);
+    expect(attribution.contributions[0].contribution).toBeCloseTo(1, 10);
+    expect(total(attribution.contributions)).toBeCloseTo(0, 10);
+  });
+});
+
+describe('combineAttributions', () => {
+  it('should weigh member attributions like their forecasts', () => {
+    const neural = priceAttribution(105, { rsi: 0.03, log_returns: 0.02 });
+    const arima = priceAttribution(101, { drift: 0.01 });
+    const combined = combineAttributions({ 'lstm-v2.0': neural, 'arima-v1.0': arima }, { 'lstm-v2.0': 0.25, 'arima-v1.0': 0.75 })!;
+
+    expect(combined.baseline + total(combined.contributions)).toBeCloseTo(0.25 * 105 + 0.75 * 101, 10);
+    expect(combined.contributions.map(item => item.feature).sort()).toEqual(['drift', 'log_returns', 'rsi']);
+  });
+
+  it('should give up when a weighted member has no attribution', () => {
+    const neural = priceAttribution(105, { rsi: 0.03 });
+
+    expect(combineAttributions({ 'lstm-v2.0': neural, 'arima-v1.0': undefined }, { 'lstm-v2.0': 0.5, 'arima-v1.0': 0.5 })).toBeUndefined();
+    expect(combineAttributions({ 'lstm-v2.0': neural, 'arima-v1.0': undefined }, { 'lstm-v2.0': 1, 'arima-v1.0': 0 })).toBeDefined();
+  });
+});
+
+describe('waterfallSteps', () => {
+  it('should step from the baseline to the forecast, folding the smallest into other', () => {
+    const attribution = priceAttribution(120, { a: 0.05, b: -0.02, c: 0.01, d: 0.005 });
+    const steps = waterfallSteps(attribution, 2);
+
+    expect(steps.map(step => step.label)).toEqual(['baseline', 'a', 'b', 'other', 'forecast']);
+    expect(steps[1].start).toBeCloseTo(attribution.baseline, 10);
+    expect(steps[2].kind).toBe('decrease');
+    expect(steps[3].end).toBeCloseTo(120, 10);
+    expect(steps[4]).toMatchObject({ start: 0, kind: 'total' });
+    expect(steps[4].end).toBeCloseTo(120, 10);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { BacktestEngine, BacktestStrategy, BACKTEST_STRATEGIES } from '../../utils/backtestEngine';
+import { TechnicalAnalyzer } from '../../utils/technicalAnalyzer';
+import { AnalysisResult, HistoricalDataPoint } from '../../types';
+
+const buildBars = (closes: number[]): HistoricalDataPoint[] =>
+  closes.map((close, index) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + index));
+    return {
+      date: date.toISOString().split('T')[0],
+      open: close,
+      high: close * 1.001,
+      low: close * 0.999,
+      close,
+      volume: 1000000
+    };
+  });
+
+// Buys on bar 5 and sells on bar 10, regardless of prices
+const scriptedStrategy: BacktestStrategy = {
+  id: 'scripted',
+  name: 'Scripted',
+  description: 'Test strategy',
+  lookback: 1,
+  analyze: (symbol, bars): AnalysisResult => {
+    const index = bars.length - 1;
+    const trend = index === 5 ? 'bullish' : index === 10 ? 'bearish' : 'neutral';
+    return {
+      symbol,
+      trend,
+      strength: 50,
+      confidence: 0.8,
+      signals: [trend],
+      nextTarget: 0,
+      stopLoss: 0
+    };
+  }
+};
+
+describe('BacktestEngine', () => {
+  describe('signalFromAnalysis', () => {
+    it('should map trends to trading signals', () => {
+      const base = { symbol: 'AAPL', strength: 50, confidence: 0.8, signals: [], nextTarget: 0, stopLoss: 0 };
+
+      expect(BacktestEngine.signalFromAnalysis({ ...base, trend: 'bullish' })).toBe('buy');
+      expect(BacktestEngine.signalFromAnalysis({ ...base, trend: 'bearish' })).toBe('sell');
+      expect(BacktestEngine.signalFromAnalysis({ ...base, trend: 'neutral' })).toBe('hold');
+    });
+  });
+
+  describe('run', () => {
+    it('should open and close trades on opposing signals', () => {
+      const closes = Array.from({ length: 15 }, (_, i) => 100 + i);
+      const report = BacktestEngine.run('TEST', buildBars(closes), scriptedStrategy, { commission: 0 });
+
+      expect(report.trades).toHaveLength(1);
+      expect(report.trades[0].entryPrice).toBe(105);
+      expect(report.trades[0].exitPrice).toBe(110);
+      expect(report.trades[0].exitReason).toBe('signal');
+      expect(report.finalEquity).toBeCloseTo(10000 * 110 / 105, 6);
+      expect(report.metrics.winRate).toBe(1);
+    });
+
+    it('should exit at the stop loss when the bar range breaches it', () => {
+      const stopStrategy: BacktestStrategy = {
+        ...scriptedStrategy,
+        analyze: (symbol, bars) => ({
+          ...scriptedStrategy.analyze(symbol, bars),
+          stopLoss: 95,
+          nextTarget: 200
+        })
+      };
+      const closes = [100, 100, 100, 100, 100, 100, 100, 90, 90, 90, 90, 90];
+      const report = BacktestEngine.run('TEST', buildBars(closes), stopStrategy, { commission: 0 });
+
+      expect(report.trades[0].exitReason).toBe('stop_loss');
+      expect(report.trades[0].exitPrice).toBe(90);
+      expect(report.trades[0].pnl).toBeLessThan(0);
+    });
+
+    it('should throw when there are not enough bars for the strategy', () => {
+      expect(() => BacktestEngine.run('TEST', buildBars([1, 2]), BACKTEST_STRATEGIES[0])).toThrow();
+    });
+
+    it('should produce an equity point for every bar after the lookback', () => {
+      const closes = Array.from({ length: 120 }, (_, i) => 100 + Math.sin(i / 5) * 10);
+      BACKTEST_STRATEGIES.forEach(strategy => {
+        const report = BacktestEngine.run('TEST', buildBars(closes), strategy);
+        expect(report.equityCurve).toHaveLength(closes.length - strategy.lookback);
+        expect(report.metrics.maxDrawdown).toBeGreaterThanOrEqual(0);
+        expect(report.metrics.maxDrawdown).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('should count the final forced close in the drawdown', () => {
+      // Buys on bar 5 and holds to the end, so the exit fee lands on the last mark
+      const holdStrategy: BacktestStrategy = {
+        ...scriptedStrategy,
+        analyze: (symbol, bars) => ({
+          ...scriptedStrategy.analyze(symbol, bars),
+          trend: bars.length === 6 ? 'bullish' : 'neutral'
+        })
+      };
+      const closes = Array.from({ length: 20 }, (_, i) => 100 + i);
+      const report = BacktestEngine.run('TEST', buildBars(closes), holdStrategy, { commission: 0.05 });
+      const finalPoint = report.equityCurve[report.equityCurve.length - 1];
+
+      // Rising prices put the peak at the last mark, so the drawdown is the exit fee
+      expect(report.trades[0].exitReason).toBe('end_of_data');
+      expect(finalPoint.equity).toBe(report.finalEquity);
+      expect(finalPoint.drawdown).toBeCloseTo(0.05, 6);
+      expect(report.metrics.maxDrawdown).toBeCloseTo(finalPoint.drawdown, 10);
+    });
+
+    it('should trade the technical analyzer trend with its own levels', () => {
+      const strategy = BACKTEST_STRATEGIES.find(s => s.id === 'technical_analysis')!;
+      const closes = Array.from({ length: 120 }, (_, i) => 100 + i * 0.5 + Math.sin(i / 3) * 2);
+      const bars = buildBars(closes);
+
+      expect(strategy.analyze('TEST', bars)).toEqual(TechnicalAnalyzer.analyze('TEST', bars));
+
+      const report = BacktestEngine.run('TEST', bars, strategy);
+      expect(report.trades.length).toBeGreaterThan(0);
+      expect(report.trades[0].signalType).toBe('buy');
+    });
+  });
+
+  describe('calculateMaxDrawdown', () => {
+    it('should measure the largest peak-to-trough decline', () => {
+      expect(BacktestEngine.calculateMaxDrawdown([100, 120, 90, 110, 60, 130])).toBeCloseTo(0.5, 6);
+    });
+
+    it('should return zero for a rising curve', () => {
+      expect(BacktestEngine.calculateMaxDrawdown([1, 2, 3, 4])).toBe(0);
+    });
+  });
+
+  describe('calculateSharpeRatio', () => {
+    it('should return zero without variance', () => {
+      expect(BacktestEngine.calculateSharpeRatio([0.01, 0.01, 0.01])).toBe(0);
+    });
+
+    it('should be positive for mostly positive returns', () => {
+      expect(BacktestEngine.calculateSharpeRatio([0.01, 0.02, -0.005, 0.015])).toBeGreaterThan(0);
+    });
+  });
+});
\ No newline at end of file
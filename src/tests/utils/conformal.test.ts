@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ConformalCalibrator } from '../../utils/conformal';
+import { SeededRandom } from '../../utils/marketSimulator';
+
+describe('ConformalCalibrator', () => {
+  describe('quantile', () => {
+    it('should take the ceil((n + 1) * coverage)-th smallest error', () => {
+      const scores = [0.05, 0.01, 0.04, 0.02, 0.03, 0.09, 0.07, 0.06, 0.08];
+
+      // ceil(10 * 0.8) = 8th smallest
+      expect(ConformalCalibrator.quantile(scores, 0.8)).toBe(0.08);
+    });
+
+    it('should refuse coverage the calibration set is too small for', () => {
+      expect(ConformalCalibrator.quantile([0.01, 0.02, 0.03], 0.8)).toBeNull();
+      expect(ConformalCalibrator.quantile([], 0.5)).toBeNull();
+    });
+  });
+
+  describe('interval', () => {
+    it('should scale the band around the predicted price in log space', () => {
+      const scores = Array.from({ length: 19 }, (_, i) => (i + 1) / 100);
+      const interval = ConformalCalibrator.interval(200, scores, 0.95)!;
+
+      expect(interval.upperBound).toBeCloseTo(200 * Math.exp(0.19), 10);
+      expect(interval.lowerBound).toBeCloseTo(200 * Math.exp(-0.19), 10);
+      expect(interval.calibrationSize).toBe(19);
+    });
+  });
+
+  describe('coverageReport', () => {
+    it('should cover close to the nominal rate on exchangeable errors', () => {
+      const rng = new SeededRandom(11);
+      const scores = Array.from({ length: 2000 }, () => Math.abs(0.02 * rng.normal()));
+
+      const report = ConformalCalibrator.coverageReport(scores, 0.8, 250);
+
+      expect(report.empiricalCoverage).toBeGreaterThan(0.77);
+      expect(report.empiricalCoverage).toBeLessThan(0.84);
+      expect(report.sampleSize).toBe(2000 - 4);
+      expect(report.meanWidth).toBeGreaterThan(0);
+    });
+
+    it('should report undercoverage when errors grow after calibration', () => {
+      const rng = new SeededRandom(12);
+      const calm = Array.from({ length: 100 }, () => Math.abs(0.01 * rng.normal()));
+      const volatile = Array.from({ length: 20 }, () => Math.abs(0.05 * rng.normal()));
+
+      const report = ConformalCalibrator.coverageReport([...calm, ...volatile], 0.8, 100);
+      const calmReport = ConformalCalibrator.coverageReport(calm, 0.8, 100);
+
+      expect(report.empiricalCoverage).toBeLessThan(calmReport.empiricalCoverage);
+    });
+  });
+
+  describe('combineReports', () => {
+    it('should weight coverage by sample size', () => {
+      const combined = ConformalCalibrator.combineReports([
+        { coverage: 0.8, empiricalCoverage: 0.9, sampleSize: 30, meanWidth: 0.1 },
+        { coverage: 0.8, empiricalCoverage: 0.7, sampleSize: 10, meanWidth: 0.2 }
+      ], 0.8);
+
+      expect(combined.empiricalCoverage).toBeCloseTo(0.85, 10);
+      expect(combined.meanWidth).toBeCloseTo(0.125, 10);
+      expect(combined.sampleSize).toBe(40);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { adjustBars, adjustedCloses, adjustmentFactors, CorporateAction } from '../../utils/corporateActions';
+import { PriceBar } from '../../utils/forecastHorizon';
+import { DataProcessor } from '../../utils/dataProcessor';
+
+const bar = (date: string, close: number, volume: number = 1000): PriceBar => ({
+  date,
+  open_price: close,
+  high_price: close * 1.01,
+  low_price: close * 0.99,
+  close_price: close,
+  volume
+});
+
+// 4-for-1 split effective on the third session
+const splitBars = [
+  bar('2025-09-01', 400),
+  bar('2025-09-02', 404),
+  bar('2025-09-03', 101, 4000),
+  bar('2025-09-04', 102, 4000)
+];
+const split: CorporateAction = { type: 'split', exDate: '2025-09-03', ratio: 4 };
+
+describe('adjustmentFactors', () => {
+  it('should leave every bar unchanged without actions', () => {
+    expect(adjustmentFactors(splitBars, [])).toEqual(splitBars.map(() => ({ price: 1, volume: 1 })));
+  });
+
+  it('should divide prices and multiply volume before a split', () => {
+    expect(adjustmentFactors(splitBars, [split])).toEqual([
+      { price: 0.25, volume: 4 },
+      { price: 0.25, volume: 4 },
+      { price: 1, volume: 1 },
+      { price: 1, volume: 1 }
+    ]);
+  });
+
+  it('should scale prices before a dividend by the close before its ex-date', () => {
+    const bars = [bar('2025-09-01', 100), bar('2025-09-02', 100), bar('2025-09-03', 99)];
+    const factors = adjustmentFactors(bars, [{ type: 'dividend', exDate: '2025-09-03', amount: 1 }]);
+
+    expect(factors.map(factor => factor.price)).toEqual([0.99, 0.99, 1]);
+    expect(factors.map(factor => factor.volume)).toEqual([1, 1, 1]);
+  });
+
+  it('should ignore actions after the newest bar', () => {
+    const announced: CorporateAction[] = [
+      split,
+      { type: 'split', exDate: '2025-09-05', ratio: 2 },
+      { type: 'dividend', exDate: '2025-09-10', amount: 1 }
+    ];
+
+    expect(adjustmentFactors(splitBars, announced)).toEqual(adjustmentFactors(splitBars, [split]));
+  });
+
+  it('should compound actions in any order and ignore invalid ones', () => {
+    const bars = [bar('2025-08-01', 200), bar('2025-09-02', 100), bar('2025-09-03', 50)];
+    const actions: CorporateAction[] = [
+      { type: 'split', exDate: '2025-09-03', ratio: 2 },
+      { type: 'dividend', exDate: '2025-08-15', amount: 10 },
+      { type: 'dividend', exDate: '2025-08-20', amount: 500 },
+      { type: 'split', exDate: '2025-08-25' }
+    ];
+
+    const factors = adjustmentFactors(bars, actions);
+    expect(factors[2].price).toBe(1);
+    expect(factors[1].price).toBe(0.5);
+    expect(factors[0].price).toBeCloseTo(0.5 * 0.95, 10);
+    expect(factors[0].volume).toBe(2);
+  });
+});
+
+describe('adjustBars', () => {
+  it('should turn a split into a continuous series', () => {
+    const adjusted = adjustBars(splitBars, [split]);
+
+    expect(adjusted.map(row => row.close_price)).toEqual([100, 101, 101, 102]);
+    expect(adjusted[0].high_price).toBeCloseTo(101, 10);
+    expect(adjusted[0].volume).toBe(4000);
+    expect(adjusted[2]).toEqual(splitBars[2]);
+  });
+
+  it('should not flag a split as an anomaly once adjusted', () => {
+    const raw = [...Array(10)].map((_, i) => bar(`2025-08-${String(i + 10).padStart(2, '0')}`, i < 5 ? 400 + i : 100 + i));
+    const actions: CorporateAction[] = [{ type: 'split', exDate: '2025-08-15', ratio: 4 }];
+    const closes = adjustedCloses(raw, actions);
+    const returns = closes.slice(1).map((close, i) => close / closes[i] - 1);
+
+    expect(Math.min(...returns)).toBeGreaterThan(-0.05);
+    expect(DataProcessor.detectAnomalies(closes, 2)).toEqual([]);
+  });
+
+  it('should return the bars as they are without actions', () => {
+    expect(adjustBars(splitBars, [])).toBe(splitBars);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { guessColumnMapping, parseCsv, parseCsvDate, parseMarketDataCsv, toCsv } from '../../utils/csv';
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, doubled quotes and CRLF line breaks', () => {
+    const rows = parseCsv('a,b,c\r\n"1,5","say ""hi""",x\r\n\r\n"multi\nline",2,3');
+
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['1,5', 'say "hi"', 'x'],
+      ['multi\nline', '2', '3']
+    ]);
+  });
+
+  it('should split on a custom delimiter', () => {
+    expect(parseCsv('date;close\n2025-09-02;100', ';')).toEqual([['date', 'close'], ['2025-09-02', '100']]);
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('should read each supported format as UTC', () => {
+    expect(parseCsvDate('2025-09-02', 'iso')).toBe('2025-09-02T00:00:00.000Z');
+    expect(parseCsvDate('09/02/2025', 'MM/DD/YYYY')).toBe('2025-09-02T00:00:00.000Z');
+    expect(parseCsvDate('02/09/2025', 'DD/MM/YYYY')).toBe('2025-09-02T00:00:00.000Z');
+    expect(parseCsvDate('1756771200', 'unix')).toBe('2025-09-02T00:00:00.000Z');
+    expect(parseCsvDate('1756771200000', 'unix_ms')).toBe('2025-09-02T00:00:00.000Z');
+  });
+
+  it('should reject dates that do not match the format', () => {
+    expect(parseCsvDate('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(parseCsvDate('2025-09-02', 'MM/DD/YYYY')).toBeNull();
+    expect(parseCsvDate('yesterday', 'iso')).toBeNull();
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('should match common header names case-insensitively', () => {
+    expect(guessColumnMapping(['Date', 'Open', 'High', 'Low', 'Adj Close', 'Volume', 'Notes'])).toEqual({
+      date: 'Date', open: 'Open', high: 'High', low: 'Low', close: 'Adj Close', volume: 'Volume'
+    });
+  });
+});
+
+describe('parseMarketDataCsv', () => {
+  const csv = [
+    'Ticker,Day,O,H,L,C,V',
+    'aapl,2025-09-03,101,103,100,102,1200',
+    'AAPL,2025-09-02,99,101,98,100,1000',
+    'AAPL,2025-09-02,99,101,98,100,1000',
+    'AAPL,2025-09-04,102,104,101,250,900',
+    'AAPL,not-a-date,1,1,1,1,1',
+    'AAPL,2025-09-05,102,101,103,102,900',
+    'MSFT,2025-09-02,400,405,398,abc,10'
+  ].join('\n');
+  const mapping = { symbol: 'Ticker', date: 'Day', open: 'O', high: 'H', low: 'L', close: 'C', volume: 'V' };
+
+  it('should accept valid rows oldest first and report the rest by line', () => {
+    const result = parseMarketDataCsv(csv, { mapping, dateFormat: 'iso', delimiter: ',' });
+
+    expect(result.bars.map(bar => `${bar.symbol} ${bar.date}`)).toEqual(['AAPL 2025-09-02', 'AAPL 2025-09-03']);
+    expect(result.bars[0]).toMatchObject({ open: 99, high: 101, low: 98, close: 100, volume: 1000 });
+    expect(result.rejected.map(row => [row.line, row.reason])).toEqual([
+      [4, 'Duplicate row for AAPL on 2025-09-02'],
+      [5, 'Change is over 50%'],
+      [6, 'Date does not match iso'],
+      [7, 'High, low and open must be positive with high above low'],
+      [8, 'Non-numeric price or volume']
+    ]);
+  });
+
+  it('should use the fixed symbol and close for unmapped fields', () => {
+    const result = parseMarketDataCsv('when\tprice\n09/02/2025\t100', {
+      mapping: { date: 'when', close: 'price' },
+      dateFormat: 'MM/DD/YYYY',
+      delimiter: '\\t',
+      symbol: 'spy'
+    });
+
+    expect(result.bars).toEqual([{
+      symbol: 'SPY',
+      date: '2025-09-02',
+      timestamp: '2025-09-02T00:00:00.000Z',
+      open: 100,
+      high: 100,
+      low: 100,
+      close: 100,
+      volume: 0
+    }]);
+  });
+
+  it('should require the symbol, date and close columns', () => {
+    expect(() => parseMarketDataCsv(csv, { mapping: { date: 'Day' }, dateFormat: 'iso', delimiter: ',' }))
+      .toThrow('symbol, close');
+    expect(() => parseMarketDataCsv(csv, { mapping: { ...mapping, close: 'Close' }, dateFormat: 'iso', delimiter: ',' }))
+      .toThrow('Close');
+  });
+});
+
+describe('toCsv', () => {
+  it('should write a header and escape fields that need quoting', () => {
+    const csv = toCsv(
+      [{ name: 'a,b', note: 'say "hi"', value: 1.5 }, { name: 'c', note: undefined, value: null }],
+      [
+        { label: 'name', value: row => row.name },
+        { label: 'note', value: row => row.note },
+        { label: 'value', value: row => row.value }
+      ]
+    );
+
+    expect(csv).toBe('name,note,value\r\n"a,b","say ""hi""",1.5\r\nc,,');
+    expect(parseCsv(csv).slice(1)).toEqual([['a,b', 'say "hi"', '1.5'], ['c', '', '']]);
+  });
+});
\ No newline at end of file
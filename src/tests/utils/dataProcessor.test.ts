@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { DataProcessor } from '../../utils/dataProcessor';
 import { ExternalMarketData } from '../../utils/apiClient';
 
@@ -22,6 +22,14 @@ describe('DataProcessor', () => {
     }
   ];
 
+  describe('validationError', () => {
+    it('should explain why validateMarketData drops an item', () => {
+      expect(DataProcessor.validationError(sampleData[0])).toBeNull();
+      expect(DataProcessor.validationError({ ...sampleData[0], price: -1 })).toBe('Price must be positive');
+      expect(DataProcessor.validationError({ ...sampleData[0], changePercent: 60 })).toBe('Change is over 50%');
+    });
+  });
+
   describe('validateMarketData', () => {
     it('should validate correct market data', () => {
       const validated = DataProcessor.validateMarketData(sampleData);
@@ -85,14 +93,31 @@ describe('DataProcessor', () => {
   });
 
   describe('calculateDataQuality', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
     it('should calculate quality metrics for good data', () => {
+      // Timeliness is measured against the clock: the samples are a minute old
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T10:01:00Z'));
+
       const quality = DataProcessor.calculateDataQuality(sampleData);
       
       expect(quality.completeness).toBeGreaterThan(0.8);
       expect(quality.accuracy).toBeGreaterThan(0.8);
+      expect(quality.timeliness).toBeCloseTo(0.8, 2);
       expect(quality.overall).toBeGreaterThan(0.5);
     });
 
+    it('should score stale data as untimely', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-02T10:00:00Z'));
+
+      const quality = DataProcessor.calculateDataQuality(sampleData);
+      expect(quality.timeliness).toBe(0);
+    });
+
     it('should return zero quality for empty data', () => {
       const quality = DataProcessor.calculateDataQuality([]);
       
@@ -106,14 +131,15 @@ describe('DataProcessor', () => {
 
   describe('detectAnomalies', () => {
     it('should detect price anomalies', () => {
-      const prices = [100, 101, 99, 102, 98, 500, 103, 97]; // 500 is an anomaly
+      const prices = [100, 101, 99, 102, 98, 500, 103, 97, 100, 101]; // 500 is an anomaly
       const anomalies = DataProcessor.detectAnomalies(prices, 2);
       
-      expect(anomalies).toContain(5); // Index of the anomalous value
+      expect(anomalies).toEqual([5]); // Index of the anomalous value
     });
 
     it('should return empty array for insufficient data', () => {
-      const anomalies = DataProcessor.detectAnomalies([1, 2, 3], 2);
+      // Fewer than 10 prices give no meaningful spread
+      const anomalies = DataProcessor.detectAnomalies([100, 101, 99, 102, 98, 500, 103, 97], 2);
       expect(anomalies).toEqual([]);
     });
   });
@@ -124,7 +150,14 @@ describe('DataProcessor', () => {
       const smoothed = DataProcessor.smoothData(data, 3);
       
       expect(smoothed).toHaveLength(data.length);
-      expect(smoothed[0]).toBe(data[0]); // First value should be unchanged
+      // Centered window, truncated at the edges
+      expect(smoothed[0]).toBeCloseTo((1 + 5) / 2);
+      expect(smoothed[1]).toBeCloseTo((1 + 5 + 2) / 3);
+      expect(smoothed[7]).toBeCloseTo((4 + 6) / 2);
+    });
+
+    it('should return data shorter than the window unchanged', () => {
+      expect(DataProcessor.smoothData([1, 5], 3)).toEqual([1, 5]);
     });
   });
 
@@ -191,4 +224,4 @@ describe('DataProcessor', () => {
       expect(volatility.percentile).toBe(0);
     });
   });
-});</parameter>
\ No newline at end of file
+});
\ No newline at end of file
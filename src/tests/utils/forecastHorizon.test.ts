@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateWeeklyBars, horizonDays, horizonLabel, stepTimestamp, PriceBar } from '../../utils/forecastHorizon';
+
+const bar = (date: string, open: number, close: number, volume: number = 100): PriceBar => ({
+  date,
+  open_price: open,
+  high_price: Math.max(open, close) + 1,
+  low_price: Math.min(open, close) - 1,
+  close_price: close,
+  volume
+});
+
+describe('forecastHorizon', () => {
+  describe('horizonLabel', () => {
+    it('should label steps in units the resolver can parse', () => {
+      expect(horizonLabel('15m', 3)).toBe('45 minutes');
+      expect(horizonLabel('1h', 2)).toBe('2 hours');
+      expect(horizonLabel('1d', 7)).toBe('7 days');
+      expect(horizonLabel('1w', 1)).toBe('1 weeks');
+    });
+  });
+
+  describe('horizonDays', () => {
+    it('should only map day-based steps to scorecard horizons', () => {
+      expect(horizonDays('1d', 3)).toBe(3);
+      expect(horizonDays('1w', 2)).toBe(14);
+      expect(horizonDays('1h', 5)).toBeNull();
+    });
+  });
+
+  describe('stepTimestamp', () => {
+    it('should end intraday steps that many bars after the latest one', () => {
+      expect(stepTimestamp('15m', '2025-09-02T14:00:00.000Z', 1)).toBe('2025-09-02T14:30:00.000Z');
+      expect(stepTimestamp('1h', '2025-09-02T14:00:00.000Z', 3)).toBe('2025-09-02T18:00:00.000Z');
+    });
+
+    it('should date day-based steps from today', () => {
+      const now = new Date(2025, 8, 2, 12);
+
+      expect(stepTimestamp('1d', '2025-09-01', 2, now)).toBe(new Date(2025, 8, 4, 12).toISOString().split('T')[0]);
+      expect(stepTimestamp('1w', '2025-09-01', 1, now)).toBe(new Date(2025, 8, 9, 12).toISOString().split('T')[0]);
+    });
+  });
+
+  describe('aggregateWeeklyBars', () => {
+    it('should roll sessions up into Monday-dated weeks', () => {
+      const weekly = aggregateWeeklyBars([
+        bar('2025-09-03', 100, 102),
+        bar('2025-09-04', 102, 105),
+        bar('2025-09-05', 105, 101),
+        bar('2025-09-08', 101, 99),
+        bar('2025-09-09', 99, 100)
+      ]);
+
+      expect(weekly).toEqual([
+        { date: '2025-09-01', open_price: 100, high_price: 106, low_price: 99, close_price: 101, volume: 300 },
+        { date: '2025-09-08', open_price: 101, high_price: 102, low_price: 98, close_price: 100, volume: 200 }
+      ]);
+    });
+  });
+});
\ No newline at end of file
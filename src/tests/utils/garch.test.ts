@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { GarchModel, logReturns, realizedVolatility, volatilityCone } from '../../utils/garch';
+import { SeededRandom } from '../../utils/marketSimulator';
+
+const simulateGarch = (n: number, omega: number, alpha: number, beta: number, seed: number) => {
+  const rng = new SeededRandom(seed);
+  const returns: number[] = [];
+  let variance = omega / (1 - alpha - beta);
+  for (let t = 0; t < n + 200; t++) {
+    const shock = Math.sqrt(variance) * rng.normal();
+    returns.push(shock);
+    variance = omega + alpha * shock * shock + beta * variance;
+  }
+  // Drop the burn-in
+  return returns.slice(200);
+};
+
+const simulateEgarch = (n: number, omega: number, alpha: number, gamma: number, beta: number, seed: number) => {
+  const rng = new SeededRandom(seed);
+  const returns: number[] = [];
+  let logVariance = omega / (1 - beta);
+  for (let t = 0; t < n + 200; t++) {
+    const z = rng.normal();
+    returns.push(Math.exp(logVariance / 2) * z);
+    logVariance = omega + alpha * (Math.abs(z) - Math.sqrt(2 / Math.PI)) + gamma * z + beta * logVariance;
+  }
+  return returns.slice(200);
+};
+
+describe('GarchModel', () => {
+  describe('fit', () => {
+    it('should recover GARCH(1,1) parameters', () => {
+      const returns = simulateGarch(3000, 2e-6, 0.1, 0.85, 21);
+      const model = GarchModel.fit(returns, 'garch');
+
+      expect(model.params.alpha).toBeGreaterThan(0.05);
+      expect(model.params.alpha).toBeLessThan(0.15);
+      expect(model.params.beta).toBeGreaterThan(0.78);
+      expect(model.params.beta).toBeLessThan(0.92);
+      expect(model.persistence).toBeLessThan(1);
+      expect(model.variances).toHaveLength(returns.length);
+    });
+
+    it('should pick up the EGARCH leverage effect', () => {
+      const returns = simulateEgarch(3000, -0.4, 0.15, -0.1, 0.95, 22);
+      const model = GarchModel.fit(returns, 'egarch');
+
+      expect(model.params.gamma).toBeLessThan(-0.03);
+      expect(model.params.beta).toBeGreaterThan(0.85);
+    });
+
+    it('should refuse too few returns', () => {
+      expect(() => GarchModel.fit([0.01, -0.02, 0.015])).toThrow(/too few/);
+    });
+  });
+
+  describe('autoFit', () => {
+    it('should keep the variant with the lower AIC', () => {
+      const returns = simulateGarch(1000, 2e-6, 0.1, 0.85, 23);
+      const model = GarchModel.autoFit(returns);
+
+      const aics = [GarchModel.fit(returns, 'garch').aic, GarchModel.fit(returns, 'egarch').aic];
+      expect(model.aic).toBeCloseTo(Math.min(...aics), 10);
+    });
+  });
+
+  describe('forecast', () => {
+    it('should revert towards the long-run variance', () => {
+      const returns = simulateGarch(1500, 2e-6, 0.1, 0.85, 24);
+      // End on a shock so the next variance sits well above the long-run level
+      const model = GarchModel.fit([...returns, 0.05], 'garch');
+      const longRun = model.params.omega / (1 - model.persistence);
+
+      const variances = model.forecast(200);
+
+      expect(variances[0]).toBeCloseTo(model.nextVariance, 15);
+      expect(variances[0]).toBeGreaterThan(longRun);
+      expect(variances[199]).toBeCloseTo(longRun, 8);
+      expect(model.horizonVolatility(10)).toBeLessThan(Math.sqrt(variances[0]));
+      expect(model.horizonVolatility(10)).toBeGreaterThan(Math.sqrt(longRun));
+    });
+  });
+});
+
+describe('realizedVolatility', () => {
+  it('should take the root mean square log return', () => {
+    const returns = logReturns([100, 101, 99.99]);
+
+    expect(returns[0]).toBeCloseTo(Math.log(1.01), 12);
+    expect(realizedVolatility(returns)).toBeCloseTo(Math.sqrt((returns[0] ** 2 + returns[1] ** 2) / 2), 12);
+    expect(realizedVolatility([])).toBe(0);
+  });
+});
+
+describe('volatilityCone', () => {
+  it('should order the percentiles and skip windows longer than the history', () => {
+    const returns = simulateGarch(300, 2e-6, 0.1, 0.85, 25);
+    const cone = volatilityCone(returns, [5, 21, 63, 500]);
+
+    expect(cone.map(point => point.window)).toEqual([5, 21, 63]);
+    cone.forEach(point => {
+      expect(point.min).toBeLessThanOrEqual(point.p25);
+      expect(point.p25).toBeLessThanOrEqual(point.median);
+      expect(point.median).toBeLessThanOrEqual(point.p75);
+      expect(point.p75).toBeLessThanOrEqual(point.max);
+      expect(point.current).toBeCloseTo(realizedVolatility(returns.slice(-point.window)), 12);
+    });
+    // Longer windows average out more, so the cone narrows
+    expect(cone[2].max - cone[2].min).toBeLessThan(cone[0].max - cone[0].min);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { MarketDataRouter, MarketDataProvider, FixtureProvider } from '../../utils/marketDataProviders';
+import type { ExternalMarketData } from '../../utils/apiClient';
+
+const quote = (symbol: string, price: number): ExternalMarketData => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  volume: 0,
+  timestamp: '2025-01-02T15:00:00.000Z'
+});
+
+/** Provider answering from a script of outcomes, repeating the last one */
+const scripted = (
+  name: string,
+  outcomes: ('ok' | 'empty' | 'error')[],
+  options: { available?: boolean; supports?: (symbol: string) => boolean } = {}
+): MarketDataProvider & { calls: number } => ({
+  name,
+  calls: 0,
+  isAvailable: () => options.available ?? true,
+  supports: options.supports ?? (() => true),
+  async fetchQuote(symbol) {
+    const outcome = outcomes[Math.min(this.calls++, outcomes.length - 1)];
+    if (outcome === 'error') throw new Error(`${name} is down`);
+    return outcome === 'ok' ? quote(symbol, 100) : null;
+  }
+});
+
+/** Clock advancing by the given step on every reading */
+const steppingClock = (step: () => number) => {
+  let now = 0;
+  return () => (now += step());
+};
+
+describe('MarketDataRouter', () => {
+  it('fails over to the next provider when one errors or returns nothing', async () => {
+    const primary = scripted('primary', ['error']);
+    const secondary = scripted('secondary', ['empty']);
+    const tertiary = scripted('tertiary', ['ok']);
+    const router = new MarketDataRouter().register(primary).register(secondary).register(tertiary);
+
+    const result = await router.fetchQuote('AAPL');
+
+    expect(result?.price).toBe(100);
+    expect(result?.source).toBe('tertiary');
+    expect([primary.calls, secondary.calls, tertiary.calls]).toEqual([1, 1, 1]);
+  });
+
+  it('returns null when every provider fails', async () => {
+    const router = new MarketDataRouter().register(scripted('a', ['error'])).register(scripted('b', ['empty']));
+
+    expect(await router.fetchQuote('AAPL')).toBeNull();
+  });
+
+  it('demotes a failing provider below a healthy one', async () => {
+    const flaky = scripted('flaky', ['error']);
+    const steady = scripted('steady', ['ok']);
+    const router = new MarketDataRouter().register(flaky).register(steady);
+
+    await router.fetchQuote('AAPL');
+    expect(router.rank('AAPL').map(provider => provider.name)).toEqual(['steady', 'flaky']);
+
+    await router.fetchQuote('AAPL');
+    expect(flaky.calls).toBe(1);
+    expect(steady.calls).toBe(2);
+  });
+
+  it('prefers the faster provider when success rates match', async () => {
+    let latency = 0;
+    const router = new MarketDataRouter({ clock: steppingClock(() => latency), latencyBudgetMs: 1000 });
+    const slow = scripted('slow', ['ok']);
+    const fast = scripted('fast', ['ok']);
+    router.register(slow).register(fast);
+
+    // Readings alternate start and end, so each request takes the set latency
+    latency = 500;
+    await router.fetchQuote('AAPL');
+    expect(router.rank('AAPL').map(provider => provider.name)).toEqual(['fast', 'slow']);
+
+    latency = 50;
+    await router.fetchQuote('AAPL');
+    expect(router.rank('AAPL').map(provider => provider.name)).toEqual(['fast', 'slow']);
+  });
+
+  it('recovers a provider once failures roll out of the window', async () => {
+    const provider = scripted('only', ['error', 'ok']);
+    const router = new MarketDataRouter({ window: 2 }).register(provider);
+
+    await router.fetchQuote('AAPL');
+    expect(router.getHealth()[0].successRate).toBe(0);
+
+    await router.fetchQuote('AAPL');
+    await router.fetchQuote('AAPL');
+    expect(router.getHealth()[0].successRate).toBe(1);
+    expect(router.getHealth()[0].requests).toBe(2);
+  });
+
+  it('probes a demoted provider once it has gone untried and lets it recover', async () => {
+    let now = 0;
+    const flaky = scripted('flaky', ['error', 'ok']);
+    const steady = scripted('steady', ['ok']);
+    const router = new MarketDataRouter({ now: () => now, halfLifeMs: 1000, probeIntervalMs: 5000 })
+      .register(flaky)
+      .register(steady);
+
+    await router.fetchQuote('AAPL');
+    now = 1000;
+    expect((await router.fetchQuote('AAPL'))?.source).toBe('steady');
+    expect(flaky.calls).toBe(1);
+
+    // Untried past the probe interval, flaky goes first even though it ranks last
+    now = 20000;
+    expect(router.rank('AAPL').map(provider => provider.name)).toEqual(['steady', 'flaky']);
+    expect((await router.fetchQuote('AAPL'))?.source).toBe('flaky');
+
+    // Its old failure has decayed, so the fresh success restores its score
+    expect(router.getHealth()[0].score).toBeGreaterThan(0.99);
+  });
+
+  it('skips unavailable providers and symbols a provider does not support', async () => {
+    const keyless = scripted('keyless', ['ok'], { available: false });
+    const stocksOnly = scripted('stocks', ['ok'], { supports: symbol => symbol !== 'BTC' });
+    const crypto = scripted('crypto', ['ok'], { supports: symbol => symbol === 'BTC' });
+    const router = new MarketDataRouter().register(keyless).register(stocksOnly).register(crypto);
+
+    expect((await router.fetchQuote('BTC'))?.source).toBe('crypto');
+    expect((await router.fetchQuote('AAPL'))?.source).toBe('stocks');
+    expect(keyless.calls).toBe(0);
+  });
+
+  it('reports health per provider', async () => {
+    const router = new MarketDataRouter({ clock: steppingClock(() => 100) })
+      .register(scripted('down', ['error']))
+      .register(scripted('up', ['ok']))
+      .register(scripted('unused', ['ok']));
+
+    await router.fetchQuote('AAPL');
+    const [down, up, unused] = router.getHealth();
+
+    expect(down).toMatchObject({ requests: 1, successRate: 0, score: 0, lastError: 'down is down' });
+    expect(up).toMatchObject({ requests: 1, successRate: 1, averageLatencyMs: 100 });
+    expect(up.score).toBeLessThan(1);
+    expect(up.lastSuccessAt).toBeDefined();
+    expect(unused).toMatchObject({ requests: 0, score: 1 });
+  });
+
+  it('rejects duplicate provider names', () => {
+    const router = new MarketDataRouter().register(scripted('a', ['ok']));
+
+    expect(() => router.register(scripted('a', ['ok']))).toThrow();
+  });
+});
+
+describe('FixtureProvider', () => {
+  it('serves fixtures and simulated quotes for other symbols', async () => {
+    const provider = new FixtureProvider({ AAPL: { price: 190, change: 2, changePercent: 1.06, volume: 5000 } });
+
+    expect(await provider.fetchQuote('AAPL')).toMatchObject({ symbol: 'AAPL', price: 190, volume: 5000 });
+    const simulated = await provider.fetchQuote('MSFT');
+    expect(simulated?.price).toBeGreaterThan(0);
+  });
+
+  it('only supports its fixtures when simulation is off', async () => {
+    const provider = new FixtureProvider({ AAPL: { price: 190, change: 0, changePercent: 0, volume: 0 } }, false);
+
+    expect(provider.supports('AAPL')).toBe(true);
+    expect(provider.supports('MSFT')).toBe(false);
+    expect(await provider.fetchQuote('MSFT')).toBeNull();
+  });
+});
\ No newline at end of file
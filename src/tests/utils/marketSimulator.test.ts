@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator, SeededRandom, SYMBOL_PROFILES } from '../../utils/marketSimulator';
+
+// Wednesday, mid-session for US equities (13:30-20:00 UTC)
+const asOf = new Date('2025-09-03T16:00:00Z');
+
+describe('SeededRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+
+    const drawsA = Array.from({ length: 5 }, () => a.next());
+    const drawsB = Array.from({ length: 5 }, () => b.next());
+
+    expect(drawsA).toEqual(drawsB);
+    drawsA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should draw roughly standard normal values', () => {
+    const rng = new SeededRandom(7);
+    const draws = Array.from({ length: 5000 }, () => rng.normal());
+    const mean = draws.reduce((sum, z) => sum + z, 0) / draws.length;
+    const variance = draws.reduce((sum, z) => sum + (z - mean) ** 2, 0) / draws.length;
+
+    expect(Math.abs(mean)).toBeLessThan(0.05);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+});
+
+describe('MarketSimulator', () => {
+  const simulator = new MarketSimulator({ seed: 1, asOf });
+
+  describe('dailyBars', () => {
+    it('should be reproducible for the same seed and differ across seeds', () => {
+      const again = new MarketSimulator({ seed: 1, asOf });
+      const other = new MarketSimulator({ seed: 2, asOf });
+
+      expect(again.dailyBars('AAPL', 30)).toEqual(simulator.dailyBars('AAPL', 30));
+      expect(other.dailyBars('AAPL', 30)[0].close).not.toBeCloseTo(simulator.dailyBars('AAPL', 30)[0].close, 6);
+    });
+
+    it('should agree bar for bar across windows ending on the same day', () => {
+      const long = simulator.dailyBars('TSLA', 60);
+      const short = simulator.dailyBars('TSLA', 10);
+
+      expect(short).toEqual(long.slice(-10));
+    });
+
+    it('should anchor the latest close at the reference price', () => {
+      const bars = simulator.dailyBars('MSFT', 20);
+
+      expect(bars[bars.length - 1].date).toBe('2025-09-03');
+      expect(bars[bars.length - 1].close).toBe(SYMBOL_PROFILES.MSFT.basePrice);
+    });
+
+    it('should produce consistent OHLCV bars', () => {
+      simulator.dailyBars('NVDA', 100).forEach(bar => {
+        expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close));
+        expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+        expect(bar.low).toBeGreaterThan(0);
+        expect(bar.volume).toBeGreaterThan(0);
+      });
+    });
+
+    it('should skip weekends for equities but not for crypto', () => {
+      const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+      const equityDays = simulator.dailyBars('AAPL', 15).map(bar => weekday(bar.date));
+      const cryptoDays = simulator.dailyBars('BTC', 15).map(bar => weekday(bar.date));
+
+      expect(equityDays).not.toContain(0);
+      expect(equityDays).not.toContain(6);
+      expect(cryptoDays).toContain(0);
+      expect(cryptoDays).toContain(6);
+    });
+  });
+
+  describe('intradayBars', () => {
+    it('should bridge the session from the daily open to the daily close', () => {
+      const [daily] = simulator.dailyBars('AAPL', 2);
+      const bars = simulator.intradayBars('AAPL', daily.date, 5);
+
+      expect(bars).toHaveLength(78); // 6.5 hours of 5-minute bars
+      expect(bars[0].timestamp).toBe(`${daily.date}T13:30:00.000Z`);
+      expect(bars[0].open).toBeCloseTo(daily.open, 8);
+      expect(bars[bars.length - 1].close).toBeCloseTo(daily.close, 8);
+    });
+
+    it('should return nothing for days without a session', () => {
+      expect(simulator.intradayBars('AAPL', '2025-08-31')).toEqual([]);
+      expect(simulator.intradayBars('AAPL', '2025-09-10')).toEqual([]);
+    });
+  });
+
+  describe('quote', () => {
+    it('should quote the intraday path while the session is open', () => {
+      const quote = simulator.quote('AAPL');
+      const [previous] = simulator.dailyBars('AAPL', 2);
+
+      expect(quote.timestamp).toBe(asOf.toISOString());
+      expect(quote.change).toBeCloseTo(quote.price - previous.close, 8);
+      expect(quote.marketCap).toBeGreaterThan(0);
+    });
+
+    it('should quote the previous close before the session opens', () => {
+      const early = new MarketSimulator({ seed: 1, asOf: new Date('2025-09-03T08:00:00Z') });
+      const [, yesterday] = early.dailyBars('AAPL', 3);
+
+      expect(early.quote('AAPL').price).toBe(yesterday.close);
+    });
+  });
+
+  describe('trendData', () => {
+    it('should compute indicators from the simulated closes', () => {
+      const data = simulator.trendData('GOOGL', 31);
+      const bars = simulator.dailyBars('GOOGL', 31);
+
+      expect(data).toHaveLength(31);
+      expect(data.map(point => point.price)).toEqual(bars.map(bar => bar.close));
+
+      const last20 = bars.slice(-20).reduce((sum, bar) => sum + bar.close, 0) / 20;
+      expect(data[data.length - 1].ma20).toBeCloseTo(last20, 8);
+      data.forEach(point => {
+        expect(point.rsi).toBeGreaterThanOrEqual(0);
+        expect(point.rsi).toBeLessThanOrEqual(100);
+      });
+    });
+  });
+
+  describe('projectCloses', () => {
+    it('should project future sessions after the latest bar', () => {
+      const projection = simulator.projectCloses('AAPL', 7);
+
+      expect(projection).toHaveLength(7);
+      expect(projection[0].date).toBe('2025-09-04');
+      expect(projection.map(point => point.date)).not.toContain('2025-09-06');
+    });
+  });
+});
\ No newline at end of file
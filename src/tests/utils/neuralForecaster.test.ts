@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { NeuralForecaster, ForecastFeatures } from '../../utils/neuralForecaster';
+import { TechnicalIndicators } from '../../utils/technicalIndicators';
+import { SeededRandom } from '../../utils/marketSimulator';
+import { computeFeatureVectors } from '../../../supabase/functions/_shared/featureVectors';
+
+// Prices whose daily log returns follow an AR(1), so the next move is partly predictable
+const buildFeatures = (count: number, seed: number, phi: number = 0.5): ForecastFeatures => {
+  const rng = new SeededRandom(seed);
+  const prices = [100];
+  let previousReturn = 0;
+  for (let t = 1; t < count; t++) {
+    const logReturn = phi * previousReturn + 0.01 * rng.normal();
+    prices.push(prices[t - 1] * Math.exp(logReturn));
+    previousReturn = logReturn;
+  }
+  const volumes = prices.map((_, t) => 1000000 * (1 + 0.2 * Math.sin(t)));
+
+  return { prices, volumes, technicalIndicators: TechnicalIndicators.calculateAll(prices) };
+};
+
+describe('NeuralForecaster', () => {
+  describe('buildDataset', () => {
+    it('should pair each session with its forward cumulative log returns', () => {
+      const features = buildFeatures(120, 1);
+      const dataset = NeuralForecaster.buildDataset(features, 10, 5);
+      const { prices } = features;
+
+      expect(dataset.inputs[0]).toHaveLength(15);
+      expect(dataset.targets[0]).toHaveLength(5);
+      expect(dataset.latest).toHaveLength(15);
+
+      // Last training row ends horizon sessions before the data does
+      const t = prices.length - 1 - 5;
+      const lastTarget = dataset.targets[dataset.targets.length - 1];
+      expect(lastTarget[0]).toBeCloseTo(Math.log(prices[t + 1] / prices[t]), 12);
+      expect(lastTarget[4]).toBeCloseTo(Math.log(prices[t + 5] / prices[t]), 12);
+    });
+
+    it('should build rows from stored feature vectors when they are supplied', () => {
+      const { prices, volumes, technicalIndicators } = buildFeatures(120, 6);
+      const vectors = computeFeatureVectors(prices.map((close, t) => ({
+        date: `day-${String(t).padStart(3, '0')}`,
+        high: close * 1.01,
+        low: close * 0.99,
+        close,
+        volume: volumes[t]
+      })), { 'day-119': 0.4 });
+      const dataset = NeuralForecaster.buildDataset({ prices, volumes, technicalIndicators, vectors }, 10, 5);
+      const latest = vectors[vectors.length - 1];
+
+      // Ten lags, five indicators and the day's sentiment
+      expect(dataset.latest).toHaveLength(16);
+      expect(dataset.latest[0]).toBeCloseTo(latest.logReturn, 12);
+      expect(dataset.latest[15]).toBe(0.4);
+      expect(dataset.inputs).toHaveLength(vectors.length - 9 - 5);
+      expect(dataset.targets[0][0]).toBeCloseTo(Math.log(vectors[10].close / vectors[9].close), 12);
+    });
+
+    it('should reject histories too short for the indicators', () => {
+      expect(() => NeuralForecaster.buildDataset(buildFeatures(20, 2), 10, 5)).toThrow('Not enough history');
+    });
+  });
+
+  describe('train', () => {
+    it('should learn a predictable next-day move', () => {
+      const dataset = NeuralForecaster.buildDataset(buildFeatures(400, 3, 0.6), 10, 3);
+      const forecaster = NeuralForecaster.create(dataset, { horizon: 3 });
+      const report = forecaster.train(dataset, 150);
+
+      // Unit variance targets: beating 1 means beating a constant forecast
+      expect(report.trainingLoss).toBeLessThan(0.9);
+      expect(report.samples).toBe(dataset.inputs.length);
+      expect(report.epochs).toBeGreaterThan(0);
+      expect(report.durationMs).toBeGreaterThan(0);
+    });
+
+    it('should be reproducible for the same seed', () => {
+      const dataset = NeuralForecaster.buildDataset(buildFeatures(150, 4), 10, 3);
+      const a = NeuralForecaster.create(dataset, { horizon: 3, seed: 9 });
+      const b = NeuralForecaster.create(dataset, { horizon: 3, seed: 9 });
+      a.train(dataset, 20);
+      b.train(dataset, 20);
+
+      expect(a.predict(dataset.latest)).toEqual(b.predict(dataset.latest));
+    });
+  });
+
+  describe('attribute', () => {
+    it('should attribute the move away from the baseline forecast to the inputs', () => {
+      const dataset = NeuralForecaster.buildDataset(buildFeatures(200, 7), 10, 3);
+      const forecaster = NeuralForecaster.create(dataset, { horizon: 3 });
+      forecaster.train(dataset, 30);
+
+      const { returns } = forecaster.predict(dataset.latest);
+      const { baseline, contributions } = forecaster.attribute(dataset.latest, 64);
+
+      expect(contributions).toHaveLength(3);
+      expect(contributions[0]).toHaveLength(dataset.latest.length);
+      returns.forEach((value, h) => {
+        const total = contributions[h].reduce((sum, c) => sum + c, 0);
+        expect(baseline[h] + total).toBeCloseTo(value, 4);
+      });
+    });
+  });
+
+  describe('serialize', () => {
+    it('should round-trip through JSON and keep training from the stored weights', () => {
+      const dataset = NeuralForecaster.buildDataset(buildFeatures(200, 5), 10, 3);
+      const original = NeuralForecaster.create(dataset, { horizon: 3 });
+      const firstReport = original.train(dataset, 40);
+
+      const restored = NeuralForecaster.deserialize(JSON.parse(JSON.stringify(original.serialize())));
+      expect(restored.predict(dataset.latest)).toEqual(original.predict(dataset.latest));
+
+      // Incremental pass on a longer history starts from the learned weights
+      const extended = NeuralForecaster.buildDataset(buildFeatures(230, 5), 10, 3);
+      const update = restored.train(extended, 10);
+      expect(update.trainingLoss).toBeLessThan(firstReport.trainingLoss * 1.5);
+      expect(restored.predict(extended.latest).std).toHaveLength(3);
+    });
+  });
+});
\ No newline at end of file
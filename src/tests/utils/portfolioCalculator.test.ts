@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { PortfolioCalculator } from '../../utils/portfolioCalculator';
+
+describe('PortfolioCalculator', () => {
+  describe('applyBuy', () => {
+    it('should open a position at the fill price', () => {
+      const position = PortfolioCalculator.applyBuy({ quantity: 0, averageCost: 0 }, 10, 100);
+
+      expect(position.quantity).toBe(10);
+      expect(position.averageCost).toBe(100);
+    });
+
+    it('should blend the average cost and include fees', () => {
+      const position = PortfolioCalculator.applyBuy({ quantity: 10, averageCost: 100 }, 10, 120, 20);
+
+      expect(position.quantity).toBe(20);
+      expect(position.averageCost).toBeCloseTo(111, 6);
+    });
+
+    it('should reject non-positive quantities and prices', () => {
+      expect(() => PortfolioCalculator.applyBuy({ quantity: 0, averageCost: 0 }, 0, 100)).toThrow();
+      expect(() => PortfolioCalculator.applyBuy({ quantity: 0, averageCost: 0 }, 1, -5)).toThrow();
+    });
+  });
+
+  describe('applySell', () => {
+    it('should keep the average cost and realize P&L net of fees', () => {
+      const result = PortfolioCalculator.applySell({ quantity: 20, averageCost: 100 }, 5, 130, 10);
+
+      expect(result.position.quantity).toBe(15);
+      expect(result.position.averageCost).toBe(100);
+      expect(result.realizedPnl).toBeCloseTo(140, 6);
+    });
+
+    it('should reset the average cost when the position is closed', () => {
+      const result = PortfolioCalculator.applySell({ quantity: 5, averageCost: 100 }, 5, 90);
+
+      expect(result.position.quantity).toBe(0);
+      expect(result.position.averageCost).toBe(0);
+      expect(result.realizedPnl).toBeCloseTo(-50, 6);
+    });
+
+    it('should not sell more than is held', () => {
+      expect(() => PortfolioCalculator.applySell({ quantity: 5, averageCost: 100 }, 6, 100)).toThrow();
+    });
+  });
+
+  describe('valuePosition', () => {
+    it('should calculate unrealized P&L against cost basis', () => {
+      const valuation = PortfolioCalculator.valuePosition({ quantity: 10, averageCost: 50 }, 60);
+
+      expect(valuation.marketValue).toBe(600);
+      expect(valuation.costBasis).toBe(500);
+      expect(valuation.unrealizedPnl).toBe(100);
+      expect(valuation.unrealizedPnlPercent).toBeCloseTo(20, 6);
+    });
+  });
+
+  describe('calculateAllocation', () => {
+    it('should return weights that sum to one', () => {
+      const allocation = PortfolioCalculator.calculateAllocation({ AAPL: 300, MSFT: 100 });
+
+      expect(allocation.AAPL).toBeCloseTo(0.75, 6);
+      expect(allocation.MSFT).toBeCloseTo(0.25, 6);
+    });
+
+    it('should return zero weights for an empty portfolio', () => {
+      expect(PortfolioCalculator.calculateAllocation({ AAPL: 0 }).AAPL).toBe(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter, TokenBucket, QuotaStorage } from '../../utils/rateLimiter';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+/** In-memory stand-in for localStorage */
+const memoryStorage = (): QuotaStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); }
+  };
+};
+
+describe('TokenBucket', () => {
+  it('refills continuously up to its capacity', () => {
+    const bucket = new TokenBucket(5, 5 / 60000, 0);
+
+    bucket.take(0, 5);
+    expect(bucket.available(0)).toBe(0);
+    expect(bucket.msUntil(0)).toBeCloseTo(12000);
+    expect(bucket.available(24000)).toBeCloseTo(2);
+    expect(bucket.available(10 * 60000)).toBe(5);
+  });
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a burst through up to the quota, then spaces requests at the refill rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ api: { perMinute: 2 } }, { channelName: null });
+    const granted: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire('api').then(() => granted.push(i));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+    expect(limiter.getUsage()[0]).toMatchObject({ minuteRemaining: 0, queued: 1 });
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(granted).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([0, 1, 2]);
+
+    limiter.close();
+  });
+
+  it('serves interactive requests before queued background ones', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ api: { perMinute: 1 } }, { channelName: null });
+    const granted: string[] = [];
+
+    limiter.acquire('api').then(() => granted.push('first'));
+    limiter.acquire('api', 'background').then(() => granted.push('backfill'));
+    limiter.acquire('api', 'interactive').then(() => granted.push('quote'));
+
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(granted).toEqual(['first', 'quote', 'backfill']);
+
+    limiter.close();
+  });
+
+  it('rejects once the daily quota is spent', async () => {
+    const limiter = new RateLimiter({ api: { perMinute: 10, perDay: 2 } }, { channelName: null });
+
+    await limiter.acquire('api');
+    await limiter.acquire('api');
+    await expect(limiter.acquire('api')).rejects.toThrow('Daily quota');
+    expect(limiter.getUsage()[0]).toMatchObject({ dayRemaining: 0, queued: 0 });
+
+    limiter.close();
+  });
+
+  it('keeps the daily count across reloads until the UTC day ends', async () => {
+    const storage = memoryStorage();
+    let now = Date.parse('2025-09-02T23:00:00Z');
+    const options = { channelName: null, storage, clock: () => now };
+    const quotas = { api: { perMinute: 10, perDay: 2 } };
+
+    const first = new RateLimiter(quotas, options);
+    await first.acquire('api');
+    await first.acquire('api');
+    first.close();
+
+    // A reload starts a new limiter, which still finds the day spent
+    const reloaded = new RateLimiter(quotas, options);
+    await expect(reloaded.acquire('api')).rejects.toThrow('Daily quota');
+    expect(storage.items.get('market-data-quota:api:2025-09-02')).toBe('2');
+
+    now = Date.parse('2025-09-03T00:00:01Z');
+    await expect(reloaded.acquire('api')).resolves.toBeUndefined();
+    expect(reloaded.getUsage()[0].dayRemaining).toBe(1);
+    expect(Array.from(storage.items.keys())).toEqual(['market-data-quota:api:2025-09-03']);
+
+    reloaded.close();
+  });
+
+  it('does not limit providers without a quota', async () => {
+    const limiter = new RateLimiter({}, { channelName: null });
+
+    await expect(limiter.acquire('unlisted')).resolves.toBeUndefined();
+    expect(limiter.getUsage()).toEqual([]);
+
+    limiter.close();
+  });
+
+  it('rejects non-positive quotas', () => {
+    const limiter = new RateLimiter({}, { channelName: null });
+
+    expect(() => limiter.setQuota('api', { perMinute: 0 })).toThrow();
+    expect(() => limiter.setQuota('api', { perMinute: 5, perDay: -1 })).toThrow();
+  });
+
+  it('shares spent tokens with other tabs on the same channel', async () => {
+    const channelName = `rate-limit-test-${Math.random()}`;
+    const first = new RateLimiter({ api: { perMinute: 5 } }, { channelName });
+    await first.acquire('api');
+    await first.acquire('api');
+
+    // A tab opened later adopts the lower level of the open ones
+    const second = new RateLimiter({ api: { perMinute: 5 } }, { channelName });
+    await settle();
+    expect(second.getUsage()[0].minuteRemaining).toBe(3);
+
+    await second.acquire('api');
+    await settle();
+    expect(first.getUsage()[0].minuteRemaining).toBe(2);
+
+    first.close();
+    second.close();
+  });
+});
\ No newline at end of file
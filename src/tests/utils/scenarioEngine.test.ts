@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { ScenarioEngine, ScenarioShock, SHOCK_WINDOW } from '../../utils/scenarioEngine';
+import { SeededRandom } from '../../utils/marketSimulator';
+import { PriceBar } from '../../utils/forecastHorizon';
+import { FeatureVector } from '../../types';
+
+const shock = (overrides: Partial<ScenarioShock> = {}): ScenarioShock => ({
+  name: 'Test',
+  priceShock: 0,
+  volatilityMultiplier: 1,
+  sentimentShift: 0,
+  correlationBreak: 0,
+  ...overrides
+});
+
+const bars = (count: number, seed: number): PriceBar[] => {
+  const rng = new SeededRandom(seed);
+  let close = 100;
+  return Array.from({ length: count }, (_, t) => {
+    close *= Math.exp(0.01 * rng.normal());
+    return {
+      date: `2025-01-${String(t + 1).padStart(2, '0')}`,
+      open_price: close * 0.998,
+      high_price: close * 1.01,
+      low_price: close * 0.99,
+      close_price: close,
+      volume: 1000000
+    };
+  });
+};
+
+const logReturns = (closes: number[]) => closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+
+const std = (values: number[]) => {
+  const m = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+};
+
+describe('ScenarioEngine', () => {
+  describe('shockBars', () => {
+    it('should gap the latest close by the price shock and leave older bars alone', () => {
+      const original = bars(30, 1);
+      const shocked = ScenarioEngine.shockBars(original, shock({ priceShock: -0.1 }));
+      const last = original.length - 1;
+
+      expect(shocked[last].close_price).toBeCloseTo(original[last].close_price * 0.9, 9);
+      expect(shocked[last].high_price).toBeCloseTo(original[last].high_price * 0.9, 9);
+      expect(shocked.slice(0, last)).toEqual(original.slice(0, last));
+    });
+
+    it('should scale the spread of the latest returns by the volatility multiplier', () => {
+      const original = bars(40, 2);
+      const shocked = ScenarioEngine.shockBars(original, shock({ volatilityMultiplier: 2 }));
+      const window = (series: PriceBar[]) => logReturns(series.map(bar => bar.close_price)).slice(-SHOCK_WINDOW);
+
+      expect(std(window(shocked))).toBeCloseTo(2 * std(window(original)), 9);
+      shocked.forEach(bar => {
+        expect(bar.high_price).toBeGreaterThanOrEqual(bar.close_price);
+        expect(bar.low_price).toBeLessThanOrEqual(bar.close_price);
+      });
+    });
+
+    it('should reject shocks that wipe out prices', () => {
+      expect(() => ScenarioEngine.shockBars(bars(5, 3), shock({ priceShock: -1 }))).toThrow('above zero');
+      expect(() => ScenarioEngine.shockBars(bars(5, 3), shock({ volatilityMultiplier: 0 }))).toThrow('positive');
+    });
+  });
+
+  describe('shockVectors', () => {
+    it('should carry the shock into the latest vector and shift its sentiment', () => {
+      const closes = bars(30, 4).map(bar => bar.close_price);
+      const vectors: FeatureVector[] = closes.map((close, t) => ({
+        date: `d${t}`,
+        close,
+        logReturn: t === 0 ? 0 : Math.log(close / closes[t - 1]),
+        rsi: 50,
+        macdHistogram: 0,
+        sma20Gap: 0,
+        atr: 1,
+        volatility: 0.01,
+        volumeZScore: 0,
+        sentiment: t === 29 ? 0.5 : null
+      }));
+      const shocked = ScenarioEngine.shockVectors(vectors, shock({ priceShock: -0.2, sentimentShift: 0.8 }));
+      const last = shocked[shocked.length - 1];
+
+      expect(last.close).toBeCloseTo(closes[29] * 0.8, 9);
+      expect(last.logReturn).toBeCloseTo(vectors[29].logReturn + Math.log(0.8), 9);
+      expect(last.sentiment).toBe(1);
+      expect(last.rsi).toBeLessThan(50);
+      expect(last.sma20Gap).toBeLessThan(-0.1);
+      expect(shocked[0]).toEqual(vectors[0]);
+    });
+  });
+
+  describe('stressCorrelations', () => {
+    it('should move correlations towards one and keep the diagonal', () => {
+      const stressed = ScenarioEngine.stressCorrelations([[1, 0.2], [0.2, 1]], 0.5);
+
+      expect(stressed[0][0]).toBe(1);
+      expect(stressed[1][1]).toBe(1);
+      expect(stressed[0][1]).toBeCloseTo(0.6, 12);
+      expect(stressed[1][0]).toBeCloseTo(0.6, 12);
+    });
+  });
+
+  describe('aggregate', () => {
+    const positions = [
+      { symbol: 'A', quantity: 10, price: 100, projectedPrice: 90, volatility: 0.02 },
+      { symbol: 'B', quantity: 5, price: 200, projectedPrice: 190, volatility: 0.02 }
+    ];
+
+    it('should value the shock and the projection across positions', () => {
+      const result = ScenarioEngine.aggregate(positions, [[1, 0], [0, 1]], 4, shock({ priceShock: -0.1 }));
+
+      expect(result.currentValue).toBe(2000);
+      expect(result.shockedValue).toBeCloseTo(1800, 9);
+      expect(result.projectedValue).toBe(1850);
+      expect(result.projectedPnlPercent).toBeCloseTo(-7.5, 9);
+      // Each position spreads by value x volatility x sqrt(sessions)
+      expect(result.valueVolatility).toBeCloseTo(Math.hypot(900 * 0.04, 950 * 0.04), 9);
+    });
+
+    it('should widen the value at risk when correlations break towards one', () => {
+      const calm = ScenarioEngine.aggregate(positions, [[1, 0], [0, 1]], 4, shock());
+      const broken = ScenarioEngine.aggregate(positions, [[1, 0], [0, 1]], 4, shock({ correlationBreak: 1 }));
+
+      expect(broken.valueVolatility).toBeCloseTo(900 * 0.04 + 950 * 0.04, 9);
+      expect(broken.valueAtRisk95).toBeGreaterThan(calm.valueAtRisk95);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { StackedEnsemble, MemberForecast } from '../../utils/stackedEnsemble';
+
+const forecast = (predicted: number, halfWidth: number, confidence: number = 0.8): MemberForecast => ({
+  predicted,
+  upperBound: predicted + halfWidth,
+  lowerBound: predicted - halfWidth,
+  confidence
+});
+
+describe('StackedEnsemble', () => {
+  describe('weigh', () => {
+    it('should split equally when no member has resolved predictions', () => {
+      const weights = StackedEnsemble.weigh(['lstm-v2.0', 'arima-v2.0'], {});
+
+      expect(weights['lstm-v2.0']).toBeCloseTo(0.5, 10);
+      expect(weights['arima-v2.0']).toBeCloseTo(0.5, 10);
+    });
+
+    it('should approach inverse-MSE weights as samples grow', () => {
+      const errors = {
+        a: { mse: 1, sampleSize: 10000 },
+        b: { mse: 4, sampleSize: 10000 }
+      };
+      const weights = StackedEnsemble.weigh(['a', 'b'], errors);
+
+      expect(weights.a).toBeCloseTo(0.8, 2);
+      expect(weights.b).toBeCloseTo(0.2, 2);
+    });
+
+    it('should shrink towards equal weights while samples are few', () => {
+      const few = StackedEnsemble.weigh(['a', 'b'], { a: { mse: 1, sampleSize: 2 }, b: { mse: 4, sampleSize: 2 } });
+      const many = StackedEnsemble.weigh(['a', 'b'], { a: { mse: 1, sampleSize: 200 }, b: { mse: 4, sampleSize: 200 } });
+
+      expect(few.a).toBeGreaterThan(0.5);
+      expect(few.a).toBeLessThan(many.a);
+      expect(few.a + few.b).toBeCloseTo(1, 10);
+    });
+
+    it('should give a newly added member an equal share alongside measured ones', () => {
+      const weights = StackedEnsemble.weigh(['a', 'b', 'new'], {
+        a: { mse: 1, sampleSize: 10000 },
+        b: { mse: 1, sampleSize: 10000 }
+      });
+
+      expect(weights.new).toBeCloseTo(1 / 3, 3);
+      expect(weights.a).toBeCloseTo(weights.b, 10);
+    });
+  });
+
+  describe('combine', () => {
+    it('should average predictions with the weights and report them', () => {
+      const combined = StackedEnsemble.combine(
+        { a: forecast(100, 2, 0.9), b: forecast(110, 4, 0.7) },
+        { a: 0.75, b: 0.25 }
+      );
+
+      expect(combined.predicted).toBeCloseTo(102.5, 10);
+      expect(combined.confidence).toBeCloseTo(0.85, 10);
+      expect(combined.weights).toEqual({ a: 0.75, b: 0.25 });
+
+      // Weighted half-width of 2.5 plus the members' spread around the mean
+      const disagreement = Math.sqrt(0.75 * 2.5 ** 2 + 0.25 * 7.5 ** 2);
+      expect(combined.upperBound).toBeCloseTo(102.5 + 2.5 + disagreement, 10);
+      expect(combined.lowerBound).toBeCloseTo(102.5 - 2.5 - disagreement, 10);
+    });
+
+    it('should renormalize over the members that forecast', () => {
+      const combined = StackedEnsemble.combine({ a: forecast(100, 2) }, { a: 0.4, removed: 0.6 });
+
+      expect(combined.predicted).toBe(100);
+      expect(combined.weights).toEqual({ a: 1 });
+      expect(combined.upperBound).toBeCloseTo(102, 10);
+    });
+
+    it('should reject forecasts without weights', () => {
+      expect(() => StackedEnsemble.combine({ a: forecast(100, 2) }, {})).toThrow('No weighted member forecasts');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { TechnicalAnalyzer } from '../../utils/technicalAnalyzer';
+import { HistoricalDataPoint } from '../../types';
+
+const buildBars = (closes: number[]): HistoricalDataPoint[] =>
+  closes.map((close, index) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + index));
+    return {
+      date: date.toISOString().split('T')[0],
+      open: close,
+      high: close * 1.005,
+      low: close * 0.995,
+      close,
+      volume: 1000000
+    };
+  });
+
+// Accelerating move (up for direction 1, down for -1) with a small ripple
+const accelerating = (count: number, direction: number) =>
+  Array.from({ length: count }, (_, i) => 200 + direction * 0.01 * i * i + Math.sin(i / 2));
+
+const signalNames = (bars: HistoricalDataPoint[]) =>
+  TechnicalAnalyzer.analyze('TEST', bars).signals;
+
+describe('TechnicalAnalyzer', () => {
+  describe('analyze', () => {
+    it('should call a rising market bullish and explain every signal', () => {
+      const result = TechnicalAnalyzer.analyze('TEST', buildBars(accelerating(120, 1)));
+
+      expect(result.trend).toBe('bullish');
+      expect(result.signals).toContain('MA20 above MA50');
+      expect(result.signals).toContain('Uptrend');
+      expect(result.signalDetails).toHaveLength(result.signals.length);
+      result.signalDetails!.forEach(signal => {
+        expect(signal.explanation.length).toBeGreaterThan(0);
+      });
+      expect(result.nextTarget).toBeGreaterThan(result.stopLoss);
+    });
+
+    it('should call a falling market bearish', () => {
+      const result = TechnicalAnalyzer.analyze('TEST', buildBars(accelerating(120, -1)));
+
+      expect(result.trend).toBe('bearish');
+      expect(result.signals).toContain('MA20 below MA50');
+      expect(result.signals).toContain('Downtrend');
+      expect(result.nextTarget).toBeLessThan(result.stopLoss);
+    });
+
+    it('should detect a recent golden cross', () => {
+      // Long decline, then a sharp rally that lifts MA20 through MA50 near the end
+      const closes = [
+        ...Array.from({ length: 80 }, (_, i) => 150 - i * 0.5),
+        ...Array.from({ length: 18 }, (_, i) => 110 + i * 2.5)
+      ];
+      const result = TechnicalAnalyzer.analyze('TEST', buildBars(closes));
+      const cross = result.signalDetails!.find(signal => signal.name === 'Golden Cross');
+
+      expect(cross).toBeDefined();
+      expect(cross!.direction).toBe('bullish');
+      expect(cross!.explanation).toContain('crossed above MA50');
+    });
+
+    it('should flag RSI zones', () => {
+      const rally = Array.from({ length: 60 }, (_, i) => 100 + i);
+      const selloff = Array.from({ length: 60 }, (_, i) => 200 - i);
+
+      expect(signalNames(buildBars(rally))).toContain('RSI overbought');
+      expect(signalNames(buildBars(selloff))).toContain('RSI oversold');
+    });
+
+    it('should use ADX as trend strength', () => {
+      const result = TechnicalAnalyzer.analyze('TEST', buildBars(accelerating(120, 1)));
+
+      expect(result.strength).toBeGreaterThanOrEqual(0);
+      expect(result.strength).toBeLessThanOrEqual(100);
+      expect(result.signals.some(name => name.includes('(ADX)'))).toBe(true);
+    });
+
+    it('should reject an empty history', () => {
+      expect(() => TechnicalAnalyzer.analyze('TEST', [])).toThrow('No bars to analyze');
+    });
+  });
+
+  describe('findLevels', () => {
+    it('should cluster swing highs and lows into nearest-first levels', () => {
+      // Oscillates between ~90 and ~110, finishing at 100
+      const closes = Array.from({ length: 41 }, (_, i) => 100 + 10 * Math.sin((i * Math.PI) / 5));
+      const { support, resistance } = TechnicalAnalyzer.findLevels(buildBars(closes), 100);
+
+      expect(support).toHaveLength(1);
+      expect(resistance).toHaveLength(1);
+      expect(support[0]).toBeCloseTo(90 * 0.995, 0);
+      expect(resistance[0]).toBeCloseTo(110 * 1.005, 0);
+    });
+
+    it('should fall back to the range extremes without swings', () => {
+      const closes = Array.from({ length: 10 }, (_, i) => 100 + i);
+      const { support, resistance } = TechnicalAnalyzer.findLevels(buildBars(closes), 105);
+
+      expect(support).toEqual([100 * 0.995]);
+      expect(resistance).toEqual([109 * 1.005]);
+    });
+  });
+});
\ No newline at end of file
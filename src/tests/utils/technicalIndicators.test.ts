@@ -51,13 +51,31 @@ describe('TechnicalIndicators', () => {
 
   describe('calculateMACD', () => {
     it('should calculate MACD correctly', () => {
-      const { macd, signal, histogram } = TechnicalIndicators.calculateMACD(samplePrices);
+      // MACD(12, 26, 9) needs 26 + 9 - 1 prices before the signal line starts
+      const { macd, signal, histogram } = TechnicalIndicators.calculateMACD([...samplePrices, ...samplePrices]);
       
       expect(macd.length).toBeGreaterThan(0);
       expect(signal.length).toBeGreaterThan(0);
       expect(histogram.length).toBeGreaterThan(0);
       expect(histogram.length).toBe(signal.length);
     });
+
+    it('should align the fast and slow EMAs and the signal line on the same bars', () => {
+      // With periods 3/6/4 the first MACD value is on bar 5: EMA3 = 13, EMA6 seed = 71/6
+      const prices = [10, 11, 12, 11, 13, 14, 13, 15, 16, 15, 17, 18];
+      const { macd, signal, histogram } = TechnicalIndicators.calculateMACD(prices, 3, 6, 4);
+
+      expect(macd).toHaveLength(prices.length - 5);
+      [1.1667, 0.8333, 1.0238, 1.1599, 0.8285, 1.0203, 1.1574].forEach((value, i) => {
+        expect(macd[i]).toBeCloseTo(value, 4);
+      });
+      [1.0459, 0.9589, 0.9835, 1.0531].forEach((value, i) => {
+        expect(signal[i]).toBeCloseTo(value, 4);
+      });
+      [0.1139, -0.1305, 0.0368, 0.1043].forEach((value, i) => {
+        expect(histogram[i]).toBeCloseTo(value, 4);
+      });
+    });
   });
 
   describe('calculateBollingerBands', () => {
@@ -75,6 +93,35 @@ describe('TechnicalIndicators', () => {
     });
   });
 
+  describe('calculateDirectionalIndex', () => {
+    const highs = [10, 11, 12, 11.5, 13, 14, 13.5, 15, 14, 16, 17, 16.5];
+    const lows = [9, 10, 10.5, 10.8, 11.5, 12.8, 12.6, 13.5, 13, 14.5, 15.6, 15.2];
+    const closes = [9.5, 10.8, 11.6, 11, 12.9, 13.6, 13, 14.8, 13.5, 15.8, 16.6, 15.6];
+    const round = (values: number[]) => values.map(value => Math.round(value * 10000) / 10000);
+
+    it('should match Wilder-smoothed values over period 3', () => {
+      const { plusDI, minusDI, adx } = TechnicalIndicators.calculateDirectionalIndex(highs, lows, closes, 3);
+
+      // First +DI: directional movement 1 + 1 + 0 over true range 1.5 + 1.5 + 0.8
+      expect(round(plusDI)).toEqual([52.6316, 62.5, 68.4211, 50.4854, 61.2772, 38.4353, 56.6042, 60.5856, 43.1874]);
+      expect(round(minusDI)).toEqual([0, 0, 0, 5.2427, 2.9348, 12.1953, 6.8645, 5.0209, 11.7838]);
+      expect(round(adx)).toEqual([100, 93.7282, 92.7718, 79.1233, 78.8719, 80.8126, 72.9175]);
+      expect(TechnicalIndicators.calculateADX(highs, lows, closes, 3)).toEqual(adx);
+    });
+
+    it('should read zero rather than NaN when prices do not move', () => {
+      const flat = new Array(30).fill(100);
+      const adx = TechnicalIndicators.calculateADX(flat, flat, flat);
+
+      expect(adx.length).toBeGreaterThan(0);
+      expect(adx.every(value => value === 0)).toBe(true);
+    });
+
+    it('should need twice the period in bars', () => {
+      expect(TechnicalIndicators.calculateADX(highs, lows, closes, 7)).toEqual([]);
+    });
+  });
+
   describe('detectPatterns', () => {
     it('should detect basic patterns', () => {
       const patterns = TechnicalIndicators.detectPatterns(samplePrices);
@@ -88,4 +135,4 @@ describe('TechnicalIndicators', () => {
       expect(patterns).toEqual([]);
     });
   });
-});</parameter>
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TrendClassifier,
+  TREND_FEATURES,
+  directionOf,
+  directionValue,
+  flatThreshold
+} from '../../utils/trendClassifier';
+import { SeededRandom } from '../../utils/marketSimulator';
+
+// Alternating trends: drift flips sign every `segment` bars
+const trendingSeries = (n: number, segment: number, seed: number) => {
+  const rng = new SeededRandom(seed);
+  const closes = [100];
+  for (let t = 1; t < n; t++) {
+    const drift = Math.floor(t / segment) % 2 === 0 ? 0.006 : -0.006;
+    closes.push(closes[t - 1] * Math.exp(drift + 0.008 * rng.normal()));
+  }
+  const highs = closes.map(close => close * 1.005);
+  const lows = closes.map(close => close * 0.995);
+  return { highs, lows, closes };
+};
+
+describe('directionOf', () => {
+  it('should call moves inside the threshold flat', () => {
+    expect(directionOf(0.004, 0.005)).toBe('flat');
+    expect(directionOf(-0.005, 0.005)).toBe('flat');
+    expect(directionOf(0.02, 0.005)).toBe('up');
+    expect(directionOf(-0.02, 0.005)).toBe('down');
+    expect([directionValue('down'), directionValue('flat'), directionValue('up')]).toEqual([-1, 0, 1]);
+  });
+
+  it('should scale the flat threshold with the horizon', () => {
+    const returns = [0.01, -0.01, 0.01, -0.01];
+
+    expect(flatThreshold(returns, 1, 0.5)).toBeCloseTo(0.005, 12);
+    expect(flatThreshold(returns, 4, 0.5)).toBeCloseTo(0.01, 12);
+  });
+});
+
+describe('TrendClassifier', () => {
+  it('should build one feature per indicator once they have all warmed up', () => {
+    const { highs, lows, closes } = trendingSeries(120, 40, 31);
+    const rows = TrendClassifier.featureRows(highs, lows, closes);
+    const firstReady = rows.findIndex(row => row !== null);
+
+    expect(rows).toHaveLength(closes.length);
+    // The 50-bar moving average is the slowest to warm up
+    expect(firstReady).toBe(49);
+    expect(rows[firstReady]).toHaveLength(TREND_FEATURES.length);
+  });
+
+  it('should label examples by the move over the horizon and keep the latest bar unlabelled', () => {
+    const { highs, lows, closes } = trendingSeries(120, 40, 32);
+    const dataset = TrendClassifier.buildDataset(highs, lows, closes, 5, 0.01);
+
+    expect(dataset.examples).toHaveLength(120 - 49 - 5);
+    expect(dataset.examples[0].label).toBe(directionOf(Math.log(closes[54] / closes[49]), 0.01));
+    expect(dataset.latest).toHaveLength(TREND_FEATURES.length);
+  });
+
+  it('should beat chance on persistent trends out of sample', () => {
+    const { highs, lows, closes } = trendingSeries(700, 60, 33);
+    const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+    const { examples } = TrendClassifier.buildDataset(highs, lows, closes, 5, flatThreshold(returns, 5));
+
+    const split = Math.floor(examples.length * 0.7);
+    const classifier = TrendClassifier.train(examples.slice(0, split));
+    const holdout = examples.slice(split);
+    const hits = holdout.filter(example => classifier.classify(example.features) === example.label).length;
+
+    expect(hits / holdout.length).toBeGreaterThan(0.5);
+  });
+
+  it('should output probabilities that sum to one', () => {
+    const { highs, lows, closes } = trendingSeries(200, 40, 34);
+    const dataset = TrendClassifier.buildDataset(highs, lows, closes, 5, 0.01);
+    const probabilities = TrendClassifier.train(dataset.examples, { epochs: 50 }).predict(dataset.latest!);
+
+    expect(probabilities.up + probabilities.down + probabilities.flat).toBeCloseTo(1, 12);
+    Object.values(probabilities).forEach(p => expect(p).toBeGreaterThan(0));
+  });
+
+  it('should refuse to train without examples', () => {
+    expect(() => TrendClassifier.train([])).toThrow(/No labelled examples/);
+  });
+});
\ No newline at end of file
@@ -18,6 +18,21 @@ export interface TrendData {
   macd: number;
 }
 
+export interface HistoricalSeries {
+  data: TrendData[];
+  // Why split and dividend adjustment failed, leaving the prices as traded
+  adjustmentError?: string;
+}
+
+export interface HistoricalDataPoint {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
 export interface PredictionData {
   timestamp: string;
   predicted: number;
@@ -28,13 +43,19 @@ export interface PredictionData {
 export interface Alert {
   id: string;
   symbol: string;
-  type: 'price' | 'volume' | 'trend' | 'volatility';
+  type: 'price' | 'volume' | 'trend' | 'volatility' | 'composite';
   severity: 'low' | 'medium' | 'high';
   message: string;
   timestamp: string;
   isRead: boolean;
 }
 
+export interface AnalysisSignal {
+  name: string;
+  direction: 'bullish' | 'bearish' | 'neutral';
+  explanation: string;
+}
+
 export interface AnalysisResult {
   symbol: string;
   trend: 'bullish' | 'bearish' | 'neutral';
@@ -43,4 +64,31 @@ export interface AnalysisResult {
   signals: string[];
   nextTarget: number;
   stopLoss: number;
+  signalDetails?: AnalysisSignal[];
+  supportLevels?: number[];
+  resistanceLevels?: number[];
+}
+// Must match FeatureVector in supabase/functions/_shared/featureVectors.ts
+export interface FeatureVector {
+  date: string;
+  close: number;
+  logReturn: number;
+  rsi: number;
+  macdHistogram: number;
+  sma20Gap: number;
+  atr: number;
+  volatility: number;
+  volumeZScore: number;
+  sentiment: number | null;
+}
+
+// Must match BarInterval in supabase/functions/_shared/historicalBackfill.ts
+export type BarInterval = 'daily' | 'weekly' | 'monthly';
+
+// Must match DateGap in supabase/functions/_shared/historicalBackfill.ts
+export interface DateGap {
+  from: string;
+  to: string;
+  // Trading days missing in the range
+  sessions: number;
 }
\ No newline at end of file
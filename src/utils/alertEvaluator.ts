@@ -0,0 +1,174 @@
+/**
+ * Alert Evaluation Utilities
+ * Per-type alert metrics, level and crossing conditions with cooldown-based re-arming
+ */
+
+import { HistoricalDataPoint } from '../types';
+import { DataProcessor } from './dataProcessor';
+import { TechnicalIndicators } from './technicalIndicators';
+
+export type AlertCondition = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+export type AlertMetricType = 'price' | 'volume' | 'trend' | 'volatility' | 'composite';
+
+export interface AlertMetricContext {
+  price: number;
+  volume?: number;
+  // Daily bars before the current observation, oldest first
+  history: HistoricalDataPoint[];
+  analysis?: {
+    trendDirection: 'bullish' | 'bearish' | 'neutral';
+    strength: number;
+  } | null;
+  // Latest technical_indicators row, keyed by column name
+  indicators?: { [indicator: string]: number | null } | null;
+}
+
+// Bars used for the volume average and the volatility estimate
+export const ALERT_METRIC_WINDOW = 20;
+
+export interface AlertState {
+  previousValue: number | null;
+  isTriggered: boolean;
+  triggeredAt: string | null;
+  cooldownMinutes: number;
+}
+
+export interface AlertEvaluation {
+  shouldTrigger: boolean;
+  rearmed: boolean;
+  conditionMet: boolean;
+}
+
+export class AlertEvaluator {
+  /**
+   * Whether a condition holds for the latest observation.
+   * Crossings need a previous value on the opposite side of the target.
+   */
+  static isConditionMet(
+    condition: AlertCondition,
+    target: number,
+    current: number,
+    previous: number | null
+  ): boolean {
+    switch (condition) {
+      case 'above':
+        return current > target;
+      case 'below':
+        return current < target;
+      case 'crosses_above':
+        return previous !== null && previous <= target && current > target;
+      case 'crosses_below':
+        return previous !== null && previous >= target && current < target;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * A triggered alert stays silent until its cooldown has elapsed
+   */
+  static isCoolingDown(state: AlertState, now: Date = new Date()): boolean {
+    if (!state.isTriggered) return false;
+    if (!state.triggeredAt) return false;
+
+    const elapsedMs = now.getTime() - new Date(state.triggeredAt).getTime();
+    return elapsedMs < state.cooldownMinutes * 60 * 1000;
+  }
+
+  static evaluate(
+    condition: AlertCondition,
+    target: number,
+    current: number,
+    state: AlertState,
+    now: Date = new Date()
+  ): AlertEvaluation {
+    const conditionMet = this.isConditionMet(condition, target, current, state.previousValue);
+    const coolingDown = this.isCoolingDown(state, now);
+
+    return {
+      conditionMet,
+      shouldTrigger: conditionMet && !coolingDown,
+      rearmed: state.isTriggered && !coolingDown
+    };
+  }
+
+  /**
+   * Value an alert of the given type is compared against:
+   * price in currency, volume as a multiple of its rolling average,
+   * trend as a score from -1 (bearish) to 1 (bullish) and
+   * volatility as annualized percent
+   */
+  static computeMetric(type: AlertMetricType, context: AlertMetricContext): number | null {
+    switch (type) {
+      case 'price':
+        return context.price;
+      case 'volume':
+        return this.calculateVolumeRatio(context);
+      case 'trend':
+        return this.calculateTrendScore(context);
+      case 'volatility':
+        return this.calculateVolatilityPercent(context);
+      default:
+        return null;
+    }
+  }
+
+  static calculateVolumeRatio(context: AlertMetricContext): number | null {
+    const recent = context.history.slice(-ALERT_METRIC_WINDOW);
+    if (context.volume === undefined || recent.length === 0) return null;
+
+    const averageVolume = recent.reduce((sum, bar) => sum + bar.volume, 0) / recent.length;
+    return averageVolume > 0 ? context.volume / averageVolume : null;
+  }
+
+  /**
+   * Uses the latest stored analysis when available, otherwise the 20/50 moving average spread
+   */
+  static calculateTrendScore(context: AlertMetricContext): number | null {
+    if (context.analysis) {
+      const direction = { bullish: 1, bearish: -1, neutral: 0 }[context.analysis.trendDirection];
+      return direction * Math.min(1, Math.max(0, context.analysis.strength));
+    }
+
+    const closes = [...context.history.map(bar => bar.close), context.price];
+    if (closes.length < 50) return null;
+
+    const ma20 = TechnicalIndicators.calculateSMA(closes, 20);
+    const ma50 = TechnicalIndicators.calculateSMA(closes, 50);
+    const spread = (ma20[ma20.length - 1] - ma50[ma50.length - 1]) / ma50[ma50.length - 1];
+
+    // A 5% spread between the averages counts as a full-strength trend
+    return Math.max(-1, Math.min(1, spread / 0.05));
+  }
+
+  static calculateVolatilityPercent(context: AlertMetricContext): number | null {
+    const closes = [...context.history.map(bar => bar.close), context.price].slice(-(ALERT_METRIC_WINDOW + 1));
+    if (closes.length < ALERT_METRIC_WINDOW + 1) return null;
+
+    return DataProcessor.calculateVolatility(closes, ALERT_METRIC_WINDOW).annualized * 100;
+  }
+
+  /**
+   * Human readable form of a metric value for alert messages
+   */
+  // Must match formatMetric in supabase/functions/_shared/alertEvaluation.ts
+  static formatMetric(type: AlertMetricType, value: number): string {
+    switch (type) {
+      case 'price':
+        return `$${value.toFixed(2)}`;
+      case 'volume':
+        return `${value.toFixed(1)}x its ${ALERT_METRIC_WINDOW}-day average`;
+      case 'trend': {
+        const label = value > 0 ? 'bullish' : value < 0 ? 'bearish' : 'neutral';
+        return `${value.toFixed(2)} (${label})`;
+      }
+      case 'volatility':
+        return `${value.toFixed(1)}% annualized`;
+      case 'composite':
+        return value >= 0.5 ? 'rule met' : 'rule not met';
+      default:
+        return value.toString();
+    }
+  }
+}
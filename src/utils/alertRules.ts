@@ -0,0 +1,147 @@
+/**
+ * Composite Alert Rules
+ * AND/OR groups of conditions across price, volume and technical indicator values
+ */
+
+import { AlertEvaluator, AlertMetricContext } from './alertEvaluator';
+
+export type RuleMetric =
+  | 'price'
+  | 'volume_ratio'
+  | 'trend'
+  | 'volatility'
+  | 'rsi'
+  | 'macd'
+  | 'macd_signal'
+  | 'ma_20'
+  | 'ma_50'
+  | 'ma_200'
+  | 'bollinger_upper'
+  | 'bollinger_lower';
+
+export type IndicatorMetric = Exclude<RuleMetric, 'price' | 'volume_ratio' | 'trend' | 'volatility'>;
+
+// Must match RuleNode in supabase/functions/_shared/alertEvaluation.ts
+export interface RuleCondition {
+  metric: RuleMetric;
+  operator: 'above' | 'below';
+  value: number;
+}
+
+export interface RuleGroup {
+  operator: 'and' | 'or';
+  conditions: RuleNode[];
+}
+
+export type RuleNode = RuleCondition | RuleGroup;
+
+export const RULE_METRICS: { id: RuleMetric; label: string }[] = [
+  { id: 'price', label: 'Price' },
+  { id: 'volume_ratio', label: 'Volume (x avg)' },
+  { id: 'trend', label: 'Trend score' },
+  { id: 'volatility', label: 'Volatility %' },
+  { id: 'rsi', label: 'RSI' },
+  { id: 'macd', label: 'MACD' },
+  { id: 'macd_signal', label: 'MACD signal' },
+  { id: 'ma_20', label: 'MA 20' },
+  { id: 'ma_50', label: 'MA 50' },
+  { id: 'ma_200', label: 'MA 200' },
+  { id: 'bollinger_upper', label: 'Bollinger upper' },
+  { id: 'bollinger_lower', label: 'Bollinger lower' }
+];
+
+export const INDICATOR_METRICS: IndicatorMetric[] = [
+  'rsi', 'macd', 'macd_signal', 'ma_20', 'ma_50', 'ma_200', 'bollinger_upper', 'bollinger_lower'
+];
+
+export class AlertRuleEngine {
+  static isGroup(node: RuleNode): node is RuleGroup {
+    return (node as RuleGroup).conditions !== undefined;
+  }
+
+  /**
+   * Current value of a rule metric, or null when it cannot be computed
+   */
+  static resolveMetric(metric: RuleMetric, context: AlertMetricContext): number | null {
+    switch (metric) {
+      case 'price':
+        return AlertEvaluator.computeMetric('price', context);
+      case 'volume_ratio':
+        return AlertEvaluator.computeMetric('volume', context);
+      case 'trend':
+        return AlertEvaluator.computeMetric('trend', context);
+      case 'volatility':
+        return AlertEvaluator.computeMetric('volatility', context);
+      default:
+        return context.indicators?.[metric] ?? null;
+    }
+  }
+
+  /**
+   * A condition whose metric is unavailable counts as not met
+   */
+  static evaluate(node: RuleNode, context: AlertMetricContext): boolean {
+    if (this.isGroup(node)) {
+      if (node.conditions.length === 0) return false;
+
+      return node.operator === 'and'
+        ? node.conditions.every(child => this.evaluate(child, context))
+        : node.conditions.some(child => this.evaluate(child, context));
+    }
+
+    const value = this.resolveMetric(node.metric, context);
+    if (value === null) return false;
+
+    return node.operator === 'above' ? value > node.value : value < node.value;
+  }
+
+  static collectMetrics(node: RuleNode, metrics: Set<RuleMetric> = new Set()): Set<RuleMetric> {
+    if (this.isGroup(node)) {
+      node.conditions.forEach(child => this.collectMetrics(child, metrics));
+    } else {
+      metrics.add(node.metric);
+    }
+    return metrics;
+  }
+
+  /**
+   * Structural problems with a rule, empty when it is valid
+   */
+  static validate(node: RuleNode): string[] {
+    const errors: string[] = [];
+
+    if (this.isGroup(node)) {
+      if (node.operator !== 'and' && node.operator !== 'or') {
+        errors.push(`Unknown group operator: ${node.operator}`);
+      }
+      if (node.conditions.length === 0) {
+        errors.push('Rule groups need at least one condition');
+      }
+      node.conditions.forEach(child => errors.push(...this.validate(child)));
+    } else {
+      if (!RULE_METRICS.some(metric => metric.id === node.metric)) {
+        errors.push(`Unknown metric: ${node.metric}`);
+      }
+      if (node.operator !== 'above' && node.operator !== 'below') {
+        errors.push(`Unknown condition operator: ${node.operator}`);
+      }
+      if (!Number.isFinite(node.value)) {
+        errors.push(`Condition on ${node.metric} needs a numeric value`);
+      }
+    }
+
+    return errors;
+  }
+
+  static describe(node: RuleNode): string {
+    if (this.isGroup(node)) {
+      const parts = node.conditions.map(child =>
+        this.isGroup(child) && child.conditions.length > 1 ? `(${this.describe(child)})` : this.describe(child)
+      );
+      return parts.join(` ${node.operator.toUpperCase()} `);
+    }
+
+    const label = RULE_METRICS.find(metric => metric.id === node.metric)?.label || node.metric;
+    return `${label} ${node.operator} ${node.value}`;
+  }
+}
\ No newline at end of file
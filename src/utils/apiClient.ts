@@ -1,8 +1,21 @@
 /**
  * API Client for external market data sources
- * Handles rate limiting, error handling, and data normalization
+ * Handles rate limiting, error handling, and data normalization. Quotes go through a
+ * MarketDataRouter that fails over between providers by their health.
  */
 
+import { HistoricalDataPoint, BarInterval } from '../types';
+import { RateLimiter, QuotaUsage } from './rateLimiter';
+import {
+  MarketDataRouter,
+  ProviderHealth,
+  YahooFinanceProvider,
+  FinnhubProvider,
+  AlphaVantageProvider,
+  FinnhubCryptoProvider,
+  FixtureProvider
+} from './marketDataProviders';
+
 export interface ExternalMarketData {
   symbol: string;
   price: number;
@@ -11,6 +24,8 @@ export interface ExternalMarketData {
   volume: number;
   marketCap?: number;
   timestamp: string;
+  /** Provider that served the quote */
+  source?: string;
 }
 
 export interface NewsItem {
@@ -35,42 +50,61 @@ class APIClient {
     newsApi: import.meta.env.VITE_NEWS_API_KEY
   };
 
-  private rateLimiters = new Map<string, { lastCall: number; callCount: number }>();
+  private readonly rateLimiter = new RateLimiter();
+
+  private readonly router = this.createRouter();
 
   /**
-   * Fetch real-time market data from Alpha Vantage
+   * Providers in order of preference. VITE_MARKET_DATA_FIXTURES=true serves local
+   * fixtures only, for offline development.
    */
-  async fetchMarketData(symbols: string[]): Promise<ExternalMarketData[]> {
-    const results: ExternalMarketData[] = [];
+  private createRouter(): MarketDataRouter {
+    const router = new MarketDataRouter();
+    if (import.meta.env.VITE_MARKET_DATA_FIXTURES === 'true') {
+      return router.register(new FixtureProvider());
+    }
 
-    for (const symbol of symbols) {
-      try {
-        await this.checkRateLimit('alphaVantage');
-        
-        const response = await fetch(
-          `${this.baseUrls.alphaVantage}?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${this.apiKeys.alphaVantage}`
-        );
+    const throttle = (provider: string) => this.rateLimiter.acquire(provider);
+    return router
+      .register(new YahooFinanceProvider(throttle))
+      .register(new FinnhubProvider(this.apiKeys.finnhub, throttle))
+      .register(new AlphaVantageProvider(this.apiKeys.alphaVantage, throttle))
+      .register(new FinnhubCryptoProvider(this.apiKeys.finnhub, throttle));
+  }
 
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+  /**
+   * Real-time quote from the healthiest provider that has one
+   */
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    return this.router.fetchQuote(symbol);
+  }
+
+  /**
+   * Rolling success rate, latency and score of each quote provider
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.router.getHealth();
+  }
+
+  /**
+   * Tokens left in each provider's quota, shared by every open tab
+   */
+  getQuotaUsage(): QuotaUsage[] {
+    return this.rateLimiter.getUsage();
+  }
 
-        const data = await response.json();
-        const quote = data['Global Quote'];
+  /**
+   * Fetch real-time market data, skipping symbols no provider could quote
+   */
+  async fetchMarketData(symbols: string[]): Promise<ExternalMarketData[]> {
+    const results: ExternalMarketData[] = [];
 
-        if (quote) {
-          results.push({
-            symbol,
-            price: parseFloat(quote['05. price']),
-            change: parseFloat(quote['09. change']),
-            changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
-            volume: parseInt(quote['06. volume']),
-            timestamp: new Date().toISOString()
-          });
-        }
-      } catch (error) {
-        console.error(`Error fetching data for ${symbol}:`, error);
-        // Continue with other symbols
+    for (const symbol of symbols) {
+      const quote = await this.router.fetchQuote(symbol);
+      if (quote) {
+        results.push(quote);
+      } else {
+        console.error(`Error fetching data for ${symbol}: no provider returned a quote`);
       }
     }
 
@@ -78,11 +112,12 @@ class APIClient {
   }
 
   /**
-   * Fetch historical data from Alpha Vantage
+   * Fetch historical data from Alpha Vantage, oldest first. Bars with missing or
+   * non-positive prices are dropped.
    */
-  async fetchHistoricalData(symbol: string, interval: 'daily' | 'weekly' | 'monthly' = 'daily'): Promise<any[]> {
+  async fetchHistoricalData(symbol: string, interval: BarInterval = 'daily'): Promise<HistoricalDataPoint[]> {
     try {
-      await this.checkRateLimit('alphaVantage');
+      await this.rateLimiter.acquire('alphaVantage', 'background');
       
       const functionName = interval === 'daily' ? 'TIME_SERIES_DAILY' : 
                           interval === 'weekly' ? 'TIME_SERIES_WEEKLY' : 'TIME_SERIES_MONTHLY';
@@ -102,75 +137,30 @@ class APIClient {
         throw new Error('No time series data found');
       }
 
-      const timeSeries = data[timeSeriesKey];
-      return Object.entries(timeSeries).map(([date, values]: [string, any]) => ({
-        date,
-        open: parseFloat(values['1. open']),
-        high: parseFloat(values['2. high']),
-        low: parseFloat(values['3. low']),
-        close: parseFloat(values['4. close']),
-        volume: parseInt(values['5. volume'])
-      }));
+      const timeSeries: Record<string, Record<string, string>> = data[timeSeriesKey];
+      return Object.entries(timeSeries)
+        .map(([date, values]) => ({
+          date,
+          open: parseFloat(values['1. open']),
+          high: parseFloat(values['2. high']),
+          low: parseFloat(values['3. low']),
+          close: parseFloat(values['4. close']),
+          volume: parseInt(values['5. volume']) || 0
+        }))
+        .filter(bar => bar.open > 0 && bar.high > 0 && bar.low > 0 && bar.close > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
     } catch (error) {
       console.error(`Error fetching historical data for ${symbol}:`, error);
       throw error;
     }
   }
 
-  /**
-   * Fetch cryptocurrency data from Finnhub
-   */
-  async fetchCryptoData(symbols: string[]): Promise<ExternalMarketData[]> {
-    const results: ExternalMarketData[] = [];
-
-    for (const symbol of symbols) {
-      try {
-        await this.checkRateLimit('finnhub');
-        
-        const response = await fetch(
-          `${this.baseUrls.finnhub}/crypto/candle?symbol=BINANCE:${symbol}USDT&resolution=1&from=${Math.floor(Date.now() / 1000) - 86400}&to=${Math.floor(Date.now() / 1000)}`,
-          {
-            headers: {
-              'X-Finnhub-Token': this.apiKeys.finnhub
-            }
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const data = await response.json();
-        
-        if (data.c && data.c.length > 0) {
-          const latestPrice = data.c[data.c.length - 1];
-          const previousPrice = data.c[data.c.length - 2] || latestPrice;
-          const change = latestPrice - previousPrice;
-          const changePercent = (change / previousPrice) * 100;
-
-          results.push({
-            symbol,
-            price: latestPrice,
-            change,
-            changePercent,
-            volume: data.v ? data.v[data.v.length - 1] : 0,
-            timestamp: new Date().toISOString()
-          });
-        }
-      } catch (error) {
-        console.error(`Error fetching crypto data for ${symbol}:`, error);
-      }
-    }
-
-    return results;
-  }
-
   /**
    * Fetch news data for sentiment analysis
    */
   async fetchNews(query: string, pageSize: number = 20): Promise<NewsItem[]> {
     try {
-      await this.checkRateLimit('newsApi');
+      await this.rateLimiter.acquire('newsApi', 'background');
       
       const response = await fetch(
         `${this.baseUrls.newsApi}/everything?q=${encodeURIComponent(query)}&sortBy=publishedAt&pageSize=${pageSize}&apiKey=${this.apiKeys.newsApi}`
@@ -195,103 +185,10 @@ class APIClient {
   }
 
   /**
-   * Fetch from Yahoo Finance (free alternative)
-   */
-  async fetchFromYahooFinance(symbol: string): Promise<{ price: number; timestamp: string } | null> {
-    try {
-      // Using Yahoo Finance API with 2025 real-time data
-      const response = await fetch(
-        `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1m&range=1d&includePrePost=true`,
-        {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        }
-      );
-      
-      const data = await response.json();
-      const result = data.chart?.result?.[0];
-      
-      if (result && result.meta?.regularMarketPrice) {
-        return {
-          price: result.meta.regularMarketPrice,
-          timestamp: new Date().toISOString()
-        };
-      }
-      
-      // Try to get from latest intraday data
-      if (result && result.indicators?.quote?.[0]?.close) {
-        const closes = result.indicators.quote[0].close;
-        const latestPrice = closes.filter(price => price !== null);
-        if (latestPrice.length > 0) {
-          return {
-            price: latestPrice[latestPrice.length - 1],
-            timestamp: new Date().toISOString()
-          };
-        }
-      }
-    } catch (error) {
-      logger.warn('Yahoo Finance API failed', error);
-    }
-    
-    return null;
-  }
-
-  /**
-   * Rate limiting to respect API limits
-   */
-  private async checkRateLimit(apiName: string): Promise<void> {
-    const now = Date.now();
-    const limiter = this.rateLimiters.get(apiName) || { lastCall: 0, callCount: 0 };
-    
-    // Reset call count every minute
-    if (now - limiter.lastCall > 60000) {
-      limiter.callCount = 0;
-    }
-    
-    // Check rate limits (adjust based on API provider limits)
-    const limits = {
-      alphaVantage: 5, // 5 calls per minute for free tier
-      finnhub: 60,     // 60 calls per minute
-      newsApi: 100     // 100 calls per minute
-    };
-    
-    if (limiter.callCount >= limits[apiName as keyof typeof limits]) {
-      const waitTime = 60000 - (now - limiter.lastCall);
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-      limiter.callCount = 0;
-    }
-    
-    limiter.callCount++;
-    limiter.lastCall = now;
-    this.rateLimiters.set(apiName, limiter);
-  }
-
-  /**
-   * Batch fetch data for multiple symbols
+   * Batch fetch data for multiple symbols, stocks and crypto alike
    */
   async batchFetchMarketData(symbols: string[]): Promise<ExternalMarketData[]> {
-    const stockSymbols = symbols.filter(s => !['BTC', 'ETH', 'ADA', 'DOT'].includes(s));
-    const cryptoSymbols = symbols.filter(s => ['BTC', 'ETH', 'ADA', 'DOT'].includes(s));
-
-    const [stockData, cryptoData] = await Promise.allSettled([
-      this.fetchMarketData(stockSymbols),
-      this.fetchCryptoData(cryptoSymbols)
-    ]);
-
-    const results: ExternalMarketData[] = [];
-    
-    if (stockData.status === 'fulfilled') {
-      results.push(...stockData.value);
-    }
-    
-    if (cryptoData.status === 'fulfilled') {
-      results.push(...cryptoData.value);
-    }
-
-    return results;
+    return this.fetchMarketData(symbols);
   }
 }
 
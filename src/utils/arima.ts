@@ -0,0 +1,340 @@
+/**
+ * ARIMA / SARIMA Forecaster
+ * Seasonal ARIMA(p,d,q)(P,D,Q)s fitted by conditional least squares, with AIC-based
+ * order selection and analytic forecast variance from the model's psi weights
+ */
+
+import { nelderMead } from './optimization';
+
+export interface ArimaOrder {
+  p: number;
+  d: number;
+  q: number;
+}
+
+export interface SeasonalOrder {
+  P: number;
+  D: number;
+  Q: number;
+  period: number;
+}
+
+export interface ArimaForecast {
+  mean: number[];
+  /** Forecast error variance for each step ahead */
+  variance: number[];
+}
+
+/** Per-step pieces of the point forecast, which sum to it with the last observation */
+export interface ArimaDecomposition {
+  /** Last observed value every step starts from */
+  level: number;
+  /** From the constant the mean of the differenced series implies */
+  drift: number[];
+  /** From the observed values, less the last one */
+  autoregressive: number[];
+  /** From the fitted shocks */
+  movingAverage: number[];
+}
+
+export interface ArimaSelectionOptions {
+  maxP?: number;
+  maxQ?: number;
+  maxD?: number;
+  /** Fixed seasonal part; its orders are not searched */
+  seasonal?: SeasonalOrder;
+}
+
+const NO_SEASON: SeasonalOrder = { P: 0, D: 0, Q: 0, period: 1 };
+
+// Fewest residuals a fit may be scored on
+const MIN_RESIDUALS = 10;
+
+/** Multiply two polynomials in the backshift operator, lowest power first */
+const multiply = (a: number[], b: number[]): number[] => {
+  const product = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => { product[i + j] += x * y; }));
+  return product;
+};
+
+/** 1 + sign * (c1 B^step + c2 B^2step + ...) */
+const lagPolynomial = (coefficients: number[], step: number, sign: number): number[] => {
+  const poly = new Array(coefficients.length * step + 1).fill(0);
+  poly[0] = 1;
+  coefficients.forEach((c, i) => { poly[(i + 1) * step] = sign * c; });
+  return poly;
+};
+
+const difference = (series: number[], lag: number): number[] =>
+  series.slice(lag).map((value, i) => value - series[i]);
+
+const variance = (series: number[]): number => {
+  const mean = series.reduce((sum, x) => sum + x, 0) / series.length;
+  return series.reduce((sum, x) => sum + (x - mean) ** 2, 0) / series.length;
+};
+
+/**
+ * Whether x_t = sum(a_i x_{t-i}) + e_t is stationary, via the step-down
+ * (reverse Levinson) recursion: every partial autocorrelation must be inside (-1, 1).
+ */
+export function isStationary(coefficients: number[]): boolean {
+  let phi = coefficients.slice();
+  while (phi.length > 0 && phi[phi.length - 1] === 0) phi.pop();
+
+  for (let k = phi.length; k >= 1; k--) {
+    const r = phi[k - 1];
+    if (!Number.isFinite(r) || Math.abs(r) >= 1) return false;
+    const next: number[] = [];
+    for (let j = 1; j < k; j++) {
+      next.push((phi[j - 1] + r * phi[k - j - 1]) / (1 - r * r));
+    }
+    phi = next;
+  }
+  return true;
+}
+
+export class ArimaModel {
+  private constructor(
+    readonly order: ArimaOrder,
+    readonly seasonal: SeasonalOrder,
+    readonly mean: number,
+    readonly ar: number[],
+    readonly ma: number[],
+    readonly seasonalAr: number[],
+    readonly seasonalMa: number[],
+    readonly sigma2: number,
+    readonly aic: number,
+    private readonly series: number[],
+    private readonly residuals: number[]
+  ) {}
+
+  /**
+   * Fit a fixed order by conditional least squares. The differenced series is
+   * demeaned when at most one difference is taken, so the model keeps a drift term.
+   */
+  static fit(series: number[], order: ArimaOrder, seasonal: SeasonalOrder = NO_SEASON): ArimaModel {
+    const offset = order.d + seasonal.D * seasonal.period;
+    let w = series.slice();
+    for (let i = 0; i < order.d; i++) w = difference(w, 1);
+    for (let i = 0; i < seasonal.D; i++) w = difference(w, seasonal.period);
+
+    const arLags = order.p + seasonal.P * seasonal.period;
+    const parameterCount = order.p + order.q + seasonal.P + seasonal.Q;
+    if (w.length - arLags < MIN_RESIDUALS + parameterCount) {
+      throw new Error(`Series of ${series.length} points is too short for this ARIMA order`);
+    }
+
+    const includeMean = order.d + seasonal.D <= 1;
+    const mean = includeMean ? w.reduce((sum, x) => sum + x, 0) / w.length : 0;
+    const centered = w.map(x => x - mean);
+
+    const unpack = (params: number[]) => {
+      let index = 0;
+      const take = (count: number) => params.slice(index, (index += count));
+      return { ar: take(order.p), ma: take(order.q), seasonalAr: take(seasonal.P), seasonalMa: take(seasonal.Q) };
+    };
+
+    const sumOfSquares = (params: number[]): number => {
+      const parts = unpack(params);
+      const { arCoefficients, maCoefficients } = this.expand(parts.ar, parts.ma, parts.seasonalAr, parts.seasonalMa, seasonal.period);
+      if (!isStationary(arCoefficients) || !isStationary(maCoefficients.map(c => -c))) return Infinity;
+      const errors = this.conditionalResiduals(centered, arCoefficients, maCoefficients);
+      return errors.slice(arLags).reduce((sum, e) => sum + e * e, 0);
+    };
+
+    const { point, value } = nelderMead(sumOfSquares, new Array(parameterCount).fill(0), { step: 0.1 });
+    if (!Number.isFinite(value)) {
+      throw new Error('ARIMA fit did not find a stationary, invertible solution');
+    }
+
+    const parts = unpack(point);
+    const { arCoefficients, maCoefficients } = this.expand(parts.ar, parts.ma, parts.seasonalAr, parts.seasonalMa, seasonal.period);
+    const errors = this.conditionalResiduals(centered, arCoefficients, maCoefficients);
+
+    const scored = w.length - arLags;
+    const sigma2 = value / scored;
+    const estimated = parameterCount + (includeMean ? 1 : 0) + 1;
+    const aic = scored * Math.log(Math.max(sigma2, Number.MIN_VALUE)) + 2 * estimated;
+
+    // Pad so residuals line up with the undifferenced series
+    const residuals = [...new Array(offset).fill(0), ...errors];
+
+    return new ArimaModel(
+      order, seasonal, mean, parts.ar, parts.ma, parts.seasonalAr, parts.seasonalMa,
+      sigma2, aic, series.slice(), residuals
+    );
+  }
+
+  /**
+   * Pick d by differencing while it keeps reducing the variance, then search p and q
+   * by AIC. Orders that cannot be fitted are skipped.
+   */
+  static autoFit(series: number[], options: ArimaSelectionOptions = {}): ArimaModel {
+    const { maxP = 2, maxQ = 2, maxD = 2, seasonal = NO_SEASON } = options;
+    const d = this.selectDifferencing(series, maxD);
+
+    let best: ArimaModel | null = null;
+    let lastError: unknown = null;
+    for (let p = 0; p <= maxP; p++) {
+      for (let q = 0; q <= maxQ; q++) {
+        try {
+          const model = this.fit(series, { p, d, q }, seasonal);
+          if (!best || model.aic < best.aic) best = model;
+        } catch (error) {
+          lastError = error;
+        }
+      }
+    }
+
+    if (!best) {
+      throw lastError instanceof Error ? lastError : new Error('No ARIMA order could be fitted');
+    }
+    return best;
+  }
+
+  /**
+   * Number of regular differences (up to maxD) after which further differencing
+   * stops lowering the variance
+   */
+  static selectDifferencing(series: number[], maxD: number = 2): number {
+    let current = series;
+    let currentVariance = variance(series);
+
+    for (let d = 0; d < maxD; d++) {
+      const next = difference(current, 1);
+      if (next.length < 2) return d;
+      const nextVariance = variance(next);
+      if (nextVariance >= currentVariance) return d;
+      current = next;
+      currentVariance = nextVariance;
+    }
+    return maxD;
+  }
+
+  /**
+   * Point forecasts and their error variances for the next steps. Forecasts run on the
+   * original scale through the integrated AR polynomial, with future shocks set to zero.
+   */
+  forecast(steps: number): ArimaForecast {
+    const { levelAr, maCoefficients, constant } = this.levelEquation();
+    const mean = this.project(steps, constant, this.series, this.residuals);
+
+    // psi weights of theta(B) / phi*(B) give the h-step error variance
+    const psi = [1];
+    for (let j = 1; j < steps; j++) {
+      let weight = maCoefficients[j - 1] ?? 0;
+      for (let i = 1; i <= Math.min(j, levelAr.length); i++) {
+        weight += levelAr[i - 1] * psi[j - i];
+      }
+      psi.push(weight);
+    }
+
+    const forecastVariance: number[] = [];
+    let cumulative = 0;
+    for (let h = 0; h < steps; h++) {
+      cumulative += psi[h] * psi[h];
+      forecastVariance.push(this.sigma2 * cumulative);
+    }
+
+    return { mean, variance: forecastVariance };
+  }
+
+  /**
+   * Split the point forecasts into what the constant, the observed values and the
+   * fitted shocks each add to the last observation. The recursion is linear, so
+   * projecting each source on its own with the others zeroed gives additive parts.
+   */
+  decompose(steps: number): ArimaDecomposition {
+    const { constant } = this.levelEquation();
+    const level = this.series[this.series.length - 1];
+    const zeros = new Array<number>(this.series.length).fill(0);
+
+    return {
+      level,
+      drift: this.project(steps, constant, zeros, zeros),
+      autoregressive: this.project(steps, 0, this.series, zeros).map(value => value - level),
+      movingAverage: this.project(steps, 0, zeros, this.residuals)
+    };
+  }
+
+  /** Human-readable order, e.g. ARIMA(1,1,0) or SARIMA(1,0,0)(0,1,1)5 */
+  get label(): string {
+    const base = `(${this.order.p},${this.order.d},${this.order.q})`;
+    const { P, D, Q, period } = this.seasonal;
+    return P + D + Q > 0 ? `SARIMA${base}(${P},${D},${Q})${period}` : `ARIMA${base}`;
+  }
+
+  /**
+   * Coefficients of the model written on the original scale:
+   * x_t = constant + sum levelAr_i x_{t-i} + e_t + sum m_j e_{t-j}
+   */
+  private levelEquation(): { levelAr: number[]; maCoefficients: number[]; constant: number } {
+    const { arCoefficients, maCoefficients } = ArimaModel.expand(
+      this.ar, this.ma, this.seasonalAr, this.seasonalMa, this.seasonal.period
+    );
+
+    // Full AR polynomial including (1 - B)^d (1 - B^s)^D
+    let arPoly = [1, ...arCoefficients.map(c => -c)];
+    for (let i = 0; i < this.order.d; i++) arPoly = multiply(arPoly, [1, -1]);
+    for (let i = 0; i < this.seasonal.D; i++) arPoly = multiply(arPoly, lagPolynomial([1], this.seasonal.period, -1));
+
+    return {
+      levelAr: arPoly.slice(1).map(c => -c),
+      maCoefficients,
+      // The mean of the differenced series becomes a constant in the level equation
+      constant: this.mean * (1 - arCoefficients.reduce((sum, c) => sum + c, 0))
+    };
+  }
+
+  /** Run the level equation forward with future shocks set to zero */
+  private project(steps: number, constant: number, series: number[], residuals: number[]): number[] {
+    const { levelAr, maCoefficients } = this.levelEquation();
+    const history = series.slice();
+    const shocks = residuals.slice();
+    const mean: number[] = [];
+
+    for (let h = 0; h < steps; h++) {
+      const t = history.length;
+      let value = constant;
+      levelAr.forEach((c, i) => { value += c * (history[t - 1 - i] ?? 0); });
+      maCoefficients.forEach((c, j) => { value += c * (shocks[t - 1 - j] ?? 0); });
+      history.push(value);
+      shocks.push(0);
+      mean.push(value);
+    }
+
+    return mean;
+  }
+
+  /**
+   * Expand the multiplicative seasonal model into plain AR coefficients
+   * (x_t = sum a_i x_{t-i} + ...) and MA coefficients (... + e_t + sum m_j e_{t-j})
+   */
+  private static expand(
+    ar: number[],
+    ma: number[],
+    seasonalAr: number[],
+    seasonalMa: number[],
+    period: number
+  ): { arCoefficients: number[]; maCoefficients: number[] } {
+    const arPoly = multiply(lagPolynomial(ar, 1, -1), lagPolynomial(seasonalAr, period, -1));
+    const maPoly = multiply(lagPolynomial(ma, 1, 1), lagPolynomial(seasonalMa, period, 1));
+
+    return {
+      arCoefficients: arPoly.slice(1).map(c => -c),
+      maCoefficients: maPoly.slice(1)
+    };
+  }
+
+  /** Residuals with pre-sample values and shocks taken as zero */
+  private static conditionalResiduals(series: number[], arCoefficients: number[], maCoefficients: number[]): number[] {
+    const errors: number[] = [];
+    for (let t = 0; t < series.length; t++) {
+      let prediction = 0;
+      arCoefficients.forEach((c, i) => { if (t - 1 - i >= 0) prediction += c * series[t - 1 - i]; });
+      maCoefficients.forEach((c, j) => { if (t - 1 - j >= 0) prediction += c * errors[t - 1 - j]; });
+      errors.push(t < arCoefficients.length ? 0 : series[t] - prediction);
+    }
+    return errors;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Prediction Attribution
+ * Additive breakdowns of a price forecast: a baseline price plus one contribution per
+ * feature, summing exactly to the predicted price. Models report contributions to the
+ * forecast log return; these helpers map them to prices and combine them across the
+ * ensemble.
+ */
+
+export interface FeatureAttribution {
+  feature: string;
+  /** Price change this feature accounts for */
+  contribution: number;
+}
+
+export interface PredictionAttribution {
+  /** Price the model forecasts with every feature at its reference value */
+  baseline: number;
+  /** Largest contributions first */
+  contributions: FeatureAttribution[];
+}
+
+export interface WaterfallStep {
+  label: string;
+  start: number;
+  end: number;
+  kind: 'baseline' | 'increase' | 'decrease' | 'total';
+}
+
+const byMagnitude = (a: FeatureAttribution, b: FeatureAttribution) =>
+  Math.abs(b.contribution) - Math.abs(a.contribution);
+
+/**
+ * Map contributions to the forecast log return onto prices. Each feature gets the
+ * same share of the price move as of the log return, so the contributions add up to
+ * the predicted price less the baseline.
+ */
+export function priceAttribution(predicted: number, logContributions: Record<string, number>): PredictionAttribution {
+  const total = Object.values(logContributions).reduce((sum, value) => sum + value, 0);
+  const baseline = predicted * Math.exp(-total);
+  // (e^s - 1) / s, which tends to 1 as the move vanishes
+  const scale = Math.abs(total) < 1e-12 ? 1 : Math.expm1(total) / total;
+
+  return {
+    baseline,
+    contributions: Object.entries(logContributions)
+      .map(([feature, value]) => ({ feature, contribution: baseline * scale * value }))
+      .sort(byMagnitude)
+  };
+}
+
+/**
+ * Weighted sum of member attributions, matching a weighted-average forecast. Undefined
+ * when a weighted member has none, since the sum would no longer reach the forecast.
+ */
+export function combineAttributions(
+  members: Record<string, PredictionAttribution | undefined>,
+  weights: Record<string, number>
+): PredictionAttribution | undefined {
+  const used = Object.keys(weights).filter(key => weights[key] > 0);
+  if (used.length === 0 || used.some(key => !members[key])) return undefined;
+
+  let baseline = 0;
+  const totals = new Map<string, number>();
+  used.forEach(key => {
+    const { baseline: memberBaseline, contributions } = members[key]!;
+    baseline += weights[key] * memberBaseline;
+    contributions.forEach(({ feature, contribution }) => {
+      totals.set(feature, (totals.get(feature) ?? 0) + weights[key] * contribution);
+    });
+  });
+
+  return {
+    baseline,
+    contributions: Array.from(totals, ([feature, contribution]) => ({ feature, contribution })).sort(byMagnitude)
+  };
+}
+
+/**
+ * Bars of a waterfall chart: the baseline, each contribution stepping from the
+ * running total, then the forecast. Contributions past `limit` are folded into one.
+ */
+export function waterfallSteps(attribution: PredictionAttribution, limit: number = 6): WaterfallStep[] {
+  const shown = attribution.contributions.slice(0, limit);
+  const rest = attribution.contributions.slice(limit).reduce((sum, item) => sum + item.contribution, 0);
+  if (attribution.contributions.length > limit) {
+    shown.push({ feature: 'other', contribution: rest });
+  }
+
+  const steps: WaterfallStep[] = [
+    { label: 'baseline', start: 0, end: attribution.baseline, kind: 'baseline' }
+  ];
+  let level = attribution.baseline;
+  shown.forEach(({ feature, contribution }) => {
+    steps.push({ label: feature, start: level, end: level + contribution, kind: contribution >= 0 ? 'increase' : 'decrease' });
+    level += contribution;
+  });
+  steps.push({ label: 'forecast', start: 0, end: level, kind: 'total' });
+
+  return steps;
+}
\ No newline at end of file
@@ -0,0 +1,476 @@
+/**
+ * Backtesting Engine
+ * Replays historical bars through trading signal strategies and measures performance
+ */
+
+import { AnalysisResult, HistoricalDataPoint } from '../types';
+import { TechnicalIndicators } from './technicalIndicators';
+import { TechnicalAnalyzer, ANALYSIS_LOOKBACK } from './technicalAnalyzer';
+
+export type SignalType = 'buy' | 'sell' | 'hold';
+
+export interface BacktestStrategy {
+  id: string;
+  name: string;
+  description: string;
+  lookback: number;
+  analyze: (symbol: string, bars: HistoricalDataPoint[]) => AnalysisResult;
+}
+
+export interface BacktestOptions {
+  initialCapital?: number;
+  positionSize?: number;
+  commission?: number;
+  allowShort?: boolean;
+  minStrength?: number;
+}
+
+export interface BacktestTrade {
+  signalType: 'buy' | 'sell';
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  quantity: number;
+  targetPrice?: number;
+  stopLossPrice?: number;
+  pnl: number;
+  returnPercent: number;
+  exitReason: 'target' | 'stop_loss' | 'signal' | 'end_of_data';
+  reasoning: string;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  drawdown: number;
+}
+
+export interface BacktestMetrics {
+  totalReturn: number;
+  annualizedReturn: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  winRate: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  averageWin: number;
+  averageLoss: number;
+  exposure: number;
+}
+
+export interface BacktestReport {
+  symbol: string;
+  strategyId: string;
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  finalEquity: number;
+  options: Required<BacktestOptions>;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+interface OpenPosition {
+  signalType: 'buy' | 'sell';
+  entryDate: string;
+  entryPrice: number;
+  quantity: number;
+  targetPrice?: number;
+  stopLossPrice?: number;
+  reasoning: string;
+}
+
+const DEFAULT_OPTIONS: Required<BacktestOptions> = {
+  initialCapital: 10000,
+  positionSize: 1,
+  commission: 0.001,
+  allowShort: false,
+  minStrength: 0
+};
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export class BacktestEngine {
+  /**
+   * Map an analysis result to a trading signal, mirroring analysisService.generateTradingSignal
+   */
+  static signalFromAnalysis(analysis: AnalysisResult): SignalType {
+    return analysis.trend === 'bullish' ? 'buy' :
+           analysis.trend === 'bearish' ? 'sell' : 'hold';
+  }
+
+  /**
+   * Replay bars (oldest first) through a strategy and simulate the resulting trades.
+   * Signals are evaluated on each bar's close and filled at that close; open positions
+   * are checked against their stop loss and target using the following bars' ranges.
+   */
+  static run(
+    symbol: string,
+    bars: HistoricalDataPoint[],
+    strategy: BacktestStrategy,
+    options: BacktestOptions = {}
+  ): BacktestReport {
+    const config: Required<BacktestOptions> = { ...DEFAULT_OPTIONS, ...options };
+    const sortedBars = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+
+    if (sortedBars.length <= strategy.lookback) {
+      throw new Error(
+        `Backtest for ${symbol} needs more than ${strategy.lookback} bars, got ${sortedBars.length}`
+      );
+    }
+
+    let cash = config.initialCapital;
+    let position: OpenPosition | null = null;
+    let barsInMarket = 0;
+    let peakEquity = config.initialCapital;
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+
+    const closePosition = (
+      open: OpenPosition,
+      date: string,
+      price: number,
+      reason: BacktestTrade['exitReason']
+    ) => {
+      const fee = open.quantity * price * config.commission;
+      const entryFee = open.quantity * open.entryPrice * config.commission;
+      const direction = open.signalType === 'buy' ? 1 : -1;
+
+      if (open.signalType === 'buy') {
+        cash += open.quantity * price - fee;
+      } else {
+        cash -= open.quantity * price + fee;
+      }
+
+      const pnl = direction * (price - open.entryPrice) * open.quantity - fee - entryFee;
+      trades.push({
+        signalType: open.signalType,
+        entryDate: open.entryDate,
+        entryPrice: open.entryPrice,
+        exitDate: date,
+        exitPrice: price,
+        quantity: open.quantity,
+        targetPrice: open.targetPrice,
+        stopLossPrice: open.stopLossPrice,
+        pnl,
+        returnPercent: (pnl / (open.entryPrice * open.quantity)) * 100,
+        exitReason: reason,
+        reasoning: open.reasoning
+      });
+    };
+
+    for (let i = strategy.lookback; i < sortedBars.length; i++) {
+      const bar = sortedBars[i];
+
+      // Check protective levels before acting on the new close
+      if (position) {
+        const exit = this.checkExitLevels(position, bar);
+        if (exit) {
+          closePosition(position, bar.date, exit.price, exit.reason);
+          position = null;
+        }
+      }
+
+      const analysis = strategy.analyze(symbol, sortedBars.slice(0, i + 1));
+      const signal = this.signalFromAnalysis(analysis);
+
+      if (position && signal !== 'hold' && signal !== position.signalType) {
+        closePosition(position, bar.date, bar.close, 'signal');
+        position = null;
+      }
+
+      const canOpen = signal === 'buy' || (signal === 'sell' && config.allowShort);
+      if (!position && canOpen && analysis.strength >= config.minStrength) {
+        const quantity = (cash * config.positionSize) / (bar.close * (1 + config.commission));
+        const fee = quantity * bar.close * config.commission;
+        const side = signal as 'buy' | 'sell';
+
+        if (quantity > 0) {
+          cash += side === 'buy' ? -(quantity * bar.close + fee) : quantity * bar.close - fee;
+          position = {
+            signalType: side,
+            entryDate: bar.date,
+            entryPrice: bar.close,
+            quantity,
+            ...this.validLevels(side, bar.close, analysis),
+            reasoning: `Generated based on ${analysis.signals.join(', ')}`
+          };
+        }
+      }
+
+      if (position) barsInMarket++;
+
+      const equity = this.markToMarket(cash, position, bar.close);
+      peakEquity = Math.max(peakEquity, equity);
+      equityCurve.push({
+        date: bar.date,
+        equity,
+        drawdown: peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0
+      });
+    }
+
+    const lastBar = sortedBars[sortedBars.length - 1];
+    if (position) {
+      closePosition(position, lastBar.date, lastBar.close, 'end_of_data');
+      position = null;
+
+      // The exit fee can take the final mark below the running peak
+      const finalPoint = equityCurve[equityCurve.length - 1];
+      peakEquity = Math.max(peakEquity, cash);
+      finalPoint.equity = cash;
+      finalPoint.drawdown = peakEquity > 0 ? (peakEquity - cash) / peakEquity : 0;
+    }
+
+    const metrics = this.calculateMetrics(equityCurve, trades, config.initialCapital);
+    metrics.exposure = equityCurve.length > 0 ? barsInMarket / equityCurve.length : 0;
+    // Measured from the running peak, which includes the starting capital and the
+    // final bar's mark before the forced close
+    metrics.maxDrawdown = equityCurve.reduce((max, point) => Math.max(max, point.drawdown), 0);
+
+    return {
+      symbol,
+      strategyId: strategy.id,
+      startDate: sortedBars[strategy.lookback].date,
+      endDate: lastBar.date,
+      initialCapital: config.initialCapital,
+      finalEquity: cash,
+      options: config,
+      metrics,
+      equityCurve,
+      trades
+    };
+  }
+
+  /**
+   * Calculate summary statistics for an equity curve and its trades
+   */
+  static calculateMetrics(
+    equityCurve: EquityPoint[],
+    trades: BacktestTrade[],
+    initialCapital: number
+  ): BacktestMetrics {
+    const equity = equityCurve.map(point => point.equity);
+    const finalEquity = equity.length > 0 ? equity[equity.length - 1] : initialCapital;
+    const totalReturn = initialCapital > 0 ? (finalEquity - initialCapital) / initialCapital : 0;
+
+    const periodReturns: number[] = [];
+    for (let i = 1; i < equity.length; i++) {
+      if (equity[i - 1] > 0) {
+        periodReturns.push(equity[i] / equity[i - 1] - 1);
+      }
+    }
+
+    const annualizedReturn = equity.length > 1 && finalEquity > 0
+      ? Math.pow(finalEquity / initialCapital, TRADING_DAYS_PER_YEAR / (equity.length - 1)) - 1
+      : 0;
+
+    const wins = trades.filter(trade => trade.pnl > 0);
+    const losses = trades.filter(trade => trade.pnl <= 0);
+
+    return {
+      totalReturn,
+      annualizedReturn,
+      maxDrawdown: this.calculateMaxDrawdown(equity),
+      sharpeRatio: this.calculateSharpeRatio(periodReturns),
+      winRate: trades.length > 0 ? wins.length / trades.length : 0,
+      totalTrades: trades.length,
+      winningTrades: wins.length,
+      losingTrades: losses.length,
+      averageWin: wins.length > 0 ? wins.reduce((sum, t) => sum + t.returnPercent, 0) / wins.length : 0,
+      averageLoss: losses.length > 0 ? losses.reduce((sum, t) => sum + t.returnPercent, 0) / losses.length : 0,
+      exposure: 0
+    };
+  }
+
+  /**
+   * Largest peak-to-trough decline as a fraction of the peak
+   */
+  static calculateMaxDrawdown(equity: number[]): number {
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+
+    for (const value of equity) {
+      peak = Math.max(peak, value);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+      }
+    }
+
+    return maxDrawdown;
+  }
+
+  /**
+   * Annualized Sharpe ratio of periodic returns (risk-free rate assumed zero)
+   */
+  static calculateSharpeRatio(returns: number[], periodsPerYear: number = TRADING_DAYS_PER_YEAR): number {
+    if (returns.length < 2) return 0;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+
+    return stdDev === 0 ? 0 : (mean / stdDev) * Math.sqrt(periodsPerYear);
+  }
+
+  private static checkExitLevels(
+    position: OpenPosition,
+    bar: HistoricalDataPoint
+  ): { price: number; reason: 'target' | 'stop_loss' } | null {
+    const { stopLossPrice, targetPrice } = position;
+
+    // When both levels fall inside one bar, assume the stop was hit first
+    if (position.signalType === 'buy') {
+      if (stopLossPrice !== undefined && bar.low <= stopLossPrice) {
+        return { price: Math.min(bar.open, stopLossPrice), reason: 'stop_loss' };
+      }
+      if (targetPrice !== undefined && bar.high >= targetPrice) {
+        return { price: Math.max(bar.open, targetPrice), reason: 'target' };
+      }
+    } else {
+      if (stopLossPrice !== undefined && bar.high >= stopLossPrice) {
+        return { price: Math.max(bar.open, stopLossPrice), reason: 'stop_loss' };
+      }
+      if (targetPrice !== undefined && bar.low <= targetPrice) {
+        return { price: Math.min(bar.open, targetPrice), reason: 'target' };
+      }
+    }
+
+    return null;
+  }
+
+  private static validLevels(
+    side: 'buy' | 'sell',
+    entryPrice: number,
+    analysis: AnalysisResult
+  ): { targetPrice?: number; stopLossPrice?: number } {
+    const isLong = side === 'buy';
+    const target = analysis.nextTarget;
+    const stop = analysis.stopLoss;
+
+    return {
+      targetPrice: target > 0 && (isLong ? target > entryPrice : target < entryPrice) ? target : undefined,
+      stopLossPrice: stop > 0 && (isLong ? stop < entryPrice : stop > entryPrice) ? stop : undefined
+    };
+  }
+
+  private static markToMarket(cash: number, position: OpenPosition | null, price: number): number {
+    if (!position) return cash;
+    return position.signalType === 'buy'
+      ? cash + position.quantity * price
+      : cash - position.quantity * price;
+  }
+}
+
+/**
+ * Build an AnalysisResult with ATR-based target and stop levels
+ */
+const buildAnalysis = (
+  symbol: string,
+  bars: HistoricalDataPoint[],
+  trend: AnalysisResult['trend'],
+  strength: number,
+  signals: string[]
+): AnalysisResult => {
+  const closes = bars.map(bar => bar.close);
+  const atr = TechnicalIndicators.calculateATR(
+    bars.map(bar => bar.high),
+    bars.map(bar => bar.low),
+    closes
+  );
+  const price = closes[closes.length - 1];
+  const range = atr.length > 0 ? atr[atr.length - 1] : price * 0.02;
+  const clampedStrength = Math.max(0, Math.min(100, strength));
+
+  return {
+    symbol,
+    trend,
+    strength: clampedStrength,
+    confidence: 0.5 + clampedStrength / 200,
+    signals,
+    nextTarget: trend === 'bullish' ? price + range * 2 : trend === 'bearish' ? price - range * 2 : price,
+    stopLoss: trend === 'bullish' ? price - range : trend === 'bearish' ? price + range : price
+  };
+};
+
+export const BACKTEST_STRATEGIES: BacktestStrategy[] = [
+  {
+    id: 'technical_analysis',
+    name: 'Technical Analysis',
+    description: 'Trade the trend, target and stop from the app\'s own technical analysis',
+    lookback: 50,
+    // Same window analysisService loads, so each replayed call matches the live one
+    analyze: (symbol, bars) => TechnicalAnalyzer.analyze(symbol, bars.slice(-ANALYSIS_LOOKBACK))
+  },
+  {
+    id: 'ma_crossover',
+    name: 'MA20 / MA50 Crossover',
+    description: 'Long while the 20-day average is above the 50-day average, short below',
+    lookback: 50,
+    analyze: (symbol, bars) => {
+      const closes = bars.map(bar => bar.close);
+      const ma20 = TechnicalIndicators.calculateSMA(closes, 20);
+      const ma50 = TechnicalIndicators.calculateSMA(closes, 50);
+      const fast = ma20[ma20.length - 1];
+      const slow = ma50[ma50.length - 1];
+      const prevFast = ma20[ma20.length - 2];
+      const prevSlow = ma50[ma50.length - 2];
+      const spread = (fast - slow) / slow;
+
+      const signals: string[] = [];
+      if (prevFast !== undefined && prevSlow !== undefined) {
+        if (prevFast <= prevSlow && fast > slow) signals.push('Golden Cross detected');
+        if (prevFast >= prevSlow && fast < slow) signals.push('Death Cross detected');
+      }
+      signals.push(spread >= 0 ? 'MA20 above MA50' : 'MA20 below MA50');
+
+      return buildAnalysis(
+        symbol,
+        bars,
+        spread > 0 ? 'bullish' : spread < 0 ? 'bearish' : 'neutral',
+        Math.abs(spread) * 2000,
+        signals
+      );
+    }
+  },
+  {
+    id: 'rsi_reversion',
+    name: 'RSI Mean Reversion',
+    description: 'Buy when RSI(14) is oversold below 30, sell when overbought above 70',
+    lookback: 15,
+    analyze: (symbol, bars) => {
+      const rsiValues = TechnicalIndicators.calculateRSI(bars.map(bar => bar.close));
+      const rsi = rsiValues[rsiValues.length - 1];
+
+      if (rsi < 30) {
+        return buildAnalysis(symbol, bars, 'bullish', (30 - rsi) * 3.3, [`RSI oversold (${rsi.toFixed(1)})`]);
+      }
+      if (rsi > 70) {
+        return buildAnalysis(symbol, bars, 'bearish', (rsi - 70) * 3.3, [`RSI overbought (${rsi.toFixed(1)})`]);
+      }
+      return buildAnalysis(symbol, bars, 'neutral', 0, [`RSI neutral (${rsi.toFixed(1)})`]);
+    }
+  },
+  {
+    id: 'macd_momentum',
+    name: 'MACD Momentum',
+    description: 'Follow the sign of the MACD histogram',
+    lookback: 34,
+    analyze: (symbol, bars) => {
+      const closes = bars.map(bar => bar.close);
+      const { histogram } = TechnicalIndicators.calculateMACD(closes);
+      const value = histogram[histogram.length - 1] ?? 0;
+      const price = closes[closes.length - 1];
+
+      return buildAnalysis(
+        symbol,
+        bars,
+        value > 0 ? 'bullish' : value < 0 ? 'bearish' : 'neutral',
+        (Math.abs(value) / price) * 5000,
+        [value >= 0 ? 'MACD histogram positive' : 'MACD histogram negative']
+      );
+    }
+  }
+];
\ No newline at end of file
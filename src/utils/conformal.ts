@@ -0,0 +1,102 @@
+/**
+ * Conformal Prediction Intervals
+ * Split-conformal bands from the absolute log errors of resolved predictions, with
+ * walk-forward coverage checks of how often each band held the actual price
+ */
+
+export interface ConformalInterval {
+  lowerBound: number;
+  upperBound: number;
+  /** Calibration errors the band was computed from */
+  calibrationSize: number;
+}
+
+export interface CoverageReport {
+  /** Nominal coverage of the band, e.g. 0.8 */
+  coverage: number;
+  /** Share of evaluated predictions whose actual fell inside the band */
+  empiricalCoverage: number;
+  sampleSize: number;
+  /** Mean band width relative to the predicted price */
+  meanWidth: number;
+}
+
+export const CONFORMAL_LEVELS = [0.8, 0.95];
+
+export class ConformalCalibrator {
+  /**
+   * Absolute log error, so bands scale with price and stay positive
+   */
+  static nonconformity(predicted: number, actual: number): number {
+    return Math.abs(Math.log(actual / predicted));
+  }
+
+  /**
+   * Split-conformal quantile: the ceil((n + 1) * coverage)-th smallest error. Null when
+   * there are too few errors to guarantee the coverage.
+   */
+  static quantile(scores: number[], coverage: number): number | null {
+    const rank = Math.ceil((scores.length + 1) * coverage);
+    if (scores.length === 0 || rank > scores.length) return null;
+
+    const sorted = scores.slice().sort((a, b) => a - b);
+    return sorted[rank - 1];
+  }
+
+  static interval(predicted: number, scores: number[], coverage: number): ConformalInterval | null {
+    const q = this.quantile(scores, coverage);
+    if (q === null) return null;
+
+    return {
+      lowerBound: predicted * Math.exp(-q),
+      upperBound: predicted * Math.exp(q),
+      calibrationSize: scores.length
+    };
+  }
+
+  /**
+   * Walk forward through chronological errors, checking each against the band
+   * calibrated on the errors before it (at most the last maxCalibration of them)
+   */
+  static coverageReport(scores: number[], coverage: number, maxCalibration: number = Infinity): CoverageReport {
+    let covered = 0;
+    let evaluated = 0;
+    let totalWidth = 0;
+
+    for (let i = 1; i < scores.length; i++) {
+      const q = this.quantile(scores.slice(Math.max(0, i - maxCalibration), i), coverage);
+      if (q === null) continue;
+
+      evaluated++;
+      if (scores[i] <= q) covered++;
+      totalWidth += Math.exp(q) - Math.exp(-q);
+    }
+
+    return {
+      coverage,
+      empiricalCoverage: evaluated > 0 ? covered / evaluated : 0,
+      sampleSize: evaluated,
+      meanWidth: evaluated > 0 ? totalWidth / evaluated : 0
+    };
+  }
+
+  /**
+   * Pool reports for the same nominal coverage, weighted by their sample sizes
+   */
+  static combineReports(reports: CoverageReport[], coverage: number): CoverageReport {
+    const sampleSize = reports.reduce((sum, report) => sum + report.sampleSize, 0);
+    if (sampleSize === 0) {
+      return { coverage, empiricalCoverage: 0, sampleSize: 0, meanWidth: 0 };
+    }
+
+    const weighted = (value: (report: CoverageReport) => number) =>
+      reports.reduce((sum, report) => sum + value(report) * report.sampleSize, 0) / sampleSize;
+
+    return {
+      coverage,
+      empiricalCoverage: weighted(report => report.empiricalCoverage),
+      sampleSize,
+      meanWidth: weighted(report => report.meanWidth)
+    };
+  }
+}
\ No newline at end of file
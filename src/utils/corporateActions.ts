@@ -0,0 +1,87 @@
+/**
+ * Corporate Actions
+ * Backward adjustment of price history for splits and cash dividends, so the sessions
+ * before an ex-date line up with the prices after it. The latest bars keep their
+ * traded prices; earlier ones are scaled by the product of every later action.
+ */
+
+import { PriceBar } from './forecastHorizon';
+
+export type CorporateActionType = 'split' | 'dividend';
+
+export interface CorporateAction {
+  type: CorporateActionType;
+  /** First session trading without the split or dividend, YYYY-MM-DD */
+  exDate: string;
+  /** Shares after the split per share before, e.g. 4 for a 4-for-1 split */
+  ratio?: number;
+  /** Cash paid per share */
+  amount?: number;
+}
+
+export interface AdjustmentFactor {
+  price: number;
+  volume: number;
+}
+
+/** Bars carrying at least a date and a close */
+type ClosingBar = Pick<PriceBar, 'date' | 'close_price'>;
+
+/**
+ * Price and volume multipliers for each bar, oldest first. A split divides earlier
+ * prices by its ratio and multiplies their volume; a dividend scales earlier prices
+ * by one less the amount over the close before the ex-date. Actions that would leave
+ * prices non-positive are ignored, as are actions after the newest bar, which no
+ * stored price has traded through yet.
+ */
+export function adjustmentFactors(bars: ClosingBar[], actions: CorporateAction[]): AdjustmentFactor[] {
+  const newest = bars.length > 0 ? bars[bars.length - 1].date : '';
+  const pending = actions
+    .filter(action => action.exDate <= newest)
+    .sort((a, b) => b.exDate.localeCompare(a.exDate));
+  const factors: AdjustmentFactor[] = new Array(bars.length);
+  let price = 1;
+  let volume = 1;
+  let next = 0;
+
+  for (let i = bars.length - 1; i >= 0; i--) {
+    // Actions whose ex-date follows this bar; it is the last close before them
+    while (next < pending.length && pending[next].exDate > bars[i].date) {
+      const action = pending[next++];
+      if (action.type === 'split' && action.ratio && action.ratio > 0) {
+        price /= action.ratio;
+        volume *= action.ratio;
+      } else if (action.type === 'dividend' && action.amount && action.amount > 0 && action.amount < bars[i].close_price) {
+        price *= 1 - action.amount / bars[i].close_price;
+      }
+    }
+    factors[i] = { price, volume };
+  }
+
+  return factors;
+}
+
+/**
+ * Bars with split and dividend adjusted prices and split adjusted volume, oldest first
+ */
+export function adjustBars<T extends PriceBar>(bars: T[], actions: CorporateAction[]): T[] {
+  if (actions.length === 0) return bars;
+
+  const factors = adjustmentFactors(bars, actions);
+  return bars.map((bar, i) => ({
+    ...bar,
+    open_price: bar.open_price * factors[i].price,
+    high_price: bar.high_price * factors[i].price,
+    low_price: bar.low_price * factors[i].price,
+    close_price: bar.close_price * factors[i].price,
+    volume: Math.round(bar.volume * factors[i].volume)
+  }));
+}
+
+/**
+ * Adjusted close series, oldest first
+ */
+export function adjustedCloses(bars: ClosingBar[], actions: CorporateAction[]): number[] {
+  const factors = adjustmentFactors(bars, actions);
+  return bars.map((bar, i) => bar.close_price * factors[i].price);
+}
\ No newline at end of file
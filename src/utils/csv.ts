@@ -0,0 +1,290 @@
+/**
+ * CSV Import and Export
+ * Parses price history from CSV files with a configurable column mapping, date format
+ * and delimiter, validating each row like live quotes and reporting the ones rejected.
+ * Also writes rows back out as CSV for download.
+ */
+
+import { ExternalMarketData } from './apiClient';
+import { DataProcessor } from './dataProcessor';
+
+export type CsvDateFormat = 'iso' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'unix' | 'unix_ms';
+
+export type CsvField = 'symbol' | 'date' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+/** Header of the column each field is read from; unmapped optional fields are skipped */
+export type CsvColumnMapping = Partial<Record<CsvField, string>>;
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  delimiter: string;
+  /** Symbol for every row when the file has no symbol column */
+  symbol?: string;
+}
+
+export interface ImportedBar {
+  symbol: string;
+  /** Session day, YYYY-MM-DD */
+  date: string;
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface RejectedRow {
+  /** Line in the file, counting the header as line 1 */
+  line: number;
+  reason: string;
+  values: string[];
+}
+
+export interface CsvImportResult {
+  headers: string[];
+  /** Accepted bars, oldest first per symbol */
+  bars: ImportedBar[];
+  rejected: RejectedRow[];
+}
+
+export interface CsvColumn<T> {
+  label: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+export const CSV_FIELDS: CsvField[] = ['symbol', 'date', 'open', 'high', 'low', 'close', 'volume'];
+
+const REQUIRED_FIELDS: CsvField[] = ['date', 'close'];
+
+// Header names recognised for each field, compared case-insensitively
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  symbol: ['symbol', 'ticker', 'instrument'],
+  date: ['date', 'timestamp', 'time', 'datetime'],
+  open: ['open', 'open_price'],
+  high: ['high', 'high_price'],
+  low: ['low', 'low_price'],
+  close: ['close', 'close_price', 'adj close', 'adj_close', 'price'],
+  volume: ['volume', 'vol']
+};
+
+/**
+ * Split CSV text into rows of fields. Quoted fields may contain the delimiter, line
+ * breaks and doubled quotes. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Column for each field by its usual header names
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  CSV_FIELDS.forEach(field => {
+    const header = headers.find(name => FIELD_ALIASES[field].includes(name.trim().toLowerCase()));
+    if (header !== undefined) mapping[field] = header;
+  });
+  return mapping;
+}
+
+/**
+ * ISO timestamp for a date in the given format, or null when it does not parse.
+ * Dates without a time are taken as midnight UTC.
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): string | null {
+  const trimmed = value.trim();
+  let time = NaN;
+
+  if (format === 'unix' || format === 'unix_ms') {
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      time = parseFloat(trimmed) * (format === 'unix' ? 1000 : 1);
+    }
+  } else if (format === 'iso') {
+    time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed);
+  } else {
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+    if (match) {
+      const [first, second, year] = match.slice(1).map(Number);
+      const [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+      const date = new Date(Date.UTC(year, month - 1, day));
+      // Reject overflowing days such as 31/02
+      if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) time = date.getTime();
+    }
+  }
+
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+const parseNumber = (value: string | undefined) =>
+  value === undefined || value.trim() === '' ? NaN : Number(value.trim().replace(/,/g, ''));
+
+/**
+ * Bars from a CSV file. Each row is checked with DataProcessor.validationError (its
+ * change measured from the symbol's previous accepted close) and for a consistent
+ * high-low range; duplicates of a symbol and day are rejected after the first.
+ */
+export function parseMarketDataCsv(text: string, options: CsvImportOptions): CsvImportResult {
+  const delimiter = options.delimiter === '\\t' ? '\t' : options.delimiter;
+  const [headers = [], ...rows] = parseCsv(text, delimiter);
+  const rejected: RejectedRow[] = [];
+
+  const missing = REQUIRED_FIELDS.filter(field => !options.mapping[field]);
+  if (!options.mapping.symbol && !options.symbol) missing.unshift('symbol');
+  if (missing.length > 0) {
+    throw new Error(`Map a column to ${missing.join(', ')}`);
+  }
+
+  const index = (field: CsvField) => {
+    const header = options.mapping[field];
+    return header ? headers.indexOf(header) : -1;
+  };
+  const columns = Object.fromEntries(CSV_FIELDS.map(field => [field, index(field)])) as Record<CsvField, number>;
+  const unknown = CSV_FIELDS.filter(field => options.mapping[field] && columns[field] < 0);
+  if (unknown.length > 0) {
+    throw new Error(`Columns not in the file: ${unknown.map(field => options.mapping[field]).join(', ')}`);
+  }
+
+  // Parse every row first so changes can be measured in date order
+  const parsed: { line: number; values: string[]; bar: ImportedBar }[] = [];
+  rows.forEach((values, i) => {
+    const line = i + 2;
+    const read = (field: CsvField) => (columns[field] >= 0 ? values[columns[field]] : undefined);
+
+    const timestamp = parseCsvDate(read('date') ?? '', options.dateFormat);
+    if (!timestamp) {
+      rejected.push({ line, reason: `Date does not match ${options.dateFormat}`, values });
+      return;
+    }
+
+    const close = parseNumber(read('close'));
+    const optional = (field: CsvField, fallback: number) => (columns[field] >= 0 ? parseNumber(read(field)) : fallback);
+    const bar: ImportedBar = {
+      symbol: (read('symbol') ?? options.symbol ?? '').trim().toUpperCase(),
+      date: timestamp.slice(0, 10),
+      timestamp,
+      open: optional('open', close),
+      high: optional('high', close),
+      low: optional('low', close),
+      close,
+      volume: optional('volume', 0)
+    };
+
+    if ([bar.open, bar.high, bar.low, bar.close, bar.volume].some(Number.isNaN)) {
+      rejected.push({ line, reason: 'Non-numeric price or volume', values });
+      return;
+    }
+    parsed.push({ line, values, bar });
+  });
+
+  parsed.sort((a, b) => a.bar.symbol.localeCompare(b.bar.symbol) || a.bar.timestamp.localeCompare(b.bar.timestamp));
+
+  const bars: ImportedBar[] = [];
+  const previous = new Map<string, ImportedBar>();
+  const seen = new Set<string>();
+
+  parsed.forEach(({ line, values, bar }) => {
+    const key = `${bar.symbol}|${bar.date}`;
+    if (seen.has(key)) {
+      rejected.push({ line, reason: `Duplicate row for ${bar.symbol} on ${bar.date}`, values });
+      return;
+    }
+
+    const last = previous.get(bar.symbol);
+    const change = last ? bar.close - last.close : 0;
+    const item: ExternalMarketData = {
+      symbol: bar.symbol,
+      price: bar.close,
+      change,
+      changePercent: last ? (change / last.close) * 100 : 0,
+      volume: bar.volume,
+      timestamp: bar.timestamp
+    };
+
+    const reason = DataProcessor.validationError(item)
+      ?? (bar.high < bar.low || bar.open <= 0 || bar.low <= 0 ? 'High, low and open must be positive with high above low' : null)
+      ?? (bar.close > bar.high || bar.close < bar.low || bar.open > bar.high || bar.open < bar.low
+        ? 'Open and close must lie within the high-low range'
+        : null);
+
+    if (reason) {
+      rejected.push({ line, reason, values });
+      return;
+    }
+
+    seen.add(key);
+    previous.set(bar.symbol, bar);
+    bars.push(bar);
+  });
+
+  rejected.sort((a, b) => a.line - b.line);
+  return { headers, bars, rejected };
+}
+
+const escapeCsv = (value: string | number | boolean | null | undefined, delimiter: string) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV text with a header row, one line per row
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[], delimiter: string = ','): string {
+  const lines = [
+    columns.map(column => escapeCsv(column.label, delimiter)).join(delimiter),
+    ...rows.map(row => columns.map(column => escapeCsv(column.value(row), delimiter)).join(delimiter))
+  ];
+  return lines.join('\r\n');
+}
+
+/**
+ * Save rows as a CSV file from the browser
+ */
+export function downloadCsv<T>(filename: string, rows: T[], columns: CsvColumn<T>[]): void {
+  const blob = new Blob([toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
\ No newline at end of file
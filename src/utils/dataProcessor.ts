@@ -5,6 +5,7 @@
 
 import { TechnicalIndicators } from './technicalIndicators';
 import { ExternalMarketData } from './apiClient';
+import { SeededRandom, hashSeed } from './marketSimulator';
 
 export interface ProcessedMarketData {
   symbol: string;
@@ -36,19 +37,24 @@ export class DataProcessor {
    * Validate and clean market data
    */
   static validateMarketData(data: ExternalMarketData[]): ExternalMarketData[] {
-    return data.filter(item => {
-      // Basic validation rules
-      if (!item.symbol || typeof item.symbol !== 'string') return false;
-      if (!item.price || typeof item.price !== 'number' || item.price <= 0) return false;
-      if (typeof item.volume !== 'number' || item.volume < 0) return false;
-      if (!item.timestamp) return false;
-      
-      // Check for reasonable price ranges
-      if (item.price > 1000000) return false; // Unreasonably high price
-      if (item.changePercent && Math.abs(item.changePercent) > 50) return false; // Unreasonable change
-      
-      return true;
-    });
+    return data.filter(item => this.validationError(item) === null);
+  }
+
+  /**
+   * Why validateMarketData would drop an item, or null when it passes
+   */
+  static validationError(item: ExternalMarketData): string | null {
+    // Basic validation rules
+    if (!item.symbol || typeof item.symbol !== 'string') return 'Missing symbol';
+    if (!item.price || typeof item.price !== 'number' || item.price <= 0) return 'Price must be positive';
+    if (typeof item.volume !== 'number' || item.volume < 0) return 'Volume must not be negative';
+    if (!item.timestamp) return 'Missing timestamp';
+
+    // Check for reasonable price ranges
+    if (item.price > 1000000) return 'Price is unreasonably high';
+    if (item.changePercent && Math.abs(item.changePercent) > 50) return 'Change is over 50%';
+
+    return null;
   }
 
   /**
@@ -195,27 +201,31 @@ export class DataProcessor {
   }
 
   /**
-   * Generate synthetic data for testing
+   * Generate synthetic data for testing (reproducible for a given symbol and seed)
    */
   static generateSyntheticData(
     symbol: string, 
     days: number, 
     basePrice: number = 100,
-    volatility: number = 0.02
+    volatility: number = 0.02,
+    seed: number = hashSeed(symbol)
   ): ProcessedMarketData[] {
     const data: ProcessedMarketData[] = [];
+    const rng = new SeededRandom(seed);
     let currentPrice = basePrice;
 
     for (let i = 0; i < days; i++) {
       const date = new Date();
       date.setDate(date.getDate() - (days - i));
 
-      // Generate realistic price movement
-      const randomChange = (Math.random() - 0.5) * volatility * 2;
-      const trendFactor = Math.sin(i / 10) * 0.001; // Add some trend
-      currentPrice = currentPrice * (1 + randomChange + trendFactor);
+      // Generate realistic price movement, starting from the base price
+      if (i > 0) {
+        const randomChange = (rng.next() - 0.5) * volatility * 2;
+        const trendFactor = Math.sin(i / 10) * 0.001; // Add some trend
+        currentPrice = currentPrice * (1 + randomChange + trendFactor);
+      }
 
-      const volume = Math.floor(Math.random() * 1000000) + 100000;
+      const volume = Math.floor(rng.next() * 1000000) + 100000;
       const change = i > 0 ? currentPrice - data[i - 1].price : 0;
       const changePercent = i > 0 ? (change / data[i - 1].price) * 100 : 0;
 
@@ -0,0 +1,108 @@
+/**
+ * Forecast Horizons
+ * Bar granularities the prediction models run on, how their steps are labelled in
+ * ai_predictions.time_horizon and how daily bars roll up into weekly ones
+ */
+
+export type ForecastGranularity = '15m' | '1h' | '1d' | '1w';
+
+export interface GranularityConfig {
+  label: string;
+  /** Length of one step in minutes */
+  stepMinutes: number;
+  /** Steps forecast when none are requested */
+  defaultSteps: number;
+  /** Served from intraday_bars rather than historical_data */
+  intraday: boolean;
+}
+
+export interface PriceBar {
+  date: string;
+  open_price: number;
+  high_price: number;
+  low_price: number;
+  close_price: number;
+  volume: number;
+}
+
+export const GRANULARITIES: Record<ForecastGranularity, GranularityConfig> = {
+  '15m': { label: '15 Min', stepMinutes: 15, defaultSteps: 8, intraday: true },
+  '1h': { label: 'Hourly', stepMinutes: 60, defaultSteps: 8, intraday: true },
+  '1d': { label: 'Daily', stepMinutes: 24 * 60, defaultSteps: 7, intraday: false },
+  '1w': { label: 'Weekly', stepMinutes: 7 * 24 * 60, defaultSteps: 4, intraday: false }
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Stored time_horizon for a number of steps, e.g. "45 minutes", "2 hours", "3 days", "1 weeks".
+ * Units stay plural so every label parses the same way.
+ */
+export function horizonLabel(granularity: ForecastGranularity, steps: number): string {
+  switch (granularity) {
+    case '15m':
+      return `${steps * 15} minutes`;
+    case '1h':
+      return `${steps} hours`;
+    case '1w':
+      return `${steps} weeks`;
+    default:
+      return `${steps} days`;
+  }
+}
+
+/**
+ * Horizon in whole days, as the daily scorecards key it; null for intraday steps
+ */
+export function horizonDays(granularity: ForecastGranularity, steps: number): number | null {
+  const config = GRANULARITIES[granularity];
+  return config.intraday ? null : (steps * config.stepMinutes) / (24 * 60);
+}
+
+/**
+ * Target timestamp of the step-th step ahead. Intraday steps end the bar that many
+ * bars after the latest one (given by its start); day-based steps count from today
+ * and are labelled by date only.
+ */
+export function stepTimestamp(granularity: ForecastGranularity, latestBarStart: string, steps: number, now: Date = new Date()): string {
+  const config = GRANULARITIES[granularity];
+
+  if (config.intraday) {
+    return new Date(Date.parse(latestBarStart) + (steps + 1) * config.stepMinutes * MINUTE_MS).toISOString();
+  }
+
+  const date = new Date(now);
+  date.setDate(date.getDate() + steps * config.stepMinutes / (24 * 60));
+  return date.toISOString().split('T')[0];
+}
+
+/** Monday of the ISO week a day falls in */
+const weekStart = (day: string): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Roll daily bars (oldest first) up into Monday-dated weekly bars
+ */
+export function aggregateWeeklyBars(daily: PriceBar[]): PriceBar[] {
+  const weeks: PriceBar[] = [];
+
+  daily.forEach(bar => {
+    const week = weekStart(bar.date);
+    const current = weeks[weeks.length - 1];
+
+    if (!current || current.date !== week) {
+      weeks.push({ ...bar, date: week });
+      return;
+    }
+
+    current.high_price = Math.max(current.high_price, bar.high_price);
+    current.low_price = Math.min(current.low_price, bar.low_price);
+    current.close_price = bar.close_price;
+    current.volume += bar.volume;
+  });
+
+  return weeks;
+}
\ No newline at end of file
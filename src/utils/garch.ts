@@ -0,0 +1,244 @@
+/**
+ * GARCH Volatility Models
+ * GARCH(1,1) and EGARCH(1,1) conditional variance models fitted to returns by Gaussian
+ * maximum likelihood, with multi-step variance forecasts and realized volatility cones
+ */
+
+import { nelderMead } from './optimization';
+
+export type GarchVariant = 'garch' | 'egarch';
+
+export interface GarchParameters {
+  omega: number;
+  alpha: number;
+  beta: number;
+  /** EGARCH leverage term, negative when falls raise volatility more than rises; 0 for GARCH */
+  gamma: number;
+}
+
+export interface VolatilityConePoint {
+  /** Window length in periods */
+  window: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  /** Realized volatility over the latest window */
+  current: number;
+}
+
+export const MIN_GARCH_RETURNS = 60;
+
+const EXPECTED_ABS_NORMAL = Math.sqrt(2 / Math.PI);
+const LOG_2PI = Math.log(2 * Math.PI);
+
+// Keeps a wandering EGARCH log-variance from overflowing while the optimizer explores
+const MAX_LOG_VARIANCE = 50;
+
+export function logReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+  return returns;
+}
+
+/**
+ * Realized volatility per period: the root mean square return, taking the mean as zero
+ */
+export function realizedVolatility(returns: number[]): number {
+  if (returns.length === 0) return 0;
+  return Math.sqrt(returns.reduce((sum, r) => sum + r * r, 0) / returns.length);
+}
+
+const percentile = (sorted: number[], p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Distribution of realized volatility over every overlapping window of each length.
+ * Windows longer than the returns are left out.
+ */
+export function volatilityCone(returns: number[], windows: number[]): VolatilityConePoint[] {
+  return windows
+    .filter(window => window > 0 && window <= returns.length)
+    .map(window => {
+      const realized: number[] = [];
+      for (let end = window; end <= returns.length; end++) {
+        realized.push(realizedVolatility(returns.slice(end - window, end)));
+      }
+      const current = realized[realized.length - 1];
+      realized.sort((a, b) => a - b);
+
+      return {
+        window,
+        min: realized[0],
+        p25: percentile(realized, 0.25),
+        median: percentile(realized, 0.5),
+        p75: percentile(realized, 0.75),
+        max: realized[realized.length - 1],
+        current
+      };
+    });
+}
+
+export class GarchModel {
+  private constructor(
+    readonly variant: GarchVariant,
+    readonly mean: number,
+    readonly params: GarchParameters,
+    readonly logLikelihood: number,
+    readonly aic: number,
+    /** In-sample conditional variances, one per return */
+    readonly variances: number[],
+    /** Variance of the first period after the sample */
+    readonly nextVariance: number
+  ) {}
+
+  /**
+   * Fit by Gaussian maximum likelihood on demeaned returns. Omega is set by variance
+   * targeting so the long-run variance matches the sample's (for EGARCH, its log).
+   */
+  static fit(returns: number[], variant: GarchVariant = 'garch'): GarchModel {
+    if (returns.length < MIN_GARCH_RETURNS) {
+      throw new Error(`${returns.length} returns are too few to fit a ${variant.toUpperCase()} model`);
+    }
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const residuals = returns.map(r => r - mean);
+    const sampleVariance = residuals.reduce((sum, e) => sum + e * e, 0) / residuals.length;
+    if (!(sampleVariance > 0)) {
+      throw new Error('Returns have no variance to model');
+    }
+
+    const unpack = (point: number[]): GarchParameters | null => {
+      if (variant === 'garch') {
+        const [alpha, beta] = point;
+        if (alpha < 0 || beta < 0 || alpha + beta >= 1) return null;
+        return { omega: sampleVariance * (1 - alpha - beta), alpha, beta, gamma: 0 };
+      }
+
+      const [alpha, gamma, beta] = point;
+      if (Math.abs(beta) >= 1) return null;
+      return { omega: (1 - beta) * Math.log(sampleVariance), alpha, beta, gamma };
+    };
+
+    const negativeLogLikelihood = (point: number[]): number => {
+      const params = unpack(point);
+      if (!params) return Infinity;
+
+      const { variances } = this.filter(variant, params, residuals, sampleVariance);
+      let total = 0;
+      for (let t = 0; t < residuals.length; t++) {
+        total += LOG_2PI + Math.log(variances[t]) + residuals[t] * residuals[t] / variances[t];
+      }
+      return Number.isFinite(total) ? total / 2 : Infinity;
+    };
+
+    const initial = variant === 'garch' ? [0.05, 0.9] : [0.1, 0, 0.9];
+    const { point, value } = nelderMead(negativeLogLikelihood, initial, { step: 0.05 });
+    const params = unpack(point);
+    if (!params || !Number.isFinite(value)) {
+      throw new Error(`${variant.toUpperCase()} fit did not find a stationary solution`);
+    }
+
+    const { variances, next } = this.filter(variant, params, residuals, sampleVariance);
+    // Mean and omega are estimated too, omega through the sample variance
+    const aic = 2 * (point.length + 2) + 2 * value;
+
+    return new GarchModel(variant, mean, params, -value, aic, variances, next);
+  }
+
+  /**
+   * Fit each variant and keep the lowest AIC. Variants that cannot be fitted are skipped.
+   */
+  static autoFit(returns: number[], variants: GarchVariant[] = ['garch', 'egarch']): GarchModel {
+    let best: GarchModel | null = null;
+    let lastError: unknown = null;
+
+    for (const variant of variants) {
+      try {
+        const model = this.fit(returns, variant);
+        if (!best || model.aic < best.aic) best = model;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    if (!best) {
+      throw lastError instanceof Error ? lastError : new Error('No volatility model could be fitted');
+    }
+    return best;
+  }
+
+  /** How much of a variance shock carries into the next period */
+  get persistence(): number {
+    return this.variant === 'garch' ? this.params.alpha + this.params.beta : this.params.beta;
+  }
+
+  /**
+   * Forecast variance for each of the next `steps` periods. EGARCH steps follow the
+   * expected log-variance, whose shock terms average out to zero.
+   */
+  forecast(steps: number): number[] {
+    const { omega, beta } = this.params;
+    const variances: number[] = [];
+
+    if (this.variant === 'garch') {
+      const longRun = omega / (1 - this.persistence);
+      for (let h = 0; h < steps; h++) {
+        variances.push(longRun + Math.pow(this.persistence, h) * (this.nextVariance - longRun));
+      }
+      return variances;
+    }
+
+    let logVariance = Math.log(this.nextVariance);
+    for (let h = 0; h < steps; h++) {
+      variances.push(Math.exp(logVariance));
+      logVariance = omega + beta * logVariance;
+    }
+    return variances;
+  }
+
+  /**
+   * Volatility per period expected over the next `steps` periods, comparable to the
+   * realized volatility of the returns over the same span
+   */
+  horizonVolatility(steps: number): number {
+    const variances = this.forecast(Math.max(1, steps));
+    return Math.sqrt(variances.reduce((sum, v) => sum + v, 0) / variances.length);
+  }
+
+  /**
+   * Run the variance recursion over the residuals, starting from the sample variance.
+   * `next` is the variance for the period after the last residual.
+   */
+  private static filter(
+    variant: GarchVariant,
+    params: GarchParameters,
+    residuals: number[],
+    initialVariance: number
+  ): { variances: number[]; next: number } {
+    const { omega, alpha, beta, gamma } = params;
+    const variances: number[] = [];
+    let variance = initialVariance;
+
+    for (const residual of residuals) {
+      variances.push(variance);
+
+      if (variant === 'garch') {
+        variance = omega + alpha * residual * residual + beta * variance;
+      } else {
+        const z = residual / Math.sqrt(variance);
+        const logVariance = omega + alpha * (Math.abs(z) - EXPECTED_ABS_NORMAL) + gamma * z + beta * Math.log(variance);
+        variance = Math.exp(Math.max(-MAX_LOG_VARIANCE, Math.min(MAX_LOG_VARIANCE, logVariance)));
+      }
+    }
+
+    return { variances, next: variance };
+  }
+}
\ No newline at end of file
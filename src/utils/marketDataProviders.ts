@@ -0,0 +1,383 @@
+/**
+ * Market Data Providers
+ * Quote sources behind one MarketDataProvider interface, and a router that tries them
+ * best first. Providers are ranked by their rolling success rate and latency, so a
+ * failing or slow source drops down the order. Older outcomes count for less, and a
+ * provider left untried for a while is probed first, so a demoted source can recover.
+ */
+
+import type { ExternalMarketData } from './apiClient';
+import { marketSimulator } from './marketSimulator';
+
+export interface MarketDataProvider {
+  readonly name: string;
+  /** False when the provider cannot be used at all, e.g. it has no API key */
+  isAvailable(): boolean;
+  supports(symbol: string): boolean;
+  /** Null when the provider has no quote for the symbol */
+  fetchQuote(symbol: string): Promise<ExternalMarketData | null>;
+}
+
+export interface ProviderHealth {
+  name: string;
+  available: boolean;
+  /** Requests in the rolling window */
+  requests: number;
+  successRate: number;
+  averageLatencyMs: number;
+  /** Ranking score from 0 to 1; untried providers start at 1 */
+  score: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
+
+export interface RouterOptions {
+  /** Outcomes kept per provider */
+  window?: number;
+  /** Latency at which a provider loses the full latency penalty */
+  latencyBudgetMs?: number;
+  /** Millisecond clock for latency measurement */
+  clock?: () => number;
+  /** Wall clock in milliseconds, for outcome age and probing */
+  now?: () => number;
+  /** Age at which an outcome counts half as much as a fresh one */
+  halfLifeMs?: number;
+  /** Untried time after which a provider is probed ahead of the ranking */
+  probeIntervalMs?: number;
+}
+
+/** Called before each request, e.g. to respect the provider's rate limit */
+export type Throttle = (provider: string) => Promise<void>;
+
+interface Outcome {
+  ok: boolean;
+  latencyMs: number;
+  /** Wall-clock time it was recorded */
+  at: number;
+}
+
+interface ProviderState {
+  provider: MarketDataProvider;
+  outcomes: Outcome[];
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
+
+export const CRYPTO_SYMBOLS = ['BTC', 'ETH', 'ADA', 'DOT'];
+
+// Share of the score a provider at or past the latency budget gives up
+const LATENCY_WEIGHT = 0.25;
+
+const DEFAULT_ROUTER_OPTIONS: Required<RouterOptions> = {
+  window: 20,
+  latencyBudgetMs: 2000,
+  clock: () => performance.now(),
+  now: () => Date.now(),
+  halfLifeMs: 5 * 60_000,
+  probeIntervalMs: 60_000
+};
+
+const isCrypto = (symbol: string) => CRYPTO_SYMBOLS.includes(symbol);
+
+const noThrottle: Throttle = async () => {};
+
+async function getJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
+
+export class MarketDataRouter {
+  private states: ProviderState[] = [];
+  private readonly options: Required<RouterOptions>;
+
+  constructor(options: RouterOptions = {}) {
+    this.options = { ...DEFAULT_ROUTER_OPTIONS, ...options };
+  }
+
+  /**
+   * Add a provider. Registration order breaks ties, so register the preferred source first.
+   */
+  register(provider: MarketDataProvider): this {
+    if (this.states.some(state => state.provider.name === provider.name)) {
+      throw new Error(`Market data provider ${provider.name} is already registered`);
+    }
+    this.states.push({ provider, outcomes: [] });
+    return this;
+  }
+
+  /**
+   * Available providers for the symbol, best score first
+   */
+  rank(symbol: string): MarketDataProvider[] {
+    return this.states
+      .map((state, order) => ({ state, order, score: this.score(state) }))
+      .filter(({ state }) => state.provider.isAvailable() && state.provider.supports(symbol))
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .map(({ state }) => state.provider);
+  }
+
+  /**
+   * Quote from the best provider that has one, failing over down the ranking. Empty
+   * answers count as failures. One provider left untried past the probe interval goes
+   * first, so a demoted source gets a chance to prove it is back. Null when every
+   * provider failed.
+   */
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    const ranked = this.rank(symbol);
+    const probe = ranked.slice(1).find(provider => this.isDueForProbe(provider));
+    const order = probe ? [probe, ...ranked.filter(provider => provider !== probe)] : ranked;
+
+    for (const provider of order) {
+      const state = this.states.find(candidate => candidate.provider === provider)!;
+      const start = this.options.clock();
+
+      try {
+        const quote = await provider.fetchQuote(symbol);
+        if (!quote) throw new Error(`No quote for ${symbol}`);
+
+        this.record(state, true, this.options.clock() - start);
+        return { ...quote, source: provider.name };
+      } catch (error) {
+        this.record(state, false, this.options.clock() - start, error);
+      }
+    }
+
+    return null;
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.states.map(state => {
+      const { outcomes } = state;
+      return {
+        name: state.provider.name,
+        available: state.provider.isAvailable(),
+        requests: outcomes.length,
+        successRate: outcomes.length > 0 ? outcomes.filter(outcome => outcome.ok).length / outcomes.length : 1,
+        averageLatencyMs: outcomes.length > 0
+          ? outcomes.reduce((sum, outcome) => sum + outcome.latencyMs, 0) / outcomes.length
+          : 0,
+        score: this.score(state),
+        lastError: state.lastError,
+        lastSuccessAt: state.lastSuccessAt,
+        lastFailureAt: state.lastFailureAt
+      };
+    });
+  }
+
+  /**
+   * Rolling success rate, less a penalty growing with average latency up to the budget.
+   * Outcomes are weighted by age, halving every half-life, so a recent recovery outweighs
+   * older failures.
+   */
+  private score(state: ProviderState): number {
+    const { outcomes } = state;
+    if (outcomes.length === 0) return 1;
+
+    const now = this.options.now();
+    const weights = outcomes.map(outcome => Math.pow(0.5, Math.max(0, now - outcome.at) / this.options.halfLifeMs));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const successRate = outcomes.reduce((sum, outcome, i) => sum + (outcome.ok ? weights[i] : 0), 0) / total;
+    const latency = outcomes.reduce((sum, outcome, i) => sum + outcome.latencyMs * weights[i], 0) / total;
+    return successRate * (1 - LATENCY_WEIGHT * Math.min(1, latency / this.options.latencyBudgetMs));
+  }
+
+  private isDueForProbe(provider: MarketDataProvider): boolean {
+    const state = this.states.find(candidate => candidate.provider === provider)!;
+    const latest = state.outcomes[state.outcomes.length - 1];
+    return latest !== undefined && this.options.now() - latest.at >= this.options.probeIntervalMs;
+  }
+
+  private record(state: ProviderState, ok: boolean, latencyMs: number, error?: unknown): void {
+    state.outcomes.push({ ok, latencyMs, at: this.options.now() });
+    if (state.outcomes.length > this.options.window) state.outcomes.shift();
+
+    const at = new Date().toISOString();
+    if (ok) {
+      state.lastSuccessAt = at;
+    } else {
+      state.lastFailureAt = at;
+      state.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly name = 'yahooFinance';
+
+  constructor(private readonly throttle: Throttle = noThrottle) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  supports(symbol: string): boolean {
+    return !isCrypto(symbol);
+  }
+
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    await this.throttle(this.name);
+    const data = await getJson(
+      `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1m&range=1d&includePrePost=true`,
+      { headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' } }
+    );
+    const result = data.chart?.result?.[0];
+    if (!result) return null;
+
+    // Fall back to the latest intraday close when the meta price is missing
+    const closes: (number | null)[] = result.indicators?.quote?.[0]?.close ?? [];
+    const price = result.meta?.regularMarketPrice ?? closes.filter(close => close !== null).pop();
+    if (!price) return null;
+
+    const previousClose = result.meta?.chartPreviousClose ?? price;
+    const volumes: (number | null)[] = result.indicators?.quote?.[0]?.volume ?? [];
+
+    return {
+      symbol,
+      price,
+      change: price - previousClose,
+      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : 0,
+      volume: volumes.reduce<number>((sum, volume) => sum + (volume ?? 0), 0),
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+export class FinnhubProvider implements MarketDataProvider {
+  readonly name = 'finnhub';
+
+  constructor(private readonly apiKey: string | undefined, private readonly throttle: Throttle = noThrottle) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  supports(symbol: string): boolean {
+    return !isCrypto(symbol);
+  }
+
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    await this.throttle(this.name);
+    const data = await getJson(
+      `https://finnhub.io/api/v1/quote?symbol=${symbol}`,
+      { headers: { 'X-Finnhub-Token': this.apiKey! } }
+    );
+    if (!data?.c) return null;
+
+    return {
+      symbol,
+      price: data.c,
+      change: data.d ?? 0,
+      changePercent: data.dp ?? 0,
+      // The quote endpoint carries no volume
+      volume: 0,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+export class FinnhubCryptoProvider implements MarketDataProvider {
+  readonly name = 'finnhubCrypto';
+
+  constructor(private readonly apiKey: string | undefined, private readonly throttle: Throttle = noThrottle) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  supports(symbol: string): boolean {
+    return isCrypto(symbol);
+  }
+
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    // Shares the Finnhub rate limit
+    await this.throttle('finnhub');
+    const now = Math.floor(Date.now() / 1000);
+    const data = await getJson(
+      `https://finnhub.io/api/v1/crypto/candle?symbol=BINANCE:${symbol}USDT&resolution=1&from=${now - 86400}&to=${now}`,
+      { headers: { 'X-Finnhub-Token': this.apiKey! } }
+    );
+    if (!data.c || data.c.length === 0) return null;
+
+    const latestPrice = data.c[data.c.length - 1];
+    const previousPrice = data.c[data.c.length - 2] || latestPrice;
+    const change = latestPrice - previousPrice;
+
+    return {
+      symbol,
+      price: latestPrice,
+      change,
+      changePercent: (change / previousPrice) * 100,
+      volume: data.v ? data.v[data.v.length - 1] : 0,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphaVantage';
+
+  constructor(private readonly apiKey: string | undefined, private readonly throttle: Throttle = noThrottle) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  supports(symbol: string): boolean {
+    return !isCrypto(symbol);
+  }
+
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    await this.throttle(this.name);
+    const data = await getJson(
+      `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${this.apiKey}`
+    );
+    const quote = data['Global Quote'];
+    if (!quote?.['05. price']) return null;
+
+    return {
+      symbol,
+      price: parseFloat(quote['05. price']),
+      change: parseFloat(quote['09. change']),
+      changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
+      volume: parseInt(quote['06. volume']),
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+/**
+ * Offline quotes: fixed fixtures by symbol, and the deterministic simulated session for
+ * any other symbol unless `simulateMissing` is off
+ */
+export class FixtureProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    private readonly fixtures: Record<string, Omit<ExternalMarketData, 'symbol' | 'timestamp'>> = {},
+    private readonly simulateMissing: boolean = true
+  ) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  supports(symbol: string): boolean {
+    return this.simulateMissing || symbol in this.fixtures;
+  }
+
+  async fetchQuote(symbol: string): Promise<ExternalMarketData | null> {
+    const fixture = this.fixtures[symbol];
+    if (fixture) {
+      return { symbol, ...fixture, timestamp: new Date().toISOString() };
+    }
+    if (!this.simulateMissing) return null;
+
+    const { price, change, changePercent, volume, marketCap, timestamp } = marketSimulator.quote(symbol);
+    return { symbol, price, change, changePercent, volume, marketCap, timestamp };
+  }
+}
\ No newline at end of file
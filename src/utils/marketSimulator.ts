@@ -0,0 +1,407 @@
+/**
+ * Market Simulator
+ * Deterministic, seedable market data for demos, fallbacks and tests.
+ *
+ * Daily closes follow geometric Brownian motion whose drift and volatility switch
+ * between bull, bear and sideways regimes. Every random draw is keyed on
+ * (seed, symbol, date), and paths are anchored so the latest session closes at the
+ * symbol's reference price, so any two windows ending on the same day agree bar for bar.
+ */
+
+import { AnalysisResult, HistoricalDataPoint, MarketData, TrendData } from '../types';
+import { TechnicalIndicators } from './technicalIndicators';
+import { TechnicalAnalyzer, ANALYSIS_LOOKBACK } from './technicalAnalyzer';
+
+export type AssetClass = 'equity' | 'crypto';
+
+export interface SymbolProfile {
+  basePrice: number;
+  volatility: number; // annualized
+  baseVolume: number;
+  marketCap: number;
+  assetClass: AssetClass;
+}
+
+export type RegimeName = 'bull' | 'bear' | 'sideways';
+
+export interface MarketRegime {
+  name: RegimeName;
+  drift: number; // annualized
+  volMultiplier: number;
+}
+
+export interface IntradayBar {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface SimulatorOptions {
+  seed?: number;
+  /** Fixed clock; defaults to the current time on every call */
+  asOf?: Date;
+}
+
+export const DEFAULT_SIMULATOR_SEED = 20250101;
+
+export const SYMBOL_PROFILES: Record<string, SymbolProfile> = {
+  AAPL: { basePrice: 235, volatility: 0.28, baseVolume: 45000000, marketCap: 3600000000000, assetClass: 'equity' },
+  GOOGL: { basePrice: 185, volatility: 0.32, baseVolume: 25000000, marketCap: 2200000000000, assetClass: 'equity' },
+  MSFT: { basePrice: 425, volatility: 0.25, baseVolume: 35000000, marketCap: 3200000000000, assetClass: 'equity' },
+  TSLA: { basePrice: 185, volatility: 0.6, baseVolume: 85000000, marketCap: 580000000000, assetClass: 'equity' },
+  AMZN: { basePrice: 195, volatility: 0.33, baseVolume: 30000000, marketCap: 1800000000000, assetClass: 'equity' },
+  NVDA: { basePrice: 850, volatility: 0.55, baseVolume: 55000000, marketCap: 2100000000000, assetClass: 'equity' },
+  META: { basePrice: 580, volatility: 0.4, baseVolume: 20000000, marketCap: 1500000000000, assetClass: 'equity' },
+  BTC: { basePrice: 95000, volatility: 0.65, baseVolume: 15000000, marketCap: 1900000000000, assetClass: 'crypto' },
+  ETH: { basePrice: 3800, volatility: 0.8, baseVolume: 8000000, marketCap: 450000000000, assetClass: 'crypto' },
+  SPY: { basePrice: 580, volatility: 0.16, baseVolume: 75000000, marketCap: 0, assetClass: 'equity' } // ETF has no market cap
+};
+
+export const SIMULATED_SYMBOLS = Object.keys(SYMBOL_PROFILES);
+
+const DEFAULT_PROFILE: SymbolProfile = {
+  basePrice: 100,
+  volatility: 0.3,
+  baseVolume: 1000000,
+  marketCap: 100000000000,
+  assetClass: 'equity'
+};
+
+const REGIMES: { regime: MarketRegime; weight: number }[] = [
+  { regime: { name: 'bull', drift: 0.25, volMultiplier: 0.9 }, weight: 0.4 },
+  { regime: { name: 'bear', drift: -0.3, volMultiplier: 1.4 }, weight: 0.25 },
+  { regime: { name: 'sideways', drift: 0, volMultiplier: 0.7 }, weight: 0.35 }
+];
+
+// Regimes last for fixed calendar blocks so every window sees the same switches
+const REGIME_LENGTH_DAYS = 30;
+
+// Regular sessions in UTC minutes. Equities use the US session during daylight time; DST is not modeled.
+const SESSIONS: Record<AssetClass, { open: number; close: number }> = {
+  equity: { open: 13 * 60 + 30, close: 20 * 60 },
+  crypto: { open: 0, close: 24 * 60 }
+};
+
+export const PERIODS_PER_YEAR: Record<AssetClass, number> = { equity: 252, crypto: 365 };
+
+const INDICATOR_WARMUP = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * FNV-1a hash of the joined parts, used to derive per-stream seeds
+ */
+export function hashSeed(...parts: (string | number)[]): number {
+  let hash = 0x811c9dc5;
+  const text = parts.join(':');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Small, fast PRNG (mulberry32) with normal draws via Box-Muller
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Standard normal */
+  normal(): number {
+    const u = 1 - this.next();
+    const v = this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  between(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+export class MarketSimulator {
+  private seed: number;
+  private fixedAsOf?: Date;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.seed = options.seed ?? DEFAULT_SIMULATOR_SEED;
+    this.fixedAsOf = options.asOf;
+  }
+
+  getProfile(symbol: string): SymbolProfile {
+    return SYMBOL_PROFILES[symbol] || DEFAULT_PROFILE;
+  }
+
+  /**
+   * Random stream for one (symbol, key) pair, e.g. a session date
+   */
+  random(symbol: string, key: string | number): SeededRandom {
+    return new SeededRandom(hashSeed(this.seed, symbol, key));
+  }
+
+  regimeAt(symbol: string, date: string): MarketRegime {
+    const block = Math.floor(Date.parse(date) / DAY_MS / REGIME_LENGTH_DAYS);
+    const draw = this.random(symbol, `regime:${block}`).next();
+
+    let cumulative = 0;
+    for (const { regime, weight } of REGIMES) {
+      cumulative += weight;
+      if (draw < cumulative) return regime;
+    }
+    return REGIMES[REGIMES.length - 1].regime;
+  }
+
+  /**
+   * The last `count` daily sessions ending at the latest session on or before asOf
+   */
+  dailyBars(symbol: string, count: number): HistoricalDataPoint[] {
+    if (count <= 0) return [];
+
+    const profile = this.getProfile(symbol);
+    const sessions = this.sessionsEndingAt(profile.assetClass, this.asOf(), count + 1);
+    const dt = 1 / PERIODS_PER_YEAR[profile.assetClass];
+
+    // Walk backwards from the anchor so the latest close is always the reference price
+    const closes = new Array<number>(sessions.length);
+    closes[sessions.length - 1] = profile.basePrice;
+    for (let i = sessions.length - 1; i > 0; i--) {
+      closes[i - 1] = closes[i] / Math.exp(this.sessionReturn(symbol, sessions[i], profile, dt));
+    }
+
+    const bars: HistoricalDataPoint[] = [];
+    for (let i = 1; i < sessions.length; i++) {
+      const rng = this.random(symbol, sessions[i]);
+      rng.normal(); // return draw, consumed by sessionReturn
+      const sigma = profile.volatility * this.regimeAt(symbol, sessions[i]).volMultiplier * Math.sqrt(dt);
+
+      const open = closes[i - 1] * Math.exp(rng.normal() * sigma * 0.2);
+      const close = closes[i];
+      const high = Math.max(open, close) * Math.exp(Math.abs(rng.normal()) * sigma * 0.5);
+      const low = Math.min(open, close) * Math.exp(-Math.abs(rng.normal()) * sigma * 0.5);
+      const moveSize = Math.abs(Math.log(close / closes[i - 1])) / sigma;
+      const volume = Math.round(profile.baseVolume * Math.exp(rng.normal() * 0.25) * (1 + 0.3 * moveSize));
+
+      bars.push({ date: sessions[i], open, high, low, close, volume });
+    }
+
+    return bars;
+  }
+
+  /**
+   * Intraday bars for one session, bridged from the session's daily open to its close
+   * with a U-shaped volume profile
+   */
+  intradayBars(symbol: string, date: string, intervalMinutes: number = 5): IntradayBar[] {
+    const profile = this.getProfile(symbol);
+    const daily = this.dailyBarFor(symbol, date);
+    if (!daily) return [];
+
+    const session = SESSIONS[profile.assetClass];
+    const steps = Math.max(1, Math.floor((session.close - session.open) / intervalMinutes));
+    const dt = 1 / PERIODS_PER_YEAR[profile.assetClass];
+    const sigmaStep = profile.volatility * this.regimeAt(symbol, date).volMultiplier * Math.sqrt(dt / steps);
+    const rng = this.random(symbol, `intraday:${date}:${intervalMinutes}`);
+
+    // Brownian bridge in log space from open to close
+    const walk = [0];
+    for (let k = 1; k <= steps; k++) {
+      walk.push(walk[k - 1] + rng.normal() * sigmaStep);
+    }
+    const target = Math.log(daily.close / daily.open);
+    const path = walk.map((w, k) => daily.open * Math.exp(w - (k / steps) * (walk[steps] - target)));
+
+    const weights = Array.from({ length: steps }, (_, k) => 1 + 1.5 * Math.pow(((k + 0.5) / steps - 0.5) * 2, 2));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const sessionStart = Date.parse(`${date}T00:00:00Z`) + session.open * 60000;
+
+    return weights.map((weight, k) => {
+      const open = path[k];
+      const close = path[k + 1];
+      return {
+        timestamp: new Date(sessionStart + k * intervalMinutes * 60000).toISOString(),
+        open,
+        high: Math.max(open, close) * Math.exp(Math.abs(rng.normal()) * sigmaStep * 0.3),
+        low: Math.min(open, close) * Math.exp(-Math.abs(rng.normal()) * sigmaStep * 0.3),
+        close,
+        volume: Math.round(daily.volume * (weight / totalWeight) * Math.exp(rng.normal() * 0.2))
+      };
+    });
+  }
+
+  /**
+   * Live-looking quote: the close of the current one-minute bar while the session is open,
+   * otherwise the last completed session close
+   */
+  quote(symbol: string): MarketData {
+    const profile = this.getProfile(symbol);
+    const now = this.asOf();
+    const session = SESSIONS[profile.assetClass];
+    const minute = now.getUTCHours() * 60 + now.getUTCMinutes();
+
+    const bars = this.dailyBars(symbol, 3);
+    const isToday = bars[2].date === this.dateKey(now);
+
+    // Before today's open the last completed session is yesterday's
+    const lag = isToday && minute < session.open ? 1 : 0;
+    const latest = bars[2 - lag];
+    const previous = bars[1 - lag];
+
+    let price = latest.close;
+    let volume = latest.volume;
+
+    if (isToday && minute >= session.open && minute < session.close) {
+      const elapsed = this.intradayBars(symbol, latest.date, 1).slice(0, minute - session.open + 1);
+      price = elapsed[elapsed.length - 1].close;
+      volume = elapsed.reduce((sum, bar) => sum + bar.volume, 0);
+    }
+
+    const change = price - previous.close;
+
+    return {
+      symbol,
+      price,
+      change,
+      changePercent: (change / previous.close) * 100,
+      volume,
+      marketCap: profile.marketCap * (price / profile.basePrice),
+      timestamp: now.toISOString()
+    };
+  }
+
+  quotes(symbols: string[] = SIMULATED_SYMBOLS): MarketData[] {
+    return symbols.map(symbol => this.quote(symbol));
+  }
+
+  /**
+   * Daily closes with MA20/MA50/RSI/MACD computed from the simulated history
+   */
+  trendData(symbol: string, count: number): TrendData[] {
+    const bars = this.dailyBars(symbol, count + INDICATOR_WARMUP);
+    const closes = bars.map(bar => bar.close);
+    const ma20 = TechnicalIndicators.calculateSMA(closes, 20);
+    const ma50 = TechnicalIndicators.calculateSMA(closes, 50);
+    const rsi = TechnicalIndicators.calculateRSI(closes);
+    const macd = TechnicalIndicators.calculateMACD(closes).macd;
+
+    // Indicator series end on the last bar, so index them from the right
+    const fromEnd = (series: number[], offset: number, fallback: number) =>
+      series[series.length - offset] ?? fallback;
+
+    return bars.slice(-count).map((bar, i, window) => {
+      const offset = window.length - i;
+      return {
+        timestamp: bar.date,
+        price: bar.close,
+        volume: bar.volume,
+        ma20: fromEnd(ma20, offset, bar.close),
+        ma50: fromEnd(ma50, offset, bar.close),
+        rsi: fromEnd(rsi, offset, 50),
+        macd: fromEnd(macd, offset, 0)
+      };
+    });
+  }
+
+  /**
+   * Drift-only projection of the next `count` sessions under each session's regime
+   */
+  projectCloses(symbol: string, count: number): { date: string; price: number }[] {
+    const profile = this.getProfile(symbol);
+    const dt = 1 / PERIODS_PER_YEAR[profile.assetClass];
+    const [latest] = this.dailyBars(symbol, 1);
+
+    const projection: { date: string; price: number }[] = [];
+    let price = latest.close;
+    let cursor = Date.parse(latest.date);
+
+    while (projection.length < count) {
+      cursor += DAY_MS;
+      const date = this.dateKey(new Date(cursor));
+      if (!this.isSession(profile.assetClass, date)) continue;
+
+      price *= Math.exp(this.regimeAt(symbol, date).drift * dt);
+      projection.push({ date, price });
+    }
+
+    return projection;
+  }
+
+  /**
+   * Indicator-driven analysis of the simulated history, for fallbacks without stored analysis
+   */
+  analyze(symbol: string): AnalysisResult {
+    return TechnicalAnalyzer.analyze(symbol, this.dailyBars(symbol, ANALYSIS_LOOKBACK));
+  }
+
+  private asOf(): Date {
+    return this.fixedAsOf ?? new Date();
+  }
+
+  private sessionReturn(symbol: string, date: string, profile: SymbolProfile, dt: number): number {
+    const regime = this.regimeAt(symbol, date);
+    const sigma = profile.volatility * regime.volMultiplier;
+    const z = this.random(symbol, date).normal();
+    return (regime.drift - 0.5 * sigma * sigma) * dt + sigma * Math.sqrt(dt) * z;
+  }
+
+  private dailyBarFor(symbol: string, date: string): HistoricalDataPoint | undefined {
+    const profile = this.getProfile(symbol);
+    const latest = this.sessionsEndingAt(profile.assetClass, this.asOf(), 1)[0];
+    if (date > latest || !this.isSession(profile.assetClass, date)) return undefined;
+
+    const span = this.sessionsBetween(profile.assetClass, date, latest);
+    return this.dailyBars(symbol, span)[0];
+  }
+
+  private sessionsEndingAt(assetClass: AssetClass, end: Date, count: number): string[] {
+    const sessions: string[] = [];
+    let cursor = Date.parse(this.dateKey(end));
+
+    while (sessions.length < count) {
+      const date = this.dateKey(new Date(cursor));
+      if (this.isSession(assetClass, date)) sessions.unshift(date);
+      cursor -= DAY_MS;
+    }
+
+    return sessions;
+  }
+
+  private sessionsBetween(assetClass: AssetClass, from: string, to: string): number {
+    let count = 0;
+    for (let cursor = Date.parse(from); cursor <= Date.parse(to); cursor += DAY_MS) {
+      if (this.isSession(assetClass, this.dateKey(new Date(cursor)))) count++;
+    }
+    return count;
+  }
+
+  private isSession(assetClass: AssetClass, date: string): boolean {
+    if (assetClass === 'crypto') return true;
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return day !== 0 && day !== 6;
+  }
+
+  private dateKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+export const marketSimulator = new MarketSimulator();
\ No newline at end of file
@@ -0,0 +1,483 @@
+/**
+ * Neural Forecaster
+ * A small multilayer perceptron trained on CPU with Adam. Each input row describes one
+ * session (recent log returns, RSI, MACD histogram, distance from MA20, realized
+ * volatility and relative volume); the outputs are the cumulative log returns for each
+ * day of the horizon. Rows come from the feature store when its vectors are supplied,
+ * adding the day's news sentiment. Weights serialize to plain JSON for storage.
+ */
+
+import { TechnicalIndicatorResult } from './technicalIndicators';
+import { SeededRandom } from './marketSimulator';
+import { FeatureVector } from '../types';
+
+export interface ForecastFeatures {
+  prices: number[];
+  volumes: number[];
+  technicalIndicators: Partial<TechnicalIndicatorResult>;
+  /** Stored vectors, oldest first; used in place of the series above when set */
+  vectors?: FeatureVector[];
+}
+
+export interface NeuralForecasterConfig {
+  lags: number;
+  hiddenUnits: number;
+  horizon: number;
+  learningRate: number;
+  batchSize: number;
+  l2: number;
+  /** Fraction of the latest samples held out to pick the best epoch */
+  validationSplit: number;
+  /** Epochs without validation improvement before stopping */
+  patience: number;
+  seed: number;
+}
+
+export interface TrainingReport {
+  epochs: number;
+  samples: number;
+  trainingLoss: number;
+  validationLoss: number;
+  durationMs: number;
+}
+
+export interface SerializedForecaster {
+  format: 1;
+  config: NeuralForecasterConfig;
+  inputSize: number;
+  weights: { w1: number[]; b1: number[]; w2: number[]; b2: number[] };
+  featureMean: number[];
+  featureStd: number[];
+  targetStd: number[];
+  /** Out-of-sample residual spread per horizon step, in log-return units */
+  residualStd: number[];
+}
+
+export interface Dataset {
+  inputs: number[][];
+  targets: number[][];
+  /** Input row for the latest session, used to forecast beyond the data */
+  latest: number[];
+}
+
+export const DEFAULT_FORECASTER_CONFIG: NeuralForecasterConfig = {
+  lags: 10,
+  hiddenUnits: 16,
+  horizon: 7,
+  learningRate: 0.005,
+  batchSize: 16,
+  l2: 1e-4,
+  validationSplit: 0.15,
+  patience: 15,
+  seed: 7
+};
+
+const VOLATILITY_WINDOW = 10;
+const VOLUME_WINDOW = 20;
+
+// Adam moment decay rates
+const BETA1 = 0.9;
+const BETA2 = 0.999;
+const EPSILON = 1e-8;
+
+/** Value of an end-aligned indicator series at price index t */
+const alignedAt = (series: number[] | undefined, length: number, t: number): number | undefined => {
+  if (!series) return undefined;
+  const index = t - (length - series.length);
+  return index >= 0 ? series[index] : undefined;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const std = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+};
+
+export class NeuralForecaster {
+  private adamStep = 0;
+  private moments: { m: number[][]; v: number[][] } | null = null;
+
+  private constructor(
+    readonly config: NeuralForecasterConfig,
+    readonly inputSize: number,
+    private weights: { w1: number[]; b1: number[]; w2: number[]; b2: number[] },
+    private featureMean: number[],
+    private featureStd: number[],
+    private targetStd: number[],
+    private residualStd: number[]
+  ) {}
+
+  /**
+   * One input row per session once every indicator is available, each paired with the
+   * cumulative log returns over the following horizon sessions. Stored vectors carry
+   * their indicators already, so their rows start as soon as the lags are filled.
+   */
+  static buildDataset(features: ForecastFeatures, lags: number, horizon: number): Dataset {
+    if (features.vectors && features.vectors.length > 0) {
+      const { vectors } = features;
+      const vectorRowAt = (t: number): number[] | null => {
+        if (t < lags - 1) return null;
+        const v = vectors[t];
+        return [
+          ...vectors.slice(t - lags + 1, t + 1).map(vector => vector.logReturn).reverse(),
+          v.rsi / 100 - 0.5,
+          v.macdHistogram / v.close,
+          v.sma20Gap,
+          v.volatility,
+          v.volumeZScore,
+          v.sentiment ?? 0
+        ];
+      };
+      return this.pairRows(vectors.map(vector => vector.close), vectorRowAt, horizon);
+    }
+
+    const { prices, volumes, technicalIndicators } = features;
+    const n = prices.length;
+    const logReturns = prices.map((price, t) => (t === 0 ? 0 : Math.log(price / prices[t - 1])));
+    const logVolumes = volumes.map(volume => Math.log(Math.max(volume, 1)));
+
+    const rowAt = (t: number): number[] | null => {
+      if (t < Math.max(lags, VOLATILITY_WINDOW, VOLUME_WINDOW)) return null;
+
+      const rsi = alignedAt(technicalIndicators.rsi, n, t);
+      const histogram = alignedAt(technicalIndicators.macd?.histogram, n, t);
+      const ma20 = alignedAt(technicalIndicators.sma?.[20], n, t);
+      if (rsi === undefined || histogram === undefined || ma20 === undefined) return null;
+
+      const recent = logReturns.slice(t - lags + 1, t + 1).reverse();
+      const volatility = std(logReturns.slice(t - VOLATILITY_WINDOW + 1, t + 1));
+      const relativeVolume = volumes.length === n
+        ? logVolumes[t] - mean(logVolumes.slice(t - VOLUME_WINDOW + 1, t + 1))
+        : 0;
+
+      return [
+        ...recent,
+        rsi / 100 - 0.5,
+        histogram / prices[t],
+        prices[t] / ma20 - 1,
+        volatility,
+        relativeVolume
+      ];
+    };
+
+    return this.pairRows(prices, rowAt, horizon);
+  }
+
+  /**
+   * Pair each available row with the cumulative log returns of the prices after it
+   */
+  private static pairRows(prices: number[], rowAt: (t: number) => number[] | null, horizon: number): Dataset {
+    const n = prices.length;
+    const inputs: number[][] = [];
+    const targets: number[][] = [];
+    let latest: number[] | null = null;
+
+    for (let t = 0; t < n; t++) {
+      const row = rowAt(t);
+      if (!row) continue;
+      latest = row;
+      if (t + horizon >= n) continue;
+
+      inputs.push(row);
+      targets.push(Array.from({ length: horizon }, (_, h) => Math.log(prices[t + h + 1] / prices[t])));
+    }
+
+    if (!latest) {
+      throw new Error(`Not enough history to build features (${n} prices)`);
+    }
+
+    return { inputs, targets, latest };
+  }
+
+  /**
+   * Fresh network whose input and target scaling is taken from the dataset it will
+   * first be trained on
+   */
+  static create(dataset: Dataset, config: Partial<NeuralForecasterConfig> = {}): NeuralForecaster {
+    const settings = { ...DEFAULT_FORECASTER_CONFIG, ...config };
+    if (dataset.inputs.length === 0) {
+      throw new Error('Cannot create a forecaster from an empty dataset');
+    }
+
+    const inputSize = dataset.inputs[0].length;
+    const columns = (rows: number[][], width: number) =>
+      Array.from({ length: width }, (_, j) => rows.map(row => row[j]));
+
+    const featureMean = columns(dataset.inputs, inputSize).map(mean);
+    const featureStd = columns(dataset.inputs, inputSize).map(column => std(column) || 1);
+    const targetStd = columns(dataset.targets, settings.horizon).map(column => std(column) || 1);
+
+    // Xavier-style initialization, reproducible from the seed
+    const rng = new SeededRandom(settings.seed);
+    const init = (count: number, fanIn: number, fanOut: number) =>
+      Array.from({ length: count }, () => rng.normal() * Math.sqrt(2 / (fanIn + fanOut)));
+
+    return new NeuralForecaster(
+      settings,
+      inputSize,
+      {
+        w1: init(settings.hiddenUnits * inputSize, inputSize, settings.hiddenUnits),
+        b1: new Array(settings.hiddenUnits).fill(0),
+        w2: init(settings.horizon * settings.hiddenUnits, settings.hiddenUnits, settings.horizon),
+        b2: new Array(settings.horizon).fill(0)
+      },
+      featureMean,
+      featureStd,
+      targetStd,
+      targetStd.slice()
+    );
+  }
+
+  static deserialize(serialized: SerializedForecaster): NeuralForecaster {
+    if (serialized.format !== 1) {
+      throw new Error(`Unsupported forecaster format ${serialized.format}`);
+    }
+
+    return new NeuralForecaster(
+      serialized.config,
+      serialized.inputSize,
+      {
+        w1: serialized.weights.w1.slice(),
+        b1: serialized.weights.b1.slice(),
+        w2: serialized.weights.w2.slice(),
+        b2: serialized.weights.b2.slice()
+      },
+      serialized.featureMean.slice(),
+      serialized.featureStd.slice(),
+      serialized.targetStd.slice(),
+      serialized.residualStd.slice()
+    );
+  }
+
+  /**
+   * Mini-batch Adam on mean squared error of the scaled targets. The latest samples are
+   * held out and the weights from the best validation epoch are kept. Calling this
+   * again continues from the current weights, which is how new sessions are folded in.
+   */
+  train(dataset: Dataset, epochs: number): TrainingReport {
+    const start = performance.now();
+    const { inputs, targets } = dataset;
+    if (inputs.length === 0) {
+      throw new Error('Cannot train on an empty dataset');
+    }
+
+    const validationCount = inputs.length >= 10
+      ? Math.max(1, Math.floor(inputs.length * this.config.validationSplit))
+      : 0;
+    const trainCount = inputs.length - validationCount;
+
+    const x = inputs.map(row => this.normalize(row));
+    const y = targets.map(row => row.map((value, h) => value / this.targetStd[h]));
+    const trainIndices = Array.from({ length: trainCount }, (_, i) => i);
+    const validationIndices = Array.from({ length: validationCount }, (_, i) => trainCount + i);
+
+    const rng = new SeededRandom(this.config.seed + this.adamStep);
+    let best = { loss: Infinity, weights: this.copyWeights(), epoch: 0 };
+    let trainingLoss = Infinity;
+    let epoch = 0;
+
+    for (epoch = 1; epoch <= epochs; epoch++) {
+      // Fisher-Yates shuffle of the training rows
+      for (let i = trainIndices.length - 1; i > 0; i--) {
+        const j = Math.floor(rng.next() * (i + 1));
+        [trainIndices[i], trainIndices[j]] = [trainIndices[j], trainIndices[i]];
+      }
+
+      for (let batchStart = 0; batchStart < trainCount; batchStart += this.config.batchSize) {
+        this.step(trainIndices.slice(batchStart, batchStart + this.config.batchSize), x, y);
+      }
+
+      trainingLoss = this.loss(trainIndices, x, y);
+      const monitored = validationCount > 0 ? this.loss(validationIndices, x, y) : trainingLoss;
+
+      if (monitored < best.loss) {
+        best = { loss: monitored, weights: this.copyWeights(), epoch };
+      } else if (epoch - best.epoch >= this.config.patience) {
+        break;
+      }
+    }
+
+    this.weights = best.weights;
+    trainingLoss = this.loss(trainIndices, x, y);
+
+    // Residual spread on held-out rows (or the training rows when there are too few)
+    const spreadIndices = validationCount > 0 ? validationIndices : trainIndices;
+    this.residualStd = this.targetStd.map((scale, h) => {
+      const squared = spreadIndices.map(i => (this.forward(x[i]).output[h] - y[i][h]) ** 2);
+      return Math.sqrt(mean(squared)) * scale;
+    });
+
+    return {
+      epochs: Math.min(epoch, epochs),
+      samples: inputs.length,
+      trainingLoss,
+      validationLoss: validationCount > 0 ? best.loss : trainingLoss,
+      durationMs: performance.now() - start
+    };
+  }
+
+  /**
+   * Cumulative log returns for each day of the horizon, with the residual spread
+   * measured at training time
+   */
+  predict(input: number[]): { returns: number[]; std: number[] } {
+    const { output } = this.forward(this.normalize(input));
+
+    return {
+      returns: output.map((value, h) => value * this.targetStd[h]),
+      std: this.residualStd.slice()
+    };
+  }
+
+  /**
+   * Integrated gradients of each horizon step's return with respect to each input,
+   * measured from the training mean. The contributions add up to the forecast less
+   * the baseline forecast, up to the error of the `steps`-point path integral.
+   */
+  attribute(input: number[], steps: number = 32): { baseline: number[]; contributions: number[][] } {
+    const { hiddenUnits, horizon } = this.config;
+    const { w1, w2 } = this.weights;
+    const x = this.normalize(input);
+    const gradientSums = Array.from({ length: horizon }, () => new Array<number>(this.inputSize).fill(0));
+
+    // Midpoint rule along the straight path from the mean (zero once normalized) to x
+    for (let s = 0; s < steps; s++) {
+      const alpha = (s + 0.5) / steps;
+      const { hidden } = this.forward(x.map(value => value * alpha));
+
+      for (let k = 0; k < hiddenUnits; k++) {
+        const slope = 1 - hidden[k] * hidden[k];
+        for (let h = 0; h < horizon; h++) {
+          const outputWeight = w2[h * hiddenUnits + k] * slope;
+          for (let j = 0; j < this.inputSize; j++) {
+            gradientSums[h][j] += outputWeight * w1[k * this.inputSize + j];
+          }
+        }
+      }
+    }
+
+    const { output } = this.forward(new Array(this.inputSize).fill(0));
+    return {
+      baseline: output.map((value, h) => value * this.targetStd[h]),
+      contributions: gradientSums.map((sums, h) => sums.map((sum, j) => x[j] * sum / steps * this.targetStd[h]))
+    };
+  }
+
+  serialize(): SerializedForecaster {
+    return {
+      format: 1,
+      config: { ...this.config },
+      inputSize: this.inputSize,
+      weights: this.copyWeights(),
+      featureMean: this.featureMean.slice(),
+      featureStd: this.featureStd.slice(),
+      targetStd: this.targetStd.slice(),
+      residualStd: this.residualStd.slice()
+    };
+  }
+
+  private normalize(row: number[]): number[] {
+    return row.map((value, j) => (value - this.featureMean[j]) / this.featureStd[j]);
+  }
+
+  private forward(input: number[]): { hidden: number[]; output: number[] } {
+    const { hiddenUnits, horizon } = this.config;
+    const { w1, b1, w2, b2 } = this.weights;
+
+    const hidden = new Array(hiddenUnits);
+    for (let k = 0; k < hiddenUnits; k++) {
+      let sum = b1[k];
+      for (let j = 0; j < this.inputSize; j++) sum += w1[k * this.inputSize + j] * input[j];
+      hidden[k] = Math.tanh(sum);
+    }
+
+    const output = new Array(horizon);
+    for (let h = 0; h < horizon; h++) {
+      let sum = b2[h];
+      for (let k = 0; k < hiddenUnits; k++) sum += w2[h * hiddenUnits + k] * hidden[k];
+      output[h] = sum;
+    }
+
+    return { hidden, output };
+  }
+
+  private loss(indices: number[], x: number[][], y: number[][]): number {
+    const total = indices.reduce((sum, i) => {
+      const { output } = this.forward(x[i]);
+      return sum + output.reduce((rowSum, value, h) => rowSum + (value - y[i][h]) ** 2, 0) / output.length;
+    }, 0);
+    return total / indices.length;
+  }
+
+  /** Backpropagate one batch and apply an Adam update */
+  private step(batch: number[], x: number[][], y: number[][]): void {
+    const { hiddenUnits, horizon, learningRate, l2 } = this.config;
+    const { w1, w2 } = this.weights;
+    const grads = {
+      w1: new Array(w1.length).fill(0),
+      b1: new Array(hiddenUnits).fill(0),
+      w2: new Array(w2.length).fill(0),
+      b2: new Array(horizon).fill(0)
+    };
+
+    for (const i of batch) {
+      const { hidden, output } = this.forward(x[i]);
+      const outputGrad = output.map((value, h) => (2 * (value - y[i][h])) / (horizon * batch.length));
+
+      const hiddenGrad = new Array(hiddenUnits).fill(0);
+      for (let h = 0; h < horizon; h++) {
+        grads.b2[h] += outputGrad[h];
+        for (let k = 0; k < hiddenUnits; k++) {
+          grads.w2[h * hiddenUnits + k] += outputGrad[h] * hidden[k];
+          hiddenGrad[k] += outputGrad[h] * w2[h * hiddenUnits + k];
+        }
+      }
+
+      for (let k = 0; k < hiddenUnits; k++) {
+        const preActivation = hiddenGrad[k] * (1 - hidden[k] * hidden[k]);
+        grads.b1[k] += preActivation;
+        for (let j = 0; j < this.inputSize; j++) {
+          grads.w1[k * this.inputSize + j] += preActivation * x[i][j];
+        }
+      }
+    }
+
+    // Weight decay on the weights, not the biases
+    grads.w1 = grads.w1.map((g, index) => g + l2 * w1[index]);
+    grads.w2 = grads.w2.map((g, index) => g + l2 * w2[index]);
+
+    const parameters = [this.weights.w1, this.weights.b1, this.weights.w2, this.weights.b2];
+    const gradients = [grads.w1, grads.b1, grads.w2, grads.b2];
+    if (!this.moments) {
+      this.moments = {
+        m: parameters.map(p => new Array(p.length).fill(0)),
+        v: parameters.map(p => new Array(p.length).fill(0))
+      };
+    }
+
+    this.adamStep++;
+    const correction1 = 1 - BETA1 ** this.adamStep;
+    const correction2 = 1 - BETA2 ** this.adamStep;
+
+    parameters.forEach((parameter, p) => {
+      const m = this.moments!.m[p];
+      const v = this.moments!.v[p];
+      for (let index = 0; index < parameter.length; index++) {
+        const g = gradients[p][index];
+        m[index] = BETA1 * m[index] + (1 - BETA1) * g;
+        v[index] = BETA2 * v[index] + (1 - BETA2) * g * g;
+        parameter[index] -= learningRate * (m[index] / correction1) / (Math.sqrt(v[index] / correction2) + EPSILON);
+      }
+    });
+  }
+
+  private copyWeights() {
+    return {
+      w1: this.weights.w1.slice(),
+      b1: this.weights.b1.slice(),
+      w2: this.weights.w2.slice(),
+      b2: this.weights.b2.slice()
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * Numerical Optimization Utilities
+ * Derivative-free minimization for fitting model parameters
+ */
+
+export interface MinimizeOptions {
+  /** Initial simplex step per parameter */
+  step?: number | number[];
+  maxIterations?: number;
+  /** Stop once the simplex values agree within this tolerance */
+  tolerance?: number;
+}
+
+export interface MinimizeResult {
+  point: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Nelder-Mead simplex minimization. The objective may return Infinity to reject
+ * a point (e.g. a non-stationary parameter set).
+ */
+export function nelderMead(
+  objective: (point: number[]) => number,
+  initial: number[],
+  options: MinimizeOptions = {}
+): MinimizeResult {
+  const dimension = initial.length;
+  const maxIterations = options.maxIterations ?? 200 * Math.max(1, dimension);
+  const tolerance = options.tolerance ?? 1e-10;
+
+  if (dimension === 0) {
+    return { point: [], value: objective([]), iterations: 0, converged: true };
+  }
+
+  const step = options.step ?? 0.1;
+  const steps = Array.isArray(step) ? step : new Array<number>(dimension).fill(step);
+
+  let simplex = [initial.slice()];
+  for (let i = 0; i < dimension; i++) {
+    const vertex = initial.slice();
+    vertex[i] += steps[i];
+    simplex.push(vertex);
+  }
+  let values = simplex.map(objective);
+
+  const combine = (a: number[], b: number[], weight: number) =>
+    a.map((value, i) => value + weight * (b[i] - value));
+
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations) {
+    iterations++;
+
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+
+    const best = values[0];
+    const worst = values[dimension];
+    if (Number.isFinite(worst) && Math.abs(worst - best) <= tolerance * (Math.abs(best) + tolerance)) {
+      converged = true;
+      break;
+    }
+
+    const centroid = Array.from({ length: dimension }, (_, j) =>
+      simplex.slice(0, dimension).reduce((sum, vertex) => sum + vertex[j], 0) / dimension);
+
+    const reflected = combine(centroid, simplex[dimension], -1);
+    const reflectedValue = objective(reflected);
+
+    if (reflectedValue < values[0]) {
+      const expanded = combine(centroid, simplex[dimension], -2);
+      const expandedValue = objective(expanded);
+      if (expandedValue < reflectedValue) {
+        simplex[dimension] = expanded;
+        values[dimension] = expandedValue;
+      } else {
+        simplex[dimension] = reflected;
+        values[dimension] = reflectedValue;
+      }
+      continue;
+    }
+
+    if (reflectedValue < values[dimension - 1]) {
+      simplex[dimension] = reflected;
+      values[dimension] = reflectedValue;
+      continue;
+    }
+
+    // Contract towards the better of the worst and reflected points
+    const outside = reflectedValue < values[dimension];
+    const contracted = combine(centroid, outside ? reflected : simplex[dimension], 0.5);
+    const contractedValue = objective(contracted);
+
+    if (contractedValue < (outside ? reflectedValue : values[dimension])) {
+      simplex[dimension] = contracted;
+      values[dimension] = contractedValue;
+      continue;
+    }
+
+    // Shrink everything towards the best vertex
+    for (let i = 1; i <= dimension; i++) {
+      simplex[i] = combine(simplex[0], simplex[i], 0.5);
+      values[i] = objective(simplex[i]);
+    }
+  }
+
+  const bestIndex = values.reduce((best, value, i) => (value < values[best] ? i : best), 0);
+
+  return { point: simplex[bestIndex], value: values[bestIndex], iterations, converged };
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Portfolio Calculation Utilities
+ * Position accounting for buys and sells, valuation and allocation
+ */
+
+export interface PositionState {
+  quantity: number;
+  averageCost: number;
+}
+
+export interface PositionValuation {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export class PortfolioCalculator {
+  /**
+   * Add shares to a position, folding fees into the new average cost
+   */
+  static applyBuy(position: PositionState, quantity: number, price: number, fees: number = 0): PositionState {
+    this.assertTradeInputs(quantity, price, fees);
+
+    const newQuantity = position.quantity + quantity;
+    const totalCost = position.quantity * position.averageCost + quantity * price + fees;
+
+    return {
+      quantity: newQuantity,
+      averageCost: totalCost / newQuantity
+    };
+  }
+
+  /**
+   * Remove shares from a position; the average cost of the remainder is unchanged
+   */
+  static applySell(
+    position: PositionState,
+    quantity: number,
+    price: number,
+    fees: number = 0
+  ): { position: PositionState; realizedPnl: number } {
+    this.assertTradeInputs(quantity, price, fees);
+
+    if (quantity > position.quantity + 1e-9) {
+      throw new Error(`Cannot sell ${quantity} units, only ${position.quantity} held`);
+    }
+
+    const remaining = Math.max(0, position.quantity - quantity);
+    const realizedPnl = (price - position.averageCost) * quantity - fees;
+
+    return {
+      position: {
+        quantity: remaining,
+        averageCost: remaining > 0 ? position.averageCost : 0
+      },
+      realizedPnl
+    };
+  }
+
+  /**
+   * Value a position at the current market price
+   */
+  static valuePosition(position: PositionState, currentPrice: number): PositionValuation {
+    const marketValue = position.quantity * currentPrice;
+    const costBasis = position.quantity * position.averageCost;
+    const unrealizedPnl = marketValue - costBasis;
+
+    return {
+      marketValue,
+      costBasis,
+      unrealizedPnl,
+      unrealizedPnlPercent: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : 0
+    };
+  }
+
+  /**
+   * Weight of each entry in the total, as a fraction between 0 and 1
+   */
+  static calculateAllocation(values: { [key: string]: number }): { [key: string]: number } {
+    const total = Object.values(values).reduce((sum, value) => sum + Math.max(0, value), 0);
+    const allocation: { [key: string]: number } = {};
+
+    Object.entries(values).forEach(([key, value]) => {
+      allocation[key] = total > 0 ? Math.max(0, value) / total : 0;
+    });
+
+    return allocation;
+  }
+
+  private static assertTradeInputs(quantity: number, price: number, fees: number): void {
+    if (!(quantity > 0)) throw new Error('Quantity must be greater than zero');
+    if (!(price > 0)) throw new Error('Price must be greater than zero');
+    if (fees < 0) throw new Error('Fees cannot be negative');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,314 @@
+/**
+ * Rate Limiter
+ * Token buckets per external provider, with per-minute and optional per-day quotas.
+ * Callers queue for a token, user-visible requests ahead of background work, and every
+ * token spent is announced over a BroadcastChannel so tabs of the app share one quota.
+ * Daily counts are kept in localStorage per UTC day, so reloads do not reset them.
+ */
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface ProviderQuota {
+  perMinute: number;
+  perDay?: number;
+}
+
+export interface QuotaUsage {
+  provider: string;
+  perMinute: number;
+  minuteRemaining: number;
+  perDay?: number;
+  dayRemaining?: number;
+  /** Requests waiting for a token */
+  queued: number;
+}
+
+/** Where daily counts persist; localStorage in the browser */
+export type QuotaStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface RateLimiterOptions {
+  /** Millisecond clock */
+  clock?: () => number;
+  /** BroadcastChannel name shared by tabs; null keeps the limiter to this tab */
+  channelName?: string | null;
+  /** Store for daily counts; null keeps them in memory */
+  storage?: QuotaStorage | null;
+}
+
+/** Free-tier limits of the providers the app calls */
+export const DEFAULT_QUOTAS: Record<string, ProviderQuota> = {
+  alphaVantage: { perMinute: 5, perDay: 25 },
+  finnhub: { perMinute: 60 },
+  newsApi: { perMinute: 100, perDay: 100 }
+};
+
+const MINUTE_MS = 60_000;
+
+const STORAGE_PREFIX = 'market-data-quota';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, background: 1 };
+
+type ChannelMessage =
+  | { type: 'take'; provider: string }
+  | { type: 'hello' }
+  | { type: 'state'; levels: Record<string, { minute: number; day?: number }> };
+
+/**
+ * Bucket refilling continuously up to its capacity. Tokens spent in other tabs are
+ * charged as they are announced, so the level can dip below zero.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(readonly capacity: number, private readonly refillPerMs: number, now: number) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  available(now: number): number {
+    this.refill(now);
+    return this.tokens;
+  }
+
+  take(now: number, count: number = 1): void {
+    this.refill(now);
+    this.tokens -= count;
+  }
+
+  /** Lower the level to at most `tokens`, e.g. to match another tab */
+  limit(now: number, tokens: number): void {
+    this.refill(now);
+    this.tokens = Math.min(this.tokens, tokens);
+  }
+
+  /** Milliseconds until `count` tokens are available */
+  msUntil(now: number, count: number = 1): number {
+    this.refill(now);
+    return this.tokens >= count ? 0 : (count - this.tokens) / this.refillPerMs;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Requests spent on the current UTC calendar day, starting from zero at midnight. With
+ * storage the count is read back on every use, so all tabs and reloads share it.
+ */
+export class DailyCounter {
+  private day = '';
+  private count = 0;
+
+  constructor(private readonly key: string, private readonly storage: QuotaStorage | null) {}
+
+  used(now: number): number {
+    this.sync(now);
+    return this.count;
+  }
+
+  add(now: number, count: number = 1): void {
+    this.sync(now);
+    this.count += count;
+    this.storage?.setItem(this.storageKey(), String(this.count));
+  }
+
+  /** Raise the count to at least `used`, e.g. to match another tab */
+  atLeast(now: number, used: number): void {
+    this.sync(now);
+    if (used > this.count) {
+      this.count = used;
+      this.storage?.setItem(this.storageKey(), String(this.count));
+    }
+  }
+
+  private sync(now: number): void {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (day !== this.day) {
+      // Yesterday's count is no longer needed
+      if (this.day) this.storage?.removeItem(this.storageKey());
+      this.day = day;
+      this.count = 0;
+    }
+
+    const stored = Number(this.storage?.getItem(this.storageKey()) ?? 0);
+    if (stored > this.count) this.count = stored;
+  }
+
+  private storageKey(): string {
+    return `${this.key}:${this.day}`;
+  }
+}
+
+const defaultStorage = (): QuotaStorage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Access is denied when storage is disabled
+    return null;
+  }
+};
+
+interface Waiter {
+  priority: RequestPriority;
+  order: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface ProviderLimit {
+  quota: ProviderQuota;
+  minute: TokenBucket;
+  day?: DailyCounter;
+  queue: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export class RateLimiter {
+  private limits = new Map<string, ProviderLimit>();
+  private channel: BroadcastChannel | null = null;
+  private nextOrder = 0;
+  private readonly clock: () => number;
+  private readonly storage: QuotaStorage | null;
+
+  constructor(quotas: Record<string, ProviderQuota> = DEFAULT_QUOTAS, options: RateLimiterOptions = {}) {
+    this.clock = options.clock ?? (() => Date.now());
+    this.storage = options.storage === undefined ? defaultStorage() : options.storage;
+    Object.entries(quotas).forEach(([provider, quota]) => this.setQuota(provider, quota));
+
+    const channelName = options.channelName === undefined ? 'market-data-rate-limit' : options.channelName;
+    if (channelName && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(channelName);
+      this.channel.onmessage = event => this.receive(event.data as ChannelMessage);
+      // Ask open tabs for their levels so a new tab does not start with a full quota
+      this.post({ type: 'hello' });
+    }
+  }
+
+  /**
+   * Replace a provider's quota. Its minute bucket starts full and its daily count carries
+   * on from storage; queued requests keep their place.
+   */
+  setQuota(provider: string, quota: ProviderQuota): void {
+    if (!(quota.perMinute > 0) || (quota.perDay !== undefined && !(quota.perDay > 0))) {
+      throw new Error(`Quota for ${provider} must be positive`);
+    }
+
+    const now = this.clock();
+    const existing = this.limits.get(provider);
+    if (existing?.timer) clearTimeout(existing.timer);
+
+    this.limits.set(provider, {
+      quota,
+      minute: new TokenBucket(quota.perMinute, quota.perMinute / MINUTE_MS, now),
+      day: quota.perDay ? new DailyCounter(`${STORAGE_PREFIX}:${provider}`, this.storage) : undefined,
+      queue: existing?.queue ?? []
+    });
+    this.pump(provider);
+  }
+
+  /**
+   * Resolves once a request to the provider may go out. Providers without a quota are
+   * not limited. Rejects when the daily quota is spent, rather than holding the caller
+   * for hours.
+   */
+  acquire(provider: string, priority: RequestPriority = 'interactive'): Promise<void> {
+    const limit = this.limits.get(provider);
+    if (!limit) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      limit.queue.push({ priority, order: this.nextOrder++, resolve, reject });
+      limit.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.order - b.order);
+      this.pump(provider);
+    });
+  }
+
+  getUsage(): QuotaUsage[] {
+    const now = this.clock();
+    return Array.from(this.limits, ([provider, limit]) => ({
+      provider,
+      perMinute: limit.quota.perMinute,
+      minuteRemaining: Math.max(0, Math.floor(limit.minute.available(now))),
+      perDay: limit.quota.perDay,
+      dayRemaining: limit.day ? Math.max(0, limit.quota.perDay! - limit.day.used(now)) : undefined,
+      queued: limit.queue.length
+    }));
+  }
+
+  /**
+   * Stop timers and leave the channel. Queued requests are rejected.
+   */
+  close(): void {
+    this.limits.forEach(limit => {
+      if (limit.timer) clearTimeout(limit.timer);
+      limit.queue.splice(0).forEach(waiter => waiter.reject(new Error('Rate limiter closed')));
+    });
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  /**
+   * Hand out tokens to the head of the queue while they last, then wait for the refill
+   */
+  private pump(provider: string): void {
+    const limit = this.limits.get(provider);
+    if (!limit) return;
+    if (limit.timer) {
+      clearTimeout(limit.timer);
+      limit.timer = undefined;
+    }
+
+    while (limit.queue.length > 0) {
+      const now = this.clock();
+
+      if (limit.day && limit.day.used(now) >= limit.quota.perDay!) {
+        const error = new Error(`Daily quota for ${provider} is spent`);
+        limit.queue.splice(0).forEach(waiter => waiter.reject(error));
+        return;
+      }
+
+      const wait = limit.minute.msUntil(now);
+      if (wait > 0) {
+        limit.timer = setTimeout(() => this.pump(provider), Math.ceil(wait));
+        return;
+      }
+
+      limit.minute.take(now);
+      limit.day?.add(now);
+      this.post({ type: 'take', provider });
+      limit.queue.shift()!.resolve();
+    }
+  }
+
+  private post(message: ChannelMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private receive(message: ChannelMessage): void {
+    const now = this.clock();
+
+    if (message.type === 'take') {
+      const limit = this.limits.get(message.provider);
+      limit?.minute.take(now);
+      // Shared storage already holds the sender's count
+      if (!this.storage) limit?.day?.add(now);
+    } else if (message.type === 'hello') {
+      const levels: Record<string, { minute: number; day?: number }> = {};
+      this.limits.forEach((limit, provider) => {
+        levels[provider] = {
+          minute: limit.minute.available(now),
+          day: limit.day ? limit.quota.perDay! - limit.day.used(now) : undefined
+        };
+      });
+      this.post({ type: 'state', levels });
+    } else if (message.type === 'state') {
+      Object.entries(message.levels).forEach(([provider, level]) => {
+        const limit = this.limits.get(provider);
+        limit?.minute.limit(now, level.minute);
+        if (level.day !== undefined && limit?.day) limit.day.atLeast(now, limit.quota.perDay! - level.day);
+      });
+    }
+  }
+}
\ No newline at end of file
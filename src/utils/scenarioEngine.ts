@@ -0,0 +1,212 @@
+/**
+ * Scenario Engine
+ * What-if shocks for stress testing: a price gap on the latest session, a multiplier on
+ * the spread of recent returns, a shift in news sentiment and a break towards
+ * perfectly correlated moves. Shocked histories are forecast like real ones; the engine
+ * then rolls the projections up across holdings.
+ */
+
+import { PriceBar } from './forecastHorizon';
+import { DataProcessor } from './dataProcessor';
+import { FeatureVector } from '../types';
+
+export interface ScenarioShock {
+  name: string;
+  /** Fractional move on the latest close, e.g. -0.1 for a 10% drop */
+  priceShock: number;
+  /** Scales how far recent returns stray from their mean */
+  volatilityMultiplier: number;
+  /** Added to the latest session's news sentiment, kept within -1 to 1 */
+  sentimentShift: number;
+  /** Share of the way each pairwise return correlation moves to 1, from 0 to 1 */
+  correlationBreak: number;
+}
+
+export interface ScenarioPosition {
+  symbol: string;
+  quantity: number;
+  /** Price before the shock */
+  price: number;
+  /** Forecast price at the horizon under the scenario */
+  projectedPrice: number;
+  /** Per-session volatility of log returns under the scenario */
+  volatility: number;
+}
+
+export interface ScenarioAggregate {
+  currentValue: number;
+  /** Value straight after the price shock */
+  shockedValue: number;
+  projectedValue: number;
+  projectedPnl: number;
+  projectedPnlPercent: number;
+  /** Standard deviation of the value at the horizon */
+  valueVolatility: number;
+  /** Loss from the current value not exceeded with 95% confidence */
+  valueAtRisk95: number;
+}
+
+export const SCENARIO_PRESETS: ScenarioShock[] = [
+  { name: 'Market sell-off', priceShock: -0.1, volatilityMultiplier: 2, sentimentShift: -0.5, correlationBreak: 0.5 },
+  { name: 'Volatility spike', priceShock: 0, volatilityMultiplier: 2.5, sentimentShift: -0.2, correlationBreak: 0.3 },
+  { name: 'Crash', priceShock: -0.25, volatilityMultiplier: 3, sentimentShift: -0.8, correlationBreak: 0.9 },
+  { name: 'Relief rally', priceShock: 0.05, volatilityMultiplier: 0.8, sentimentShift: 0.4, correlationBreak: 0 }
+];
+
+// Latest sessions whose returns the volatility multiplier rescales
+export const SHOCK_WINDOW = 10;
+
+// One-sided 95% normal quantile
+const VALUE_AT_RISK_Z = 1.645;
+
+const RSI_PERIOD = 14;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const std = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+};
+
+/** Shocked log returns for the window: spread rescaled, price gap on the last one */
+const shockReturns = (returns: number[], shock: ScenarioShock): number[] => {
+  const m = mean(returns);
+  return returns.map((r, i) =>
+    m + (r - m) * shock.volatilityMultiplier + (i === returns.length - 1 ? Math.log1p(shock.priceShock) : 0));
+};
+
+export class ScenarioEngine {
+  static assertShock(shock: ScenarioShock): void {
+    if (!(shock.priceShock > -1)) {
+      throw new Error('Price shock must leave prices above zero');
+    }
+    if (!(shock.volatilityMultiplier > 0)) {
+      throw new Error('Volatility multiplier must be positive');
+    }
+    if (shock.correlationBreak < 0 || shock.correlationBreak > 1) {
+      throw new Error('Correlation break must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Bars with the shock applied to the latest SHOCK_WINDOW sessions, oldest first.
+   * Closes are rebuilt from the shocked returns and each bar keeps its shape around
+   * its close, its range scaled like the returns.
+   */
+  static shockBars(bars: PriceBar[], shock: ScenarioShock): PriceBar[] {
+    this.assertShock(shock);
+    if (bars.length < 2) return bars.map(bar => ({ ...bar }));
+
+    const start = Math.max(1, bars.length - SHOCK_WINDOW);
+    const returns = shockReturns(
+      bars.slice(start).map((bar, i) => Math.log(bar.close_price / bars[start - 1 + i].close_price)),
+      shock
+    );
+
+    const shocked = bars.slice(0, start).map(bar => ({ ...bar }));
+    let close = bars[start - 1].close_price;
+    bars.slice(start).forEach((bar, i) => {
+      close *= Math.exp(returns[i]);
+      const reshape = (price: number) => close * (1 + (price / bar.close_price - 1) * shock.volatilityMultiplier);
+      shocked.push({
+        ...bar,
+        open_price: reshape(bar.open_price),
+        high_price: reshape(bar.high_price),
+        low_price: reshape(bar.low_price),
+        close_price: close
+      });
+    });
+
+    return shocked;
+  }
+
+  /**
+   * Stored feature vectors with the same shock as shockBars. The latest session's
+   * volatility, distance from MA20 and RSI are recomputed from the shocked closes and
+   * its sentiment shifted; its MACD and volume stay as stored.
+   */
+  static shockVectors(vectors: FeatureVector[], shock: ScenarioShock): FeatureVector[] {
+    this.assertShock(shock);
+    if (vectors.length < 2) return vectors.map(vector => ({ ...vector }));
+
+    const start = Math.max(1, vectors.length - SHOCK_WINDOW);
+    const returns = shockReturns(vectors.slice(start).map(vector => vector.logReturn), shock);
+
+    const shocked = vectors.map(vector => ({ ...vector }));
+    let close = vectors[start - 1].close;
+    returns.forEach((logReturn, i) => {
+      const vector = vectors[start + i];
+      close *= Math.exp(logReturn);
+      shocked[start + i] = {
+        ...vector,
+        close,
+        logReturn,
+        atr: vector.atr * shock.volatilityMultiplier * close / vector.close
+      };
+    });
+
+    const closes = shocked.map(vector => vector.close);
+    const recent = closes.slice(-RSI_PERIOD - 1);
+    const changes = recent.slice(1).map((value, i) => value - recent[i]);
+    const averageGain = mean(changes.map(change => Math.max(change, 0)));
+    const averageLoss = mean(changes.map(change => Math.max(-change, 0)));
+
+    const last = shocked[shocked.length - 1];
+    last.volatility = std(shocked.slice(-SHOCK_WINDOW).map(vector => vector.logReturn));
+    last.sma20Gap = last.close / mean(closes.slice(-20)) - 1;
+    last.rsi = averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss);
+    last.sentiment = Math.max(-1, Math.min(1, (last.sentiment ?? 0) + shock.sentimentShift));
+
+    return shocked;
+  }
+
+  /**
+   * Pairwise correlations of equally long return series
+   */
+  static correlationMatrix(returns: number[][]): number[][] {
+    return returns.map((a, i) => returns.map((b, j) => (i === j ? 1 : DataProcessor.calculateCorrelation(a, b))));
+  }
+
+  /**
+   * Move each off-diagonal correlation the given share of the way to 1. A blend of two
+   * valid correlation matrices, so the result stays valid.
+   */
+  static stressCorrelations(correlations: number[][], correlationBreak: number): number[][] {
+    return correlations.map((row, i) =>
+      row.map((rho, j) => (i === j ? 1 : rho + correlationBreak * (1 - rho))));
+  }
+
+  /**
+   * Portfolio outcome over `sessions` sessions. Position values at the horizon spread
+   * with their volatilities and the stressed correlations.
+   */
+  static aggregate(
+    positions: ScenarioPosition[],
+    correlations: number[][],
+    sessions: number,
+    shock: ScenarioShock
+  ): ScenarioAggregate {
+    this.assertShock(shock);
+
+    const currentValue = positions.reduce((sum, p) => sum + p.quantity * p.price, 0);
+    const shockedValue = currentValue * (1 + shock.priceShock);
+    const projectedValue = positions.reduce((sum, p) => sum + p.quantity * p.projectedPrice, 0);
+
+    const spreads = positions.map(p => p.quantity * p.projectedPrice * p.volatility * Math.sqrt(sessions));
+    const stressed = this.stressCorrelations(correlations, shock.correlationBreak);
+    let variance = 0;
+    spreads.forEach((a, i) => spreads.forEach((b, j) => { variance += a * b * (stressed[i]?.[j] ?? (i === j ? 1 : 0)); }));
+    const valueVolatility = Math.sqrt(Math.max(0, variance));
+
+    const projectedPnl = projectedValue - currentValue;
+    return {
+      currentValue,
+      shockedValue,
+      projectedValue,
+      projectedPnl,
+      projectedPnlPercent: currentValue > 0 ? (projectedPnl / currentValue) * 100 : 0,
+      valueVolatility,
+      valueAtRisk95: Math.max(0, currentValue - (projectedValue - VALUE_AT_RISK_Z * valueVolatility))
+    };
+  }
+}
\ No newline at end of file
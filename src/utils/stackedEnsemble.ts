@@ -0,0 +1,97 @@
+/**
+ * Stacked Ensemble
+ * Weights member model forecasts by the inverse of each member's recent out-of-sample
+ * mean squared error, shrunk towards equal weights while a member has few resolved samples
+ */
+
+export interface MemberError {
+  mse: number;
+  sampleSize: number;
+}
+
+export interface MemberForecast {
+  predicted: number;
+  upperBound: number;
+  lowerBound: number;
+  confidence: number;
+}
+
+export interface CombinedForecast extends MemberForecast {
+  weights: Record<string, number>;
+}
+
+export const ENSEMBLE_METHOD = 'inverse-mse';
+
+// Resolved samples at which a member's own error counts as much as the equal-weight prior
+export const DEFAULT_PRIOR_SAMPLES = 10;
+
+export class StackedEnsemble {
+  /**
+   * Weights for the given members, summing to one. Members without a usable error
+   * record get an equal share; measured members move from that share towards their
+   * inverse-MSE share as their sample size grows.
+   */
+  static weigh(
+    members: string[],
+    errors: Record<string, MemberError | undefined>,
+    priorSamples: number = DEFAULT_PRIOR_SAMPLES
+  ): Record<string, number> {
+    if (members.length === 0) return {};
+
+    const equalShare = 1 / members.length;
+    const measured = members.filter(key => {
+      const error = errors[key];
+      return error !== undefined && error.sampleSize > 0 && error.mse > 0 && Number.isFinite(error.mse);
+    });
+    const totalPrecision = measured.reduce((sum, key) => sum + 1 / errors[key]!.mse, 0);
+
+    const raw: Record<string, number> = {};
+    members.forEach(key => {
+      const error = errors[key];
+      if (!measured.includes(key) || !error) {
+        raw[key] = equalShare;
+        return;
+      }
+
+      // Inverse-MSE share of the weight the measured members hold together
+      const learned = (1 / error.mse / totalPrecision) * measured.length * equalShare;
+      const credibility = error.sampleSize / (error.sampleSize + priorSamples);
+      raw[key] = credibility * learned + (1 - credibility) * equalShare;
+    });
+
+    const total = members.reduce((sum, key) => sum + raw[key], 0);
+    const weights: Record<string, number> = {};
+    members.forEach(key => { weights[key] = raw[key] / total; });
+    return weights;
+  }
+
+  /**
+   * Weighted forecast. Bounds carry the members' weighted interval widths, widened by
+   * how far the members disagree with each other.
+   */
+  static combine(forecasts: Record<string, MemberForecast>, weights: Record<string, number>): CombinedForecast {
+    const members = Object.keys(forecasts).filter(key => (weights[key] ?? 0) > 0);
+    if (members.length === 0) {
+      throw new Error('No weighted member forecasts to combine');
+    }
+
+    // Renormalize over the members that actually forecast
+    const total = members.reduce((sum, key) => sum + weights[key], 0);
+    const used: Record<string, number> = {};
+    members.forEach(key => { used[key] = weights[key] / total; });
+
+    const weighted = (value: (forecast: MemberForecast) => number) =>
+      members.reduce((sum, key) => sum + used[key] * value(forecasts[key]), 0);
+
+    const predicted = weighted(forecast => forecast.predicted);
+    const disagreement = Math.sqrt(weighted(forecast => (forecast.predicted - predicted) ** 2));
+
+    return {
+      predicted,
+      upperBound: predicted + weighted(forecast => forecast.upperBound - forecast.predicted) + disagreement,
+      lowerBound: predicted - weighted(forecast => forecast.predicted - forecast.lowerBound) - disagreement,
+      confidence: weighted(forecast => forecast.confidence),
+      weights: used
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,298 @@
+/**
+ * Technical Analyzer
+ * Turns daily bars into a trend call backed by explained signals: MA20/MA50 crossovers,
+ * RSI zones, MACD histogram sign, ADX trend strength and chart patterns, plus
+ * swing-based support and resistance levels
+ */
+
+import { AnalysisResult, AnalysisSignal, HistoricalDataPoint } from '../types';
+import { TechnicalIndicators } from './technicalIndicators';
+
+/** Bars to load for an analysis; enough for MA50 plus a window of swings */
+export const ANALYSIS_LOOKBACK = 200;
+
+const CROSSOVER_WINDOW = 5;
+const SWING_WINDOW = 2;
+const LEVEL_TOLERANCE = 0.01;
+const MAX_LEVELS = 3;
+
+// Below this much directional weight a unanimous reading is still treated as weak
+const MIN_EVIDENCE = 3;
+const TREND_THRESHOLD = 0.3;
+
+interface WeightedSignal extends AnalysisSignal {
+  weight: number;
+}
+
+const PATTERN_SIGNALS: Record<string, { direction: AnalysisSignal['direction']; weight: number; explanation: string }> = {
+  'Uptrend': {
+    direction: 'bullish',
+    weight: 1,
+    explanation: 'Price is higher than it was 20 bars ago'
+  },
+  'Strong bullish momentum': {
+    direction: 'bullish',
+    weight: 1,
+    explanation: 'The 20-bar gain is more than half of the 20-bar range'
+  },
+  'Downtrend': {
+    direction: 'bearish',
+    weight: 1,
+    explanation: 'Price is lower than it was 20 bars ago'
+  },
+  'Strong bearish momentum': {
+    direction: 'bearish',
+    weight: 1,
+    explanation: 'The 20-bar loss is more than half of the 20-bar range'
+  },
+  'Sideways consolidation': {
+    direction: 'neutral',
+    weight: 0,
+    explanation: 'The 20-bar move is less than a tenth of the 20-bar range'
+  },
+  'Volatility breakout': {
+    direction: 'neutral',
+    weight: 0,
+    explanation: 'The last 5 bars span more than 1.5x the range of the 15 before them'
+  }
+};
+
+const last = (series: number[] | undefined): number | undefined =>
+  series && series.length > 0 ? series[series.length - 1] : undefined;
+
+const format = (value: number): string => value.toFixed(2);
+
+const barsAgo = (count: number): string =>
+  count === 0 ? 'on the latest bar' : `${count} bar${count === 1 ? '' : 's'} ago`;
+
+export class TechnicalAnalyzer {
+  /**
+   * Analyze bars (oldest first). Trend is the weighted balance of directional signals,
+   * strength is the latest ADX and confidence is how strongly the signals agree.
+   */
+  static analyze(symbol: string, bars: HistoricalDataPoint[]): AnalysisResult {
+    if (bars.length === 0) {
+      throw new Error(`No bars to analyze for ${symbol}`);
+    }
+
+    const closes = bars.map(bar => bar.close);
+    const highs = bars.map(bar => bar.high);
+    const lows = bars.map(bar => bar.low);
+    const price = closes[closes.length - 1];
+
+    const indicators = TechnicalIndicators.calculateAll(closes, highs, lows);
+    const adx = last(indicators.adx);
+
+    const signals: WeightedSignal[] = [
+      ...this.movingAverageSignals(indicators.sma?.[20] || [], indicators.sma?.[50] || []),
+      ...this.rsiSignals(indicators.rsi || []),
+      ...this.macdSignals(indicators.macd?.histogram || []),
+      ...(adx !== undefined ? [this.adxSignal(adx)] : []),
+      ...this.patternSignals(TechnicalIndicators.detectPatterns(closes, highs, lows))
+    ];
+
+    const bullish = signals.filter(s => s.direction === 'bullish').reduce((sum, s) => sum + s.weight, 0);
+    const bearish = signals.filter(s => s.direction === 'bearish').reduce((sum, s) => sum + s.weight, 0);
+    const total = bullish + bearish;
+    const score = (bullish - bearish) / Math.max(total, MIN_EVIDENCE);
+
+    const trend = score >= TREND_THRESHOLD ? 'bullish' : score <= -TREND_THRESHOLD ? 'bearish' : 'neutral';
+    const strength = Math.min(100, Math.max(0, adx ?? Math.abs(score) * 100));
+    const confidence = 0.5 + 0.45 * (total === 0 ? 0 : Math.abs(bullish - bearish) / total);
+
+    const { support, resistance } = this.findLevels(bars, price);
+    const atr = last(indicators.atr) ?? price * 0.02;
+
+    let nextTarget: number;
+    let stopLoss: number;
+    if (trend === 'bullish') {
+      nextTarget = resistance[0] ?? price + 2 * atr;
+      stopLoss = support[0] ?? price - 1.5 * atr;
+    } else if (trend === 'bearish') {
+      nextTarget = support[0] ?? price - 2 * atr;
+      stopLoss = resistance[0] ?? price + 1.5 * atr;
+    } else {
+      nextTarget = resistance[0] ?? price + atr;
+      stopLoss = support[0] ?? price - atr;
+    }
+
+    const signalDetails = signals.map(({ name, direction, explanation }) => ({ name, direction, explanation }));
+
+    return {
+      symbol,
+      trend,
+      strength,
+      confidence,
+      signals: signalDetails.map(signal => signal.name),
+      nextTarget,
+      stopLoss,
+      signalDetails,
+      supportLevels: support,
+      resistanceLevels: resistance
+    };
+  }
+
+  /**
+   * Swing highs and lows clustered into price levels. Levels below the price are
+   * support (nearest first), levels above are resistance (nearest first).
+   */
+  static findLevels(bars: HistoricalDataPoint[], price: number): { support: number[]; resistance: number[] } {
+    const swings: number[] = [];
+
+    for (let i = SWING_WINDOW; i < bars.length - SWING_WINDOW; i++) {
+      const window = bars.slice(i - SWING_WINDOW, i + SWING_WINDOW + 1);
+      if (bars[i].low === Math.min(...window.map(bar => bar.low))) swings.push(bars[i].low);
+      if (bars[i].high === Math.max(...window.map(bar => bar.high))) swings.push(bars[i].high);
+    }
+
+    // Merge swings within LEVEL_TOLERANCE of each other into one averaged level
+    const levels: number[] = [];
+    let cluster: number[] = [];
+    for (const swing of swings.sort((a, b) => a - b)) {
+      const mean = cluster.reduce((sum, value) => sum + value, 0) / cluster.length;
+      if (cluster.length > 0 && (swing - mean) / mean > LEVEL_TOLERANCE) {
+        levels.push(mean);
+        cluster = [];
+      }
+      cluster.push(swing);
+    }
+    if (cluster.length > 0) {
+      levels.push(cluster.reduce((sum, value) => sum + value, 0) / cluster.length);
+    }
+
+    let support = levels.filter(level => level < price).reverse().slice(0, MAX_LEVELS);
+    let resistance = levels.filter(level => level > price).slice(0, MAX_LEVELS);
+
+    // Without swings on one side, fall back to the range extremes
+    if (support.length === 0) {
+      const lowest = Math.min(...bars.map(bar => bar.low));
+      support = lowest < price ? [lowest] : [];
+    }
+    if (resistance.length === 0) {
+      const highest = Math.max(...bars.map(bar => bar.high));
+      resistance = highest > price ? [highest] : [];
+    }
+
+    return { support, resistance };
+  }
+
+  private static movingAverageSignals(ma20: number[], ma50: number[]): WeightedSignal[] {
+    if (ma50.length < 2 || ma20.length < ma50.length) return [];
+
+    // Align the fast average with the slow one on their latest values
+    const fast = ma20.slice(-ma50.length);
+    const latest = ma50.length - 1;
+
+    for (let i = latest; i >= Math.max(1, latest - CROSSOVER_WINDOW + 1); i--) {
+      const wasAbove = fast[i - 1] > ma50[i - 1];
+      const isAbove = fast[i] > ma50[i];
+      if (wasAbove === isAbove) continue;
+
+      return [{
+        name: isAbove ? 'Golden Cross' : 'Death Cross',
+        direction: isAbove ? 'bullish' : 'bearish',
+        weight: 2,
+        explanation: `MA20 crossed ${isAbove ? 'above' : 'below'} MA50 ${barsAgo(latest - i)} ` +
+          `(MA20 ${format(fast[latest])}, MA50 ${format(ma50[latest])})`
+      }];
+    }
+
+    const isAbove = fast[latest] > ma50[latest];
+    const gap = (fast[latest] / ma50[latest] - 1) * 100;
+
+    return [{
+      name: isAbove ? 'MA20 above MA50' : 'MA20 below MA50',
+      direction: isAbove ? 'bullish' : 'bearish',
+      weight: 1,
+      explanation: `MA20 (${format(fast[latest])}) is ${format(Math.abs(gap))}% ${isAbove ? 'above' : 'below'} ` +
+        `MA50 (${format(ma50[latest])}) with no crossover in the last ${CROSSOVER_WINDOW} bars`
+    }];
+  }
+
+  private static rsiSignals(rsi: number[]): WeightedSignal[] {
+    const value = last(rsi);
+    if (value === undefined) return [];
+
+    if (value > 70) {
+      return [{
+        name: 'RSI overbought',
+        direction: 'bearish',
+        weight: 1,
+        explanation: `RSI at ${value.toFixed(1)} is above 70; stretched rallies tend to pause or reverse`
+      }];
+    }
+
+    if (value < 30) {
+      return [{
+        name: 'RSI oversold',
+        direction: 'bullish',
+        weight: 1,
+        explanation: `RSI at ${value.toFixed(1)} is below 30; selling pressure looks exhausted`
+      }];
+    }
+
+    return [{
+      name: 'RSI neutral',
+      direction: 'neutral',
+      weight: 0,
+      explanation: `RSI at ${value.toFixed(1)} is between 30 and 70`
+    }];
+  }
+
+  private static macdSignals(histogram: number[]): WeightedSignal[] {
+    const value = last(histogram);
+    if (value === undefined || value === 0) return [];
+
+    const previous = histogram.length > 1 ? histogram[histogram.length - 2] : value;
+    const isPositive = value > 0;
+    const flipped = isPositive ? previous <= 0 : previous >= 0;
+
+    return [{
+      name: flipped
+        ? `MACD ${isPositive ? 'bullish' : 'bearish'} crossover`
+        : `MACD histogram ${isPositive ? 'positive' : 'negative'}`,
+      direction: isPositive ? 'bullish' : 'bearish',
+      weight: 1,
+      explanation: flipped
+        ? `MACD crossed ${isPositive ? 'above' : 'below'} its signal line on the latest bar (histogram ${value.toFixed(3)})`
+        : `MACD is ${Math.abs(value).toFixed(3)} ${isPositive ? 'above' : 'below'} its signal line, ` +
+          `so momentum is ${isPositive ? 'rising' : 'falling'}`
+    }];
+  }
+
+  private static adxSignal(adx: number): WeightedSignal {
+    if (adx >= 25) {
+      return {
+        name: 'Strong trend (ADX)',
+        direction: 'neutral',
+        weight: 0,
+        explanation: `ADX at ${adx.toFixed(1)} is above 25, so the prevailing direction is well established`
+      };
+    }
+
+    if (adx < 20) {
+      return {
+        name: 'Weak trend (ADX)',
+        direction: 'neutral',
+        weight: 0,
+        explanation: `ADX at ${adx.toFixed(1)} is below 20; price is mostly ranging`
+      };
+    }
+
+    return {
+      name: 'Developing trend (ADX)',
+      direction: 'neutral',
+      weight: 0,
+      explanation: `ADX at ${adx.toFixed(1)} is between 20 and 25; a trend may be forming`
+    };
+  }
+
+  private static patternSignals(patterns: string[]): WeightedSignal[] {
+    return patterns.map(pattern => ({
+      name: pattern,
+      direction: PATTERN_SIGNALS[pattern]?.direction ?? 'neutral',
+      weight: PATTERN_SIGNALS[pattern]?.weight ?? 0,
+      explanation: PATTERN_SIGNALS[pattern]?.explanation ?? 'Detected by the chart pattern scan'
+    }));
+  }
+}
\ No newline at end of file
@@ -56,10 +56,11 @@ export class TechnicalIndicators {
     const emaSlow = this.calculateEMA(prices, slowPeriod);
     
     const macd: number[] = [];
-    const startIndex = Math.max(0, slowPeriod - fastPeriod);
+    // Both EMAs end on the last price; the fast one starts (slow - fast) bars earlier
+    const offset = Math.max(0, slowPeriod - fastPeriod);
     
-    for (let i = startIndex; i < Math.min(emaFast.length, emaSlow.length); i++) {
-      macd.push(emaFast[i + (fastPeriod - slowPeriod)] - emaSlow[i]);
+    for (let i = 0; i < emaSlow.length; i++) {
+      macd.push(emaFast[i + offset] - emaSlow[i]);
     }
     
     const signal = this.calculateEMA(macd, signalPeriod);
@@ -172,25 +173,70 @@ export class TechnicalIndicators {
   }
 
   /**
-   * Calculate Average Directional Index (ADX)
+   * Wilder's directional movement system: +DI, -DI and ADX, all aligned to the last
+   * bar. True range and directional movement are Wilder-smoothed over the period, DX
+   * is the spread of the two DIs over their sum, and ADX is DX smoothed the same way,
+   * so the first ADX needs twice the period in bars.
    */
-  static calculateADX(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
-    if (highs.length < period + 1) return [];
-    
-    const adx: number[] = [];
-    // This is a simplified ADX calculation
-    // In production, you'd want a more sophisticated implementation
-    
-    for (let i = period; i < highs.length; i++) {
-      const slice = highs.slice(i - period, i);
-      const trend = slice[slice.length - 1] - slice[0];
-      const volatility = Math.max(...slice) - Math.min(...slice);
-      
-      const adxValue = Math.abs(trend) / volatility * 100;
-      adx.push(Math.min(100, Math.max(0, adxValue)));
+  static calculateDirectionalIndex(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14
+  ): { plusDI: number[]; minusDI: number[]; adx: number[] } {
+    const empty = { plusDI: [], minusDI: [], adx: [] };
+    if (highs.length !== lows.length || highs.length !== closes.length || highs.length < period * 2) {
+      return empty;
     }
-    
-    return adx;
+
+    const trueRanges: number[] = [];
+    const plusDM: number[] = [];
+    const minusDM: number[] = [];
+
+    for (let i = 1; i < highs.length; i++) {
+      const up = highs[i] - highs[i - 1];
+      const down = lows[i - 1] - lows[i];
+
+      trueRanges.push(Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1])));
+      plusDM.push(up > down && up > 0 ? up : 0);
+      minusDM.push(down > up && down > 0 ? down : 0);
+    }
+
+    // Wilder smoothing starts from the sum of the first period and then keeps
+    // (period - 1) / period of the running total
+    const smooth = (values: number[]) => {
+      const smoothed = [values.slice(0, period).reduce((sum, value) => sum + value, 0)];
+      for (let i = period; i < values.length; i++) {
+        const previous = smoothed[smoothed.length - 1];
+        smoothed.push(previous - previous / period + values[i]);
+      }
+      return smoothed;
+    };
+
+    const smoothedTR = smooth(trueRanges);
+    const smoothedPlus = smooth(plusDM);
+    const smoothedMinus = smooth(minusDM);
+
+    const plusDI = smoothedTR.map((tr, i) => (tr > 0 ? (smoothedPlus[i] / tr) * 100 : 0));
+    const minusDI = smoothedTR.map((tr, i) => (tr > 0 ? (smoothedMinus[i] / tr) * 100 : 0));
+    const dx = plusDI.map((plus, i) => {
+      const sum = plus + minusDI[i];
+      return sum > 0 ? (Math.abs(plus - minusDI[i]) / sum) * 100 : 0;
+    });
+
+    const adx = [dx.slice(0, period).reduce((sum, value) => sum + value, 0) / period];
+    for (let i = period; i < dx.length; i++) {
+      adx.push((adx[adx.length - 1] * (period - 1) + dx[i]) / period);
+    }
+
+    return { plusDI, minusDI, adx };
+  }
+
+  /**
+   * Calculate Average Directional Index (ADX), Wilder's 0-100 trend strength
+   */
+  static calculateADX(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
+    return this.calculateDirectionalIndex(highs, lows, closes, period).adx;
   }
 
   /**
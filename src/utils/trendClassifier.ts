@@ -0,0 +1,211 @@
+/**
+ * Trend Classifier
+ * Multinomial logistic regression calling the direction of the move over a horizon
+ * (up, down or flat) from technical indicator features, with class probabilities
+ */
+
+import { TechnicalIndicators } from './technicalIndicators';
+
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+export type TrendProbabilities = Record<TrendDirection, number>;
+
+export interface TrendExample {
+  features: number[];
+  label: TrendDirection;
+}
+
+export interface TrendDataset {
+  examples: TrendExample[];
+  /** Features of the latest bar, which has no label yet */
+  latest: number[] | null;
+}
+
+export interface TrendTrainingOptions {
+  epochs?: number;
+  learningRate?: number;
+  /** L2 penalty on the feature weights */
+  l2?: number;
+}
+
+export const TREND_DIRECTIONS: TrendDirection[] = ['down', 'flat', 'up'];
+
+export const TREND_FEATURES = [
+  'rsi',
+  'macdHistogram',
+  'sma20Gap',
+  'sma50Gap',
+  'bollingerPercentB',
+  'stochasticK',
+  'adx',
+  'atrRatio',
+  'return5',
+  'return20'
+];
+
+// Moves within this many standard deviations of the horizon's returns count as flat
+export const DEFAULT_FLAT_BAND = 0.25;
+
+const DEFAULT_TRAINING: Required<TrendTrainingOptions> = { epochs: 300, learningRate: 0.5, l2: 0.001 };
+
+/**
+ * Direction of a log return, flat when it stays within the threshold
+ */
+export function directionOf(logReturn: number, flatThreshold: number): TrendDirection {
+  if (Math.abs(logReturn) <= flatThreshold) return 'flat';
+  return logReturn > 0 ? 'up' : 'down';
+}
+
+/** Stored as ai_predictions.predicted_value: -1 down, 0 flat, 1 up */
+export function directionValue(direction: TrendDirection): number {
+  return direction === 'up' ? 1 : direction === 'down' ? -1 : 0;
+}
+
+/**
+ * Flat threshold for a horizon: a fraction of the standard deviation of one-period
+ * returns, scaled to the horizon's length
+ */
+export function flatThreshold(returns: number[], sessions: number, band: number = DEFAULT_FLAT_BAND): number {
+  if (returns.length === 0) return 0;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+  return band * Math.sqrt(variance * sessions);
+}
+
+// Indicator series end on the last close; this reads the value for close `index`
+const alignedAt = (series: number[], length: number, index: number): number | undefined =>
+  series[series.length - (length - index)];
+
+export class TrendClassifier {
+  private constructor(
+    /** One row per direction in TREND_DIRECTIONS: bias followed by feature weights */
+    readonly weights: number[][],
+    private readonly means: number[],
+    private readonly scales: number[]
+  ) {}
+
+  /**
+   * Indicator features for every bar, null while an indicator is still warming up
+   */
+  static featureRows(highs: number[], lows: number[], closes: number[]): (number[] | null)[] {
+    const n = closes.length;
+    const rsi = TechnicalIndicators.calculateRSI(closes);
+    const { histogram } = TechnicalIndicators.calculateMACD(closes);
+    const sma20 = TechnicalIndicators.calculateSMA(closes, 20);
+    const sma50 = TechnicalIndicators.calculateSMA(closes, 50);
+    const bands = TechnicalIndicators.calculateBollingerBands(closes);
+    const { k } = TechnicalIndicators.calculateStochastic(highs, lows, closes);
+    const adx = TechnicalIndicators.calculateADX(highs, lows, closes);
+    const atr = TechnicalIndicators.calculateATR(highs, lows, closes);
+
+    return closes.map((close, i) => {
+      if (i < 20) return null;
+
+      const at = (series: number[]) => alignedAt(series, n, i);
+      const [r, h, s20, s50, upper, lower, stochastic, trend, range] =
+        [rsi, histogram, sma20, sma50, bands.upper, bands.lower, k, adx, atr].map(at);
+      if ([r, h, s20, s50, upper, lower, stochastic, trend, range].some(value => value === undefined)) return null;
+
+      const values = [
+        r! / 100 - 0.5,
+        h! / close,
+        close / s20! - 1,
+        close / s50! - 1,
+        upper! > lower! ? (close - lower!) / (upper! - lower!) - 0.5 : 0,
+        stochastic! / 100 - 0.5,
+        trend! / 100,
+        range! / close,
+        Math.log(close / closes[i - 5]),
+        Math.log(close / closes[i - 20])
+      ];
+
+      return values.every(Number.isFinite) ? values : null;
+    });
+  }
+
+  /**
+   * Label each bar with the direction of its close-to-close move `horizon` bars later
+   */
+  static buildDataset(highs: number[], lows: number[], closes: number[], horizon: number, threshold: number): TrendDataset {
+    const rows = this.featureRows(highs, lows, closes);
+    const examples: TrendExample[] = [];
+
+    rows.forEach((features, i) => {
+      if (!features || i + horizon >= closes.length) return;
+      examples.push({ features, label: directionOf(Math.log(closes[i + horizon] / closes[i]), threshold) });
+    });
+
+    return { examples, latest: rows[rows.length - 1] };
+  }
+
+  /**
+   * Fit by full-batch gradient descent on the cross-entropy of standardized features
+   */
+  static train(examples: TrendExample[], options: TrendTrainingOptions = {}): TrendClassifier {
+    if (examples.length === 0) {
+      throw new Error('No labelled examples to train the trend classifier on');
+    }
+
+    const { epochs, learningRate, l2 } = { ...DEFAULT_TRAINING, ...options };
+    const dimension = examples[0].features.length;
+
+    const means = new Array<number>(dimension).fill(0);
+    const scales = new Array<number>(dimension).fill(0);
+    examples.forEach(({ features }) => features.forEach((x, j) => { means[j] += x / examples.length; }));
+    examples.forEach(({ features }) => features.forEach((x, j) => { scales[j] += (x - means[j]) ** 2 / examples.length; }));
+    for (let j = 0; j < dimension; j++) scales[j] = Math.sqrt(scales[j]) || 1;
+
+    const classifier = new TrendClassifier(
+      TREND_DIRECTIONS.map(() => new Array<number>(dimension + 1).fill(0)),
+      means,
+      scales
+    );
+    const inputs = examples.map(({ features }) => classifier.standardize(features));
+    const targets = examples.map(({ label }) => TREND_DIRECTIONS.indexOf(label));
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      const gradient = classifier.weights.map(row => row.map(() => 0));
+
+      inputs.forEach((x, i) => {
+        const probabilities = classifier.softmax(x);
+        probabilities.forEach((p, c) => {
+          const error = p - (targets[i] === c ? 1 : 0);
+          gradient[c][0] += error;
+          x.forEach((value, j) => { gradient[c][j + 1] += error * value; });
+        });
+      });
+
+      classifier.weights.forEach((row, c) => {
+        row.forEach((weight, j) => {
+          const penalty = j === 0 ? 0 : l2 * weight;
+          row[j] = weight - learningRate * (gradient[c][j] / inputs.length + penalty);
+        });
+      });
+    }
+
+    return classifier;
+  }
+
+  predict(features: number[]): TrendProbabilities {
+    const probabilities = this.softmax(this.standardize(features));
+    return { down: probabilities[0], flat: probabilities[1], up: probabilities[2] };
+  }
+
+  classify(features: number[]): TrendDirection {
+    const probabilities = this.predict(features);
+    return TREND_DIRECTIONS.reduce((best, direction) =>
+      probabilities[direction] > probabilities[best] ? direction : best);
+  }
+
+  private standardize(features: number[]): number[] {
+    return features.map((x, j) => (x - this.means[j]) / this.scales[j]);
+  }
+
+  private softmax(x: number[]): number[] {
+    const logits = this.weights.map(row => row[0] + x.reduce((sum, value, j) => sum + row[j + 1] * value, 0));
+    const max = Math.max(...logits);
+    const exps = logits.map(logit => Math.exp(logit - max));
+    const total = exps.reduce((sum, e) => sum + e, 0);
+    return exps.map(e => e / total);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+/**
+ * Alert Evaluation
+ * Per-type metrics, composite rules, level and crossing conditions and cooldowns for
+ * the alert-processor function, over the latest tick and the stored daily bars.
+ *
+ * Kept free of Deno-only APIs so it can be exercised directly from the test suite.
+ */
+
+export type AlertCondition = 'above' | 'below' | 'crosses_above' | 'crosses_below'
+
+export interface MetricContext {
+  price: number
+  volume: number | null
+  // Stored daily closes and volumes before the latest tick, oldest first
+  closes: number[]
+  volumes: number[]
+  // Latest technical market_analysis row
+  analysis: { trend_direction: string; strength_score: number | string } | null
+  // Latest technical_indicators row
+  indicators: Record<string, number | string | null> | null
+}
+
+// Composite rule; metric is price, volume_ratio, trend, volatility or a
+// technical_indicators column
+export interface RuleCondition {
+  metric: string
+  operator: 'above' | 'below'
+  value: number
+}
+
+export interface RuleGroup {
+  operator: 'and' | 'or'
+  conditions: RuleNode[]
+}
+
+export type RuleNode = RuleCondition | RuleGroup
+
+const isGroup = (node: RuleNode): node is RuleGroup => Array.isArray((node as RuleGroup).conditions)
+
+// Bars used for the volume average and the volatility estimate
+export const METRIC_WINDOW = 20
+
+/** Crossings need the previous observation on the other side of the target */
+export function isConditionMet(
+  condition: AlertCondition,
+  target: number,
+  current: number,
+  previous: number | null
+): boolean {
+  switch (condition) {
+    case 'above':
+      return current > target
+    case 'below':
+      return current < target
+    case 'crosses_above':
+      return previous !== null && previous <= target && current > target
+    case 'crosses_below':
+      return previous !== null && previous >= target && current < target
+    default:
+      return false
+  }
+}
+
+/** Triggered alerts stay silent until the cooldown has elapsed, then re-arm */
+export function isCoolingDown(
+  alert: { is_triggered: boolean; triggered_at: string | null; cooldown_minutes?: number | null },
+  now: Date
+): boolean {
+  const cooldownMs = (alert.cooldown_minutes ?? 60) * 60 * 1000
+  return Boolean(alert.is_triggered && alert.triggered_at &&
+    now.getTime() - new Date(alert.triggered_at).getTime() < cooldownMs)
+}
+
+/** Inputs an alert needs loaded: its own type, or every metric of its rule */
+export function getRequiredInputs(alert: { alert_type: string; rule?: RuleNode | null }): string[] {
+  if (alert.alert_type !== 'composite') return [alert.alert_type]
+  if (!alert.rule) return []
+
+  return collectRuleMetrics(alert.rule).map((metric) => {
+    if (metric === 'volume_ratio') return 'volume'
+    if (metric === 'price' || metric === 'trend' || metric === 'volatility') return metric
+    return 'indicators'
+  })
+}
+
+function collectRuleMetrics(node: RuleNode): string[] {
+  if (isGroup(node)) {
+    return node.conditions.flatMap((child) => collectRuleMetrics(child))
+  }
+  return [node.metric]
+}
+
+/** Conditions on unavailable metrics count as not met */
+export function evaluateRule(node: RuleNode, context: MetricContext): boolean {
+  if (isGroup(node)) {
+    if (node.conditions.length === 0) return false
+    return node.operator === 'and'
+      ? node.conditions.every((child) => evaluateRule(child, context))
+      : node.conditions.some((child) => evaluateRule(child, context))
+  }
+
+  let value: number | null
+  switch (node.metric) {
+    case 'price':
+    case 'trend':
+    case 'volatility':
+      value = computeMetric(node.metric, context)
+      break
+    case 'volume_ratio':
+      value = computeMetric('volume', context)
+      break
+    default: {
+      // technical_indicators column
+      const stored = context.indicators?.[node.metric]
+      value = stored != null ? parseFloat(String(stored)) : null
+    }
+  }
+
+  if (value === null) return false
+  return node.operator === 'above' ? value > node.value : value < node.value
+}
+
+/**
+ * Value an alert of the given type is compared against: price in currency, volume as
+ * a multiple of its rolling average, trend as a score from -1 (bearish) to 1 (bullish)
+ * and volatility as annualized percent
+ */
+export function computeMetric(alertType: string, context: MetricContext): number | null {
+  switch (alertType) {
+    case 'price':
+      return context.price
+
+    case 'volume': {
+      const recent = context.volumes.slice(-METRIC_WINDOW)
+      if (context.volume === null || recent.length === 0) return null
+      const average = recent.reduce((sum, v) => sum + v, 0) / recent.length
+      return average > 0 ? context.volume / average : null
+    }
+
+    case 'trend': {
+      // From stored analysis, or the 20/50 MA spread where a 5% spread is full strength
+      if (context.analysis) {
+        const direction = { bullish: 1, bearish: -1, neutral: 0 }[context.analysis.trend_direction] ?? 0
+        return direction * Math.min(1, Math.max(0, Number(context.analysis.strength_score)))
+      }
+      const closes = [...context.closes, context.price]
+      if (closes.length < 50) return null
+      const ma20 = closes.slice(-20).reduce((sum, c) => sum + c, 0) / 20
+      const ma50 = closes.slice(-50).reduce((sum, c) => sum + c, 0) / 50
+      return Math.max(-1, Math.min(1, ((ma20 - ma50) / ma50) / 0.05))
+    }
+
+    case 'volatility': {
+      // Annualized volatility of daily log returns
+      const closes = [...context.closes, context.price].slice(-(METRIC_WINDOW + 1))
+      if (closes.length < METRIC_WINDOW + 1) return null
+      const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]))
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length
+      const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length
+      return Math.sqrt(variance) * Math.sqrt(252) * 100
+    }
+
+    default:
+      return null
+  }
+}
+
+/** Human readable form of a metric value for alert messages */
+export function formatMetric(alertType: string, value: number): string {
+  switch (alertType) {
+    case 'price':
+      return `$${value.toFixed(2)}`
+    case 'volume':
+      return `${value.toFixed(1)}x its ${METRIC_WINDOW}-day average`
+    case 'trend': {
+      const label = value > 0 ? 'bullish' : value < 0 ? 'bearish' : 'neutral'
+      return `${value.toFixed(2)} (${label})`
+    }
+    case 'volatility':
+      return `${value.toFixed(1)}% annualized`
+    case 'composite':
+      return value >= 0.5 ? 'rule met' : 'rule not met'
+    default:
+      return value.toString()
+  }
+}
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * Feature Vectors
+ * Engineered per-session prediction features kept in feature_vectors. Each vector is
+ * computed from the FEATURE_WINDOW daily bars ending on its date and nothing earlier,
+ * so extending the store a day at a time gives the same values as a full rebuild.
+ *
+ * Kept free of Deno-only APIs so it can be exercised directly from the test suite.
+ */
+
+export interface FeatureBar {
+  date: string
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface FeatureVector {
+  date: string
+  close: number
+  // Log return from the previous close
+  logReturn: number
+  // 14-session RSI, 0 to 100
+  rsi: number
+  // MACD (12, 26) less its 9-session signal line
+  macdHistogram: number
+  // Close over its 20-session average, minus one
+  sma20Gap: number
+  // 14-session average true range
+  atr: number
+  // Standard deviation of the last 10 log returns
+  volatility: number
+  // Log volume against the mean and spread of the last 20 sessions
+  volumeZScore: number
+  // Mean news sentiment published that day, -1 to 1; null without news
+  sentiment: number | null
+}
+
+export interface SentimentItem {
+  publishedAt: string
+  score: number
+}
+
+// Bars each vector is computed from; covers the MACD signal line's warm-up
+export const FEATURE_WINDOW = 60
+
+// Bumped whenever a definition above changes, so stale vectors can be rebuilt
+export const FEATURE_SCHEMA_VERSION = 1
+
+const RSI_PERIOD = 14
+const ATR_PERIOD = 14
+const VOLATILITY_PERIOD = 10
+const VOLUME_PERIOD = 20
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const std = (values: number[]) => {
+  const m = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length)
+}
+
+// EMA seeded with the simple average of its first `period` values
+const ema = (values: number[], period: number): number[] => {
+  const multiplier = 2 / (period + 1)
+  const series = [mean(values.slice(0, period))]
+  for (let i = period; i < values.length; i++) {
+    series.push(values[i] * multiplier + series[series.length - 1] * (1 - multiplier))
+  }
+  return series
+}
+
+/**
+ * Mean sentiment per UTC day
+ */
+export function dailySentiment(items: SentimentItem[]): Record<string, number> {
+  const totals: Record<string, { sum: number; count: number }> = {}
+  for (const item of items) {
+    const day = item.publishedAt.split('T')[0]
+    totals[day] = totals[day] ?? { sum: 0, count: 0 }
+    totals[day].sum += item.score
+    totals[day].count++
+  }
+
+  const sentiment: Record<string, number> = {}
+  for (const [day, { sum, count }] of Object.entries(totals)) {
+    sentiment[day] = sum / count
+  }
+  return sentiment
+}
+
+/**
+ * Vector for the last bar of a FEATURE_WINDOW-long window, oldest bar first
+ */
+export function featureVector(window: FeatureBar[], sentiment: Record<string, number> = {}): FeatureVector {
+  if (window.length < FEATURE_WINDOW) {
+    throw new Error(`Feature vectors need ${FEATURE_WINDOW} bars, got ${window.length}`)
+  }
+
+  const bars = window.slice(-FEATURE_WINDOW)
+  const closes = bars.map((bar) => bar.close)
+  const last = bars[bars.length - 1]
+  const logReturns = closes.slice(1).map((close, i) => Math.log(close / closes[i]))
+
+  const recent = closes.slice(-RSI_PERIOD - 1)
+  const changes = recent.slice(1).map((close, i) => close - recent[i])
+  const averageGain = mean(changes.map((change) => Math.max(change, 0)))
+  const averageLoss = mean(changes.map((change) => Math.max(-change, 0)))
+  const rsi = averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss)
+
+  // Fast EMA starts (26 - 12) bars earlier; both end on the last close
+  const fast = ema(closes, 12)
+  const slow = ema(closes, 26)
+  const macd = slow.map((value, i) => fast[i + 14] - value)
+  const signal = ema(macd, 9)
+
+  const trueRanges = bars.slice(-ATR_PERIOD).map((bar, i) => {
+    const previousClose = bars[bars.length - ATR_PERIOD - 1 + i].close
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose))
+  })
+
+  const logVolumes = bars.slice(-VOLUME_PERIOD).map((bar) => Math.log(Math.max(bar.volume, 1)))
+  const volumeSpread = std(logVolumes)
+
+  return {
+    date: last.date,
+    close: last.close,
+    logReturn: logReturns[logReturns.length - 1],
+    rsi,
+    macdHistogram: macd[macd.length - 1] - signal[signal.length - 1],
+    sma20Gap: last.close / mean(closes.slice(-20)) - 1,
+    atr: mean(trueRanges),
+    volatility: std(logReturns.slice(-VOLATILITY_PERIOD)),
+    volumeZScore: volumeSpread > 0 ? (logVolumes[logVolumes.length - 1] - mean(logVolumes)) / volumeSpread : 0,
+    sentiment: sentiment[last.date] ?? null,
+  }
+}
+
+/**
+ * Vectors for every bar (oldest first) with a full window behind it, optionally only
+ * from the `since` date on
+ */
+export function computeFeatureVectors(
+  bars: FeatureBar[],
+  sentiment: Record<string, number> = {},
+  since?: string
+): FeatureVector[] {
+  const vectors: FeatureVector[] = []
+  for (let end = FEATURE_WINDOW; end <= bars.length; end++) {
+    if (since && bars[end - 1].date < since) continue
+    vectors.push(featureVector(bars.slice(end - FEATURE_WINDOW, end), sentiment))
+  }
+  return vectors
+}
\ No newline at end of file
@@ -0,0 +1,248 @@
+/**
+ * Historical Backfill
+ * Trading calendars, gap detection and Alpha Vantage series parsing for the
+ * historical-backfill function that fills historical_data with daily OHLCV bars.
+ *
+ * Kept free of Deno-only APIs so it can be exercised directly from the test suite.
+ */
+
+export type BarInterval = 'daily' | 'weekly' | 'monthly'
+
+// US equity sessions, or every day for markets that never close
+export type TradingCalendar = 'equity' | 'continuous'
+
+export interface OhlcvBar {
+  date: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface DateGap {
+  from: string
+  to: string
+  // Trading days missing in the range
+  sessions: number
+}
+
+export const BAR_INTERVALS: BarInterval[] = ['daily', 'weekly', 'monthly']
+
+// Alpha Vantage's compact output covers the latest 100 sessions
+export const COMPACT_SESSIONS = 100
+
+// How far back a symbol with no stored bars is filled, in calendar days
+export const INITIAL_BACKFILL_DAYS = 730
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+const addDays = (day: string, days: number) => toDay(Date.parse(day) + days * DAY_MS)
+
+/** Day of the month of the nth given weekday (0 = Sunday); negative n counts from the end */
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay()
+    return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7
+  }
+  const lastDate = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  const last = new Date(Date.UTC(year, month, lastDate)).getUTCDay()
+  return lastDate - ((last - weekday + 7) % 7) + (n + 1) * 7
+}
+
+/** Easter Sunday by the anonymous Gregorian algorithm, as [month, day] */
+function easter(year: number): [number, number] {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  return [month - 1, ((h + l - 7 * m + 114) % 31) + 1]
+}
+
+/**
+ * Full-day NYSE holidays in a year. Fixed-date holidays on a Saturday close the Friday
+ * before and on a Sunday the Monday after, except New Year's Day, which never closes
+ * the last session of the previous year. One-off closures are not included.
+ */
+export function nyseHolidays(year: number): Set<string> {
+  const day = (month: number, date: number) => toDay(Date.UTC(year, month, date))
+  const observed = (month: number, date: number, shiftSaturday: boolean = true) => {
+    const weekday = new Date(Date.UTC(year, month, date)).getUTCDay()
+    if (weekday === 6) return shiftSaturday ? day(month, date - 1) : null
+    if (weekday === 0) return day(month, date + 1)
+    return day(month, date)
+  }
+
+  const [easterMonth, easterDate] = easter(year)
+  const holidays = [
+    observed(0, 1, false),
+    day(0, nthWeekday(year, 0, 1, 3)), // Martin Luther King Jr. Day
+    day(1, nthWeekday(year, 1, 1, 3)), // Washington's Birthday
+    day(easterMonth, easterDate - 2), // Good Friday
+    day(4, nthWeekday(year, 4, 1, -1)), // Memorial Day
+    year >= 2022 ? observed(5, 19) : null, // Juneteenth
+    observed(6, 4),
+    day(8, nthWeekday(year, 8, 1, 1)), // Labor Day
+    day(10, nthWeekday(year, 10, 4, 4)), // Thanksgiving
+    observed(11, 25),
+  ]
+
+  return new Set(holidays.filter((holiday): holiday is string => holiday !== null))
+}
+
+const holidayCache = new Map<number, Set<string>>()
+
+export function isTradingDay(day: string, calendar: TradingCalendar): boolean {
+  if (calendar === 'continuous') return true
+
+  const date = new Date(`${day}T00:00:00Z`)
+  const weekday = date.getUTCDay()
+  if (weekday === 0 || weekday === 6) return false
+
+  const year = date.getUTCFullYear()
+  if (!holidayCache.has(year)) holidayCache.set(year, nyseHolidays(year))
+  return !holidayCache.get(year)!.has(day)
+}
+
+/** Trading days from `from` to `to`, both included */
+export function tradingDays(from: string, to: string, calendar: TradingCalendar): string[] {
+  const days: string[] = []
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    if (isTradingDay(day, calendar)) days.push(day)
+  }
+  return days
+}
+
+/**
+ * Runs of trading days from `from` to `to` with no stored bar, oldest first
+ */
+export function findGaps(
+  storedDates: string[],
+  from: string,
+  to: string,
+  calendar: TradingCalendar
+): DateGap[] {
+  const stored = new Set(storedDates)
+  const gaps: DateGap[] = []
+  let current: DateGap | null = null
+
+  for (const day of tradingDays(from, to, calendar)) {
+    if (stored.has(day)) {
+      current = null
+    } else if (current) {
+      current.to = day
+      current.sessions++
+    } else {
+      current = { from: day, to: day, sessions: 1 }
+      gaps.push(current)
+    }
+  }
+
+  return gaps
+}
+
+/**
+ * Trading days in the gaps up to the provider's latest bar. The provider answered for
+ * those sessions without a bar, so refetching will not fill them; days after its
+ * latest bar may still arrive.
+ */
+export function unfillableDays(gaps: DateGap[], providerLatest: string, calendar: TradingCalendar): string[] {
+  return gaps
+    .filter((gap) => gap.from <= providerLatest)
+    .flatMap((gap) => tradingDays(gap.from, gap.to < providerLatest ? gap.to : providerLatest, calendar))
+}
+
+/**
+ * Intervals of a backfill request, daily when none are given, or null when any of
+ * them is not a supported interval
+ */
+export function parseIntervals(value: unknown): BarInterval[] | null {
+  if (value === undefined || value === null) return ['daily']
+  if (!Array.isArray(value)) return null
+  if (value.length === 0) return ['daily']
+  return value.every((interval) => BAR_INTERVALS.includes(interval)) ? [...new Set(value as BarInterval[])] : null
+}
+
+/** Calendar for a market_symbols type, or null when the provider has no daily series */
+export function calendarFor(symbolType: string): TradingCalendar | null {
+  if (symbolType === 'stock') return 'equity'
+  if (symbolType === 'crypto') return 'continuous'
+  return null
+}
+
+/**
+ * First day to fetch: the latest stored day, refetched in case its bar was still
+ * forming, or INITIAL_BACKFILL_DAYS back when nothing is stored
+ */
+export function resumeFrom(latestStored: string | null, today: string): string {
+  return latestStored ?? addDays(today, -INITIAL_BACKFILL_DAYS)
+}
+
+/** Compact output when it still reaches back to `from` */
+export function outputSize(from: string, today: string, calendar: TradingCalendar): 'compact' | 'full' {
+  return tradingDays(from, today, calendar).length <= COMPACT_SESSIONS ? 'compact' : 'full'
+}
+
+/** Query parameters of the Alpha Vantage series for a symbol */
+export function alphaVantageQuery(
+  symbol: string,
+  calendar: TradingCalendar,
+  interval: BarInterval,
+  size: 'compact' | 'full'
+): Record<string, string> {
+  const suffix = interval.toUpperCase()
+  if (calendar === 'continuous') {
+    return { function: `DIGITAL_CURRENCY_${suffix}`, symbol, market: 'USD' }
+  }
+  return interval === 'daily'
+    ? { function: 'TIME_SERIES_DAILY', symbol, outputsize: size }
+    : { function: `TIME_SERIES_${suffix}`, symbol }
+}
+
+/** True when Alpha Vantage answered with its rate-limit notice instead of data */
+export function isRateLimited(payload: any): boolean {
+  const notice = payload?.Note ?? payload?.Information
+  return typeof notice === 'string' && /call frequency|rate limit|requests per/i.test(notice)
+}
+
+/**
+ * Bars from an Alpha Vantage time series payload, oldest first. Field names differ
+ * between stock and digital currency series, so fields are matched by their number.
+ * Bars with non-positive prices or a high below the low are dropped.
+ */
+export function parseAlphaVantageSeries(payload: any): OhlcvBar[] {
+  if (payload?.['Error Message']) throw new Error(payload['Error Message'])
+  if (isRateLimited(payload)) throw new Error('Alpha Vantage rate limit reached')
+
+  const seriesKey = Object.keys(payload ?? {}).find((key) => key.includes('Time Series'))
+  if (!seriesKey) throw new Error('No time series data found')
+
+  const field = (values: Record<string, string>, n: number) => {
+    const key = Object.keys(values).find((name) => name.startsWith(`${n}.`) || name.startsWith(`${n}a.`))
+    return key ? parseFloat(values[key]) : NaN
+  }
+
+  return Object.entries(payload[seriesKey] as Record<string, Record<string, string>>)
+    .map(([date, values]) => ({
+      date: date.slice(0, 10),
+      open: field(values, 1),
+      high: field(values, 2),
+      low: field(values, 3),
+      close: field(values, 4),
+      volume: Math.round(field(values, 5)) || 0,
+    }))
+    .filter((bar) =>
+      bar.open > 0 && bar.high > 0 && bar.low > 0 && bar.close > 0 && bar.high >= bar.low)
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
\ No newline at end of file
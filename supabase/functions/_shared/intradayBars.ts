@@ -0,0 +1,78 @@
+/**
+ * Intraday Bars
+ * Buckets market_data ticks into 15-minute and hourly OHLCV bars for intraday forecasting.
+ *
+ * Kept free of Deno-only APIs so it can be exercised directly from the test suite.
+ */
+
+export type IntradayInterval = '15m' | '1h'
+
+export interface MarketTick {
+  timestamp: string
+  price: number
+  volume: number
+}
+
+export interface IntradayBar {
+  interval: IntradayInterval
+  bucketStart: string
+  open: number
+  high: number
+  low: number
+  close: number
+  // Sum of the tick volumes in the bucket
+  volume: number
+  tickCount: number
+}
+
+export const INTRADAY_INTERVAL_MINUTES: Record<IntradayInterval, number> = {
+  '15m': 15,
+  '1h': 60,
+}
+
+const MINUTE_MS = 60 * 1000
+
+/** Start of the bucket a timestamp falls in, aligned to UTC */
+export function bucketStart(timestamp: string, interval: IntradayInterval): string {
+  const size = INTRADAY_INTERVAL_MINUTES[interval] * MINUTE_MS
+  return new Date(Math.floor(Date.parse(timestamp) / size) * size).toISOString()
+}
+
+/**
+ * OHLCV bars for every bucket with at least one tick, oldest first. Ticks may arrive
+ * in any order; open and close follow tick time.
+ */
+export function aggregateTicks(ticks: MarketTick[], interval: IntradayInterval): IntradayBar[] {
+  const sorted = ticks
+    .filter((tick) => tick.price > 0 && !Number.isNaN(Date.parse(tick.timestamp)))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+
+  const bars: IntradayBar[] = []
+
+  for (const tick of sorted) {
+    const start = bucketStart(tick.timestamp, interval)
+    const current = bars[bars.length - 1]
+
+    if (!current || current.bucketStart !== start) {
+      bars.push({
+        interval,
+        bucketStart: start,
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: tick.volume,
+        tickCount: 1,
+      })
+      continue
+    }
+
+    current.high = Math.max(current.high, tick.price)
+    current.low = Math.min(current.low, tick.price)
+    current.close = tick.price
+    current.volume += tick.volume
+    current.tickCount++
+  }
+
+  return bars
+}
\ No newline at end of file
@@ -0,0 +1,371 @@
+/**
+ * Notification Dispatcher
+ * Delivers triggered alerts over email (SMTP), signed webhooks and the in-app inbox,
+ * retrying each channel with exponential backoff and reporting every attempt.
+ *
+ * Kept free of Deno-only APIs so it can be exercised with stand-in transports.
+ */
+
+export type NotificationChannelType = 'email' | 'webhook' | 'in_app'
+
+export type Severity = 'low' | 'medium' | 'high'
+
+export interface AlertNotification {
+  alertId: string
+  userId: string
+  symbol: string
+  message: string
+  severity: Severity
+  observedValue: number
+  triggeredAt: string
+}
+
+export interface NotificationPreferences {
+  minSeverity: Severity
+  channels: {
+    email: { enabled: boolean; address?: string }
+    webhook: { enabled: boolean; url?: string; secret?: string }
+    in_app: { enabled: boolean }
+  }
+}
+
+export interface NotificationRecipient {
+  userId: string
+  email?: string
+}
+
+export interface NotificationChannel {
+  type: NotificationChannelType
+  send(
+    notification: AlertNotification,
+    preferences: NotificationPreferences,
+    recipient: NotificationRecipient
+  ): Promise<void>
+}
+
+export interface DeliveryAttempt {
+  alertId: string
+  userId: string
+  channel: NotificationChannelType
+  attempt: number
+  status: 'sent' | 'failed'
+  error?: string
+  attemptedAt: string
+}
+
+export interface DeliveryResult {
+  channel: NotificationChannelType
+  delivered: boolean
+  attempts: number
+  error?: string
+}
+
+export interface DispatcherOptions {
+  maxAttempts?: number
+  baseDelayMs?: number
+  onAttempt?: (attempt: DeliveryAttempt) => Promise<void> | void
+  sleep?: (ms: number) => Promise<void>
+}
+
+export interface WebhookOptions {
+  // Abort a request that has not answered within this many milliseconds
+  timeoutMs?: number
+  // Addresses a hostname resolves to, so names pointing at private hosts are refused too
+  resolveHost?: (hostname: string) => Promise<string[]>
+}
+
+export interface MailTransport {
+  sendMail(message: { from: string; to: string; subject: string; text: string }): Promise<unknown>
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 }
+
+export const WEBHOOK_TIMEOUT_MS = 5000
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  minSeverity: 'low',
+  channels: {
+    email: { enabled: false },
+    webhook: { enabled: false },
+    in_app: { enabled: true }
+  }
+}
+
+/**
+ * Read notification settings from user_profiles.preferences.notifications,
+ * filling anything missing from the defaults
+ */
+export function resolvePreferences(preferences: unknown): NotificationPreferences {
+  const raw = (preferences as { notifications?: Partial<NotificationPreferences> } | null)?.notifications
+  const defaults = DEFAULT_NOTIFICATION_PREFERENCES
+
+  return {
+    minSeverity: raw?.minSeverity && raw.minSeverity in SEVERITY_RANK ? raw.minSeverity : defaults.minSeverity,
+    channels: {
+      email: { ...defaults.channels.email, ...raw?.channels?.email },
+      webhook: { ...defaults.channels.webhook, ...raw?.channels?.webhook },
+      in_app: { ...defaults.channels.in_app, ...raw?.channels?.in_app }
+    }
+  }
+}
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null
+  const octets = parts.map(Number)
+  return octets.every((octet) => octet <= 255) ? octets : null
+}
+
+/**
+ * True for loopback, private, link-local, carrier-grade NAT, multicast and unspecified
+ * addresses, IPv4 or IPv6 (including IPv4-mapped IPv6)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase()
+
+  const ipv4 = parseIpv4(host)
+  if (ipv4) {
+    const [a, b] = ipv4
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+  }
+
+  if (!host.includes(':')) return false
+
+  const mapped = host.match(/^::ffff:(.+)$/)
+  if (mapped) {
+    const tail = mapped[1]
+    if (parseIpv4(tail)) return isPrivateAddress(tail)
+    const groups = tail.split(':').map((group) => parseInt(group, 16))
+    if (groups.length === 2 && groups.every((group) => group >= 0 && group <= 0xffff)) {
+      return isPrivateAddress(`${groups[0] >> 8}.${groups[0] & 255}.${groups[1] >> 8}.${groups[1] & 255}`)
+    }
+  }
+
+  return host === '::' || host === '::1' ||
+    /^f[cd][0-9a-f]{0,2}:/.test(host) ||
+    /^fe[89ab][0-9a-f]?:/.test(host) ||
+    /^ff[0-9a-f]{0,2}:/.test(host)
+}
+
+/**
+ * Why a webhook URL is refused, or null when it may be called: only https URLs to
+ * public hosts, since the request leaves from the service-role function
+ */
+export function webhookUrlError(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'Webhook URL is not a valid URL'
+  }
+
+  if (parsed.protocol !== 'https:') return 'Webhook URL must use https'
+
+  const hostname = parsed.hostname.toLowerCase()
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return 'Webhook URL must point to a public host'
+  }
+  return null
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded
+ */
+export async function signPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return toHex(signature)
+}
+
+export function createEmailChannel(transport: MailTransport, from: string): NotificationChannel {
+  return {
+    type: 'email',
+    async send(notification, preferences, recipient) {
+      const to = preferences.channels.email.address || recipient.email
+      if (!to) throw new Error('No email address for recipient')
+
+      await transport.sendMail({
+        from,
+        to,
+        subject: `[${notification.severity.toUpperCase()}] ${notification.symbol} alert triggered`,
+        text: `${notification.message}\n\nTriggered at ${notification.triggeredAt}`
+      })
+    }
+  }
+}
+
+/**
+ * POSTs the notification as JSON. When the user configured a secret the request
+ * carries X-Alert-Timestamp and X-Alert-Signature (sha256=<hex>) headers. URLs that
+ * webhookUrlError refuses, or whose host resolves to a private address, are not
+ * called; redirects are not followed and slow hosts are cut off after the timeout.
+ */
+export function createWebhookChannel(
+  fetchImpl: typeof fetch = fetch,
+  options: WebhookOptions = {}
+): NotificationChannel {
+  const timeoutMs = options.timeoutMs ?? WEBHOOK_TIMEOUT_MS
+
+  return {
+    type: 'webhook',
+    async send(notification, preferences) {
+      const { url, secret } = preferences.channels.webhook
+      if (!url) throw new Error('No webhook URL configured')
+
+      const urlError = webhookUrlError(url)
+      if (urlError) throw new Error(urlError)
+
+      // Address literals were checked above; names are checked against what they resolve to
+      const hostname = new URL(url).hostname
+      if (options.resolveHost && !parseIpv4(hostname) && !hostname.startsWith('[')) {
+        const addresses = await options.resolveHost(hostname)
+        if (addresses.length === 0 || addresses.some((address) => isPrivateAddress(address))) {
+          throw new Error('Webhook URL must point to a public host')
+        }
+      }
+
+      const body = JSON.stringify({ type: 'alert.triggered', data: notification })
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Alert-Timestamp': timestamp
+      }
+      if (secret) {
+        headers['X-Alert-Signature'] = `sha256=${await signPayload(secret, timestamp, body)}`
+      }
+
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs)
+      })
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`)
+      }
+    }
+  }
+}
+
+export function createInAppChannel(
+  insert: (row: { user_id: string; alert_id: string; title: string; body: string; severity: Severity }) => Promise<void>
+): NotificationChannel {
+  return {
+    type: 'in_app',
+    async send(notification) {
+      await insert({
+        user_id: notification.userId,
+        alert_id: notification.alertId,
+        title: `${notification.symbol} alert triggered`,
+        body: notification.message,
+        severity: notification.severity
+      })
+    }
+  }
+}
+
+export class NotificationDispatcher {
+  private channels: Map<NotificationChannelType, NotificationChannel>
+  private maxAttempts: number
+  private baseDelayMs: number
+  private onAttempt?: DispatcherOptions['onAttempt']
+  private sleep: (ms: number) => Promise<void>
+
+  constructor(channels: NotificationChannel[], options: DispatcherOptions = {}) {
+    this.channels = new Map(channels.map((channel) => [channel.type, channel]))
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.baseDelayMs = options.baseDelayMs ?? 500
+    this.onAttempt = options.onAttempt
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)))
+  }
+
+  /**
+   * Send to every channel the user enabled, if the alert meets their minimum severity
+   */
+  async dispatch(
+    notification: AlertNotification,
+    preferences: NotificationPreferences,
+    recipient: NotificationRecipient
+  ): Promise<DeliveryResult[]> {
+    if (SEVERITY_RANK[notification.severity] < SEVERITY_RANK[preferences.minSeverity]) {
+      return []
+    }
+
+    const enabled = (Object.keys(preferences.channels) as NotificationChannelType[])
+      .filter((type) => preferences.channels[type].enabled && this.channels.has(type))
+
+    return Promise.all(
+      enabled.map((type) => this.deliver(this.channels.get(type)!, notification, preferences, recipient))
+    )
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    notification: AlertNotification,
+    preferences: NotificationPreferences,
+    recipient: NotificationRecipient
+  ): Promise<DeliveryResult> {
+    let lastError = ''
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      try {
+        await channel.send(notification, preferences, recipient)
+        await this.record(channel.type, notification, attempt, 'sent')
+        return { channel: channel.type, delivered: true, attempts: attempt }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error)
+        await this.record(channel.type, notification, attempt, 'failed', lastError)
+
+        if (attempt < this.maxAttempts) {
+          // Exponential backoff: base, 2x base, 4x base, ...
+          await this.sleep(this.baseDelayMs * Math.pow(2, attempt - 1))
+        }
+      }
+    }
+
+    return { channel: channel.type, delivered: false, attempts: this.maxAttempts, error: lastError }
+  }
+
+  private async record(
+    channel: NotificationChannelType,
+    notification: AlertNotification,
+    attempt: number,
+    status: 'sent' | 'failed',
+    error?: string
+  ) {
+    if (!this.onAttempt) return
+
+    try {
+      await this.onAttempt({
+        alertId: notification.alertId,
+        userId: notification.userId,
+        channel,
+        attempt,
+        status,
+        error,
+        attemptedAt: new Date().toISOString()
+      })
+    } catch (logError) {
+      // A failing delivery log must not block delivery itself
+      console.error('Error recording notification delivery:', logError)
+    }
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * Prediction Scoring
+ * Resolves stored price, volatility and trend predictions against realized closes and rolls
+ * the resolved forecasts up into per-model, per-horizon scorecards (MAPE, RMSE, directional
+ * accuracy), with precision, recall and F1 for the trend classifiers.
+ *
+ * Kept free of Deno-only APIs so it can be exercised directly from the test suite.
+ */
+
+export interface DailyClose {
+  date: string
+  close: number
+}
+
+// Close of the intraday bar starting at `start`
+export interface IntradayClose {
+  start: string
+  close: number
+}
+
+export interface PendingPrediction {
+  id: string
+  symbolId: string
+  predictedValue: number
+  createdAt: string
+  targetDate: string
+}
+
+export interface PredictionResolution {
+  id: string
+  actualValue: number
+  accuracyScore: number
+  baseValue: number | null
+}
+
+export interface ResolvedForecast {
+  symbolId: string
+  modelVersion: string
+  horizonDays: number
+  predicted: number
+  actual: number
+  baseValue: number | null
+  targetDate: string
+}
+
+export interface ForecastScore {
+  sampleSize: number
+  mape: number
+  rmse: number
+  directionalAccuracy: number | null
+  meanAccuracy: number
+}
+
+export interface Scorecard extends ForecastScore {
+  modelVersion: string
+  // null for the roll-up across every symbol
+  symbolId: string | null
+  horizonDays: number
+  windowDays: number
+  computedAt: string
+}
+
+export const SCORECARD_WINDOWS = [30, 90]
+
+// Days past its target a prediction may wait for the bars to settle it
+export const RESOLUTION_GRACE_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const UNIT_DAYS: Record<string, number> = {
+  min: 1 / 1440,
+  minute: 1 / 1440,
+  h: 1 / 24,
+  hour: 1 / 24,
+  d: 1,
+  day: 1,
+  w: 7,
+  week: 7,
+  month: 30,
+}
+
+const toDay = (timestamp: string): string => timestamp.split('T')[0]
+
+/**
+ * Horizon in whole days from a stored time_horizon such as "3 days", "1 week" or "5d".
+ * Sub-day horizons round up to one day; unreadable values return null.
+ */
+export function parseHorizonDays(timeHorizon: string): number | null {
+  const match = timeHorizon.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+?)s?$/)
+  if (!match) return null
+
+  const unit = UNIT_DAYS[match[2]]
+  if (unit === undefined) return null
+
+  return Math.max(1, Math.ceil(parseFloat(match[1]) * unit))
+}
+
+/**
+ * Whether a stored time_horizon is shorter than a day ("15 minutes", "2 hours"). Those
+ * settle against intraday bars and stay out of the day-horizon scorecards.
+ */
+export function isIntradayHorizon(timeHorizon: string): boolean {
+  const match = timeHorizon.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+?)s?$/)
+  if (!match) return false
+
+  const unit = UNIT_DAYS[match[2]]
+  return unit !== undefined && parseFloat(match[1]) * unit < 1
+}
+
+/** Same score the client has always shown: 1 minus the absolute percentage error, floored at 0 */
+export function accuracyScore(predicted: number, actual: number): number {
+  if (actual === 0) return 0
+  return Math.max(0, 1 - Math.abs(predicted - actual) / Math.abs(actual))
+}
+
+/**
+ * Latest close on or before a day. Closes must be sorted oldest first.
+ */
+export function closeOnOrBefore(closes: DailyClose[], day: string): DailyClose | null {
+  let found: DailyClose | null = null
+  for (const bar of closes) {
+    if (bar.date > day) break
+    found = bar
+  }
+  return found
+}
+
+/**
+ * Resolve a prediction once its target date has a close. The actual is the last close
+ * on or before the target day (so weekend targets settle on Friday), and it must come
+ * after the prediction was made. The base is the last close known when it was made,
+ * used for directional accuracy.
+ */
+export function resolvePrediction(prediction: PendingPrediction, closes: DailyClose[]): PredictionResolution | null {
+  const madeOn = toDay(prediction.createdAt)
+  const actual = closeOnOrBefore(closes, toDay(prediction.targetDate))
+  if (!actual || actual.date <= madeOn) return null
+
+  const previousDay = new Date(Date.parse(`${madeOn}T00:00:00Z`) - DAY_MS).toISOString()
+  const base = closeOnOrBefore(closes, toDay(previousDay))
+
+  return {
+    id: prediction.id,
+    actualValue: actual.close,
+    accuracyScore: accuracyScore(prediction.predictedValue, actual.close),
+    baseValue: base ? base.close : null,
+  }
+}
+
+/**
+ * Whether a prediction that could not be resolved should stop being retried: the bars
+ * for its target are long overdue, as for a symbol with no stored history.
+ */
+export function isUnresolvable(prediction: Pick<PendingPrediction, 'targetDate'>, asOf: Date): boolean {
+  return asOf.getTime() - Date.parse(prediction.targetDate) > RESOLUTION_GRACE_DAYS * DAY_MS
+}
+
+/**
+ * Error metrics over resolved forecasts. MAPE and mean accuracy are fractions; direction
+ * only counts forecasts with a known base that called a move.
+ */
+export function scoreForecasts(forecasts: ResolvedForecast[]): ForecastScore {
+  if (forecasts.length === 0) {
+    return { sampleSize: 0, mape: 0, rmse: 0, directionalAccuracy: null, meanAccuracy: 0 }
+  }
+
+  let absolutePercent = 0
+  let squared = 0
+  let accuracy = 0
+  let directional = 0
+  let hits = 0
+
+  for (const forecast of forecasts) {
+    const error = forecast.predicted - forecast.actual
+    absolutePercent += forecast.actual !== 0 ? Math.abs(error / forecast.actual) : 0
+    squared += error * error
+    accuracy += accuracyScore(forecast.predicted, forecast.actual)
+
+    if (forecast.baseValue !== null && forecast.predicted !== forecast.baseValue) {
+      directional++
+      const calledUp = forecast.predicted > forecast.baseValue
+      const wentUp = forecast.actual > forecast.baseValue
+      if (calledUp === wentUp) hits++
+    }
+  }
+
+  return {
+    sampleSize: forecasts.length,
+    mape: absolutePercent / forecasts.length,
+    rmse: Math.sqrt(squared / forecasts.length),
+    directionalAccuracy: directional > 0 ? hits / directional : null,
+    meanAccuracy: accuracy / forecasts.length,
+  }
+}
+
+const isInWindow = (forecast: { targetDate: string }, asOf: Date, windowDays: number): boolean => {
+  const target = Date.parse(forecast.targetDate)
+  return target > asOf.getTime() - windowDays * DAY_MS && target <= asOf.getTime()
+}
+
+/**
+ * Rolling scorecards for each window: one per model, symbol and horizon, plus a roll-up
+ * per model and horizon across all symbols. A forecast falls in a window when its
+ * target date is within the last windowDays of asOf.
+ */
+export function buildScorecards(
+  forecasts: ResolvedForecast[],
+  asOf: Date,
+  windows: number[] = SCORECARD_WINDOWS
+): Scorecard[] {
+  const scorecards: Scorecard[] = []
+  const computedAt = asOf.toISOString()
+
+  for (const windowDays of windows) {
+    const inWindow = forecasts.filter(forecast => isInWindow(forecast, asOf, windowDays))
+
+    const groups = new Map<string, { key: Pick<Scorecard, 'modelVersion' | 'symbolId' | 'horizonDays'>; forecasts: ResolvedForecast[] }>()
+    const add = (symbolId: string | null, forecast: ResolvedForecast) => {
+      const id = `${forecast.modelVersion}|${symbolId ?? '*'}|${forecast.horizonDays}`
+      if (!groups.has(id)) {
+        groups.set(id, {
+          key: { modelVersion: forecast.modelVersion, symbolId, horizonDays: forecast.horizonDays },
+          forecasts: [],
+        })
+      }
+      groups.get(id)!.forecasts.push(forecast)
+    }
+
+    for (const forecast of inWindow) {
+      add(forecast.symbolId, forecast)
+      add(null, forecast)
+    }
+
+    for (const { key, forecasts: group } of groups.values()) {
+      scorecards.push({ ...key, windowDays, computedAt, ...scoreForecasts(group) })
+    }
+  }
+
+  return scorecards
+}
+
+/**
+ * One score per model across every symbol and horizon with a target date in the
+ * window, used as the model's measured metrics in the registry.
+ */
+export function summarizeModels(
+  forecasts: ResolvedForecast[],
+  asOf: Date,
+  windowDays: number = SCORECARD_WINDOWS[0]
+): Map<string, ForecastScore> {
+  const byModel = new Map<string, ResolvedForecast[]>()
+
+  for (const forecast of forecasts) {
+    if (!isInWindow(forecast, asOf, windowDays)) continue
+
+    if (!byModel.has(forecast.modelVersion)) byModel.set(forecast.modelVersion, [])
+    byModel.get(forecast.modelVersion)!.push(forecast)
+  }
+
+  const summaries = new Map<string, ForecastScore>()
+  for (const [modelVersion, group] of byModel) {
+    summaries.set(modelVersion, scoreForecasts(group))
+  }
+  return summaries
+}
+
+/**
+ * Resolve an intraday prediction against bar closes (sorted oldest first). The actual
+ * is the close of the last bar starting before the target, which must have started
+ * after the prediction was made; the base is the bar in progress when it was made.
+ */
+export function resolveIntradayPrediction(prediction: PendingPrediction, bars: IntradayClose[]): PredictionResolution | null {
+  const madeAt = Date.parse(prediction.createdAt)
+  const target = Date.parse(prediction.targetDate)
+
+  let actual: IntradayClose | null = null
+  let base: IntradayClose | null = null
+  for (const bar of bars) {
+    const start = Date.parse(bar.start)
+    if (start >= target) break
+    if (start <= madeAt) base = bar
+    actual = bar
+  }
+
+  if (!actual || Date.parse(actual.start) <= madeAt) return null
+
+  return {
+    id: prediction.id,
+    actualValue: actual.close,
+    accuracyScore: accuracyScore(prediction.predictedValue, actual.close),
+    baseValue: base ? base.close : null,
+  }
+}
+
+/**
+ * Resolve a volatility prediction, stored as volatility per session, against the root
+ * mean square log return of the daily closes after the base close (the last one known
+ * when it was made) up to the last close on or before the target day.
+ */
+export function resolveVolatilityPrediction(prediction: PendingPrediction, closes: DailyClose[]): PredictionResolution | null {
+  const madeOn = toDay(prediction.createdAt)
+  const targetDay = toDay(prediction.targetDate)
+  const actual = closeOnOrBefore(closes, targetDay)
+  if (!actual || actual.date <= madeOn) return null
+
+  const previousDay = new Date(Date.parse(`${madeOn}T00:00:00Z`) - DAY_MS).toISOString()
+  const base = closeOnOrBefore(closes, toDay(previousDay))
+  if (!base) return null
+
+  const window = closes.filter((bar) => bar.date >= base.date && bar.date <= actual.date)
+  let squared = 0
+  for (let i = 1; i < window.length; i++) {
+    squared += Math.log(window[i].close / window[i - 1].close) ** 2
+  }
+  const realized = Math.sqrt(squared / (window.length - 1))
+
+  return {
+    id: prediction.id,
+    actualValue: realized,
+    accuracyScore: accuracyScore(prediction.predictedValue, realized),
+    baseValue: null,
+  }
+}
+
+// Trend calls are stored as -1 (down), 0 (flat) or 1 (up)
+export type TrendCall = -1 | 0 | 1
+
+export interface ClassifiedForecast {
+  modelVersion: string
+  predicted: number
+  actual: number
+  targetDate: string
+}
+
+export interface ClassificationScore {
+  sampleSize: number
+  accuracy: number
+  // Macro averages over the directions that were called or happened
+  precision: number
+  recall: number
+  f1Score: number
+}
+
+/**
+ * Direction of a log return, flat while it stays within the threshold. Matches the
+ * labelling the trend classifier was trained on.
+ */
+export function trendCall(logReturn: number, flatThreshold: number): TrendCall {
+  if (Math.abs(logReturn) <= flatThreshold) return 0
+  return logReturn > 0 ? 1 : -1
+}
+
+/**
+ * Resolve a trend prediction: the realized direction from the base close (the last
+ * one known when it was made) to the last close on or before the target day. The
+ * accuracy score is 1 for a correct call and 0 otherwise.
+ */
+export function resolveTrendPrediction(
+  prediction: PendingPrediction,
+  closes: DailyClose[],
+  flatThreshold: number
+): PredictionResolution | null {
+  const madeOn = toDay(prediction.createdAt)
+  const actual = closeOnOrBefore(closes, toDay(prediction.targetDate))
+  if (!actual || actual.date <= madeOn) return null
+
+  const previousDay = new Date(Date.parse(`${madeOn}T00:00:00Z`) - DAY_MS).toISOString()
+  const base = closeOnOrBefore(closes, toDay(previousDay))
+  if (!base) return null
+
+  const call = trendCall(Math.log(actual.close / base.close), flatThreshold)
+
+  return {
+    id: prediction.id,
+    actualValue: call,
+    accuracyScore: call === prediction.predictedValue ? 1 : 0,
+    baseValue: base.close,
+  }
+}
+
+/**
+ * Accuracy plus macro-averaged precision, recall and F1 over the directions that
+ * were either called or realized. A direction never called has precision 0.
+ */
+export function scoreClassifications(forecasts: ClassifiedForecast[]): ClassificationScore {
+  if (forecasts.length === 0) {
+    return { sampleSize: 0, accuracy: 0, precision: 0, recall: 0, f1Score: 0 }
+  }
+
+  const classes = [...new Set(forecasts.flatMap((forecast) => [forecast.predicted, forecast.actual]))]
+  let precision = 0
+  let recall = 0
+  let f1Score = 0
+
+  for (const label of classes) {
+    const truePositives = forecasts.filter((f) => f.predicted === label && f.actual === label).length
+    const called = forecasts.filter((f) => f.predicted === label).length
+    const happened = forecasts.filter((f) => f.actual === label).length
+
+    const classPrecision = called > 0 ? truePositives / called : 0
+    const classRecall = happened > 0 ? truePositives / happened : 0
+    precision += classPrecision
+    recall += classRecall
+    f1Score += classPrecision + classRecall > 0 ? 2 * classPrecision * classRecall / (classPrecision + classRecall) : 0
+  }
+
+  return {
+    sampleSize: forecasts.length,
+    accuracy: forecasts.filter((f) => f.predicted === f.actual).length / forecasts.length,
+    precision: precision / classes.length,
+    recall: recall / classes.length,
+    f1Score: f1Score / classes.length,
+  }
+}
+
+/**
+ * One classification score per trend model over the forecasts with a target date in
+ * the window, used as the model's measured metrics in the registry
+ */
+export function summarizeClassifiers(
+  forecasts: ClassifiedForecast[],
+  asOf: Date,
+  windowDays: number = SCORECARD_WINDOWS[0]
+): Map<string, ClassificationScore> {
+  const byModel = new Map<string, ClassifiedForecast[]>()
+
+  for (const forecast of forecasts) {
+    if (!isInWindow(forecast, asOf, windowDays)) continue
+
+    if (!byModel.has(forecast.modelVersion)) byModel.set(forecast.modelVersion, [])
+    byModel.get(forecast.modelVersion)!.push(forecast)
+  }
+
+  const summaries = new Map<string, ClassificationScore>()
+  for (const [modelVersion, group] of byModel) {
+    summaries.set(modelVersion, scoreClassifications(group))
+  }
+  return summaries
+}
\ No newline at end of file
@@ -1,5 +1,27 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import nodemailer from 'npm:nodemailer@6'
+import {
+  AlertNotification,
+  NotificationDispatcher,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationRecipient,
+  createEmailChannel,
+  createWebhookChannel,
+  createInAppChannel,
+  resolvePreferences,
+} from '../_shared/notifications.ts'
+import {
+  METRIC_WINDOW,
+  MetricContext,
+  computeMetric,
+  evaluateRule,
+  formatMetric,
+  getRequiredInputs,
+  isConditionMet,
+  isCoolingDown,
+} from '../_shared/alertEvaluation.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -80,59 +102,259 @@ serve(async (req) => {
   }
 })
 
+// Notifications sent at a time once every alert is evaluated; each webhook call is
+// bounded by its timeout, so a slow endpoint only holds up its own batch
+const DISPATCH_CONCURRENCY = 5
+
+interface PendingNotification {
+  notification: AlertNotification
+  preferences: NotificationPreferences
+  recipient: NotificationRecipient
+}
+
 async function processAlerts(supabaseClient: any) {
   try {
-    // Get all active, non-triggered alerts with current market data
+    // Evaluate every active alert, including triggered ones that may re-arm
     const { data: alerts, error } = await supabaseClient
       .from('user_alerts')
       .select(`
         *,
-        market_symbols!inner(symbol),
-        market_data!inner(price, timestamp)
+        market_symbols!inner(symbol)
       `)
       .eq('is_active', true)
-      .eq('is_triggered', false)
 
     if (error) throw error
 
+    const contexts = await loadMetricContexts(supabaseClient, alerts)
+    const dispatcher = createDispatcher(supabaseClient)
+    const profiles = new Map<string, any>()
+    const pending: PendingNotification[] = []
+    const now = new Date()
+
     for (const alert of alerts) {
-      const currentPrice = parseFloat(alert.market_data.price)
+      const context = contexts.get(alert.symbol_id)
+      if (!context) continue
+
+      // Each alert type is compared against its own metric; composite rules observe 1 or 0
+      const currentValue = alert.alert_type === 'composite'
+        ? (alert.rule && evaluateRule(alert.rule, context) ? 1 : 0)
+        : computeMetric(alert.alert_type, context)
+      if (currentValue === null) continue
+
       const targetValue = parseFloat(alert.target_value)
-      let shouldTrigger = false
-
-      // Check alert conditions
-      switch (alert.condition_type) {
-        case 'above':
-          shouldTrigger = currentPrice > targetValue
-          break
-        case 'below':
-          shouldTrigger = currentPrice < targetValue
-          break
-        case 'crosses_above':
-          // For crosses, we'd need to check previous values
-          shouldTrigger = currentPrice > targetValue
-          break
-        case 'crosses_below':
-          shouldTrigger = currentPrice < targetValue
-          break
-      }
+      const previousValue = alert.last_observed_value != null
+        ? parseFloat(alert.last_observed_value)
+        : null
+
+      const conditionMet = isConditionMet(alert.condition_type, targetValue, currentValue, previousValue)
+      const coolingDown = isCoolingDown(alert, now)
+      const rearmed = alert.is_triggered && !coolingDown
+
+      await supabaseClient
+        .from('user_alerts')
+        .update({
+          last_observed_value: currentValue,
+          last_evaluated_at: now.toISOString(),
+          ...(rearmed ? { is_triggered: false } : {})
+        })
+        .eq('id', alert.id)
+
+      if (conditionMet && !coolingDown) {
+        const triggeredAt = now.toISOString()
 
-      if (shouldTrigger) {
-        // Trigger the alert
         await supabaseClient
           .from('user_alerts')
           .update({
             is_triggered: true,
-            current_value: currentPrice,
-            triggered_at: new Date().toISOString()
+            current_value: currentValue,
+            triggered_at: triggeredAt
           })
           .eq('id', alert.id)
 
-        // Here you could also send notifications (email, push, etc.)
+        const triggeredMessage = `${alert.market_symbols.symbol}: ${alert.message} (now ${formatMetric(alert.alert_type, currentValue)})`
+
+        await supabaseClient
+          .from('alert_history')
+          .insert({
+            alert_id: alert.id,
+            user_id: alert.user_id,
+            symbol_id: alert.symbol_id,
+            condition_type: alert.condition_type,
+            target_value: targetValue,
+            previous_value: previousValue,
+            observed_value: currentValue,
+            message: triggeredMessage,
+            severity: alert.severity,
+            triggered_at: triggeredAt
+          })
+
         console.log(`Alert triggered for ${alert.market_symbols.symbol}: ${alert.message}`)
+
+        // Notify over the channels the user enabled
+        if (!profiles.has(alert.user_id)) {
+          const { data: profile } = await supabaseClient
+            .from('user_profiles')
+            .select('email, preferences')
+            .eq('id', alert.user_id)
+            .maybeSingle()
+          profiles.set(alert.user_id, profile)
+        }
+        const profile = profiles.get(alert.user_id)
+
+        pending.push({
+          notification: {
+            alertId: alert.id,
+            userId: alert.user_id,
+            symbol: alert.market_symbols.symbol,
+            message: triggeredMessage,
+            severity: alert.severity,
+            observedValue: currentValue,
+            triggeredAt,
+          },
+          preferences: resolvePreferences(profile?.preferences),
+          recipient: { userId: alert.user_id, email: profile?.email },
+        })
       }
     }
+
+    for (let i = 0; i < pending.length; i += DISPATCH_CONCURRENCY) {
+      await Promise.all(pending.slice(i, i + DISPATCH_CONCURRENCY).map(({ notification, preferences, recipient }) =>
+        dispatcher.dispatch(notification, preferences, recipient)))
+    }
   } catch (error) {
     console.error('Error processing alerts:', error)
   }
-}</parameter>
\ No newline at end of file
+}
+
+// A and AAAA records of a webhook host; lookups that fail count as no addresses
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ])
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []))
+}
+
+// Email is only offered when SMTP is configured; for local development point
+// SMTP_HOST/SMTP_PORT at a mail catcher such as Inbucket or MailHog
+function createDispatcher(supabaseClient: any) {
+  const channels: NotificationChannel[] = [
+    createWebhookChannel(fetch, { resolveHost }),
+    createInAppChannel(async (row) => {
+      const { error } = await supabaseClient.from('notifications').insert(row)
+      if (error) throw error
+    }),
+  ]
+
+  const smtpHost = Deno.env.get('SMTP_HOST')
+  if (smtpHost) {
+    const port = parseInt(Deno.env.get('SMTP_PORT') ?? '587')
+    const transport = nodemailer.createTransport({
+      host: smtpHost,
+      port,
+      secure: port === 465,
+      auth: Deno.env.get('SMTP_USER')
+        ? { user: Deno.env.get('SMTP_USER'), pass: Deno.env.get('SMTP_PASSWORD') }
+        : undefined,
+    })
+    channels.push(createEmailChannel(transport, Deno.env.get('SMTP_FROM') ?? 'alerts@localhost'))
+  }
+
+  return new NotificationDispatcher(channels, {
+    onAttempt: async (attempt) => {
+      await supabaseClient.from('notification_deliveries').insert({
+        user_id: attempt.userId,
+        alert_id: attempt.alertId,
+        channel: attempt.channel,
+        attempt: attempt.attempt,
+        status: attempt.status,
+        error: attempt.error ?? null,
+        attempted_at: attempt.attemptedAt,
+      })
+    },
+  })
+}
+
+async function loadMetricContexts(supabaseClient: any, alerts: any[]) {
+  const contexts = new Map<string, MetricContext>()
+  const symbolIds = [...new Set(alerts.map((alert: any) => alert.symbol_id))]
+  if (symbolIds.length === 0) return contexts
+
+  // One latest tick per symbol, so busy symbols cannot crowd others out of the row cap
+  const results = await Promise.all(symbolIds.map((symbolId) =>
+    supabaseClient
+      .from('market_data')
+      .select('symbol_id, price, volume, timestamp')
+      .eq('symbol_id', symbolId)
+      .order('timestamp', { ascending: false })
+      .limit(1)
+  ))
+
+  for (const { data: latest, error } of results) {
+    if (error) throw error
+
+    const [row] = latest || []
+    if (row) {
+      contexts.set(row.symbol_id, {
+        price: parseFloat(row.price),
+        volume: row.volume != null ? parseInt(row.volume) : null,
+        closes: [],
+        volumes: [],
+        analysis: null,
+        indicators: null
+      })
+    }
+  }
+
+  for (const symbolId of symbolIds) {
+    const context = contexts.get(symbolId)
+    if (!context) continue
+
+    const types = new Set<string>()
+    alerts
+      .filter((alert: any) => alert.symbol_id === symbolId)
+      .forEach((alert: any) => getRequiredInputs(alert).forEach((input) => types.add(input)))
+
+    if (types.has('volume') || types.has('trend') || types.has('volatility')) {
+      const { data: bars, error: barsError } = await supabaseClient
+        .from('historical_data')
+        .select('close_price, volume, date')
+        .eq('symbol_id', symbolId)
+        .order('date', { ascending: false })
+        .limit(types.has('trend') ? 50 : METRIC_WINDOW + 1)
+
+      if (barsError) throw barsError
+
+      const ordered = [...bars].reverse()
+      context.closes = ordered.map((bar: any) => parseFloat(bar.close_price))
+      context.volumes = ordered.map((bar: any) => parseInt(bar.volume))
+    }
+
+    if (types.has('trend')) {
+      const { data: analysis } = await supabaseClient
+        .from('market_analysis')
+        .select('trend_direction, strength_score')
+        .eq('symbol_id', symbolId)
+        .eq('analysis_type', 'technical')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      context.analysis = analysis
+    }
+
+    if (types.has('indicators')) {
+      const { data: indicators } = await supabaseClient
+        .from('technical_indicators')
+        .select('*')
+        .eq('symbol_id', symbolId)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      context.indicators = indicators
+    }
+  }
+
+  return contexts
+}
\ No newline at end of file
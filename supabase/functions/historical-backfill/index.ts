@@ -0,0 +1,316 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  BarInterval,
+  DateGap,
+  INITIAL_BACKFILL_DAYS,
+  OhlcvBar,
+  TradingCalendar,
+  alphaVantageQuery,
+  calendarFor,
+  findGaps,
+  BAR_INTERVALS,
+  isRateLimited,
+  outputSize,
+  parseAlphaVantageSeries,
+  parseIntervals,
+  resumeFrom,
+  unfillableDays,
+} from '../_shared/historicalBackfill.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const ALPHA_VANTAGE_URL = 'https://www.alphavantage.co/query'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface BackfillRequest {
+  symbols?: string[]
+  intervals?: unknown
+}
+
+interface BackfillResult {
+  symbol: string
+  interval: BarInterval
+  from?: string
+  upserted: number
+  // Trading days still missing after the run, e.g. sessions the provider lacks
+  gaps: DateGap[]
+  // Trading days recorded this run as missing at the provider, skipped from now on
+  unfillable: number
+  error?: string
+}
+
+class RateLimitedError extends Error {}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (req.method === 'POST') {
+      const body: BackfillRequest = await req.json().catch(() => ({}))
+      const intervals = parseIntervals(body.intervals)
+      if (!intervals) {
+        return new Response(
+          JSON.stringify({ error: `intervals must be a list of ${BAR_INTERVALS.join(', ')}` }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400,
+          }
+        )
+      }
+
+      const apiKey = Deno.env.get('ALPHA_VANTAGE_API_KEY')
+      if (!apiKey) throw new Error('ALPHA_VANTAGE_API_KEY is not set')
+
+      let query = supabaseClient
+        .from('market_symbols')
+        .select('id, symbol, type')
+        .eq('is_active', true)
+        .order('symbol')
+      if (body.symbols?.length) query = query.in('symbol', body.symbols)
+
+      const { data: symbols, error } = await query
+      if (error) throw error
+
+      const today = new Date().toISOString().slice(0, 10)
+      const results: BackfillResult[] = []
+      const deferred: string[] = []
+
+      // Symbols run one after another; once the provider's quota is spent the rest
+      // wait for the next scheduled run
+      for (const row of symbols || []) {
+        const calendar = calendarFor(row.type)
+        if (!calendar) continue
+
+        if (deferred.length > 0) {
+          deferred.push(row.symbol)
+          continue
+        }
+
+        for (const interval of intervals) {
+          try {
+            results.push(interval === 'daily'
+              ? await backfillDaily(supabaseClient, apiKey, row, calendar, today)
+              : await backfillPeriod(supabaseClient, apiKey, row, calendar, interval, today))
+          } catch (error) {
+            if (error instanceof RateLimitedError) {
+              deferred.push(row.symbol)
+              break
+            }
+            console.error(`Error backfilling ${interval} bars for ${row.symbol}:`, error)
+            results.push({ symbol: row.symbol, interval, upserted: 0, gaps: [], unfillable: 0, error: error.message })
+          }
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, results, deferred }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 405,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
+
+async function fetchSeries(
+  apiKey: string,
+  symbol: string,
+  calendar: TradingCalendar,
+  interval: BarInterval,
+  size: 'compact' | 'full'
+): Promise<OhlcvBar[]> {
+  const params = new URLSearchParams({ ...alphaVantageQuery(symbol, calendar, interval, size), apikey: apiKey })
+  const response = await fetch(`${ALPHA_VANTAGE_URL}?${params}`)
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`)
+  }
+
+  const payload = await response.json()
+  if (isRateLimited(payload)) throw new RateLimitedError('Alpha Vantage rate limit reached')
+  return parseAlphaVantageSeries(payload)
+}
+
+/**
+ * Fetch daily bars from the latest stored session, reaching further back when stored
+ * sessions have gaps, and upsert them into historical_data. Sessions the provider has
+ * no bar for are recorded in historical_unfillable_dates so later runs stop refetching
+ * the same history for them.
+ */
+async function backfillDaily(
+  supabaseClient: any,
+  apiKey: string,
+  row: { id: string; symbol: string },
+  calendar: TradingCalendar,
+  today: string
+): Promise<BackfillResult> {
+  const windowStart = new Date(Date.parse(today) - INITIAL_BACKFILL_DAYS * DAY_MS).toISOString().slice(0, 10)
+
+  const { data: stored, error } = await supabaseClient
+    .from('historical_data')
+    .select('date')
+    .eq('symbol_id', row.id)
+    .gte('date', windowStart)
+    .order('date', { ascending: true })
+
+  if (error) throw error
+
+  const { data: missing, error: missingError } = await supabaseClient
+    .from('historical_unfillable_dates')
+    .select('date')
+    .eq('symbol_id', row.id)
+    .gte('date', windowStart)
+
+  if (missingError) throw missingError
+
+  const storedDates: string[] = (stored || []).map((bar: any) => bar.date)
+  const unfillableDates: string[] = (missing || []).map((day: any) => day.date)
+  const first = storedDates[0] ?? null
+  const latest = storedDates[storedDates.length - 1] ?? null
+
+  const earlierGaps = first && latest
+    ? findGaps([...storedDates, ...unfillableDates], first, latest, calendar)
+    : []
+  const resume = resumeFrom(latest, today)
+  const from = earlierGaps.length > 0 && earlierGaps[0].from < resume ? earlierGaps[0].from : resume
+
+  const series = await fetchSeries(apiKey, row.symbol, calendar, 'daily', outputSize(from, today, calendar))
+  const bars = series.filter((bar) => bar.date >= from && bar.date <= today)
+
+  if (bars.length > 0) {
+    const { error: upsertError } = await supabaseClient
+      .from('historical_data')
+      .upsert(
+        bars.map((bar) => ({
+          symbol_id: row.id,
+          date: bar.date,
+          open_price: bar.open,
+          high_price: bar.high,
+          low_price: bar.low,
+          close_price: bar.close,
+          volume: bar.volume,
+        })),
+        { onConflict: 'symbol_id,date' }
+      )
+
+    if (upsertError) throw upsertError
+  }
+
+  const allDates = [...storedDates, ...bars.map((bar) => bar.date)].sort()
+  const findRemaining = (known: string[]) => allDates.length > 0
+    ? findGaps([...allDates, ...known], allDates[0], allDates[allDates.length - 1], calendar)
+    : []
+
+  // Gaps the response should have covered are sessions the provider does not have
+  const providerLatest = series[series.length - 1]?.date
+  const newlyUnfillable = providerLatest
+    ? unfillableDays(findRemaining(unfillableDates), providerLatest, calendar).filter((day) => day >= from)
+    : []
+
+  if (newlyUnfillable.length > 0) {
+    const { error: recordError } = await supabaseClient
+      .from('historical_unfillable_dates')
+      .upsert(
+        newlyUnfillable.map((date) => ({ symbol_id: row.id, date })),
+        { onConflict: 'symbol_id,date', ignoreDuplicates: true }
+      )
+
+    if (recordError) throw recordError
+  }
+
+  const gaps = findRemaining([...unfillableDates, ...newlyUnfillable])
+
+  return { symbol: row.symbol, interval: 'daily', from, upserted: bars.length, gaps, unfillable: newlyUnfillable.length }
+}
+
+/**
+ * Weekly or monthly bars from the latest stored period, upserted into
+ * historical_period_bars. The provider returns the whole series in one response and
+ * dates a period still in progress by its latest session, so stored rows from the
+ * resume date on are replaced rather than kept alongside.
+ */
+async function backfillPeriod(
+  supabaseClient: any,
+  apiKey: string,
+  row: { id: string; symbol: string },
+  calendar: TradingCalendar,
+  interval: BarInterval,
+  today: string
+): Promise<BackfillResult> {
+  const { data: latest, error } = await supabaseClient
+    .from('historical_period_bars')
+    .select('date')
+    .eq('symbol_id', row.id)
+    .eq('period', interval)
+    .order('date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+
+  const from = resumeFrom(latest?.date ?? null, today)
+  const bars = (await fetchSeries(apiKey, row.symbol, calendar, interval, 'full'))
+    .filter((bar) => bar.date >= from && bar.date <= today)
+
+  if (bars.length > 0) {
+    const { error: deleteError } = await supabaseClient
+      .from('historical_period_bars')
+      .delete()
+      .eq('symbol_id', row.id)
+      .eq('period', interval)
+      .gte('date', from)
+
+    if (deleteError) throw deleteError
+
+    const updatedAt = new Date().toISOString()
+    const { error: upsertError } = await supabaseClient
+      .from('historical_period_bars')
+      .upsert(
+        bars.map((bar) => ({
+          symbol_id: row.id,
+          period: interval,
+          date: bar.date,
+          open_price: bar.open,
+          high_price: bar.high,
+          low_price: bar.low,
+          close_price: bar.close,
+          volume: bar.volume,
+          updated_at: updatedAt,
+        })),
+        { onConflict: 'symbol_id,period,date' }
+      )
+
+    if (upsertError) throw upsertError
+  }
+
+  return { symbol: row.symbol, interval, from, upserted: bars.length, gaps: [], unfillable: 0 }
+}
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Rows accepted per request; the client sends larger files in chunks
+const MAX_IMPORT_ROWS = 5000
+
+interface ImportedBar {
+  symbol: string
+  date: string
+  timestamp: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+interface ImportRequest {
+  target: 'historical' | 'market'
+  bars: ImportedBar[]
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (req.method === 'POST') {
+      // Imports write the price history every user's charts and alerts read, so only
+      // admins may run them; app_metadata is writable by the service role alone
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+      const { data: { user } } = await supabaseClient.auth.getUser(token)
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: 'Sign in to import market data' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 401,
+          }
+        )
+      }
+      if (user.app_metadata?.role !== 'admin') {
+        return new Response(
+          JSON.stringify({ error: 'Only administrators can import market data' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 403,
+          }
+        )
+      }
+
+      const { target, bars }: ImportRequest = await req.json()
+      if (target !== 'historical' && target !== 'market') {
+        throw new Error(`Unknown import target: ${target}`)
+      }
+      if (!Array.isArray(bars) || bars.length > MAX_IMPORT_ROWS) {
+        throw new Error(`Send between 1 and ${MAX_IMPORT_ROWS} rows per request`)
+      }
+
+      const symbols = Array.from(new Set(bars.map((bar) => bar.symbol)))
+      const { data: symbolRows, error: symbolError } = await supabaseClient
+        .from('market_symbols')
+        .select('id, symbol')
+        .in('symbol', symbols)
+
+      if (symbolError) throw symbolError
+
+      const symbolIds = new Map<string, string>((symbolRows || []).map((row: any) => [row.symbol, row.id]))
+      const known = bars.filter((bar) => symbolIds.has(bar.symbol))
+
+      if (known.length > 0) {
+        const { error } = target === 'historical'
+          ? await supabaseClient
+            .from('historical_data')
+            .upsert(
+              known.map((bar) => ({
+                symbol_id: symbolIds.get(bar.symbol),
+                date: bar.date,
+                open_price: bar.open,
+                high_price: bar.high,
+                low_price: bar.low,
+                close_price: bar.close,
+                volume: Math.round(bar.volume),
+              })),
+              { onConflict: 'symbol_id,date' }
+            )
+          : await supabaseClient
+            .from('market_data')
+            .upsert(
+              known.map((bar) => ({
+                symbol_id: symbolIds.get(bar.symbol),
+                price: bar.close,
+                volume: Math.round(bar.volume),
+                timestamp: bar.timestamp,
+              })),
+              { onConflict: 'symbol_id,timestamp' }
+            )
+
+        if (error) throw error
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          imported: known.length,
+          unknownSymbols: symbols.filter((symbol) => !symbolIds.has(symbol)),
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 405,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
\ No newline at end of file
@@ -1,5 +1,17 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  INTRADAY_INTERVAL_MINUTES,
+  IntradayInterval,
+  aggregateTicks,
+  bucketStart,
+} from '../_shared/intradayBars.ts'
+import {
+  FEATURE_SCHEMA_VERSION,
+  FEATURE_WINDOW,
+  computeFeatureVectors,
+  dailySentiment,
+} from '../_shared/featureVectors.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -57,10 +69,15 @@ serve(async (req) => {
 
         if (insertError) {
           console.error(`Error inserting market data for ${update.symbol}:`, insertError)
+        } else {
+          await refreshIntradayBars(supabaseClient, symbolData.id, new Date())
         }
 
         // Calculate and store technical indicators
         await calculateTechnicalIndicators(supabaseClient, symbolData.id)
+
+        // Extend the feature store the predictions train and forecast from
+        await refreshFeatureVectors(supabaseClient, symbolData.id)
       }
 
       return new Response(
@@ -112,6 +129,57 @@ serve(async (req) => {
   }
 })
 
+/**
+ * Rebuild the bars in progress from their ticks, so repeated runs stay idempotent.
+ * The hourly bucket covers the current 15-minute one, so one read serves both.
+ */
+async function refreshIntradayBars(supabaseClient: any, symbolId: string, now: Date) {
+  try {
+    const intervals = Object.keys(INTRADAY_INTERVAL_MINUTES) as IntradayInterval[]
+    const since = bucketStart(now.toISOString(), '1h')
+
+    const { data: ticks, error } = await supabaseClient
+      .from('market_data')
+      .select('price, volume, timestamp')
+      .eq('symbol_id', symbolId)
+      .gte('timestamp', since)
+      .order('timestamp', { ascending: true })
+
+    if (error) throw error
+    if (!ticks || ticks.length === 0) return
+
+    const rows = intervals.flatMap((interval) =>
+      aggregateTicks(
+        ticks.map((tick: any) => ({
+          timestamp: tick.timestamp,
+          price: parseFloat(tick.price),
+          volume: parseInt(tick.volume) || 0,
+        })),
+        interval
+      ).map((bar) => ({
+        symbol_id: symbolId,
+        interval: bar.interval,
+        bucket_start: bar.bucketStart,
+        open_price: bar.open,
+        high_price: bar.high,
+        low_price: bar.low,
+        close_price: bar.close,
+        volume: bar.volume,
+        tick_count: bar.tickCount,
+        updated_at: now.toISOString(),
+      }))
+    )
+
+    const { error: upsertError } = await supabaseClient
+      .from('intraday_bars')
+      .upsert(rows, { onConflict: 'symbol_id,interval,bucket_start' })
+
+    if (upsertError) throw upsertError
+  } catch (error) {
+    console.error('Error refreshing intraday bars:', error)
+  }
+}
+
 async function calculateTechnicalIndicators(supabaseClient: any, symbolId: string) {
   try {
     // Get recent historical data for calculations
@@ -157,6 +225,119 @@ async function calculateTechnicalIndicators(supabaseClient: any, symbolId: strin
   }
 }
 
+// Sessions backfilled for a symbol with no stored vectors yet
+const FEATURE_BACKFILL_SESSIONS = 260
+
+/**
+ * Compute feature vectors from the latest stored date on (its bar may have been
+ * forming when it was stored). Each vector needs only its trailing FEATURE_WINDOW
+ * bars, so the result matches a full rebuild.
+ */
+async function refreshFeatureVectors(supabaseClient: any, symbolId: string) {
+  try {
+    const { data: latest, error: latestError } = await supabaseClient
+      .from('feature_vectors')
+      .select('date')
+      .eq('symbol_id', symbolId)
+      .eq('schema_version', FEATURE_SCHEMA_VERSION)
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (latestError) throw latestError
+    const since: string | undefined = latest?.date
+
+    // The window behind the first recomputed date, then everything after it
+    const barColumns = 'date, high_price, low_price, close_price, volume'
+    let rows: any[] = []
+    if (since) {
+      const [{ data: before, error: beforeError }, { data: after, error: afterError }] = await Promise.all([
+        supabaseClient
+          .from('historical_data')
+          .select(barColumns)
+          .eq('symbol_id', symbolId)
+          .lt('date', since)
+          .order('date', { ascending: false })
+          .limit(FEATURE_WINDOW - 1),
+        supabaseClient
+          .from('historical_data')
+          .select(barColumns)
+          .eq('symbol_id', symbolId)
+          .gte('date', since)
+          .order('date', { ascending: true }),
+      ])
+      if (beforeError) throw beforeError
+      if (afterError) throw afterError
+      rows = [...(before || []).reverse(), ...(after || [])]
+    } else {
+      const { data, error } = await supabaseClient
+        .from('historical_data')
+        .select(barColumns)
+        .eq('symbol_id', symbolId)
+        .order('date', { ascending: false })
+        .limit(FEATURE_BACKFILL_SESSIONS + FEATURE_WINDOW - 1)
+      if (error) throw error
+      rows = (data || []).reverse()
+    }
+
+    if (rows.length < FEATURE_WINDOW) return
+
+    const { data: news, error: newsError } = await supabaseClient
+      .from('news_sentiment')
+      .select('sentiment_score, published_at')
+      .eq('symbol_id', symbolId)
+      .gte('published_at', rows[0].date)
+
+    if (newsError) throw newsError
+
+    const sentiment = dailySentiment(
+      (news || []).map((item: any) => ({
+        publishedAt: item.published_at,
+        score: parseFloat(item.sentiment_score),
+      }))
+    )
+
+    const vectors = computeFeatureVectors(
+      rows.map((row) => ({
+        date: row.date,
+        high: parseFloat(row.high_price),
+        low: parseFloat(row.low_price),
+        close: parseFloat(row.close_price),
+        volume: parseInt(row.volume) || 0,
+      })),
+      sentiment,
+      since
+    )
+    if (vectors.length === 0) return
+
+    const computedAt = new Date().toISOString()
+    const { error: upsertError } = await supabaseClient
+      .from('feature_vectors')
+      .upsert(
+        vectors.map((vector) => ({
+          symbol_id: symbolId,
+          date: vector.date,
+          schema_version: FEATURE_SCHEMA_VERSION,
+          close_price: vector.close,
+          log_return: vector.logReturn,
+          rsi: vector.rsi,
+          macd_histogram: vector.macdHistogram,
+          sma20_gap: vector.sma20Gap,
+          atr: vector.atr,
+          volatility: vector.volatility,
+          volume_zscore: vector.volumeZScore,
+          sentiment: vector.sentiment,
+          computed_at: computedAt,
+        })),
+        { onConflict: 'symbol_id,date' }
+      )
+
+    if (upsertError) throw upsertError
+  } catch (error) {
+    console.error('Error refreshing feature vectors:', error)
+  }
+}
+
 function calculateRSI(prices: number[], period: number = 14): number[] {
   const rsi: number[] = []
   
@@ -234,4 +415,4 @@ function calculateBollingerBands(prices: number[], period: number = 20, stdDev:
   }
   
   return { upper, lower }
-}</parameter>
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface ModelRegistration {
+  key: string
+  name: string
+  type: string
+  version: string
+  hyperparameters?: Record<string, unknown>
+  trainingWindow?: { start: string; end: string }
+  lastTrained?: string
+}
+
+type RegistryRequest =
+  | { action: 'register'; registration: ModelRegistration }
+  | { action: 'promote' | 'retire'; modelId: string }
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (req.method === 'POST') {
+      // The registry decides which model serves every user's predictions, so only
+      // admins may change it; app_metadata is writable by the service role alone
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+      const { data: { user } } = await supabaseClient.auth.getUser(token)
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: 'Sign in to manage prediction models' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 401,
+          }
+        )
+      }
+      if (user.app_metadata?.role !== 'admin') {
+        return new Response(
+          JSON.stringify({ error: 'Only administrators can manage prediction models' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 403,
+          }
+        )
+      }
+
+      const request: RegistryRequest = await req.json()
+
+      let query
+      if (request.action === 'register') {
+        const { registration } = request
+        if (!registration?.key || !registration.name || !registration.type || !registration.version) {
+          throw new Error('A model needs a key, name, type and version')
+        }
+
+        // New models start as candidates; promote one to start serving it
+        query = supabaseClient
+          .from('model_registry')
+          .insert({
+            model_key: registration.key,
+            name: registration.name,
+            model_type: registration.type,
+            version: registration.version,
+            hyperparameters: registration.hyperparameters || {},
+            training_window_start: registration.trainingWindow?.start ?? null,
+            training_window_end: registration.trainingWindow?.end ?? null,
+            last_trained: registration.lastTrained ?? null,
+          })
+      } else if (request.action === 'promote' || request.action === 'retire') {
+        if (!request.modelId) throw new Error('modelId is required')
+
+        // Promoting retires the family's previous active model (handle_model_status_change)
+        query = supabaseClient
+          .from('model_registry')
+          .update({ status: request.action === 'promote' ? 'active' : 'retired' })
+          .eq('id', request.modelId)
+      } else {
+        throw new Error(`Unknown registry action: ${(request as { action: string }).action}`)
+      }
+
+      const { data: model, error } = await query.select().single()
+
+      if (error) throw error
+
+      return new Response(
+        JSON.stringify({ success: true, model }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 405,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
\ No newline at end of file
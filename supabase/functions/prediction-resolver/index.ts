@@ -0,0 +1,378 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  ClassifiedForecast,
+  DailyClose,
+  IntradayClose,
+  PredictionResolution,
+  ResolvedForecast,
+  SCORECARD_WINDOWS,
+  buildScorecards,
+  isIntradayHorizon,
+  isUnresolvable,
+  parseHorizonDays,
+  resolveIntradayPrediction,
+  resolvePrediction,
+  resolveTrendPrediction,
+  resolveVolatilityPrediction,
+  summarizeClassifiers,
+  summarizeModels,
+} from '../_shared/predictionScoring.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Prediction types settled here: price levels, volatility per session from the GARCH
+// models and direction calls from the trend classifier
+const RESOLVED_PREDICTION_TYPES = ['price', 'volatility', 'trend']
+
+// Trend calls are classifications, scored with precision and recall instead of scorecards
+const SCORECARD_PREDICTION_TYPES = ['price', 'volatility']
+
+// Upper bound on predictions resolved per run; the schedule picks up the rest next time
+const RESOLVE_BATCH_SIZE = 1000
+
+// PostgREST caps each response at this many rows, so window reads page through them
+const PAGE_SIZE = 1000
+
+// Closes before a prediction was made, so weekends and holidays still find a base
+const BASE_LOOKBACK_DAYS = 10
+
+// Intraday predictions settle on the finest bars the market-data-processor keeps
+const INTRADAY_RESOLUTION_INTERVAL = '15m'
+const INTRADAY_BASE_LOOKBACK_MS = 60 * 60 * 1000
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (req.method === 'POST') {
+      const now = new Date()
+      const resolved = await resolvePredictions(supabaseClient, now)
+      const forecasts = await loadResolvedForecasts(supabaseClient, now)
+      const scorecards = await refreshScorecards(supabaseClient, forecasts, now)
+      const models = await refreshModelMetrics(supabaseClient, forecasts, now)
+      const classifiers = await refreshClassifierMetrics(supabaseClient, now)
+
+      return new Response(
+        JSON.stringify({ success: true, resolved, scorecards, models, classifiers }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 405,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
+
+async function resolvePredictions(supabaseClient: any, now: Date): Promise<number> {
+  // Predictions whose target has passed but have no actual yet, skipping those given up on
+  const { data: pending, error } = await supabaseClient
+    .from('ai_predictions')
+    .select('id, symbol_id, prediction_type, predicted_value, time_horizon, features_used, created_at, target_date')
+    .in('prediction_type', RESOLVED_PREDICTION_TYPES)
+    .is('actual_value', null)
+    .is('unresolvable_at', null)
+    .lte('target_date', now.toISOString())
+    .order('target_date', { ascending: true })
+    .limit(RESOLVE_BATCH_SIZE)
+
+  if (error) throw error
+  if (!pending || pending.length === 0) return 0
+
+  const bySymbol = new Map<string, any[]>()
+  for (const prediction of pending) {
+    if (!bySymbol.has(prediction.symbol_id)) bySymbol.set(prediction.symbol_id, [])
+    bySymbol.get(prediction.symbol_id)!.push(prediction)
+  }
+
+  let resolvedCount = 0
+  const unresolvable: string[] = []
+
+  for (const [symbolId, predictions] of bySymbol) {
+    const earliest = Math.min(...predictions.map((p) => Date.parse(p.created_at)))
+    const latest = Math.max(...predictions.map((p) => Date.parse(p.target_date)))
+    const intraday = predictions.filter((p) => isIntradayHorizon(p.time_horizon))
+
+    const closes = intraday.length < predictions.length
+      ? await loadCloses(
+        supabaseClient,
+        symbolId,
+        new Date(earliest - BASE_LOOKBACK_DAYS * DAY_MS),
+        new Date(latest)
+      )
+      : []
+    const bars = intraday.length > 0
+      ? await loadIntradayCloses(
+        supabaseClient,
+        symbolId,
+        new Date(Math.min(...intraday.map((p) => Date.parse(p.created_at))) - INTRADAY_BASE_LOOKBACK_MS),
+        new Date(latest)
+      )
+      : []
+
+    for (const prediction of predictions) {
+      const pending = {
+        id: prediction.id,
+        symbolId,
+        predictedValue: parseFloat(prediction.predicted_value),
+        createdAt: prediction.created_at,
+        targetDate: prediction.target_date,
+      }
+      let resolution: PredictionResolution | null
+      if (prediction.prediction_type === 'trend') {
+        resolution = resolveTrendPrediction(pending, closes, Number(prediction.features_used?.flatThreshold) || 0)
+      } else if (prediction.prediction_type === 'volatility') {
+        resolution = resolveVolatilityPrediction(pending, closes)
+      } else if (isIntradayHorizon(prediction.time_horizon)) {
+        resolution = resolveIntradayPrediction(pending, bars)
+      } else {
+        resolution = resolvePrediction(pending, closes)
+      }
+      if (!resolution) {
+        if (isUnresolvable(pending, now)) unresolvable.push(pending.id)
+        continue
+      }
+
+      const { error: updateError } = await supabaseClient
+        .from('ai_predictions')
+        .update({
+          actual_value: resolution.actualValue,
+          accuracy_score: resolution.accuracyScore,
+          base_value: resolution.baseValue,
+          resolved_at: now.toISOString(),
+        })
+        .eq('id', resolution.id)
+
+      if (updateError) {
+        console.error(`Failed to resolve prediction ${resolution.id}:`, updateError)
+        continue
+      }
+      resolvedCount++
+    }
+  }
+
+  // Overdue predictions with no bars to settle them would otherwise fill every batch
+  if (unresolvable.length > 0) {
+    const { error: markError } = await supabaseClient
+      .from('ai_predictions')
+      .update({ unresolvable_at: now.toISOString() })
+      .in('id', unresolvable)
+
+    if (markError) throw markError
+  }
+
+  console.log(`Resolved ${resolvedCount} of ${pending.length} due predictions, ${unresolvable.length} unresolvable`)
+  return resolvedCount
+}
+
+async function loadCloses(supabaseClient: any, symbolId: string, from: Date, to: Date): Promise<DailyClose[]> {
+  const { data, error } = await supabaseClient
+    .from('historical_data')
+    .select('date, close_price')
+    .eq('symbol_id', symbolId)
+    .gte('date', from.toISOString().split('T')[0])
+    .lte('date', to.toISOString().split('T')[0])
+    .order('date', { ascending: true })
+
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    date: row.date,
+    close: parseFloat(row.close_price),
+  }))
+}
+
+async function loadIntradayCloses(supabaseClient: any, symbolId: string, from: Date, to: Date): Promise<IntradayClose[]> {
+  const { data, error } = await supabaseClient
+    .from('intraday_bars')
+    .select('bucket_start, close_price')
+    .eq('symbol_id', symbolId)
+    .eq('interval', INTRADAY_RESOLUTION_INTERVAL)
+    .gte('bucket_start', from.toISOString())
+    .lt('bucket_start', to.toISOString())
+    .order('bucket_start', { ascending: true })
+
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    start: row.bucket_start,
+    close: parseFloat(row.close_price),
+  }))
+}
+
+// Every row of a query, read a page at a time; the query must have a stable order
+async function selectAllRows(buildQuery: () => any): Promise<any[]> {
+  const rows: any[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+async function loadResolvedForecasts(supabaseClient: any, now: Date): Promise<ResolvedForecast[]> {
+  const since = new Date(now.getTime() - Math.max(...SCORECARD_WINDOWS) * DAY_MS)
+
+  const rows = await selectAllRows(() => supabaseClient
+    .from('ai_predictions')
+    .select('symbol_id, model_version, time_horizon, predicted_value, actual_value, base_value, target_date')
+    .in('prediction_type', SCORECARD_PREDICTION_TYPES)
+    .not('actual_value', 'is', null)
+    .gt('target_date', since.toISOString())
+    .order('id', { ascending: true }))
+
+  const forecasts: ResolvedForecast[] = []
+  for (const row of rows) {
+    // Scorecards are per day of horizon; intraday forecasts are not scored there
+    if (isIntradayHorizon(row.time_horizon)) continue
+
+    const horizonDays = parseHorizonDays(row.time_horizon)
+    if (horizonDays === null) continue
+
+    forecasts.push({
+      symbolId: row.symbol_id,
+      modelVersion: row.model_version ?? 'unversioned',
+      horizonDays,
+      predicted: parseFloat(row.predicted_value),
+      actual: parseFloat(row.actual_value),
+      baseValue: row.base_value != null ? parseFloat(row.base_value) : null,
+      targetDate: row.target_date,
+    })
+  }
+
+  return forecasts
+}
+
+async function refreshScorecards(supabaseClient: any, forecasts: ResolvedForecast[], now: Date): Promise<number> {
+  const scorecards = buildScorecards(forecasts, now)
+
+  if (scorecards.length > 0) {
+    const { error: upsertError } = await supabaseClient
+      .from('model_scorecards')
+      .upsert(
+        scorecards.map((scorecard) => ({
+          model_version: scorecard.modelVersion,
+          symbol_id: scorecard.symbolId,
+          horizon_days: scorecard.horizonDays,
+          window_days: scorecard.windowDays,
+          sample_size: scorecard.sampleSize,
+          mape: scorecard.mape,
+          rmse: scorecard.rmse,
+          directional_accuracy: scorecard.directionalAccuracy,
+          mean_accuracy: scorecard.meanAccuracy,
+          computed_at: scorecard.computedAt,
+        })),
+        { onConflict: 'model_version,symbol_id,horizon_days,window_days' }
+      )
+
+    if (upsertError) throw upsertError
+  }
+
+  // Scopes with nothing left in their window were not refreshed this run
+  const { error: pruneError } = await supabaseClient
+    .from('model_scorecards')
+    .delete()
+    .lt('computed_at', now.toISOString())
+
+  if (pruneError) throw pruneError
+
+  return scorecards.length
+}
+
+async function refreshModelMetrics(supabaseClient: any, forecasts: ResolvedForecast[], now: Date): Promise<number> {
+  const windowDays = SCORECARD_WINDOWS[0]
+  let updated = 0
+
+  // Registered models with nothing resolved in the window keep their last measurement
+  for (const [modelVersion, score] of summarizeModels(forecasts, now, windowDays)) {
+    const { data, error } = await supabaseClient
+      .from('model_registry')
+      .update({
+        metrics: { windowDays, ...score },
+        metrics_updated_at: now.toISOString(),
+      })
+      .eq('model_version', modelVersion)
+      .select('id')
+
+    if (error) throw error
+    updated += (data || []).length
+  }
+
+  return updated
+}
+
+async function refreshClassifierMetrics(supabaseClient: any, now: Date): Promise<number> {
+  const windowDays = SCORECARD_WINDOWS[0]
+  const since = new Date(now.getTime() - windowDays * DAY_MS)
+
+  const rows = await selectAllRows(() => supabaseClient
+    .from('ai_predictions')
+    .select('model_version, predicted_value, actual_value, target_date')
+    .eq('prediction_type', 'trend')
+    .not('actual_value', 'is', null)
+    .gt('target_date', since.toISOString())
+    .order('id', { ascending: true }))
+
+  const forecasts: ClassifiedForecast[] = rows.map((row: any) => ({
+    modelVersion: row.model_version ?? 'unversioned',
+    predicted: Math.round(parseFloat(row.predicted_value)),
+    actual: Math.round(parseFloat(row.actual_value)),
+    targetDate: row.target_date,
+  }))
+
+  let updated = 0
+  for (const [modelVersion, score] of summarizeClassifiers(forecasts, now, windowDays)) {
+    const { data, error: updateError } = await supabaseClient
+      .from('model_registry')
+      .update({
+        metrics: {
+          windowDays,
+          sampleSize: score.sampleSize,
+          meanAccuracy: score.accuracy,
+          precision: score.precision,
+          recall: score.recall,
+          f1Score: score.f1Score,
+        },
+        metrics_updated_at: now.toISOString(),
+      })
+      .eq('model_version', modelVersion)
+      .select('id')
+
+    if (updateError) throw updateError
+    updated += (data || []).length
+  }
+
+  return updated
+}
\ No newline at end of file
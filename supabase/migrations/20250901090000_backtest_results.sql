@@ -0,0 +1,83 @@
+/*
+  # Backtest Results Schema
+
+  1. New Tables
+    - `backtest_results`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to user_profiles)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `strategy_id` (text, backtest strategy identifier)
+      - `parameters` (jsonb, capital, position size, commission and signal filters)
+      - `start_date` (date)
+      - `end_date` (date)
+      - `initial_capital` (numeric)
+      - `final_equity` (numeric)
+      - `total_return` (numeric)
+      - `max_drawdown` (numeric, 0-1)
+      - `sharpe_ratio` (numeric)
+      - `win_rate` (numeric, 0-1)
+      - `total_trades` (integer)
+      - `metrics` (jsonb, full metric set)
+      - `equity_curve` (jsonb, array of { date, equity, drawdown })
+      - `trades` (jsonb, trade log)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `backtest_results`
+    - Users can only access their own backtests
+
+  3. Indexes
+    - Lookup by user and by symbol/strategy
+*/
+
+-- Create backtest_results table
+CREATE TABLE IF NOT EXISTS backtest_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  strategy_id text NOT NULL,
+  parameters jsonb DEFAULT '{}',
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  initial_capital numeric NOT NULL CHECK (initial_capital > 0),
+  final_equity numeric NOT NULL,
+  total_return numeric NOT NULL,
+  max_drawdown numeric NOT NULL CHECK (max_drawdown >= 0 AND max_drawdown <= 1),
+  sharpe_ratio numeric NOT NULL DEFAULT 0,
+  win_rate numeric NOT NULL CHECK (win_rate >= 0 AND win_rate <= 1),
+  total_trades integer NOT NULL DEFAULT 0 CHECK (total_trades >= 0),
+  metrics jsonb DEFAULT '{}',
+  equity_curve jsonb DEFAULT '[]',
+  trades jsonb DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+-- Enable RLS
+ALTER TABLE backtest_results ENABLE ROW LEVEL SECURITY;
+
+-- Backtest policies
+CREATE POLICY "Users can read own backtests"
+  ON backtest_results
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own backtests"
+  ON backtest_results
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own backtests"
+  ON backtest_results
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_backtest_results_user_created
+  ON backtest_results(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_backtest_results_symbol_strategy
+  ON backtest_results(symbol_id, strategy_id);
\ No newline at end of file
@@ -0,0 +1,68 @@
+/*
+  # Portfolio Transactions Schema
+
+  1. New Tables
+    - `portfolio_transactions`
+      - `id` (uuid, primary key)
+      - `portfolio_id` (uuid, foreign key to user_portfolios)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `transaction_type` (enum: buy, sell)
+      - `quantity` (numeric, > 0)
+      - `price` (numeric, > 0)
+      - `fees` (numeric, default 0)
+      - `realized_pnl` (numeric, nullable, set on sells)
+      - `executed_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `portfolio_transactions`
+    - Users can only access transactions in their own portfolios
+
+  3. Indexes
+    - Transaction history per portfolio
+*/
+
+-- Create transaction enum
+CREATE TYPE transaction_type AS ENUM ('buy', 'sell');
+
+-- Create portfolio_transactions table
+CREATE TABLE IF NOT EXISTS portfolio_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  portfolio_id uuid NOT NULL REFERENCES user_portfolios(id) ON DELETE CASCADE,
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  transaction_type transaction_type NOT NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  price numeric NOT NULL CHECK (price > 0),
+  fees numeric DEFAULT 0 CHECK (fees >= 0),
+  realized_pnl numeric,
+  executed_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE portfolio_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Transaction policies
+CREATE POLICY "Users can read own transactions"
+  ON portfolio_transactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    portfolio_id IN (
+      SELECT id FROM user_portfolios WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own transactions"
+  ON portfolio_transactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    portfolio_id IN (
+      SELECT id FROM user_portfolios WHERE user_id = auth.uid()
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_portfolio_executed
+  ON portfolio_transactions(portfolio_id, executed_at DESC);
\ No newline at end of file
@@ -0,0 +1,79 @@
+/*
+  # Alert State and History Schema
+
+  1. Changes to `user_alerts`
+    - `last_observed_value` (numeric, nullable, value seen on the previous evaluation)
+    - `last_evaluated_at` (timestamptz, nullable)
+    - `cooldown_minutes` (integer, default 60, delay before a triggered alert re-arms)
+
+  2. New Tables
+    - `alert_history`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, foreign key to user_alerts)
+      - `user_id` (uuid, foreign key to user_profiles)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `condition_type` (enum)
+      - `target_value` (numeric)
+      - `previous_value` (numeric, nullable)
+      - `observed_value` (numeric)
+      - `message` (text, nullable)
+      - `severity` (enum)
+      - `triggered_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `alert_history`
+    - Users can read and record their own alert history
+    - Service role can record history for any alert
+
+  4. Indexes
+    - History per user and per alert
+*/
+
+-- Track evaluation state on alerts
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS last_observed_value numeric;
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS last_evaluated_at timestamptz;
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS cooldown_minutes integer DEFAULT 60 CHECK (cooldown_minutes >= 0);
+
+-- Create alert_history table
+CREATE TABLE IF NOT EXISTS alert_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES user_alerts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  condition_type condition_type NOT NULL,
+  target_value numeric NOT NULL,
+  previous_value numeric,
+  observed_value numeric NOT NULL,
+  message text,
+  severity severity_level DEFAULT 'medium',
+  triggered_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE alert_history ENABLE ROW LEVEL SECURITY;
+
+-- Alert history policies
+CREATE POLICY "Users can read own alert history"
+  ON alert_history
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own alert history"
+  ON alert_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage alert history"
+  ON alert_history
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_alert_history_user_triggered
+  ON alert_history(user_id, triggered_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_alert_history_alert_id
+  ON alert_history(alert_id);
\ No newline at end of file
@@ -0,0 +1,25 @@
+/*
+  # Composite Alert Rules
+
+  1. Changes to `alert_type`
+    - New `composite` value for alerts driven by a rule instead of a single metric
+
+  2. Changes to `user_alerts`
+    - `rule` (jsonb, nullable, AND/OR group of conditions)
+      - group: { "operator": "and" | "or", "conditions": [condition | group, ...] }
+      - condition: { "metric": "price" | "volume_ratio" | "trend" | "volatility" | "rsi" | ..., "operator": "above" | "below", "value": number }
+    - Composite alerts must carry a rule
+
+  3. Notes
+    - A composite alert observes 1 while its rule holds and 0 otherwise, with target_value 0.5,
+      so the existing condition types and cooldown handling apply unchanged
+*/
+
+-- Add composite alert type
+ALTER TYPE alert_type ADD VALUE IF NOT EXISTS 'composite';
+
+-- Add rule column
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS rule jsonb;
+
+ALTER TABLE user_alerts ADD CONSTRAINT user_alerts_composite_rule_check
+  CHECK (alert_type::text <> 'composite' OR rule IS NOT NULL);
\ No newline at end of file
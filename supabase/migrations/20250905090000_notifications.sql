@@ -0,0 +1,108 @@
+/*
+  # Notifications Schema
+
+  1. New Tables
+    - `notifications` (in-app inbox)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to user_profiles)
+      - `alert_id` (uuid, nullable, foreign key to user_alerts)
+      - `title` (text)
+      - `body` (text)
+      - `severity` (enum)
+      - `is_read` (boolean, default false)
+      - `created_at` (timestamptz)
+
+    - `notification_deliveries` (delivery log, one row per attempt)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to user_profiles)
+      - `alert_id` (uuid, nullable, foreign key to user_alerts)
+      - `channel` (enum: email, webhook, in_app)
+      - `attempt` (integer, 1-based)
+      - `status` (enum: sent, failed)
+      - `error` (text, nullable)
+      - `attempted_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can read their own inbox and delivery log, and mark inbox items read
+    - Service role writes both tables
+
+  3. Notes
+    - Channel preferences live in `user_profiles.preferences.notifications`:
+      { "minSeverity": "low" | "medium" | "high",
+        "channels": { "email": { "enabled", "address" }, "webhook": { "enabled", "url", "secret" }, "in_app": { "enabled" } } }
+*/
+
+-- Create notification enums
+CREATE TYPE notification_channel AS ENUM ('email', 'webhook', 'in_app');
+CREATE TYPE delivery_status AS ENUM ('sent', 'failed');
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  alert_id uuid REFERENCES user_alerts(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  severity severity_level DEFAULT 'medium',
+  is_read boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create notification_deliveries table
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  alert_id uuid REFERENCES user_alerts(id) ON DELETE SET NULL,
+  channel notification_channel NOT NULL,
+  attempt integer NOT NULL CHECK (attempt >= 1),
+  status delivery_status NOT NULL,
+  error text,
+  attempted_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Notification policies
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage notifications"
+  ON notifications
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Delivery log policies
+CREATE POLICY "Users can read own deliveries"
+  ON notification_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage deliveries"
+  ON notification_deliveries
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications(user_id, is_read, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_attempted
+  ON notification_deliveries(user_id, attempted_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_alert_id
+  ON notification_deliveries(alert_id);
\ No newline at end of file
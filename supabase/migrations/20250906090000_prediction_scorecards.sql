@@ -0,0 +1,81 @@
+/*
+  # Prediction Scorecards Schema
+
+  1. Modified Tables
+    - `ai_predictions`
+      - `base_value` (numeric, nullable) - last close known when the prediction was made
+      - `resolved_at` (timestamptz, nullable) - when the resolver filled in the actual
+
+  2. New Tables
+    - `model_scorecards` (rolling walk-forward accuracy)
+      - `id` (uuid, primary key)
+      - `model_version` (text)
+      - `symbol_id` (uuid, nullable, foreign key to market_symbols; null for the all-symbol roll-up)
+      - `horizon_days` (integer)
+      - `window_days` (integer) - rolling window over prediction target dates
+      - `sample_size` (integer)
+      - `mape` (numeric) - mean absolute percentage error, as a fraction
+      - `rmse` (numeric)
+      - `directional_accuracy` (numeric, nullable)
+      - `mean_accuracy` (numeric)
+      - `computed_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `model_scorecards`
+    - Public read access, matching `ai_predictions`
+    - Service role writes scorecards
+
+  4. Indexes
+    - Unresolved price predictions by target date, for the resolver
+    - Scorecards by symbol and window, for the validation dashboard
+
+  5. Notes
+    - The `prediction-resolver` edge function fills `actual_value`, `accuracy_score`,
+      `base_value` and `resolved_at` from `historical_data`, then upserts one scorecard per
+      (model_version, symbol_id, horizon_days, window_days)
+*/
+
+-- Track resolution on predictions
+ALTER TABLE ai_predictions ADD COLUMN IF NOT EXISTS base_value numeric;
+ALTER TABLE ai_predictions ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+-- Create model_scorecards table
+CREATE TABLE IF NOT EXISTS model_scorecards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_version text NOT NULL,
+  symbol_id uuid REFERENCES market_symbols(id) ON DELETE CASCADE,
+  horizon_days integer NOT NULL CHECK (horizon_days >= 1),
+  window_days integer NOT NULL CHECK (window_days >= 1),
+  sample_size integer NOT NULL DEFAULT 0,
+  mape numeric NOT NULL DEFAULT 0,
+  rmse numeric NOT NULL DEFAULT 0,
+  directional_accuracy numeric CHECK (directional_accuracy >= 0 AND directional_accuracy <= 1),
+  mean_accuracy numeric NOT NULL DEFAULT 0 CHECK (mean_accuracy >= 0 AND mean_accuracy <= 1),
+  computed_at timestamptz DEFAULT now(),
+  CONSTRAINT model_scorecards_scope_key
+    UNIQUE NULLS NOT DISTINCT (model_version, symbol_id, horizon_days, window_days)
+);
+
+-- Enable RLS
+ALTER TABLE model_scorecards ENABLE ROW LEVEL SECURITY;
+
+-- Scorecard policies
+CREATE POLICY "Public read access to scorecards"
+  ON model_scorecards
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage scorecards"
+  ON model_scorecards
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_ai_predictions_unresolved
+  ON ai_predictions(target_date)
+  WHERE actual_value IS NULL AND prediction_type = 'price';
+
+CREATE INDEX IF NOT EXISTS idx_model_scorecards_symbol_window
+  ON model_scorecards(symbol_id, window_days);
\ No newline at end of file
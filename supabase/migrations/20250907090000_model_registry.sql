@@ -0,0 +1,124 @@
+/*
+  # Model Registry Schema
+
+  1. New Tables
+    - `model_registry`
+      - `id` (uuid, primary key)
+      - `model_key` (text) - model family, e.g. `lstm`
+      - `name` (text)
+      - `model_type` (text: lstm, arima, ensemble, transformer)
+      - `version` (text)
+      - `model_version` (text, generated `<model_key>-<version>`, unique) - what predictions record in `ai_predictions.model_version`
+      - `status` (enum: candidate, active, retired)
+      - `hyperparameters` (jsonb)
+      - `training_window_start` / `training_window_end` (date, nullable)
+      - `metrics` (jsonb) - measured from resolved predictions by the prediction-resolver
+      - `metrics_updated_at` (timestamptz, nullable)
+      - `last_trained` (timestamptz, nullable)
+      - `promoted_at` / `retired_at` (timestamptz, nullable)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `model_registry`
+    - Public read access, matching `ai_predictions`
+    - Service role registers, promotes and retires models
+
+  3. Triggers
+    - Promoting a model retires the active model of the same family
+    - `promoted_at` and `retired_at` are stamped on status changes
+
+  4. Notes
+    - Seeds the three models the prediction service already runs as active `v1.0`
+    - Existing predictions and scorecards recorded as `v1.0` came from the ensemble and are relabelled `ensemble-v1.0`
+*/
+
+-- Create model status enum
+CREATE TYPE model_status AS ENUM ('candidate', 'active', 'retired');
+
+-- Create model_registry table
+CREATE TABLE IF NOT EXISTS model_registry (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_key text NOT NULL,
+  name text NOT NULL,
+  model_type text NOT NULL CHECK (model_type IN ('lstm', 'arima', 'ensemble', 'transformer')),
+  version text NOT NULL,
+  model_version text GENERATED ALWAYS AS (model_key || '-' || version) STORED UNIQUE,
+  status model_status DEFAULT 'candidate',
+  hyperparameters jsonb DEFAULT '{}',
+  training_window_start date,
+  training_window_end date,
+  metrics jsonb DEFAULT '{}',
+  metrics_updated_at timestamptz,
+  last_trained timestamptz,
+  promoted_at timestamptz,
+  retired_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(model_key, version),
+  CHECK (training_window_end IS NULL OR training_window_start IS NULL OR training_window_end >= training_window_start)
+);
+
+-- Enable RLS
+ALTER TABLE model_registry ENABLE ROW LEVEL SECURITY;
+
+-- Model registry policies
+CREATE POLICY "Public read access to model registry"
+  ON model_registry
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage model registry"
+  ON model_registry
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Function to keep a single active model per family
+CREATE OR REPLACE FUNCTION handle_model_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'active' AND OLD.status IS DISTINCT FROM 'active' THEN
+    UPDATE model_registry
+      SET status = 'retired'
+      WHERE model_key = NEW.model_key
+        AND status = 'active'
+        AND id <> NEW.id;
+    NEW.promoted_at = now();
+    NEW.retired_at = NULL;
+  ELSIF NEW.status = 'retired' AND OLD.status IS DISTINCT FROM 'retired' THEN
+    NEW.retired_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers for status changes and updated_at
+CREATE TRIGGER handle_model_registry_status
+  BEFORE UPDATE OF status ON model_registry
+  FOR EACH ROW EXECUTE FUNCTION handle_model_status_change();
+
+CREATE TRIGGER update_model_registry_updated_at
+  BEFORE UPDATE ON model_registry
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_registry_one_active
+  ON model_registry(model_key)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_model_registry_status
+  ON model_registry(status);
+
+-- Seed the models the prediction service runs today
+INSERT INTO model_registry (model_key, name, model_type, version, status, hyperparameters, last_trained, promoted_at) VALUES
+  ('lstm', 'LSTM Neural Network', 'lstm', 'v1.0', 'active', '{"lookback": 100, "features": ["price_history", "rsi", "macd", "volume", "volatility"]}', now(), now()),
+  ('arima', 'ARIMA Time Series', 'arima', 'v1.0', 'active', '{"lookback": 100, "meanReversion": 0.5}', now(), now()),
+  ('ensemble', 'Ensemble Model', 'ensemble', 'v1.0', 'active', '{"members": ["lstm-v1.0", "arima-v1.0"], "weighting": "confidence"}', now(), now())
+ON CONFLICT (model_key, version) DO NOTHING;
+
+-- Predictions record the registry model that made them
+ALTER TABLE ai_predictions ALTER COLUMN model_version SET DEFAULT 'ensemble-v1.0';
+
+UPDATE ai_predictions SET model_version = 'ensemble-v1.0' WHERE model_version = 'v1.0';
+UPDATE model_scorecards SET model_version = 'ensemble-v1.0' WHERE model_version = 'v1.0';
\ No newline at end of file
@@ -0,0 +1,16 @@
+/*
+  # Register ARIMA v2.0
+
+  1. Data
+    - Registers `arima-v2.0`: ARIMA(p,d,q) on log prices fitted by conditional least
+      squares, with d chosen by variance reduction and p, q chosen by AIC
+    - Promotes it, which retires `arima-v1.0` through the status trigger
+*/
+
+INSERT INTO model_registry (model_key, name, model_type, version, hyperparameters, last_trained) VALUES
+  ('arima', 'ARIMA Time Series', 'arima', 'v2.0', '{"lookback": 100, "transform": "log", "maxP": 2, "maxD": 2, "maxQ": 2, "selection": "aic", "estimation": "css", "intervalZ": 1.96}', now())
+ON CONFLICT (model_key, version) DO NOTHING;
+
+UPDATE model_registry
+  SET status = 'active'
+  WHERE model_key = 'arima' AND version = 'v2.0';
\ No newline at end of file
@@ -0,0 +1,83 @@
+/*
+  # Neural Model Weights Schema
+
+  1. New Tables
+    - `model_weights` (serialized per-symbol weights)
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `model_version` (text, references model_registry.model_version)
+      - `weights` (jsonb) - network weights plus input and target scaling
+      - `trained_through` (date) - latest historical_data session seen in training
+      - `training_loss` (numeric)
+      - `validation_loss` (numeric)
+      - `training_ms` (numeric) - wall time of the latest training run
+      - `epochs` (integer)
+      - `samples` (integer)
+      - `trained_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `model_weights`
+    - Public read access, matching `ai_predictions`
+    - Signed-in clients train in the browser and save weights; service role manages all rows
+
+  3. Data
+    - Registers `lstm-v2.0`, the trainable neural forecaster, and promotes it
+      (retiring the simulated `lstm-v1.0`)
+*/
+
+-- Create model_weights table
+CREATE TABLE IF NOT EXISTS model_weights (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  model_version text NOT NULL REFERENCES model_registry(model_version) ON DELETE CASCADE,
+  weights jsonb NOT NULL,
+  trained_through date NOT NULL,
+  training_loss numeric NOT NULL,
+  validation_loss numeric NOT NULL,
+  training_ms numeric NOT NULL,
+  epochs integer NOT NULL,
+  samples integer NOT NULL,
+  trained_at timestamptz DEFAULT now(),
+  UNIQUE(symbol_id, model_version)
+);
+
+-- Enable RLS
+ALTER TABLE model_weights ENABLE ROW LEVEL SECURITY;
+
+-- Model weights policies
+CREATE POLICY "Public read access to model weights"
+  ON model_weights
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can save model weights"
+  ON model_weights
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update model weights"
+  ON model_weights
+  FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage model weights"
+  ON model_weights
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_model_weights_model_version
+  ON model_weights(model_version);
+
+-- Register the neural forecaster
+INSERT INTO model_registry (model_key, name, model_type, version, hyperparameters) VALUES
+  ('lstm', 'Neural Network Forecaster', 'lstm', 'v2.0', '{"architecture": "mlp", "lags": 10, "hiddenUnits": 16, "horizon": 7, "optimizer": "adam", "learningRate": 0.005, "batchSize": 16, "l2": 0.0001, "epochs": 200, "incrementalEpochs": 30}')
+ON CONFLICT (model_key, version) DO NOTHING;
+
+UPDATE model_registry
+  SET status = 'active'
+  WHERE model_key = 'lstm' AND version = 'v2.0';
\ No newline at end of file
@@ -0,0 +1,31 @@
+/*
+  # Stacked Ensemble
+
+  1. Security
+    - Signed-in clients store the forecasts they generate in `ai_predictions`: the
+      ensemble forecast plus one row per member model, so the prediction-resolver
+      scores members individually
+
+  2. Data
+    - Registers `ensemble-v2.0`: members weighted by the inverse of their 30-day
+      scorecard MSE for the symbol and horizon, shrunk towards equal weights while
+      samples are few; the weights used are recorded in `features_used.ensemble`
+    - Promotes it, which retires `ensemble-v1.0` through the status trigger
+    - New predictions default to `ensemble-v2.0`
+*/
+
+CREATE POLICY "Authenticated users can store predictions"
+  ON ai_predictions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+INSERT INTO model_registry (model_key, name, model_type, version, hyperparameters, last_trained) VALUES
+  ('ensemble', 'Stacked Ensemble', 'ensemble', 'v2.0', '{"method": "inverse-mse", "scorecardWindowDays": 30, "priorSamples": 10}', now())
+ON CONFLICT (model_key, version) DO NOTHING;
+
+UPDATE model_registry
+  SET status = 'active'
+  WHERE model_key = 'ensemble' AND version = 'v2.0';
+
+ALTER TABLE ai_predictions ALTER COLUMN model_version SET DEFAULT 'ensemble-v2.0';
\ No newline at end of file
@@ -0,0 +1,75 @@
+/*
+  # Intraday Bars Schema
+
+  1. New Tables
+    - `intraday_bars` (OHLCV bars aggregated from `market_data` ticks)
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `interval` (text) - '15m' or '1h'
+      - `bucket_start` (timestamptz) - UTC-aligned start of the bar
+      - `open_price`, `high_price`, `low_price`, `close_price` (numeric)
+      - `volume` (bigint) - sum of the tick volumes
+      - `tick_count` (integer)
+      - `updated_at` (timestamptz)
+
+  2. Modified Tables
+    - `model_weights`
+      - `granularity` (text) - bar granularity the weights were trained on
+      - `trained_through` becomes a timestamptz, so intraday weights can record the bar
+      - One set of weights per (symbol_id, model_version, granularity)
+
+  3. Security
+    - Enable RLS on `intraday_bars`
+    - Public read access, matching `market_data`
+    - Service role writes bars (the `market-data-processor` rebuilds the bars in progress
+      after each batch of ticks)
+
+  4. Notes
+    - Intraday predictions store their horizon in `ai_predictions.time_horizon` as
+      "N minutes" or "N hours"; the `prediction-resolver` settles them against the
+      15-minute bars and keeps them out of the day-horizon scorecards
+*/
+
+-- Create intraday_bars table
+CREATE TABLE IF NOT EXISTS intraday_bars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  interval text NOT NULL CHECK (interval IN ('15m', '1h')),
+  bucket_start timestamptz NOT NULL,
+  open_price numeric NOT NULL CHECK (open_price > 0),
+  high_price numeric NOT NULL CHECK (high_price > 0),
+  low_price numeric NOT NULL CHECK (low_price > 0),
+  close_price numeric NOT NULL CHECK (close_price > 0),
+  volume bigint DEFAULT 0 CHECK (volume >= 0),
+  tick_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(symbol_id, interval, bucket_start)
+);
+
+-- Enable RLS
+ALTER TABLE intraday_bars ENABLE ROW LEVEL SECURITY;
+
+-- Intraday bars policies
+CREATE POLICY "Public read access to intraday bars"
+  ON intraday_bars
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage intraday bars"
+  ON intraday_bars
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_intraday_bars_symbol_interval_start
+  ON intraday_bars(symbol_id, interval, bucket_start DESC);
+
+-- Weights per granularity
+ALTER TABLE model_weights ADD COLUMN IF NOT EXISTS granularity text NOT NULL DEFAULT '1d'
+  CHECK (granularity IN ('15m', '1h', '1d', '1w'));
+ALTER TABLE model_weights ALTER COLUMN trained_through TYPE timestamptz;
+ALTER TABLE model_weights DROP CONSTRAINT IF EXISTS model_weights_symbol_id_model_version_key;
+ALTER TABLE model_weights ADD CONSTRAINT model_weights_symbol_model_granularity_key
+  UNIQUE (symbol_id, model_version, granularity);
\ No newline at end of file
@@ -0,0 +1,34 @@
+/*
+  # Volatility Forecasts
+
+  1. Modified Tables
+    - `model_registry`
+      - `model_type` also accepts `garch`
+
+  2. Data
+    - Registers and promotes `garch-v1.0`: GARCH(1,1) and EGARCH(1,1) fitted by
+      maximum likelihood on up to 504 daily log returns from `historical_data`, keeping
+      the variant with the lower AIC
+
+  3. Notes
+    - Forecasts are stored in `ai_predictions` with `prediction_type` 'volatility' for
+      7, 30 and 90 day horizons; `predicted_value` is the volatility per session (not
+      annualized) and `features_used` records the fitted variant and parameters
+    - The `prediction-resolver` settles them against the realized volatility of the
+      daily closes over the horizon, so `garch-v1.0` gets scorecards and measured metrics
+      like the price models
+*/
+
+ALTER TABLE model_registry DROP CONSTRAINT IF EXISTS model_registry_model_type_check;
+
+ALTER TABLE model_registry
+  ADD CONSTRAINT model_registry_model_type_check
+  CHECK (model_type IN ('lstm', 'arima', 'ensemble', 'transformer', 'garch'));
+
+INSERT INTO model_registry (model_key, name, model_type, version, hyperparameters, last_trained) VALUES
+  ('garch', 'GARCH Volatility', 'garch', 'v1.0', '{"variants": ["garch", "egarch"], "selection": "aic", "lookbackSessions": 504, "horizonsDays": [7, 30, 90]}', now())
+ON CONFLICT (model_key, version) DO NOTHING;
+
+UPDATE model_registry
+  SET status = 'active'
+  WHERE model_key = 'garch' AND version = 'v1.0';
\ No newline at end of file
@@ -0,0 +1,34 @@
+/*
+  # Trend Classifier
+
+  1. Modified Tables
+    - `model_registry`
+      - `model_type` also accepts `classifier`
+
+  2. Data
+    - Registers and promotes `trend-v1.0`: multinomial logistic regression over
+      technical indicator features calling each horizon up, down or flat
+
+  3. Notes
+    - Calls are stored in `ai_predictions` with `prediction_type` 'trend' for 7 and 30
+      day horizons; `predicted_value` is -1 (down), 0 (flat) or 1 (up), and
+      `features_used` records the class probabilities and the flat threshold (a log
+      return) the call was labelled with
+    - The `prediction-resolver` settles them with the same threshold and measures
+      accuracy, precision, recall and F1 into `model_registry.metrics`; they stay out
+      of the MAPE/RMSE scorecards
+*/
+
+ALTER TABLE model_registry DROP CONSTRAINT IF EXISTS model_registry_model_type_check;
+
+ALTER TABLE model_registry
+  ADD CONSTRAINT model_registry_model_type_check
+  CHECK (model_type IN ('lstm', 'arima', 'ensemble', 'transformer', 'garch', 'classifier'));
+
+INSERT INTO model_registry (model_key, name, model_type, version, hyperparameters, last_trained) VALUES
+  ('trend', 'Trend Classifier', 'classifier', 'v1.0', '{"method": "softmax-regression", "features": ["rsi", "macdHistogram", "sma20Gap", "sma50Gap", "bollingerPercentB", "stochasticK", "adx", "atrRatio", "return5", "return20"], "horizonsDays": [7, 30], "flatBand": 0.25, "epochs": 300, "learningRate": 0.5, "l2": 0.001, "lookbackSessions": 504}', now())
+ON CONFLICT (model_key, version) DO NOTHING;
+
+UPDATE model_registry
+  SET status = 'active'
+  WHERE model_key = 'trend' AND version = 'v1.0';
\ No newline at end of file
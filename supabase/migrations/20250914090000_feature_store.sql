@@ -0,0 +1,72 @@
+/*
+  # Feature Store Schema
+
+  1. New Tables
+    - `feature_vectors` (engineered prediction features per symbol and session)
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `date` (date) - session the features end on
+      - `schema_version` (integer) - definition the row was computed with
+      - `close_price` (numeric)
+      - `log_return` (numeric) - from the previous close
+      - `rsi` (numeric, 0-100) - 14 sessions
+      - `macd_histogram` (numeric) - MACD (12, 26) less its 9-session signal
+      - `sma20_gap` (numeric) - close over its 20-session average, minus one
+      - `atr` (numeric) - 14-session average true range
+      - `volatility` (numeric) - standard deviation of the last 10 log returns
+      - `volume_zscore` (numeric) - log volume against the last 20 sessions
+      - `sentiment` (numeric, -1 to 1, nullable) - mean `news_sentiment` score that day
+      - `computed_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `feature_vectors`
+    - Public read access, matching `historical_data`
+    - Service role writes vectors (the `market-data-processor` extends them after each
+      batch of ticks)
+
+  3. Notes
+    - Each vector depends only on the 60 daily bars ending on its date, so the
+      processor computes just the sessions after the latest stored one (recomputing
+      that one in case its bar was still forming)
+    - The prediction service trains and forecasts from these rows, so both read
+      identical inputs
+*/
+
+-- Create feature_vectors table
+CREATE TABLE IF NOT EXISTS feature_vectors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  schema_version integer NOT NULL DEFAULT 1,
+  close_price numeric NOT NULL CHECK (close_price > 0),
+  log_return numeric NOT NULL,
+  rsi numeric NOT NULL CHECK (rsi >= 0 AND rsi <= 100),
+  macd_histogram numeric NOT NULL,
+  sma20_gap numeric NOT NULL,
+  atr numeric NOT NULL CHECK (atr >= 0),
+  volatility numeric NOT NULL CHECK (volatility >= 0),
+  volume_zscore numeric NOT NULL,
+  sentiment numeric CHECK (sentiment >= -1 AND sentiment <= 1),
+  computed_at timestamptz DEFAULT now(),
+  UNIQUE(symbol_id, date)
+);
+
+-- Enable RLS
+ALTER TABLE feature_vectors ENABLE ROW LEVEL SECURITY;
+
+-- Feature vector policies
+CREATE POLICY "Public read access to feature vectors"
+  ON feature_vectors
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage feature vectors"
+  ON feature_vectors
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_feature_vectors_symbol_date
+  ON feature_vectors(symbol_id, date DESC);
\ No newline at end of file
@@ -0,0 +1,67 @@
+/*
+  # Historical Backfill Schema
+
+  1. New Tables
+    - `historical_period_bars` (weekly and monthly OHLCV bars per symbol)
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `period` (text: weekly, monthly)
+      - `date` (date) - last session of the period, as the provider reports it
+      - `open_price`, `high_price`, `low_price`, `close_price` (numeric)
+      - `volume` (bigint)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `historical_period_bars`
+    - Public read access, matching `historical_data`
+    - Service role writes period bars, and may now update `historical_data` so the
+      `historical-backfill` function can upsert on (symbol_id, date)
+
+  3. Notes
+    - Daily bars stay in `historical_data`, which the indicators and predictions read;
+      period bars live apart so those reads never mix granularities
+    - The backfill resumes from each symbol's latest stored date and refills trading
+      days missing against the exchange calendar
+*/
+
+-- Create historical_period_bars table
+CREATE TABLE IF NOT EXISTS historical_period_bars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  period text NOT NULL CHECK (period IN ('weekly', 'monthly')),
+  date date NOT NULL,
+  open_price numeric NOT NULL CHECK (open_price > 0),
+  high_price numeric NOT NULL CHECK (high_price > 0),
+  low_price numeric NOT NULL CHECK (low_price > 0),
+  close_price numeric NOT NULL CHECK (close_price > 0),
+  volume bigint DEFAULT 0 CHECK (volume >= 0),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(symbol_id, period, date)
+);
+
+-- Enable RLS
+ALTER TABLE historical_period_bars ENABLE ROW LEVEL SECURITY;
+
+-- Period bar policies
+CREATE POLICY "Public read access to historical period bars"
+  ON historical_period_bars
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage historical period bars"
+  ON historical_period_bars
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Backfill upserts rewrite the latest stored session
+CREATE POLICY "Service role can update historical data"
+  ON historical_data
+  FOR UPDATE
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_historical_period_bars_symbol_period_date
+  ON historical_period_bars(symbol_id, period, date DESC);
\ No newline at end of file
@@ -0,0 +1,59 @@
+/*
+  # Corporate Actions Schema
+
+  1. New Tables
+    - `corporate_actions` (splits and cash dividends per symbol)
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `action_type` (text: split, dividend)
+      - `ex_date` (date) - first session trading without the split or dividend
+      - `ratio` (numeric) - shares after a split per share before
+      - `amount` (numeric) - cash paid per share for a dividend
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `corporate_actions`
+    - Public read access, matching `historical_data`
+    - Service role manages the actions
+
+  3. Notes
+    - Stored prices stay as traded; charts and predictions scale the sessions before
+      each ex-date when they read them
+    - A split needs a positive ratio and a dividend a positive amount
+*/
+
+-- Create corporate_actions table
+CREATE TABLE IF NOT EXISTS corporate_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  action_type text NOT NULL CHECK (action_type IN ('split', 'dividend')),
+  ex_date date NOT NULL,
+  ratio numeric CHECK (ratio > 0),
+  amount numeric CHECK (amount > 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (action_type = 'split' AND ratio IS NOT NULL AND amount IS NULL) OR
+    (action_type = 'dividend' AND amount IS NOT NULL AND ratio IS NULL)
+  ),
+  UNIQUE(symbol_id, action_type, ex_date)
+);
+
+-- Enable RLS
+ALTER TABLE corporate_actions ENABLE ROW LEVEL SECURITY;
+
+-- Corporate action policies
+CREATE POLICY "Public read access to corporate actions"
+  ON corporate_actions
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage corporate actions"
+  ON corporate_actions
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_symbol_ex_date
+  ON corporate_actions(symbol_id, ex_date);
\ No newline at end of file
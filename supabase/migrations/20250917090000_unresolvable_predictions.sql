@@ -0,0 +1,25 @@
+/*
+  # Unresolvable Predictions
+
+  1. Modified Tables
+    - `ai_predictions`
+      - `unresolvable_at` (timestamptz, nullable) - when the resolver gave up on a
+        prediction whose bars never arrived
+
+  2. Indexes
+    - Pending predictions by target date, now excluding the unresolvable ones
+
+  3. Notes
+    - The `prediction-resolver` function reads the oldest pending predictions first;
+      without this flag a symbol with no stored history would hold its batch forever
+*/
+
+-- Track predictions that can never be resolved
+ALTER TABLE ai_predictions ADD COLUMN IF NOT EXISTS unresolvable_at timestamptz;
+
+-- Replace the pending index so it skips them
+DROP INDEX IF EXISTS idx_ai_predictions_unresolved;
+
+CREATE INDEX IF NOT EXISTS idx_ai_predictions_pending
+  ON ai_predictions(target_date)
+  WHERE actual_value IS NULL AND unresolvable_at IS NULL;
\ No newline at end of file
@@ -0,0 +1,45 @@
+/*
+  # Unfillable Historical Dates
+
+  1. New Tables
+    - `historical_unfillable_dates` (trading days the provider has no daily bar for)
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key to market_symbols)
+      - `date` (date) - session missing from the provider's series
+      - `recorded_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `historical_unfillable_dates`
+    - Public read access, matching `historical_data`
+    - Service role records the dates from the `historical-backfill` function
+
+  3. Notes
+    - A gap the provider's response should have covered stays a gap on every later
+      run; without recording it the backfill would refetch the full series each time
+      just to reach it
+*/
+
+-- Create historical_unfillable_dates table
+CREATE TABLE IF NOT EXISTS historical_unfillable_dates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES market_symbols(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  recorded_at timestamptz DEFAULT now(),
+  UNIQUE(symbol_id, date)
+);
+
+-- Enable RLS
+ALTER TABLE historical_unfillable_dates ENABLE ROW LEVEL SECURITY;
+
+-- Unfillable date policies
+CREATE POLICY "Public read access to historical unfillable dates"
+  ON historical_unfillable_dates
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage historical unfillable dates"
+  ON historical_unfillable_dates
+  FOR ALL
+  TO service_role
+  USING (true);
\ No newline at end of file
@@ -0,0 +1,26 @@
+/*
+  # Unique Market Data Ticks
+
+  1. Modified Tables
+    - `market_data`
+      - One tick per symbol and timestamp
+
+  2. Security
+    - No policy changes; imports already upsert through the service role
+
+  3. Notes
+    - The `market-data-import` function upserts on (symbol_id, timestamp), so importing
+      the same file again replaces its ticks instead of duplicating them
+    - Existing duplicates are removed first, keeping one row per symbol and timestamp
+*/
+
+-- Drop duplicate ticks so the constraint can be added
+DELETE FROM market_data a
+  USING market_data b
+  WHERE a.symbol_id = b.symbol_id
+    AND a.timestamp = b.timestamp
+    AND a.id < b.id;
+
+-- One tick per symbol and timestamp
+ALTER TABLE market_data
+  ADD CONSTRAINT market_data_symbol_id_timestamp_key UNIQUE (symbol_id, timestamp);
\ No newline at end of file
@@ -0,0 +1,20 @@
+/*
+  # Backtest Drawdown Bound
+
+  1. Modified Tables
+    - `backtest_results`
+      - `max_drawdown` keeps its lower bound of 0 but loses its upper bound of 1
+
+  2. Security
+    - No policy changes
+
+  3. Notes
+    - A short position can lose more than the starting capital, taking equity below
+      zero and the drawdown past 100%; such backtests are valid results to store
+*/
+
+-- Drawdowns over 100% are possible once equity goes negative
+ALTER TABLE backtest_results DROP CONSTRAINT IF EXISTS backtest_results_max_drawdown_check;
+
+ALTER TABLE backtest_results
+  ADD CONSTRAINT backtest_results_max_drawdown_check CHECK (max_drawdown >= 0);
\ No newline at end of file
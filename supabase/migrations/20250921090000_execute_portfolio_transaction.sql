@@ -0,0 +1,94 @@
+/*
+  # Atomic Portfolio Transactions
+
+  1. New Functions
+    - `execute_portfolio_transaction(portfolio_id, symbol_id, transaction_type, quantity,
+      price, fees)` - applies a buy or sell to the holding and logs the transaction in
+      one database transaction, returning the logged row
+
+  2. Security
+    - Runs as the caller, so the existing holding and transaction policies still limit
+      it to the caller's own portfolios
+
+  3. Notes
+    - The portfolio row is locked first, so trades in the same portfolio run one after
+      another even when the holding does not exist yet; the holding row is then locked
+      with SELECT ... FOR UPDATE before its quantity and average cost are read
+    - The accounting matches PortfolioCalculator.applyBuy and applySell: fees fold into
+      the average cost on buys and reduce the realized P&L on sells
+*/
+
+CREATE OR REPLACE FUNCTION execute_portfolio_transaction(
+  p_portfolio_id uuid,
+  p_symbol_id uuid,
+  p_transaction_type transaction_type,
+  p_quantity numeric,
+  p_price numeric,
+  p_fees numeric DEFAULT 0
+)
+RETURNS portfolio_transactions AS $$
+DECLARE
+  v_holding portfolio_holdings%ROWTYPE;
+  v_quantity numeric := 0;
+  v_average_cost numeric := 0;
+  v_realized_pnl numeric;
+  v_transaction portfolio_transactions%ROWTYPE;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Price must be positive';
+  END IF;
+  IF p_fees IS NULL OR p_fees < 0 THEN
+    RAISE EXCEPTION 'Fees cannot be negative';
+  END IF;
+
+  PERFORM 1 FROM user_portfolios WHERE id = p_portfolio_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Portfolio not found';
+  END IF;
+
+  SELECT * INTO v_holding
+    FROM portfolio_holdings
+    WHERE portfolio_id = p_portfolio_id AND symbol_id = p_symbol_id
+    FOR UPDATE;
+
+  IF FOUND THEN
+    v_quantity := v_holding.quantity;
+    v_average_cost := v_holding.average_cost;
+  END IF;
+
+  IF p_transaction_type = 'buy' THEN
+    v_average_cost := (v_quantity * v_average_cost + p_quantity * p_price + p_fees) / (v_quantity + p_quantity);
+    v_quantity := v_quantity + p_quantity;
+  ELSE
+    IF p_quantity > v_quantity + 1e-9 THEN
+      RAISE EXCEPTION 'Cannot sell % units, only % held', p_quantity, v_quantity;
+    END IF;
+    v_realized_pnl := (p_price - v_average_cost) * p_quantity - p_fees;
+    v_quantity := GREATEST(0, v_quantity - p_quantity);
+    IF v_quantity = 0 THEN
+      v_average_cost := 0;
+    END IF;
+  END IF;
+
+  IF v_quantity > 0 THEN
+    INSERT INTO portfolio_holdings (portfolio_id, symbol_id, quantity, average_cost, current_value, last_updated)
+      VALUES (p_portfolio_id, p_symbol_id, v_quantity, v_average_cost, v_quantity * p_price, now())
+      ON CONFLICT (portfolio_id, symbol_id) DO UPDATE
+        SET quantity = EXCLUDED.quantity,
+            average_cost = EXCLUDED.average_cost,
+            current_value = EXCLUDED.current_value,
+            last_updated = EXCLUDED.last_updated;
+  ELSIF v_holding.id IS NOT NULL THEN
+    DELETE FROM portfolio_holdings WHERE id = v_holding.id;
+  END IF;
+
+  INSERT INTO portfolio_transactions (portfolio_id, symbol_id, transaction_type, quantity, price, fees, realized_pnl)
+    VALUES (p_portfolio_id, p_symbol_id, p_transaction_type, p_quantity, p_price, p_fees, v_realized_pnl)
+    RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
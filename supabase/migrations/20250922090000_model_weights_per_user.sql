@@ -0,0 +1,58 @@
+/*
+  # Per-User Model Weights
+
+  1. Modified Tables
+    - `model_weights`
+      - `user_id` (uuid, nullable, foreign key to user_profiles) - who trained the weights;
+        NULL for shared weights written by the service role
+      - One set of weights per (symbol_id, model_version, granularity, user_id)
+
+  2. Security
+    - Drop "Authenticated users can save model weights" and "Authenticated users can
+      update model weights", which let any signed-in user overwrite the weights every
+      other user's forecasts load
+    - Users read their own weights and the shared ones
+    - Users save and update only their own weights; service role still manages all rows
+
+  3. Notes
+    - Existing rows were writable by anyone signed in and cannot be trusted, so they are
+      removed; forecasters retrain on the next forecast
+    - The browser prefers the user's own weights over the shared ones
+*/
+
+-- Weights written under the old policies
+DELETE FROM model_weights;
+
+ALTER TABLE model_weights
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE model_weights DROP CONSTRAINT IF EXISTS model_weights_symbol_model_granularity_key;
+ALTER TABLE model_weights ADD CONSTRAINT model_weights_symbol_model_granularity_user_key
+  UNIQUE NULLS NOT DISTINCT (symbol_id, model_version, granularity, user_id);
+
+-- Replace the shared write policies with per-user ones
+DROP POLICY IF EXISTS "Public read access to model weights" ON model_weights;
+DROP POLICY IF EXISTS "Authenticated users can save model weights" ON model_weights;
+DROP POLICY IF EXISTS "Authenticated users can update model weights" ON model_weights;
+
+CREATE POLICY "Users can read own and shared model weights"
+  ON model_weights
+  FOR SELECT
+  TO public
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can save own model weights"
+  ON model_weights
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own model weights"
+  ON model_weights
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_model_weights_user_id
+  ON model_weights(user_id);
\ No newline at end of file
@@ -0,0 +1,30 @@
+/*
+  # Pending Prediction Inserts
+
+  1. Security
+    - Replace "Authenticated users can store predictions", which accepted any row, with a
+      policy that only admits pending predictions:
+      - `actual_value`, `accuracy_score`, `resolved_at` and `unresolvable_at` must be
+        empty; only the prediction-resolver (service role) fills them
+      - `model_version` must name a registered model
+    - Covers the price ensemble and its members, volatility and trend forecasts, which
+      all store through this policy
+
+  2. Notes
+    - Without this a signed-in client could insert already-resolved rows and skew the
+      scorecards the ensemble weights and the model registry metrics are built from
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can store predictions" ON ai_predictions;
+
+CREATE POLICY "Authenticated users can store pending predictions"
+  ON ai_predictions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    actual_value IS NULL
+    AND accuracy_score IS NULL
+    AND resolved_at IS NULL
+    AND unresolvable_at IS NULL
+    AND model_version IN (SELECT model_version FROM model_registry)
+  );
\ No newline at end of file